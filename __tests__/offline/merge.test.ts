@@ -0,0 +1,146 @@
+import { mergeThreads, reconcileConversation, resolveThreadConflict } from '@/lib/offline/merge';
+import type { CachedConversation } from '@/lib/offline/types';
+import type { ChatMessage, ChatThread } from '@/lib/types';
+
+const msg = (id: string, ts: number, content = id): ChatMessage => ({
+  id,
+  role: 'user',
+  content,
+  ts,
+});
+
+const thread = (messages: ChatMessage[], extra: Partial<ChatThread> = {}): ChatThread => ({
+  id: 't1',
+  title: 'Chat',
+  messages,
+  createdAt: 0,
+  ...extra,
+});
+
+describe('mergeThreads', () => {
+  const base = thread([msg('a', 1), msg('b', 2)]);
+
+  it('merges appends made on one side only', () => {
+    const local = thread([...base.messages, msg('c', 3)]);
+    const remote = thread(base.messages, { title: 'Renamed' });
+    const { thread: merged, conflicts } = mergeThreads(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.title).toBe('Renamed');
+    expect(merged.messages.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not treat our own pushed messages as remote changes', () => {
+    const local = thread([...base.messages, msg('c', 3), msg('d', 4)]);
+    const remote = thread([...base.messages, msg('c', 3)]);
+    const { thread: merged, conflicts } = mergeThreads(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.messages.map((m) => m.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('flags prompts added after the same turn on both sides and interleaves them by time', () => {
+    const local = thread([...base.messages, msg('phone', 5)]);
+    const remote = thread([...base.messages, msg('laptop', 4)]);
+    const { thread: merged, conflicts } = mergeThreads(base, local, remote);
+    expect(conflicts).toEqual(['messages']);
+    expect(merged.messages.map((m) => m.id)).toEqual(['a', 'b', 'laptop', 'phone']);
+  });
+
+  it('merges appends on both sides silently when they do not overlap', () => {
+    const answer: ChatMessage = {
+      id: 'answer',
+      role: 'assistant',
+      content: 'a',
+      ts: 3,
+      parentId: 'b',
+    };
+    const local = thread([...base.messages, msg('next', 4)]);
+    const remote = thread([...base.messages, answer]);
+    const { thread: merged, conflicts } = mergeThreads(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.messages.map((m) => m.id)).toEqual(['a', 'b', 'answer', 'next']);
+  });
+
+  it('follows parent links to tell whether prompts overlap', () => {
+    const local = thread([...base.messages, { ...msg('c', 3), parentId: 'b' }]);
+    const remote = thread([...base.messages, { ...msg('edit', 4), parentId: 'a' }]);
+    expect(mergeThreads(base, local, remote).conflicts).toEqual([]);
+    const sibling = thread([...base.messages, { ...msg('other', 4), parentId: 'b' }]);
+    expect(mergeThreads(base, local, sibling).conflicts).toEqual(['messages']);
+  });
+
+  it('flags diverging titles and edits', () => {
+    const local = thread([msg('a', 1, 'mine'), msg('b', 2)], { title: 'Mine' });
+    const remote = thread([msg('a', 1, 'theirs'), msg('b', 2)], { title: 'Theirs' });
+    const { thread: merged, conflicts } = mergeThreads(base, local, remote);
+    expect(conflicts).toEqual(['title', 'edit']);
+    expect(merged.title).toBe('Mine');
+    expect(merged.messages[0].content).toBe('mine');
+  });
+});
+
+describe('reconcileConversation', () => {
+  const base = thread([msg('a', 1)], { updatedAt: 100 });
+  const pending = (local: ChatThread): CachedConversation => ({
+    id: 't1',
+    thread: local,
+    base,
+    lastModified: 0,
+    syncStatus: 'pending',
+  });
+
+  it('takes the server copy when nothing is pending', () => {
+    const remote = thread([msg('a', 1), msg('b', 2)], { updatedAt: 200 });
+    const next = reconcileConversation(null, remote, 1);
+    expect(next).toMatchObject({ syncStatus: 'synced', thread: remote, base: remote });
+  });
+
+  it('keeps local changes while the server has not moved', () => {
+    const cached = pending(thread([msg('a', 1), msg('b', 2)]));
+    expect(reconcileConversation(cached, base, 1)).toBe(cached);
+  });
+
+  it('marks the entry synced once the server has everything', () => {
+    const local = thread([msg('a', 1), msg('b', 2)]);
+    const remote = thread([msg('a', 1), msg('b', 2)], { updatedAt: 200 });
+    expect(reconcileConversation(pending(local), remote, 1).syncStatus).toBe('synced');
+  });
+
+  it('records a conflict when both sides appended', () => {
+    const remote = thread([msg('a', 1), msg('r', 3)], { updatedAt: 200 });
+    const next = reconcileConversation(pending(thread([msg('a', 1), msg('l', 2)])), remote, 7);
+    expect(next.syncStatus).toBe('conflict');
+    expect(next.conflict).toEqual({ remote, reasons: ['messages'], detectedAt: 7 });
+  });
+});
+
+describe('resolveThreadConflict', () => {
+  const base = thread([msg('a', 1)]);
+  const remote = thread([msg('a', 1), msg('r', 3)], { title: 'Server' });
+  const cached: CachedConversation = {
+    id: 't1',
+    thread: thread([msg('a', 1), msg('l', 2)], { title: 'Local' }),
+    base,
+    lastModified: 0,
+    syncStatus: 'conflict',
+    conflict: { remote, reasons: ['messages', 'title'], detectedAt: 0 },
+  };
+
+  it('keeping the server copy drops queued local changes', () => {
+    const out = resolveThreadConflict(cached, 'remote', 1);
+    expect(out.dropQueuedActions).toBe(true);
+    expect(out.conversation).toMatchObject({ syncStatus: 'synced', thread: remote });
+  });
+
+  it('keeping the local copy deletes server-only messages and pushes the title', () => {
+    const out = resolveThreadConflict(cached, 'local', 1);
+    expect(out.deleteMessageIds).toEqual(['r']);
+    expect(out.title).toBe('Local');
+    expect(out.conversation).toMatchObject({ syncStatus: 'pending', base: remote });
+  });
+
+  it('merging keeps messages from both sides', () => {
+    const out = resolveThreadConflict(cached, 'merge', 1);
+    expect(out.deleteMessageIds).toEqual([]);
+    expect(out.conversation.thread.messages.map((m) => m.id)).toEqual(['a', 'l', 'r']);
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  QUEUED_CONTENT,
+  historyUpToPrompt,
+  queuedPlaceholders,
+} from '@/lib/offline/pendingGenerations';
+import type { ChatMessage } from '@/lib/types';
+
+describe('queuedPlaceholders', () => {
+  it('creates one addressable placeholder per model', () => {
+    const { answers, placeholders } = queuedPlaceholders(['a', 'b'], 100);
+    expect(answers).toEqual([
+      { modelId: 'a', ts: 101 },
+      { modelId: 'b', ts: 102 },
+    ]);
+    expect(placeholders).toEqual([
+      { role: 'assistant', content: QUEUED_CONTENT, modelId: 'a', ts: 101 },
+      { role: 'assistant', content: QUEUED_CONTENT, modelId: 'b', ts: 102 },
+    ]);
+  });
+});
+
+describe('historyUpToPrompt', () => {
+  const earlier: ChatMessage = { role: 'user', content: 'first', id: 'u1', ts: 1 };
+  const answer: ChatMessage = { role: 'assistant', content: 'reply', modelId: 'a', ts: 2 };
+  const prompt: ChatMessage = { role: 'user', content: 'typed offline', id: 'u2', ts: 3 };
+
+  it('returns the conversation up to the prompt without queued placeholders', () => {
+    const { placeholders } = queuedPlaceholders(['a'], 3);
+    const history = historyUpToPrompt([earlier, answer, prompt, ...placeholders], prompt);
+    expect(history).toEqual([earlier, answer, prompt]);
+  });
+
+  it('matches prompts without an id by timestamp', () => {
+    const legacy = { role: 'user' as const, content: 'old', ts: 3 };
+    expect(historyUpToPrompt([earlier, legacy], legacy)).toEqual([earlier, legacy]);
+  });
+
+  it('returns null when the prompt is not on the path', () => {
+    expect(historyUpToPrompt([earlier, answer], prompt)).toBeNull();
+  });
+});
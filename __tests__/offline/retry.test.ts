@@ -0,0 +1,107 @@
+import {
+  MAX_RETRY_DELAY_MS,
+  backoffDelay,
+  classifySyncError,
+  hasQueuedDependency,
+  isAlreadyApplied,
+  nextRetryState,
+  retryAfterFrom,
+  toSyncResult,
+} from '@/lib/offline/retry';
+import type { OfflineQueueItem } from '@/lib/offline/types';
+
+describe('backoffDelay', () => {
+  it('doubles per retry with jitter in the upper half', () => {
+    expect(backoffDelay(1, { baseMs: 1000, random: () => 0 })).toBe(500);
+    expect(backoffDelay(1, { baseMs: 1000, random: () => 1 })).toBe(1000);
+    expect(backoffDelay(3, { baseMs: 1000, random: () => 1 })).toBe(4000);
+  });
+
+  it('is capped', () => {
+    expect(backoffDelay(30, { random: () => 1 })).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
+
+describe('classifySyncError', () => {
+  it('treats constraint, permission and client errors as permanent', () => {
+    expect(classifySyncError({ code: '23505', message: 'duplicate key' })).toBe('permanent');
+    expect(classifySyncError({ code: '42501', message: 'rls' })).toBe('permanent');
+    expect(classifySyncError({ status: 400 })).toBe('permanent');
+    expect(classifySyncError(new Error('User ID required for sync action'))).toBe('permanent');
+  });
+
+  it('treats network failures, timeouts, rate limits and 5xx as transient', () => {
+    expect(classifySyncError(new TypeError('Failed to fetch'))).toBe('transient');
+    expect(classifySyncError({ status: 429 })).toBe('transient');
+    expect(classifySyncError({ status: 408 })).toBe('transient');
+    expect(classifySyncError({ status: 503 })).toBe('transient');
+    expect(classifySyncError('weird')).toBe('transient');
+  });
+});
+
+describe('retryAfterFrom', () => {
+  it('reads seconds from a field or header', () => {
+    expect(retryAfterFrom({ retryAfter: 3 })).toBe(3000);
+    expect(retryAfterFrom({ headers: { get: () => '10' } })).toBe(10000);
+    expect(retryAfterFrom(new Error('x'))).toBeUndefined();
+  });
+});
+
+describe('nextRetryState', () => {
+  const item = { retryCount: 0, maxRetries: 3 };
+
+  it('schedules transient failures with backoff', () => {
+    const next = nextRetryState(item, toSyncResult(new Error('offline')), 1000, () => 1);
+    expect(next).toEqual({ retryCount: 1, status: 'pending', nextAttemptAt: 1000 + 2000 });
+  });
+
+  it('honors retryAfter from the sync result', () => {
+    const next = nextRetryState(item, { success: false, retryAfter: 60000 }, 0);
+    expect(next.nextAttemptAt).toBe(60000);
+  });
+
+  it('dead-letters permanent errors and exhausted retries', () => {
+    expect(nextRetryState(item, toSyncResult({ code: '23505' })).status).toBe('failed');
+    expect(
+      nextRetryState({ retryCount: 2, maxRetries: 3 }, toSyncResult(new Error('x'))).status,
+    ).toBe('failed');
+  });
+});
+
+describe('isAlreadyApplied', () => {
+  it('treats a duplicate message insert as done', () => {
+    expect(isAlreadyApplied({ type: 'SEND_MESSAGE' }, { code: '23505' })).toBe(true);
+    expect(isAlreadyApplied({ type: 'UPDATE_TITLE' }, { code: '23505' })).toBe(false);
+    expect(isAlreadyApplied({ type: 'SEND_MESSAGE' }, { code: '23503' })).toBe(false);
+  });
+});
+
+describe('hasQueuedDependency', () => {
+  const item = (id: string, extra: Partial<OfflineQueueItem> = {}): OfflineQueueItem => ({
+    id,
+    type: 'SEND_MESSAGE',
+    payload: {},
+    timestamp: 2,
+    retryCount: 0,
+    maxRetries: 3,
+    threadId: 't',
+    status: 'pending',
+    ...extra,
+  });
+  const message = item('message');
+
+  it('finds an earlier action for the same thread', () => {
+    const create = item('create', { type: 'CREATE_THREAD', timestamp: 1 });
+    expect(hasQueuedDependency(message, [create, message])).toBe(true);
+    expect(hasQueuedDependency(message, [{ ...create, status: 'completed' }, message])).toBe(false);
+    expect(hasQueuedDependency(message, [{ ...create, threadId: 'other' }, message])).toBe(false);
+    expect(hasQueuedDependency(message, [{ ...create, timestamp: 3 }, message])).toBe(false);
+  });
+
+  it('keeps foreign key violations pending while the dependency is queued', () => {
+    const waiting = toSyncResult({ code: '23503' }, { dependencyQueued: true });
+    expect(waiting.errorKind).toBe('transient');
+    expect(nextRetryState({ retryCount: 0, maxRetries: 3 }, waiting).status).toBe('pending');
+    expect(toSyncResult({ code: '23503' }).errorKind).toBe('permanent');
+  });
+});
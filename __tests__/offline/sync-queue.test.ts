@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+
+import { offlineManager } from '@/lib/offline/manager';
+import { addMessage, createThread } from '@/lib/db';
+import type { OfflineQueueItem } from '@/lib/offline/types';
+
+const queue = new Map<string, OfflineQueueItem>();
+
+jest.mock('@/lib/offline/storage', () => ({
+  offlineStorage: {
+    getQueuedActions: async () => [...queue.values()].map((item) => ({ ...item })),
+    updateQueueItem: async (item: OfflineQueueItem) => {
+      queue.set(item.id, { ...item });
+    },
+    removeFromQueue: async (id: string) => {
+      queue.delete(id);
+    },
+    getAllConversations: async () => [],
+  },
+}));
+jest.mock('@/lib/db', () => ({
+  addMessage: jest.fn(),
+  createThread: jest.fn(),
+  deleteThread: jest.fn(),
+  deleteMessages: jest.fn(),
+  updateThreadTitle: jest.fn(),
+}));
+
+const mockAddMessage = addMessage as jest.MockedFunction<typeof addMessage>;
+const mockCreateThread = createThread as jest.MockedFunction<typeof createThread>;
+
+const enqueue = (id: string, type: OfflineQueueItem['type'], timestamp: number) =>
+  queue.set(id, {
+    id,
+    type,
+    payload: { chatId: 't', message: { role: 'user', content: 'hi', id: 'm' } },
+    timestamp,
+    retryCount: 0,
+    maxRetries: 3,
+    threadId: 't',
+    userId: 'u',
+    status: 'pending',
+  });
+
+describe('syncQueuedActions', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    queue.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds back a message while its thread is waiting to be created', async () => {
+    enqueue('create', 'CREATE_THREAD', 1);
+    enqueue('message', 'SEND_MESSAGE', 2);
+    mockCreateThread.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await offlineManager.syncQueuedActions();
+
+    expect(mockAddMessage).not.toHaveBeenCalled();
+    expect(queue.get('create')).toMatchObject({ status: 'pending', retryCount: 1 });
+    expect(queue.get('message')).toMatchObject({ status: 'pending', retryCount: 0 });
+  });
+
+  it('retries a foreign key violation while the thread is still queued', async () => {
+    enqueue('create', 'CREATE_THREAD', 1);
+    enqueue('message', 'SEND_MESSAGE', 2);
+    queue.set('create', { ...queue.get('create')!, status: 'failed' });
+    mockAddMessage.mockRejectedValueOnce({ code: '23503', message: 'fk' });
+
+    await offlineManager.syncQueuedActions();
+
+    expect(queue.get('message')).toMatchObject({ status: 'pending', errorKind: 'transient' });
+  });
+
+  it('counts a message that was already written as sent', async () => {
+    enqueue('message', 'SEND_MESSAGE', 1);
+    mockAddMessage.mockRejectedValueOnce({ code: '23505', message: 'duplicate key' });
+
+    await offlineManager.syncQueuedActions();
+
+    expect(queue.has('message')).toBe(false);
+  });
+});
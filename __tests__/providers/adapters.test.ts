@@ -0,0 +1,216 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { PROVIDER_ADAPTERS, getProviderAdapter, toProviderResult } from '@/lib/providers';
+import type { AiModel } from '@/lib/types';
+import { TextDecoder } from 'util';
+
+// jsdom does not provide TextDecoder, which the SSE reader in lib/client.ts needs
+Object.assign(global, { TextDecoder });
+
+describe('provider registry', () => {
+  it('has an adapter for every provider', () => {
+    const ids: AiModel['provider'][] = [
+      'gemini',
+      'openrouter',
+      'open-provider',
+      'unstable',
+      'mistral',
+      'ollama',
+      'openai-compatible',
+    ];
+    ids.forEach((id) => expect(getProviderAdapter(id).id).toBe(id));
+  });
+
+  it('only declares stream/validate when the capability is set', () => {
+    Object.values(PROVIDER_ADAPTERS).forEach((adapter) => {
+      expect(typeof adapter.stream === 'function').toBe(adapter.capabilities.streaming);
+      expect(typeof adapter.validate === 'function').toBe(adapter.capabilities.validation);
+    });
+  });
+
+  it('falls back to OpenRouter for unknown providers', () => {
+    expect(getProviderAdapter('unknown' as AiModel['provider']).id).toBe('openrouter');
+  });
+});
+
+describe('toProviderResult', () => {
+  it('prefers text over error and keeps metadata', () => {
+    const res = toProviderResult({
+      text: ' Rate limited ',
+      error: 'raw upstream error',
+      code: 429,
+      provider: 'gemini',
+      usedKeyType: 'shared',
+    });
+    expect(res).toMatchObject({
+      text: 'Rate limited',
+      error: 'raw upstream error',
+      code: 429,
+      provider: 'gemini',
+      usedKeyType: 'shared',
+    });
+  });
+
+  it('uses the error as text when there is no text', () => {
+    expect(toProviderResult({ error: 'Unstable API error: 500' }, 'unstable')).toMatchObject({
+      text: 'Unstable API error: 500',
+      provider: 'unstable',
+    });
+  });
+
+  it('folds open-provider key types into shared', () => {
+    expect(toProviderResult({ text: 'hi', usedKeyType: 'shared-backup' }).usedKeyType).toBe(
+      'shared',
+    );
+  });
+
+  it('handles non-object responses', () => {
+    expect(toProviderResult(null, 'ollama')).toEqual({ text: '', provider: 'ollama' });
+  });
+});
+
+describe('non-streaming calls', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it.each(['gemini', 'openrouter'] as const)(
+    'passes the abort signal to fetch instead of the %s request body',
+    async (provider) => {
+      const fetchMock = jest.fn().mockResolvedValue({ json: async () => ({ text: 'hi' }) });
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const signal = new AbortController().signal;
+
+      await getProviderAdapter(provider).call({
+        model: { id: 'm', label: 'M', provider, model: 'm' },
+        keys: {},
+        messages: [{ role: 'user', content: 'hi' }],
+        signal,
+      });
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init.signal).toBe(signal);
+      expect(JSON.parse(init.body)).not.toHaveProperty('signal');
+    },
+  );
+});
+
+describe('streaming adapters', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  // Minimal fetch Response whose body yields the given SSE frames
+  const sseResponse = (frames: string[]) => {
+    const chunks = frames.map((f) => new Uint8Array(Buffer.from(f)));
+    return {
+      body: {
+        getReader: () => ({
+          read: async () =>
+            chunks.length
+              ? { value: chunks.shift(), done: false }
+              : { value: undefined, done: true },
+        }),
+      },
+    };
+  };
+
+  it('streams Gemini Pro deltas from its dedicated endpoint', async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"provider":"gemini","usedKeyType":"user"}\n\n',
+          'data: {"delta":"Hel"}\n\ndata: {"del',
+          'ta":"lo"}\n\n',
+          'data: {"usage":{"promptTokens":3,"completionTokens":2}}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const tokens: string[] = [];
+    const onMeta = jest.fn();
+    const onUsage = jest.fn();
+    const onDone = jest.fn();
+    await getProviderAdapter('gemini').stream!(
+      {
+        model: {
+          id: 'gemini-2.5-pro',
+          label: 'Gemini 2.5 Pro',
+          provider: 'gemini',
+          model: 'gemini-2.5-pro',
+        },
+        keys: { gemini: 'k' },
+        messages: [{ role: 'user', content: 'hi' }],
+      },
+      { onToken: (t) => tokens.push(t), onMeta, onUsage, onDone },
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/gemini-pro/stream');
+    expect(tokens.join('')).toBe('Hello');
+    expect(onMeta).toHaveBeenCalledWith(expect.objectContaining({ usedKeyType: 'user' }));
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 3, completionTokens: 2 });
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports stream errors through onError', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"provider":"mistral","error":"Mistral API error: 401","code":401}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      ) as unknown as typeof fetch;
+
+    const onError = jest.fn();
+    await getProviderAdapter('mistral').stream!(
+      {
+        model: {
+          id: 'mistral-small',
+          label: 'Mistral Small',
+          provider: 'mistral',
+          model: 'mistral-small-latest',
+        },
+        keys: {},
+        messages: [{ role: 'user', content: 'hi' }],
+      },
+      { onToken: () => {}, onError },
+    );
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 401 }));
+  });
+
+  it('keeps open-provider image models on the non-streaming route', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      json: async () => ({ text: '![Generated Image](https://example.com/i.png)' }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const tokens: string[] = [];
+    await getProviderAdapter('open-provider').stream!(
+      {
+        model: {
+          id: 'flux',
+          label: 'Flux',
+          provider: 'open-provider',
+          model: 'flux',
+          category: 'image',
+        },
+        keys: {},
+        messages: [{ role: 'user', content: 'a cat' }],
+      },
+      { onToken: (t) => tokens.push(t) },
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/open-provider');
+    expect(tokens).toEqual(['![Generated Image](https://example.com/i.png)']);
+  });
+});
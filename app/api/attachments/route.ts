@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { MAX_DOCUMENT_BYTES, MAX_DOCUMENT_CHARS, MAX_LIBRARY_CHARS } from '@/lib/documents';
+import { decodeDataUrl, detectMime, extractDocumentText } from '@/lib/server/documents';
+
+export const runtime = 'nodejs';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Extracts the text of an attached document once, when it is attached, so the message can keep it
+// in history instead of re-sending the file with every request
+export async function POST(req: NextRequest) {
+  try {
+    const { dataUrl, mime: mimeFromBody, name, maxChars } = await req.json();
+    if (typeof dataUrl !== 'string') return json({ error: 'Missing dataUrl' }, 400);
+    const { mime, buf } = decodeDataUrl(dataUrl);
+    if (!buf || buf.length === 0) return json({ error: 'Empty file' }, 400);
+    if (buf.length > MAX_DOCUMENT_BYTES) return json({ error: 'File is larger than 10 MB' }, 413);
+    const detected = detectMime(mime || String(mimeFromBody || ''), buf);
+    const out = await extractDocumentText(detected, buf, {
+      name: typeof name === 'string' ? name : undefined,
+      maxChars:
+        typeof maxChars === 'number' && maxChars > 0
+          ? Math.min(maxChars, MAX_LIBRARY_CHARS)
+          : MAX_DOCUMENT_CHARS,
+    });
+    if (!out) return json({ error: `Unsupported file type: ${detected || 'unknown'}` }, 415);
+    return json({ text: out.text, truncated: out.truncated, pages: out.pages, mime: detected });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Extraction failed';
+    return json({ error: message }, 422);
+  }
+}
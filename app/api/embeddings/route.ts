@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const MAX_TEXTS = 100;
+
+async function geminiEmbeddings(apiKey: string, texts: string[]): Promise<number[][]> {
+  const model = 'models/text-embedding-004';
+  const resp = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-goog-api-key': apiKey },
+      body: JSON.stringify({
+        requests: texts.map((text) => ({ model, content: { parts: [{ text }] } })),
+      }),
+    },
+  );
+  const data = await resp.json().catch(() => ({}));
+  if (!resp.ok) throw new Error(data?.error?.message || `Gemini embeddings error ${resp.status}`);
+  return (data.embeddings ?? []).map((e: { values?: number[] }) => e.values ?? []);
+}
+
+async function mistralEmbeddings(apiKey: string, texts: string[]): Promise<number[][]> {
+  const resp = await fetch('https://api.mistral.ai/v1/embeddings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ model: 'mistral-embed', input: texts }),
+  });
+  const data = await resp.json().catch(() => ({}));
+  if (!resp.ok) {
+    throw new Error(
+      data?.message || data?.error?.message || `Mistral embeddings error ${resp.status}`,
+    );
+  }
+  return (data.data ?? [])
+    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+    .map((d: { embedding?: number[] }) => d.embedding ?? []);
+}
+
+// Embeds project document chunks and queries with a provider model (see lib/rag/embeddings.ts)
+export async function POST(req: NextRequest) {
+  try {
+    const { provider, apiKey: apiKeyFromBody, texts } = await req.json();
+    if (!Array.isArray(texts) || texts.some((t) => typeof t !== 'string')) {
+      return json({ error: 'texts must be an array of strings' }, 400);
+    }
+    if (texts.length === 0) return json({ vectors: [] });
+    if (texts.length > MAX_TEXTS) {
+      return json({ error: `At most ${MAX_TEXTS} texts per request` }, 400);
+    }
+
+    if (provider === 'gemini') {
+      const apiKey = apiKeyFromBody || process.env.GEMINI_API_KEY;
+      if (!apiKey) return json({ error: 'Missing Gemini API key' }, 400);
+      return json({ vectors: await geminiEmbeddings(apiKey, texts) });
+    }
+    if (provider === 'mistral') {
+      const apiKey = apiKeyFromBody || process.env.MISTRAL_API_KEY;
+      if (!apiKey) return json({ error: 'Missing Mistral API key' }, 400);
+      return json({ vectors: await mistralEmbeddings(apiKey, texts) });
+    }
+    return json({ error: `Unsupported embeddings provider: ${String(provider)}` }, 400);
+  } catch (e) {
+    return json({ error: e instanceof Error ? e.message : 'Embedding failed' }, 502);
+  }
+}
@@ -0,0 +1,6 @@
+import { createGeminiStreamHandler } from '@/lib/server/gemini';
+
+export const runtime = 'edge';
+
+// Dedicated streaming endpoint for Gemini 2.5 Pro
+export const POST = createGeminiStreamHandler('gemini-2.5-pro');
@@ -1,8 +1,19 @@
 import { NextRequest } from 'next/server';
+import { geminiGenerationConfig } from '@/lib/server/generationParams';
+import { geminiUsage } from '@/lib/server/usage';
+import { withDocumentAttachment } from '@/lib/server/documents';
+import { toGeminiBody } from '@/lib/server/gemini';
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl } = await req.json();
+    type InMsg = { role?: unknown; content?: unknown };
+    const body = await req.json();
+    const { model, apiKey: apiKeyFromBody, params } = body;
+    // Gemini only takes images inline; documents are extracted into the prompt text
+    const { messages, imageDataUrl } = await withDocumentAttachment(
+      Array.isArray(body.messages) ? (body.messages as InMsg[]) : [],
+      body.imageDataUrl,
+    );
     const apiKey = apiKeyFromBody || process.env.GEMINI_API_KEY;
     const usedKeyType = apiKeyFromBody ? 'user' : process.env.GEMINI_API_KEY ? 'shared' : 'none';
     if (!apiKey)
@@ -11,63 +22,6 @@ export async function POST(req: NextRequest) {
     const requested = typeof model === 'string' ? model : 'gemini-2.5-flash';
     const geminiModel = allowed.has(requested) ? requested : 'gemini-2.5-flash';
 
-    // Convert OpenAI-style messages to Gemini contents
-    // Gemini expects: { contents: [{ role, parts: [{ text }] }, ...] }
-    type InMsg = { role?: unknown; content?: unknown };
-    type GeminiPart = { text?: string; inline_data?: { mime_type: string; data: string } };
-    type GeminiContent = { role: 'user' | 'model' | 'system'; parts: GeminiPart[] };
-
-    const toRole = (r: unknown): 'user' | 'model' | 'system' => {
-      const role = typeof r === 'string' ? r : '';
-      if (role === 'assistant') return 'model';
-      if (role === 'user' || role === 'system') return role;
-      return 'user';
-    };
-
-    let contents: GeminiContent[] = (Array.isArray(messages) ? (messages as InMsg[]) : []).map(
-      (m) => ({
-        role: toRole(m.role),
-        parts: [{ text: typeof m?.content === 'string' ? m.content : String(m?.content ?? '') }],
-      }),
-    );
-
-    // Extract a system prompt (from project custom prompt) into systemInstruction
-    const systemParts: GeminiPart[] = [];
-    contents = contents.filter((c) => {
-      if (c.role === 'system') {
-        for (const p of c.parts) {
-          if (typeof p?.text === 'string' && p.text.trim()) {
-            systemParts.push({ text: p.text });
-          }
-        }
-        return false; // remove from contents
-      }
-      return true;
-    });
-
-    // If a data URL is provided, attach it to the last user message ONLY if it's an image.
-    // For unsupported types (e.g., docx/pdf), add a small text note and omit binary data.
-    if (imageDataUrl && contents.length > 0) {
-      for (let i = contents.length - 1; i >= 0; i--) {
-        if (contents[i].role === 'user') {
-          try {
-            const [meta, base64] = String(imageDataUrl).split(',');
-            const mt = /data:(.*?);base64/.exec(meta || '')?.[1] || '';
-            if (/^image\//i.test(mt)) {
-              contents[i].parts.push({
-                inline_data: { mime_type: mt || 'image/png', data: base64 },
-              });
-            } else {
-              contents[i].parts.push({
-                text: `(Attachment omitted: ${mt || 'unknown type'} unsupported by Gemini)`,
-              });
-            }
-          } catch {}
-          break;
-        }
-      }
-    }
-
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(geminiModel)}:generateContent`;
     const resp = await fetch(url, {
       method: 'POST',
@@ -76,17 +30,11 @@ export async function POST(req: NextRequest) {
         'X-goog-api-key': apiKey,
       },
       body: JSON.stringify({
-        // Ensure there is at least one user message; Gemini requires user/model roles in contents
-        contents:
-          contents.length > 0
-            ? contents
-            : [{ role: 'user', parts: [{ text: 'Please respond to the instruction.' }] }],
-        ...(systemParts.length > 0 ? { systemInstruction: { parts: systemParts } } : {}),
+        ...toGeminiBody(messages, imageDataUrl),
         generationConfig: {
           response_mime_type: 'text/plain',
-          // Encourage non-empty responses
-          maxOutputTokens: 2048,
-          temperature: 0.7,
+          // Encourage non-empty responses; user-set generation params override these
+          ...geminiGenerationConfig(params, { maxTokens: 2048, temperature: 0.7 }),
         },
       }),
     });
@@ -214,6 +162,7 @@ export async function POST(req: NextRequest) {
       raw: data,
       provider: 'gemini',
       usedKeyType,
+      usage: geminiUsage(data),
       tokens: {
         by: 'messages',
         total,
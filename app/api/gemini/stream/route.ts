@@ -0,0 +1,5 @@
+import { createGeminiStreamHandler } from '@/lib/server/gemini';
+
+export const runtime = 'edge';
+
+export const POST = createGeminiStreamHandler();
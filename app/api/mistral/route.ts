@@ -1,4 +1,7 @@
 import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { openAIUsage } from '@/lib/server/usage';
+import { withDocumentAttachment } from '@/lib/server/documents';
 
 // Token estimation helper (simplified)
 function estimateTokens(text: string): number {
@@ -7,7 +10,7 @@ function estimateTokens(text: string): number {
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl } = await req.json();
+    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl, params } = await req.json();
 
     // Use the provided API key or fallback to environment variable
     const apiKey = apiKeyFromBody || process.env.MISTRAL_API_KEY;
@@ -50,10 +53,13 @@ export async function POST(req: NextRequest) {
       trimmedMessages.push({ role: 'user', content: 'Hello' });
     }
 
-    // Handle image attachment if provided (for multimodal models like Pixtral)
-    const processedMessages = trimmedMessages;
-    if (imageDataUrl && trimmedMessages.length > 0) {
-      const lastMessage = trimmedMessages[trimmedMessages.length - 1];
+    // Documents are extracted into the last user message; images are only noted
+    const { messages: processedMessages, imageDataUrl: image } = await withDocumentAttachment(
+      trimmedMessages,
+      imageDataUrl,
+    );
+    if (image && processedMessages.length > 0) {
+      const lastMessage = processedMessages[processedMessages.length - 1];
       if (lastMessage.role === 'user') {
         // For Pixtral models that support vision
         if (model.includes('pixtral')) {
@@ -76,8 +82,7 @@ export async function POST(req: NextRequest) {
     const requestBody = {
       model: model,
       messages: processedMessages,
-      max_tokens: 2048,
-      temperature: 0.7,
+      ...openAISamplingParams(params, { maxTokens: 2048, temperature: 0.7 }),
       stream: false,
     };
 
@@ -144,6 +149,7 @@ export async function POST(req: NextRequest) {
       provider: 'mistral',
       usedKeyType,
       tokens: tokensPayload,
+      usage: openAIUsage(data),
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { idleTimeout, parseOpenAIChunk, relayUpstream, sseErrorResponse } from '@/lib/server/sse';
+
+export const runtime = 'edge';
+
+export async function POST(req: NextRequest) {
+  const meta = { provider: 'mistral', usedKeyType: 'none' };
+  try {
+    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl, params } = await req.json();
+    const apiKey = apiKeyFromBody || process.env.MISTRAL_API_KEY;
+    meta.usedKeyType = apiKeyFromBody ? 'user' : process.env.MISTRAL_API_KEY ? 'shared' : 'none';
+
+    if (!apiKey) return sseErrorResponse({ ...meta, error: 'Missing Mistral API key', code: 400 });
+    if (!model) return sseErrorResponse({ ...meta, error: 'Missing model id', code: 400 });
+
+    type InMsg = { role?: unknown; content?: unknown };
+    type OutMsg = { role: 'user' | 'assistant' | 'system'; content: string };
+    const sanitized = (Array.isArray(messages) ? (messages as unknown[]) : [])
+      .filter((m): m is InMsg => typeof m === 'object' && m !== null)
+      .map((m): OutMsg | null => {
+        const role =
+          typeof m.role === 'string' && ['user', 'assistant', 'system'].includes(m.role)
+            ? (m.role as OutMsg['role'])
+            : 'user';
+        const content = typeof m.content === 'string' ? m.content : '';
+        return content ? { role, content } : null;
+      })
+      .filter((m): m is OutMsg => m !== null);
+
+    // Keep last 10 messages, same as the non-streaming route
+    const trimmed = sanitized.length > 10 ? sanitized.slice(-10) : sanitized;
+    if (trimmed.length === 0) trimmed.push({ role: 'user', content: 'Hello' });
+
+    const last = trimmed[trimmed.length - 1];
+    if (imageDataUrl && last.role === 'user') {
+      last.content += String(model).includes('pixtral')
+        ? '\n\n[Image attached - supported by Pixtral models]'
+        : '\n\n[Image attached - processing capabilities depend on the selected model]';
+    }
+
+    const timeoutMs = 120000;
+    const aborter = new AbortController();
+    const idle = idleTimeout(aborter, timeoutMs);
+    const upstream = await fetch('https://api.mistral.ai/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${apiKey}`,
+        'User-Agent': 'Open-Fiesta/1.0',
+      },
+      body: JSON.stringify({
+        model,
+        messages: trimmed,
+        ...openAISamplingParams(params, { maxTokens: 2048, temperature: 0.7 }),
+        stream: true,
+      }),
+      signal: aborter.signal,
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      idle.clear();
+      const errorText = await upstream.text().catch(() => '');
+      return sseErrorResponse({
+        ...meta,
+        error: `Mistral API error: ${upstream.status} ${upstream.statusText}${errorText ? ` - ${errorText}` : ''}`,
+        code: upstream.status || 500,
+      });
+    }
+
+    return relayUpstream(upstream.body, {
+      format: 'sse',
+      meta,
+      timeoutMs,
+      aborter,
+      idle,
+      parse: parseOpenAIChunk,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    return sseErrorResponse({ ...meta, error: `Mistral provider error: ${message}`, code: 500 });
+  }
+}
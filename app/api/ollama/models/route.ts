@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseOllamaTags } from '@/lib/ollama';
+import { ollamaBaseUrl } from '@/lib/server/ollama';
+
+export const runtime = 'nodejs';
+
+const TIMEOUT_MS = 15000;
+
+async function ollamaFetch(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, cache: 'no-store', signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function connectionError(e: unknown) {
+  const timedOut = (e as Error)?.name === 'AbortError';
+  return NextResponse.json(
+    {
+      error: timedOut
+        ? 'Connection timeout - Ollama instance not responding'
+        : 'Cannot connect to Ollama instance',
+      details: e instanceof Error ? e.message : undefined,
+    },
+    { status: timedOut ? 504 : 502 },
+  );
+}
+
+// Installed models with their size and quantization (Ollama's /api/tags)
+export async function POST(req: NextRequest) {
+  const { baseUrl } = await req.json().catch(() => ({}));
+  let res: Response;
+  try {
+    res = await ollamaFetch(`${ollamaBaseUrl(baseUrl)}/api/tags`, { method: 'GET' });
+  } catch (e) {
+    return connectionError(e);
+  }
+  if (!res.ok) {
+    const details = await res.text().catch(() => '');
+    return NextResponse.json(
+      { error: `Ollama error ${res.status}`, details: details.slice(0, 200) },
+      { status: 502 },
+    );
+  }
+  const data = await res.json().catch(() => null);
+  if (!data)
+    return NextResponse.json({ error: 'Invalid JSON response from Ollama API' }, { status: 502 });
+  return NextResponse.json({ models: parseOllamaTags(data) });
+}
+
+// Remove an installed model (Ollama's /api/delete)
+export async function DELETE(req: NextRequest) {
+  const { baseUrl, name } = await req.json().catch(() => ({}));
+  if (!name || typeof name !== 'string') {
+    return NextResponse.json({ error: 'Missing model name' }, { status: 400 });
+  }
+  let res: Response;
+  try {
+    res = await ollamaFetch(`${ollamaBaseUrl(baseUrl)}/api/delete`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: name }),
+    });
+  } catch (e) {
+    return connectionError(e);
+  }
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    return NextResponse.json(
+      { error: data?.error || `Ollama error ${res.status}` },
+      { status: res.status === 404 ? 404 : 502 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ollamaBaseUrl } from '@/lib/server/ollama';
+
+export const runtime = 'nodejs';
+
+// Download a model into the Ollama instance. Ollama's progress lines (NDJSON) are passed
+// through as they arrive; aborting the request cancels the download.
+export async function POST(req: NextRequest) {
+  const { baseUrl, name } = await req.json().catch(() => ({}));
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json({ error: 'Missing model name' }, { status: 400 });
+  }
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${ollamaBaseUrl(baseUrl)}/api/pull`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: name.trim(), stream: true }),
+      signal: req.signal,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      {
+        error: 'Cannot connect to Ollama instance',
+        details: e instanceof Error ? e.message : undefined,
+      },
+      { status: 502 },
+    );
+  }
+  if (!upstream.ok || !upstream.body) {
+    const data = await upstream.json().catch(() => null);
+    return NextResponse.json(
+      { error: data?.error || `Ollama error ${upstream.status}` },
+      { status: 502 },
+    );
+  }
+  return new Response(upstream.body, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
@@ -1,10 +1,16 @@
 import { NextRequest } from 'next/server';
+import { ollamaOptions } from '@/lib/server/generationParams';
+import { ollamaUsage } from '@/lib/server/usage';
 
 export const runtime = 'nodejs';
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, model, baseUrl, models } = await req.json();
+    const body = await req.json();
+    const { model, baseUrl, models, params } = body;
+    const messages: { role: string; content: string }[] = Array.isArray(body.messages)
+      ? body.messages
+      : [];
     // For Ollama, we get the base URL from the request body (user settings) or environment or default to localhost
     const ollamaUrl = baseUrl || process.env.OLLAMA_URL || 'http://localhost:11434';
 
@@ -29,7 +35,8 @@ export async function POST(req: NextRequest) {
         const requestBody = {
           model: mdl,
           messages: ollamaMessages,
-          stream: false
+          stream: false,
+          options: ollamaOptions(params)
         };
 
         const controller = new AbortController();
@@ -75,7 +82,7 @@ export async function POST(req: NextRequest) {
             text = 'No response from Ollama';
           }
 
-          return { model: mdl, text, raw: data };
+          return { model: mdl, text, raw: data, usage: ollamaUsage(data) };
         } catch (e: unknown) {
           const err = e as Error;
           if (err?.name === 'AbortError') {
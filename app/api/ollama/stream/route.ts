@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { ollamaOptions } from '@/lib/server/generationParams';
+import { idleTimeout, relayUpstream, sseErrorResponse } from '@/lib/server/sse';
+import { ollamaUsage } from '@/lib/server/usage';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  const meta = { provider: 'ollama', usedKeyType: 'none' };
+  try {
+    const { messages, model, baseUrl, params } = await req.json();
+    const ollamaUrl = baseUrl || process.env.OLLAMA_URL || 'http://localhost:11434';
+    if (!model) return sseErrorResponse({ ...meta, error: 'Missing model id', code: 400 });
+
+    const ollamaMessages = (Array.isArray(messages) ? messages : []).map(
+      (msg: { role: string; content: string }) => ({ role: msg.role, content: msg.content }),
+    );
+
+    const timeoutMs = 180000; // 3 minutes, same as the non-streaming route
+    const aborter = new AbortController();
+    const idle = idleTimeout(aborter, timeoutMs);
+    let upstream: Response;
+    try {
+      upstream = await fetch(`${ollamaUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: ollamaMessages,
+          stream: true,
+          options: ollamaOptions(params),
+        }),
+        signal: aborter.signal,
+      });
+    } catch (e: unknown) {
+      idle.clear();
+      const err = e as Error;
+      if (err?.name === 'AbortError') {
+        return sseErrorResponse({ ...meta, error: 'Ollama request timed out', code: 504 });
+      }
+      return sseErrorResponse({ ...meta, error: err?.message || 'Unknown error', code: 500 });
+    }
+
+    if (!upstream.ok || !upstream.body) {
+      idle.clear();
+      const errorText = await upstream.text().catch(() => '');
+      if (process.env.DEBUG_OLLAMA === '1')
+        console.log(`Ollama error response for ${model}:`, errorText);
+      return sseErrorResponse({
+        ...meta,
+        error: `Ollama API error: ${upstream.status} ${upstream.statusText}`,
+        code: upstream.status,
+      });
+    }
+
+    // Ollama streams NDJSON: { message: { content }, done } per line, or { error } on failure
+    return relayUpstream(upstream.body, {
+      format: 'ndjson',
+      meta,
+      timeoutMs,
+      aborter,
+      idle,
+      parse: (json) => {
+        const d = json as {
+          message?: { content?: unknown };
+          response?: unknown;
+          error?: unknown;
+          done?: unknown;
+        };
+        const content = d?.message?.content ?? d?.response;
+        return {
+          delta: typeof content === 'string' ? content : '',
+          error: typeof d?.error === 'string' ? { message: d.error } : undefined,
+          usage: d?.done === true ? ollamaUsage(d) : undefined,
+          done: d?.done === true,
+        };
+      },
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    return sseErrorResponse({ ...meta, error: message, code: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { openAIUsage } from '@/lib/server/usage';
 import { Buffer } from 'node:buffer';
+import { withDocumentAttachment } from '@/lib/server/documents';
 
 // Simple token estimator (approximate): ~4 characters per token
 function estimateTokens(text: string): number {
@@ -61,7 +64,8 @@ function getTTSPrefix(text: string): string {
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl, voice } = await req.json();
+    const { messages, model, apiKey: apiKeyFromBody, imageDataUrl, voice, params } =
+      await req.json();
     // Use the provided token or fallback to environment variables or default token
     const apiKey =
       apiKeyFromBody ||
@@ -95,9 +99,12 @@ export async function POST(req: NextRequest) {
 
     const sanitizedMessages = sanitize((messages as unknown[]) || []);
 
-    // Keep last 8 messages to avoid overly long histories
-    const trimmedMessages =
-      sanitizedMessages.length > 8 ? sanitizedMessages.slice(-8) : sanitizedMessages;
+    // Keep last 8 messages to avoid overly long histories. This provider takes no images, but
+    // documents are extracted into the last user message
+    const { messages: trimmedMessages } = await withDocumentAttachment(
+      sanitizedMessages.length > 8 ? sanitizedMessages.slice(-8) : sanitizedMessages,
+      imageDataUrl,
+    );
 
     // Extract the last user message as the prompt for image generation
     const lastUserMessage = trimmedMessages.filter((msg) => msg.role === 'user').pop();
@@ -185,8 +192,9 @@ export async function POST(req: NextRequest) {
           model: model,
           stream: false,
           // Add defaults and reasoning parameters
-          // Note: Omit `temperature` entirely to satisfy Azure models that only accept the default (1)
-          ...(isReasoningModel ? { max_tokens: 4000 } : { max_tokens: 2048 }),
+          // Note: no default `temperature` to satisfy Azure models that only accept the default (1);
+          // it is only sent when the user sets one explicitly
+          ...openAISamplingParams(params, { maxTokens: isReasoningModel ? 4000 : 2048 }),
         };
 
     // Longer timeout for reasoning models as they take more time
@@ -455,6 +463,7 @@ export async function POST(req: NextRequest) {
         provider: 'open-provider',
         usedKeyType,
         tokens: tokensPayload,
+        usage: isAudioModel ? undefined : openAIUsage(data),
       });
     } catch (error) {
       clearTimeout(timeoutId);
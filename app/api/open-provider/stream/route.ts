@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { idleTimeout, parseOpenAIChunk, relayUpstream, sseErrorResponse } from '@/lib/server/sse';
+
+export const runtime = 'edge';
+
+// Streaming is only offered for text models; image and audio models keep using /api/open-provider.
+export async function POST(req: NextRequest) {
+  const meta = { provider: 'open-provider', usedKeyType: 'default' };
+  try {
+    const { messages, model, apiKey: apiKeyFromBody, params } = await req.json();
+    const apiKey =
+      apiKeyFromBody ||
+      process.env.OPEN_PROVIDER_API_KEY ||
+      process.env.OPEN_PROVIDER_API_KEY_BACKUP ||
+      'EKfz9oU-FsP-Kz4w';
+    meta.usedKeyType = apiKeyFromBody
+      ? 'user'
+      : process.env.OPEN_PROVIDER_API_KEY
+        ? 'shared-primary'
+        : process.env.OPEN_PROVIDER_API_KEY_BACKUP
+          ? 'shared-backup'
+          : 'default';
+
+    if (!model) return sseErrorResponse({ ...meta, error: 'Missing model id', code: 400 });
+
+    type OutMsg = { role: 'user' | 'assistant' | 'system'; content: string };
+    const isRole = (r: unknown): r is OutMsg['role'] =>
+      r === 'user' || r === 'assistant' || r === 'system';
+    const sanitized = (Array.isArray(messages) ? (messages as unknown[]) : [])
+      .map((m) => {
+        const msg = m as { role?: unknown; content?: unknown } | null;
+        const role: OutMsg['role'] = isRole(msg?.role) ? msg.role : 'user';
+        const content = typeof msg?.content === 'string' ? msg.content : String(msg?.content ?? '');
+        return { role, content };
+      })
+      .filter((m) => m.content.trim().length > 0);
+
+    // Keep last 8 messages, same as the non-streaming route
+    const trimmed = sanitized.length > 8 ? sanitized.slice(-8) : sanitized;
+    const isReasoningModel = ['deepseek-reasoning'].includes(model);
+
+    const timeoutMs = isReasoningModel ? 180000 : 120000;
+    const aborter = new AbortController();
+    const idle = idleTimeout(aborter, timeoutMs);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      'User-Agent': 'Open-Fiesta/1.0',
+      Authorization: `Bearer ${apiKey}`,
+    };
+    if (isReasoningModel) {
+      headers['X-API-Key'] = apiKey;
+      headers['X-Model-Type'] = 'reasoning';
+    }
+
+    const upstream = await fetch(
+      `https://text.pollinations.ai/openai?token=${encodeURIComponent(apiKey)}`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: trimmed,
+          stream: true,
+          // No default `temperature` for Azure-backed models, as in /api/open-provider
+          ...openAISamplingParams(params, { maxTokens: isReasoningModel ? 4000 : 2048 }),
+        }),
+        signal: aborter.signal,
+      },
+    );
+
+    if (!upstream.ok || !upstream.body) {
+      idle.clear();
+      const errorText = await upstream.text().catch(() => '');
+      const friendly =
+        upstream.status === 401
+          ? 'Authentication failed. The model may require higher tier access.'
+          : upstream.status === 403
+            ? 'Access denied. This model may require special permissions.'
+            : upstream.status === 429
+              ? 'Rate limit exceeded. Please try again in a moment.'
+              : upstream.status >= 500
+                ? 'Server error occurred. Please try again later.'
+                : `Provider returned error [status ${upstream.status}]: ${errorText}`;
+      return sseErrorResponse({ ...meta, error: friendly, code: upstream.status || 500 });
+    }
+
+    return relayUpstream(upstream.body, {
+      format: 'sse',
+      meta,
+      timeoutMs,
+      aborter,
+      idle,
+      parse: parseOpenAIChunk,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    return sseErrorResponse({ ...meta, error: message, code: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endpointHeaders, proxyTarget } from '@/lib/server/openaiCompatible';
+
+export const runtime = 'nodejs';
+
+// Model ids an OpenAI-compatible endpoint serves (its /models list)
+export async function POST(req: NextRequest) {
+  const target = await proxyTarget(await req.json().catch(() => ({})));
+  if ('error' in target) {
+    return NextResponse.json({ error: target.error }, { status: target.status });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 15000);
+  try {
+    const res = await fetch(`${target.baseUrl}/models`, {
+      headers: endpointHeaders(target),
+      cache: 'no-store',
+      signal: controller.signal,
+      redirect: 'error',
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      return NextResponse.json({ error: `Endpoint error ${res.status}` }, { status: 502 });
+    }
+    const list: unknown[] = Array.isArray(data?.data) ? data.data : Array.isArray(data) ? data : [];
+    const models = list
+      .map((m) => (typeof m === 'string' ? m : (m as { id?: unknown })?.id))
+      .filter((id): id is string => typeof id === 'string' && !!id);
+    return NextResponse.json({ models });
+  } catch (e) {
+    const timedOut = (e as Error)?.name === 'AbortError';
+    return NextResponse.json(
+      {
+        error: timedOut ? 'Endpoint did not respond in time' : 'Cannot reach endpoint',
+      },
+      { status: timedOut ? 504 : 502 },
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
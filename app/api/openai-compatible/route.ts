@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { openAIUsage } from '@/lib/server/usage';
+import { chatMessages, endpointHeaders, proxyTarget } from '@/lib/server/openaiCompatible';
+
+// Local servers (vLLM, LM Studio, llama.cpp) are usually only reachable from a Node server
+export const runtime = 'nodejs';
+
+const TIMEOUT_MS = 180000;
+
+export async function POST(req: NextRequest) {
+  const base = { provider: 'openai-compatible' };
+  try {
+    const body = await req.json();
+    const target = await proxyTarget(body);
+    if ('error' in target) {
+      return Response.json({ ...base, error: target.error }, { status: target.status });
+    }
+    const usedKeyType = target.apiKey ? 'user' : 'none';
+    if (!body.model) {
+      return Response.json({ ...base, usedKeyType, error: 'Missing model id' }, { status: 400 });
+    }
+
+    const messages = chatMessages(body.messages);
+    if (messages.length === 0) {
+      return Response.json({ ...base, usedKeyType, error: 'No messages to send' }, { status: 400 });
+    }
+
+    // Covers reading the body too, and stops when the client goes away
+    const signal = AbortSignal.any([req.signal, AbortSignal.timeout(TIMEOUT_MS)]);
+    const upstream = await fetch(`${target.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(target),
+      body: JSON.stringify({
+        model: body.model,
+        messages,
+        ...openAISamplingParams(body.params),
+        stream: false,
+      }),
+      signal,
+      redirect: 'error',
+    });
+
+    const data = await upstream.json().catch((e) => {
+      if (signal.aborted) throw e;
+      return null;
+    });
+    if (!upstream.ok) {
+      return Response.json(
+        { ...base, usedKeyType, error: `Endpoint error ${upstream.status}`, code: upstream.status },
+        { status: upstream.status },
+      );
+    }
+
+    const content = data?.choices?.[0]?.message?.content;
+    const text = typeof content === 'string' ? content.trim() : '';
+    return Response.json({
+      ...base,
+      usedKeyType,
+      text: text || 'No response generated. Please try again with a different prompt.',
+      usage: openAIUsage(data),
+    });
+  } catch (e: unknown) {
+    const err = e as Error;
+    const message =
+      err?.name === 'TimeoutError' ? 'Endpoint did not respond in time' : 'Cannot reach endpoint';
+    return Response.json({ ...base, error: message, code: 502 }, { status: 502 });
+  }
+}
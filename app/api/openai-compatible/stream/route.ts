@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { idleTimeout, parseOpenAIChunk, relayUpstream, sseErrorResponse } from '@/lib/server/sse';
+import { chatMessages, endpointHeaders, proxyTarget } from '@/lib/server/openaiCompatible';
+
+// Local servers (vLLM, LM Studio, llama.cpp) are usually only reachable from a Node server
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  const meta = { provider: 'openai-compatible', usedKeyType: 'none' };
+  try {
+    const body = await req.json();
+    const target = await proxyTarget(body);
+    if ('error' in target) {
+      return sseErrorResponse({ ...meta, error: target.error, code: target.status });
+    }
+    meta.usedKeyType = target.apiKey ? 'user' : 'none';
+    if (!body.model) return sseErrorResponse({ ...meta, error: 'Missing model id', code: 400 });
+
+    const messages = chatMessages(body.messages);
+    if (messages.length === 0) {
+      return sseErrorResponse({ ...meta, error: 'No messages to send', code: 400 });
+    }
+
+    const timeoutMs = 180000; // same as the non-streaming route
+    const aborter = new AbortController();
+    const idle = idleTimeout(aborter, timeoutMs);
+    let upstream: Response;
+    try {
+      upstream = await fetch(`${target.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: endpointHeaders(target, 'text/event-stream'),
+        body: JSON.stringify({
+          model: body.model,
+          messages,
+          ...openAISamplingParams(body.params),
+          stream: true,
+          // Servers that don't know this option ignore it
+          stream_options: { include_usage: true },
+        }),
+        signal: aborter.signal,
+        redirect: 'error',
+      });
+    } catch {
+      idle.clear();
+      return sseErrorResponse({ ...meta, error: 'Cannot reach endpoint', code: 502 });
+    }
+
+    if (!upstream.ok || !upstream.body) {
+      idle.clear();
+      await upstream.body?.cancel().catch(() => {});
+      return sseErrorResponse({
+        ...meta,
+        error: `Endpoint error ${upstream.status}`,
+        code: upstream.status || 500,
+      });
+    }
+
+    return relayUpstream(upstream.body, {
+      format: 'sse',
+      meta,
+      timeoutMs,
+      aborter,
+      idle,
+      parse: parseOpenAIChunk,
+    });
+  } catch {
+    return sseErrorResponse({ ...meta, error: 'Endpoint request failed', code: 500 });
+  }
+}
@@ -1,12 +1,8 @@
 import { NextRequest } from 'next/server';
-import type { Readable } from 'node:stream';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { openAIUsage } from '@/lib/server/usage';
+import { withDocumentAttachment } from '@/lib/server/documents';
 export const runtime = 'nodejs';
-// Lazy require to avoid bundling when not used
-let pdfParse:
-  | ((data: Buffer | Uint8Array | ArrayBuffer | Readable) => Promise<{ text: string }>)
-  | null = null;
-let mammoth: { extractRawText: (arg: { buffer: Buffer }) => Promise<{ value: string }> } | null =
-  null;
 
 export async function POST(req: NextRequest) {
   try {
@@ -17,6 +13,8 @@ export async function POST(req: NextRequest) {
       referer,
       title,
       imageDataUrl,
+      images,
+      params,
     } = await req.json();
     const apiKey = apiKeyFromBody || process.env.OPENROUTER_API_KEY;
     const usedKeyType = apiKeyFromBody
@@ -66,7 +64,7 @@ export async function POST(req: NextRequest) {
           body: JSON.stringify({
             model,
             messages: sanitizedMessages,
-            max_tokens: 4000,
+            ...openAISamplingParams(params, { maxTokens: 4000 }),
           }),
         });
 
@@ -146,9 +144,16 @@ export async function POST(req: NextRequest) {
         .filter((m) => isRole(m.role));
     // Keep last 8 messages to avoid overly long histories for picky providers
     const trimmed = (arr: OutMsg[]) => (arr.length > 8 ? arr.slice(-8) : arr);
+    const imageUrls: string[] = (Array.isArray(images) ? images : []).filter(
+      (u: unknown): u is string => typeof u === 'string' && /^data:image\//i.test(u),
+    );
     const toUpstreamMessages = async (msgs: OutMsg[]) => {
-      const arr = trimmed(msgs);
-      if (!imageDataUrl || !arr.length) return arr;
+      // Documents become text on the last user message; only images are left to attach
+      const { messages: arr, imageDataUrl: image } = await withDocumentAttachment(
+        trimmed(msgs),
+        imageDataUrl,
+      );
+      if ((!image && imageUrls.length === 0) || !arr.length) return arr;
       // Try to attach to the last user message
       const lastIdx = [...arr]
         .map((m, i) => ({ m, i }))
@@ -156,122 +161,29 @@ export async function POST(req: NextRequest) {
         .find((p) => p.m.role === 'user')?.i;
       if (lastIdx == null) return arr;
       const m = arr[lastIdx];
-      const [meta, base64] = String(imageDataUrl).split(',');
-      const mt = /data:(.*?);base64/.exec(meta || '')?.[1] || '';
-      let buf: Buffer | null = null;
-      if (base64) {
-        try {
-          buf = Buffer.from(base64, 'base64');
-        } catch {
-          buf = null;
-        }
-      }
-      // If MIME is missing/unknown, detect by magic bytes
-      let detectedMt = mt;
-      if (
-        (!detectedMt || /application\/octet-stream/i.test(detectedMt)) &&
-        buf &&
-        buf.length >= 4
-      ) {
-        const b0 = buf[0],
-          b1 = buf[1];
-        const ascii5 = buf.slice(0, 5).toString('ascii');
-        if (ascii5.startsWith('%PDF-')) {
-          detectedMt = 'application/pdf';
-        } else if (b0 === 0x50 && b1 === 0x4b) {
-          // 'PK' ZIP header, likely DOCX
-          detectedMt = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-        }
-      }
-
-      if (/^image\//i.test(detectedMt)) {
-        const content = [
-          { type: 'text', text: m.content },
-          { type: 'image_url', image_url: { url: String(imageDataUrl) } },
-        ];
-        return arr.map((mm, idx) =>
+      const withContent = (content: unknown) =>
+        arr.map((mm, idx) =>
           idx === lastIdx ? ({ role: mm.role, content } as unknown as OutMsg) : mm,
         );
+
+      // Several images from message attachments (documents arrive already inlined as text)
+      if (imageUrls.length > 0) {
+        return withContent([
+          { type: 'text', text: m.content },
+          ...imageUrls.map((url) => ({ type: 'image_url', image_url: { url } })),
+        ]);
       }
-      // text/plain: decode and append inline (limit)
-      if (/^text\/plain$/i.test(detectedMt) && base64) {
-        try {
-          const decoded = (buf ?? Buffer.from(base64, 'base64')).toString('utf8').slice(0, 20000);
-          const appended = `${m.content}\n\n[Attached text file contents:]\n${decoded}`;
-          return arr.map((mm, idx) =>
-            idx === lastIdx ? { role: mm.role, content: appended } : mm,
-          );
-        } catch {}
-      }
-      // PDF: extract text using pdf-parse
-      if (/^application\/pdf$/i.test(detectedMt) && base64 && (buf?.length ?? 0) > 0) {
-        try {
-          if (!pdfParse) {
-            type PdfParseFn = (
-              data: Buffer | Uint8Array | ArrayBuffer | Readable,
-            ) => Promise<{ text: string }>;
-            type PdfParseModule = { default?: PdfParseFn } | PdfParseFn;
-            const mod = (await import('pdf-parse')) as PdfParseModule;
-            const fn: PdfParseFn =
-              typeof mod === 'function' ? (mod as PdfParseFn) : (mod.default as PdfParseFn);
-            pdfParse = fn;
-          }
-          const out = await pdfParse!(buf!);
-          const text = (out?.text || '').trim().slice(0, 80000);
-          const appended = `${m.content}\n\n[Attached PDF extracted text:]\n${
-            text || '(no extractable text)'
-          }\n`;
-          return arr.map((mm, idx) =>
-            idx === lastIdx ? { role: mm.role, content: appended } : mm,
-          );
-        } catch {
-          const appended = `${m.content}\n\n[Attached PDF could not be auto-extracted. Please copy/paste key text if needed.]`;
-          return arr.map((mm, idx) =>
-            idx === lastIdx ? { role: mm.role, content: appended } : mm,
-          );
-        }
-      }
-      // DOCX: extract text using mammoth
-      if (
-        /^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/i.test(
-          detectedMt,
-        ) &&
-        base64 &&
-        (buf?.length ?? 0) > 0
-      ) {
-        try {
-          if (!mammoth) {
-            const mod = (await import('mammoth')) as {
-              default?: {
-                extractRawText: (arg: { buffer: Buffer }) => Promise<{ value: string }>;
-              };
-              extractRawText?: (arg: { buffer: Buffer }) => Promise<{ value: string }>;
-            };
-            mammoth = mod.default ?? { extractRawText: mod.extractRawText! };
-          }
-          const out = await mammoth!.extractRawText({ buffer: buf! });
-          const text = (out?.value || '').trim().slice(0, 80000);
-          const appended = `${m.content}\n\n[Attached DOCX extracted text:]\n${
-            text || '(no extractable text)'
-          }\n`;
-          return arr.map((mm, idx) =>
-            idx === lastIdx ? { role: mm.role, content: appended } : mm,
-          );
-        } catch {
-          const appended = `${m.content}\n\n[Attached DOCX could not be auto-extracted. Please copy/paste key text if needed.]`;
-          return arr.map((mm, idx) =>
-            idx === lastIdx ? { role: mm.role, content: appended } : mm,
-          );
-        }
-      }
-      // Other types (pdf/docx): include a short note so assistant is aware
-      const noted = `${m.content}\n\n[Attached file: ${detectedMt || 'unknown'} provided as Data URL. If your model supports reading this type via data URLs, use it.]`;
-      return arr.map((mm, idx) => (idx === lastIdx ? { role: mm.role, content: noted } : mm));
+
+      return withContent([
+        { type: 'text', text: m.content },
+        { type: 'image_url', image_url: { url: image } },
+      ]);
     };
 
     const makeBody = async (msgs: unknown) => ({
       model,
       messages: await toUpstreamMessages(sanitize((msgs as unknown[]) || [])),
+      ...openAISamplingParams(params),
     });
     const requestInit = (bodyObj: unknown): RequestInit => ({
       method: 'POST',
@@ -532,7 +444,7 @@ export async function POST(req: NextRequest) {
     }
 
     clearTimeout(timeoutId);
-    return Response.json({ text, raw: data });
+    return Response.json({ text, raw: data, usage: openAIUsage(data) });
   } catch (e: unknown) {
     const isAbort = e instanceof Error && e.name === 'AbortError';
     const message = isAbort
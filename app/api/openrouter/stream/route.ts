@@ -1,4 +1,6 @@
 import { NextRequest } from 'next/server';
+import { openAISamplingParams } from '@/lib/server/generationParams';
+import { openAIUsage } from '@/lib/server/usage';
 
 export const runtime = 'edge';
 
@@ -15,6 +17,8 @@ export async function POST(req: NextRequest) {
       referer,
       title,
       imageDataUrl,
+      images,
+      params,
     } = await req.json();
     const apiKey = apiKeyFromBody || process.env.OPENROUTER_API_KEY;
     const usedKeyType = apiKeyFromBody
@@ -43,6 +47,7 @@ export async function POST(req: NextRequest) {
           referer,
           title,
           imageDataUrl,
+          images,
         }),
       });
 
@@ -90,15 +95,27 @@ export async function POST(req: NextRequest) {
         })
         .filter((m) => isRole(m.role));
     const trimmed = (arr: OutMsg[]) => (arr.length > 8 ? arr.slice(-8) : arr);
+    const imageUrls: string[] = (Array.isArray(images) ? images : []).filter(
+      (u: unknown): u is string => typeof u === 'string' && /^data:image\//i.test(u),
+    );
     const toUpstreamMessages = (msgs: OutMsg[]) => {
       const arr = trimmed(msgs);
-      if (!imageDataUrl || !arr.length) return arr;
+      if ((!imageDataUrl && imageUrls.length === 0) || !arr.length) return arr;
       const lastIdx = [...arr]
         .map((m, i) => ({ m, i }))
         .reverse()
         .find((p) => p.m.role === 'user')?.i;
       if (lastIdx == null) return arr;
       const m = arr[lastIdx];
+      if (imageUrls.length > 0) {
+        const content = [
+          { type: 'text', text: m.content },
+          ...imageUrls.map((url) => ({ type: 'image_url', image_url: { url } })),
+        ];
+        return arr.map((mm, idx) =>
+          idx === lastIdx ? ({ role: mm.role, content } as unknown as OutMsg) : mm,
+        );
+      }
       const [meta, base64] = String(imageDataUrl).split(',');
       const mt = /data:(.*?);base64/.exec(meta || '')?.[1] || '';
       if (/^image\//i.test(mt)) {
@@ -127,7 +144,10 @@ export async function POST(req: NextRequest) {
     const body = {
       model,
       messages: toUpstreamMessages(sanitize(messages as unknown[])),
+      ...openAISamplingParams(params),
       stream: true,
+      // Ask for a final usage chunk so the client can show real token counts
+      stream_options: { include_usage: true },
     };
 
     // Add fetch timeout to avoid hanging steps
@@ -253,6 +273,8 @@ export async function POST(req: NextRequest) {
                   const cleaned = sanitizeDelta(text);
                   controller.enqueue(encoder.encode(sseEncode({ delta: cleaned })));
                 }
+                const usage = openAIUsage(json);
+                if (usage) controller.enqueue(encoder.encode(sseEncode({ usage })));
                 if (json?.error) {
                   const code = json.error?.code;
                   const isGLMPaid =
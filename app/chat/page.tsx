@@ -12,7 +12,9 @@ declare global {
 import { useEffect, useMemo, useRef, useState, useCallback } from "react"
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import { mergeModels, useCustomModels } from '@/lib/customModels';
-import { ChatMessage, ApiKeys, ChatThread, AiModel } from '@/lib/types';
+import { useCustomEndpoints } from '@/lib/customEndpoints';
+import { useGenerationParams } from '@/lib/useGenerationParams';
+import { ChatMessage, ApiKeys, ChatThread, AiModel, Attachment, Citation } from '@/lib/types';
 import { useProjects } from '@/lib/useProjects';
 import ModelsModal from '@/components/modals/ModelsModal';
 import { ChatInterface, ChatInterfaceRef } from '@/components/chat-interface';
@@ -21,7 +23,8 @@ import AuthModal from '@/components/modals/AuthModal';
 import { cn } from '@/lib/utils'
 import ThreadSidebar from '@/components/chat/ThreadSidebar'
 import HomeAiInput from '@/components/home/HomeAiInput'
-import { fetchThreads, createThread as createThreadDb, addMessage as addMessageDb, deleteThread as deleteThreadDb } from '@/lib/db'
+import { createThread as createThreadDb, deleteThread as deleteThreadDb } from '@/lib/db'
+import { useRemoteThreads } from '@/lib/useRemoteThreads'
 import { createChatActions } from '@/lib/chatActions'
 import { ToastContainer, toast } from 'react-toastify'
 import 'react-toastify/dist/ReactToastify.css'
@@ -39,6 +42,10 @@ import { BACKGROUND_STYLES } from '@/lib/themes'
 import SupportDropdown from '@/components/support-dropdown'
 import ProjectModal from '@/components/modals/ProjectModal'
 import { Project } from '@/lib/projects'
+import { useGenerationRunner } from '@/lib/offline/useOffline'
+import { useSearchResultFocus } from '@/lib/useMessageSearch'
+import { searchResultHref } from '@/lib/search'
+import { storedThreads } from '@/lib/attachments'
 
 export default function OpenFiestaChat() {
   const { user } = useAuth()
@@ -61,11 +68,13 @@ export default function OpenFiestaChat() {
   const [authModalOpen, setAuthModalOpen] = useState(false)
   const [projectModalOpen, setProjectModalOpen] = useState(false)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
-  const [threads, setThreads] = useLocalStorage<ChatThread[]>('ai-fiesta:threads', [])
+  const [threads, setThreads] = useLocalStorage<ChatThread[]>('ai-fiesta:threads', [], storedThreads)
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
   const [editingMessage, setEditingMessage] = useState<string>('')
   const [apiKeys] = useLocalStorage<ApiKeys>('ai-fiesta:api-keys', {})
-  const [customModels] = useCustomModels()
+  const [customModels, setCustomModels] = useCustomModels()
+  const [endpoints] = useCustomEndpoints()
+  const [generationParams] = useGenerationParams()
   const [selectedHomeModelId, setSelectedHomeModelId] = useLocalStorage<string>('ai-fiesta:selected-home-model', 'open-evil')
   // First-visit modal
   const [firstVisitSeen, setFirstVisitSeen] = useLocalStorage<boolean>('ai-fiesta:first-visit-seen', false)
@@ -74,6 +83,7 @@ export default function OpenFiestaChat() {
   const {
     projects,
     activeProjectId,
+    activeProject,
     createProject,
     updateProject,
     deleteProject,
@@ -104,7 +114,7 @@ export default function OpenFiestaChat() {
   const visibleHomeThreads = useMemo(() => threads.filter(t => t.pageType === 'home' && (!activeProjectId || t.projectId === activeProjectId)), [threads, activeProjectId])
 
   const activeThread = useMemo(() => threads.find((t) => t.id === activeThreadId), [threads, activeThreadId])
-  const allModels = useMemo(() => mergeModels(customModels), [customModels])
+  const allModels = useMemo(() => mergeModels(customModels, endpoints), [customModels, endpoints])
   const selectedHomeModel: AiModel | undefined = useMemo(
     () => allModels.find((m) => m.id === selectedHomeModelId) || allModels[0],
     [allModels, selectedHomeModelId]
@@ -131,8 +141,7 @@ export default function OpenFiestaChat() {
 
   const chatRef = useRef<ChatInterfaceRef | null>(null)
 
-  // Create chat actions for handling AI responses - unused but kept for potential future use
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  // Chat actions for the active thread; used to answer prompts queued while offline
   const chatActions = useMemo(() => {
     if (!activeThread) {
       return null;
@@ -146,48 +155,40 @@ export default function OpenFiestaChat() {
       setLoadingIdsInit: () => {}, // Disabled - using ChatInterface loading instead
       selectedModels: selectedHomeModel ? [selectedHomeModel] : [],
       keys: apiKeys,
+      endpoints,
+      generationParams,
+      activeProject,
       userId: user?.id || undefined,
     })
-  }, [activeThread, selectedHomeModel, apiKeys, user?.id, threads, setThreads])
+  }, [activeThread, selectedHomeModel, apiKeys, endpoints, generationParams, activeProject, user?.id, threads, setThreads])
 
-  // Load threads from Supabase when user is authenticated
-  useEffect(() => {
-    const load = async () => {
-      // In guest mode, never touch DB
-      if (guestMode) {
-        return
-      }
-      if (!user?.id) {
-        // In guest mode, keep local threads; otherwise clear when logged out
-        setThreads([])
-        setActiveThreadId(null)
-        return
-      }
-      try {
-        const dbThreads = await fetchThreads(user.id)
-        setThreads(dbThreads)
-        // Keep current active if still present, else pick most recent home thread
-        if (dbThreads.length > 0) {
-          const homeThreads = dbThreads.filter(t => t.pageType === 'home')
-          const preferredThread = activeProjectId 
-            ? homeThreads.find(t => t.projectId === activeProjectId)
-            : homeThreads[0]
-          setActiveThreadId((prev) => {
-            if (prev && dbThreads.some(t => t.id === prev && t.pageType === 'home')) {
-              return prev
-            }
-            return preferredThread?.id || null
-          })
-        } else {
-          setActiveThreadId(null)
-        }
-      } catch (e) {
-        console.warn('Failed to load threads from Supabase:', e)
-      }
-    }
-    load()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id, activeProjectId])
+  useGenerationRunner(async (generation) =>
+    chatActions ? chatActions.replayGeneration(generation) : false
+  )
+
+  // Load home threads from Supabase page by page (never in guest mode); messages are fetched
+  // when a thread opens
+  const {
+    hasMore: hasMoreThreads,
+    loadMore: loadMoreThreads,
+    loadingMore: loadingMoreThreads,
+  } = useRemoteThreads({
+    userId: user?.id,
+    enabled: !guestMode,
+    filter: { pageType: 'home', projectId: activeProjectId },
+    threads,
+    setThreads,
+    activeId: activeThreadId,
+    setActiveId: setActiveThreadId,
+  })
+  // The chat view has no per-turn layout, so a message search result just opens its thread
+  const { openResult } = useSearchResultFocus({
+    threads,
+    setThreads,
+    activeId: activeThreadId,
+    setActiveId: setActiveThreadId,
+    pageType: 'home',
+  })
 
   // Header shows no brand logo; the chat avatar displays model logo instead
 
@@ -227,7 +228,7 @@ export default function OpenFiestaChat() {
   }, [activeThread])
 
   // When user submits text, also record it into a thread shown in the sidebar
-  const handleSubmit = useCallback(async (text: string) => {
+  const handleSubmit = useCallback(async (text: string, attachments?: Attachment[]) => {
     const content = text.trim()
     if (!content) {
       // Ensure loader is off for empty submissions
@@ -305,29 +306,14 @@ export default function OpenFiestaChat() {
         setLoadingIdsInit: () => {}, // Disabled - using ChatInterface loading instead
         selectedModels: [selectedHomeModel],
         keys: apiKeys,
+        endpoints,
+        generationParams,
+        activeProject,
         userId: user?.id || undefined,
       });
       
       try {
-        await currentChatActions.send(content)
-        
-        // Save user message to database
-        if (user?.id && currentThread?.id) {
-          const userMsg: ChatMessage = { 
-            role: 'user', 
-            content: content, 
-            ts: Date.now() 
-          };
-          try {
-            await addMessageDb({
-              userId: user.id,
-              chatId: currentThread.id,
-              message: userMsg,
-            });
-          } catch (e) {
-            console.error('Failed to save user message to DB:', e);
-          }
-        }
+        await currentChatActions.send(content, attachments)
         
         // Clear loading immediately after send completes
         chatRef.current?.setLoading(false)
@@ -342,7 +328,7 @@ export default function OpenFiestaChat() {
       });
       chatRef.current?.setLoading(false)
     }
-  }, [user, activeProjectId, activeThreadId, threads, selectedHomeModel, apiKeys, setThreads, setActiveThreadId])
+  }, [user, activeProjectId, activeProject, activeThreadId, threads, selectedHomeModel, apiKeys, endpoints, generationParams, setThreads, setActiveThreadId])
 
   // Expose handlers to window for ChatInterface to access
   useEffect(() => {
@@ -372,11 +358,15 @@ export default function OpenFiestaChat() {
           timestamp: Date;
           avatarUrl?: string;
           avatarAlt?: string;
+          attachments?: Attachment[];
+          citations?: Citation[];
         } = {
           id: `${activeThread.id}-${msg.ts || Date.now()}-${index}`,
           content: msg.content,
           role: msg.role as "user" | "assistant",
           timestamp: new Date(msg.ts || Date.now()),
+          attachments: msg.attachments,
+          citations: msg.citations,
         }
         if (msg.role === 'assistant') {
           const id = (msg.modelId || '').toLowerCase()
@@ -531,6 +521,16 @@ export default function OpenFiestaChat() {
             onCreateProject={handleCreateProject}
             onUpdateProject={handleEditProject}
             onDeleteProject={deleteProject}
+            hasMore={hasMoreThreads}
+            loadingMore={loadingMoreThreads}
+            onLoadMore={loadMoreThreads}
+            onOpenSearchResult={(hit) => {
+              if (hit.pageType === 'compare') {
+                window.location.href = searchResultHref('/compare', hit)
+              } else {
+                openResult(hit)
+              }
+            }}
           />
 
         {/* Main Content */}
@@ -654,6 +654,7 @@ export default function OpenFiestaChat() {
               selectedIds={selectedHomeModel ? [selectedHomeModel.id] : []}
               selectedModels={selectedHomeModel ? [selectedHomeModel] : []}
               customModels={customModels}
+              onCustomModelsChange={setCustomModels}
               onToggle={(id) => {
                 setSelectedHomeModelId((prev) => (prev === id ? "" : id))
                 // Close after picking to mimic single-select UX
@@ -674,6 +675,7 @@ export default function OpenFiestaChat() {
         onClose={() => setProjectModalOpen(false)}
         onSave={handleSaveProject}
         project={editingProject}
+        keys={apiKeys}
       />
 
       {/* First-visit note modal */}
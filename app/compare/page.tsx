@@ -5,6 +5,8 @@ import HeaderBar from '@/components/app/HeaderBar';
 import VoiceSelector from '@/components/modals/VoiceSelector';
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import { mergeModels, useCustomModels } from '@/lib/customModels';
+import { useCustomEndpoints } from '@/lib/customEndpoints';
+import { useGenerationParams } from '@/lib/useGenerationParams';
 import { ChatMessage, ApiKeys, ChatThread, AiModel } from '@/lib/types';
 import { createChatActions } from '@/lib/chatActions';
 import { useProjects } from '@/lib/useProjects';
@@ -18,20 +20,29 @@ import { BACKGROUND_STYLES } from '@/lib/themes';
 import { safeUUID } from '@/lib/uuid';
 import LaunchScreen from '@/components/ui/LaunchScreen';
 import { useAuth } from '@/lib/auth';
-import { fetchThreads, createThread as createThreadDb, deleteThread as deleteThreadDb } from '@/lib/db'
+import { createThread as createThreadDb, deleteThread as deleteThreadDb } from '@/lib/db'
+import { useRemoteThreads } from '@/lib/useRemoteThreads';
+import { useSearchResultFocus } from '@/lib/useMessageSearch';
+import { searchResultHref } from '@/lib/search';
 import { useRouter } from 'next/navigation';
 import GithubStar from '@/components/app/GithubStar';
 import ThemeToggle from '@/components/ThemeToggle';
 import CustomModels from '@/components/modals/CustomModels';
 import Settings from '@/components/app/Settings';
-import { Layers, Home as HomeIcon } from 'lucide-react';
+import { Layers, Home as HomeIcon, EyeOff, Trophy, CornerDownRight, Users, X } from 'lucide-react';
 import SupportDropdown from '@/components/support-dropdown';
 import Link from 'next/link';
 import { ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import ProjectModal from '@/components/modals/ProjectModal';
+import LeaderboardModal from '@/components/modals/LeaderboardModal';
+import { useBlindVotes } from '@/lib/useBlindVotes';
+import { canJudge } from '@/lib/synthesis';
+import { switchBranch, turnBranchInfo } from '@/lib/branches';
+import { storedThreads } from '@/lib/attachments';
 import { Project } from '@/lib/projects';
 import { cn } from '@/lib/utils';
+import { useGenerationRunner } from '@/lib/offline/useOffline';
 import './globals.css';
 
 export default function Home() {
@@ -61,7 +72,7 @@ export default function Home() {
     'open-llamascout', // Llama Scout
   ]);
   const [keys] = useLocalStorage<ApiKeys>('ai-fiesta:keys', {});
-  const [threads, setThreads] = useLocalStorage<ChatThread[]>('ai-fiesta:threads', []);
+  const [threads, setThreads] = useLocalStorage<ChatThread[]>('ai-fiesta:threads', [], storedThreads);
   const [activeId, setActiveId] = useLocalStorage<string | null>('ai-fiesta:active-thread', null);
   const [sidebarOpen, setSidebarOpen] = useLocalStorage<boolean>('ai-fiesta:sidebar-open', true);
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
@@ -71,8 +82,21 @@ export default function Home() {
     'alloy',
   );
 
-  const [customModels] = useCustomModels();
-  const allModels = useMemo(() => mergeModels(customModels), [customModels]);
+  const [customModels, setCustomModels] = useCustomModels();
+  const [endpoints] = useCustomEndpoints();
+  const [generationParams] = useGenerationParams();
+  const allModels = useMemo(
+    () => mergeModels(customModels, endpoints),
+    [customModels, endpoints],
+  );
+  // Blind comparison: hide model identities until the user votes on each turn
+  const [blindMode, setBlindMode] = useLocalStorage<boolean>('ai-fiesta:blind-mode', false);
+  const [leaderboardOpen, setLeaderboardOpen] = useState(false);
+  const { votesByThread, castVote, clearVotes, leaderboard } = useBlindVotes();
+  const [judgeId, setJudgeId] = useLocalStorage<string>('ai-fiesta:synthesis-judge', '');
+  // Off by default: each model only sees its own earlier answers
+  const [shareAnswers, setShareAnswers] = useLocalStorage<boolean>('ai-fiesta:share-answers', false);
+  const [followUpTarget, setFollowUpTarget] = useState<string | null>(null);
 
   // Projects hook from main
   const {
@@ -116,6 +140,10 @@ export default function Home() {
     return activeProjectId ? scope.filter((t) => t.projectId === activeProjectId) : scope;
   }, [threads, activeProjectId]);
   const messages = useMemo(() => activeThread?.messages ?? [], [activeThread]);
+  const branchInfo = useMemo(
+    () => (activeThread ? turnBranchInfo(activeThread) : []),
+    [activeThread],
+  );
 
   const [loadingIds, setLoadingIds] = useState<string[]>([]);
   // Allow collapsing a model column without unselecting it
@@ -124,19 +152,23 @@ export default function Home() {
     () => selectedIds.map((id) => allModels.find((m) => m.id === id)).filter(Boolean) as AiModel[],
     [selectedIds, allModels],
   );
+  // A follow-up target that was deselected no longer applies
+  const activeFollowUpId = selectedModels.some((m) => m.id === followUpTarget)
+    ? followUpTarget
+    : null;
   // Build grid template: collapsed => fixed narrow, expanded => normal
   const headerTemplate = useMemo(() => {
     if (selectedModels.length === 0) return '';
     const isCompact = selectedModels.length < 5;
     const parts = selectedModels.map((m) => {
-      const collapsed = collapsedIds.includes(m.id);
+      const collapsed = !blindMode && collapsedIds.includes(m.id);
       if (collapsed) return '90px';
       // If fewer than 5 models, allow columns to flex and fill available width.
       // Otherwise keep fixed width for consistent 5-column comparison.
       return isCompact ? 'minmax(240px, 1fr)' : '320px';
     });
     return parts.join(' ');
-  }, [selectedModels, collapsedIds]);
+  }, [selectedModels, collapsedIds, blindMode]);
 
   const anyLoading = loadingIds.length > 0;
 
@@ -157,12 +189,19 @@ export default function Home() {
     });
   };
 
+  const judgeModels = useMemo(() => allModels.filter(canJudge), [allModels]);
+  // Fall back to the first selected text model when no judge was picked (or it was removed)
+  const effectiveJudgeId = judgeModels.some((m) => m.id === judgeId)
+    ? judgeId
+    : (selectedModels.find(canJudge)?.id ?? judgeModels[0]?.id ?? '');
+
   // Chat actions (send and onEditUser) moved to lib/chatActions.ts to avoid state races
-  const { send, onEditUser } = useMemo(
+  const { send, onEditUser, synthesize, replayGeneration } = useMemo(
     () =>
       createChatActions({
         selectedModels,
         keys,
+        endpoints,
         threads,
         activeThread,
         setThreads,
@@ -171,54 +210,51 @@ export default function Home() {
         setLoadingIdsInit: (ids) => setLoadingIds(ids),
         activeProject, // include project system prompt/context
         selectedVoice, // pass voice selection for audio models
+        generationParams,
+        shareAnswers,
         userId: user?.id,
         pageType: 'compare',
       }),
     [
       selectedModels,
       keys,
+      endpoints,
       threads,
       activeThread,
       setThreads,
       setActiveId,
       activeProject,
       selectedVoice,
+      generationParams,
+      shareAnswers,
       user?.id,
     ],
   );
 
-  // Load threads from Supabase for this user and keep only compare page threads in view
-  useEffect(() => {
-    const load = async () => {
-      if (!user?.id) {
-        setThreads([]);
-        setActiveId(null);
-        return;
-      }
-      try {
-        const dbThreads = await fetchThreads(user.id);
-        setThreads(dbThreads);
-        if (dbThreads.length > 0) {
-          const compareThreads = dbThreads.filter((t) => t.pageType === 'compare');
-          const preferredThread = activeProjectId
-            ? compareThreads.find((t) => t.projectId === activeProjectId)
-            : compareThreads[0];
-          setActiveId((prev) => {
-            if (prev && dbThreads.some((t) => t.id === prev && t.pageType === 'compare')) {
-              return prev;
-            }
-            return preferredThread?.id || null;
-          });
-        } else {
-          setActiveId(null);
-        }
-      } catch (e) {
-        console.warn('Failed to load compare threads from Supabase:', e);
-      }
-    };
-    load();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id, activeProjectId]);
+  // Prompts typed while offline are sent to their models once the browser reconnects
+  useGenerationRunner(replayGeneration);
+
+  // Load compare threads from Supabase page by page; messages are fetched when a thread opens
+  const {
+    hasMore: hasMoreThreads,
+    loadMore: loadMoreThreads,
+    loadingMore: loadingMoreThreads,
+  } = useRemoteThreads({
+    userId: user?.id,
+    filter: { pageType: 'compare', projectId: activeProjectId },
+    threads,
+    setThreads,
+    activeId,
+    setActiveId,
+  });
+  // Message search results open here with the matching turn scrolled into view
+  const { openResult, focusTurn } = useSearchResultFocus({
+    threads,
+    setThreads,
+    activeId,
+    setActiveId,
+    pageType: 'compare',
+  });
 
   // group assistant messages by turn for simple compare view
   const pairs = useMemo(() => {
@@ -245,12 +281,14 @@ export default function Home() {
     const answeredIds = new Set(last.answers.map((a) => a.modelId).filter(Boolean) as string[]);
     // Show placeholders for any selected model that hasn't answered yet
     selectedModels.forEach((m) => {
+      if (last.user.targetModelId && last.user.targetModelId !== m.id) return;
       if (!answeredIds.has(m.id)) {
         last.answers.push({
           id: `thinking-${m.id}-${safeUUID()}`,
           role: 'assistant',
           content: 'Thinking…',
           modelId: m.id,
+          streaming: true,
           createdAt: new Date().toISOString(),
         } as ChatMessage);
       }
@@ -258,6 +296,14 @@ export default function Home() {
     return cloned;
   }, [pairs, loadingIds, selectedModels]);
 
+  // Show another version of an edited prompt, with the answers and follow-ups on that branch
+  const onSwitchBranch = (turnIndex: number, delta: number) => {
+    if (!activeThread) return;
+    setThreads((prev) =>
+      prev.map((t) => (t.id === activeThread.id ? switchBranch(t, turnIndex, delta) : t)),
+    );
+  };
+
   // Delete a full user turn (user + all its answers)
   const onDeleteUser = (turnIndex: number) => {
     if (!activeThread) return;
@@ -412,6 +458,16 @@ export default function Home() {
             onCreateProject={handleCreateProject}
             onUpdateProject={handleEditProject}
             onDeleteProject={deleteProject}
+            hasMore={hasMoreThreads}
+            loadingMore={loadingMoreThreads}
+            onLoadMore={loadMoreThreads}
+            onOpenSearchResult={(hit) => {
+              if (hit.pageType === 'home') {
+                window.location.href = searchResultHref('/chat', hit);
+              } else {
+                openResult(hit);
+              }
+            }}
           />
 
           {/* Main content */}
@@ -534,12 +590,82 @@ export default function Home() {
               </div>
             )}
 
+            {isHydrated && (
+              <div className="mb-2 px-4 flex items-center justify-end gap-2">
+                {activeFollowUpId && (
+                  <span
+                    className={cn(
+                      'mr-auto inline-flex items-center gap-1.5 text-xs h-8 pl-3 pr-1 rounded-md border',
+                      isDark
+                        ? 'border-white/15 bg-white/5 text-white'
+                        : 'border-rose-200/60 bg-rose-50/60 text-gray-700',
+                    )}
+                  >
+                    <CornerDownRight size={13} />
+                    Next prompt goes to{' '}
+                    {selectedModels.find((m) => m.id === activeFollowUpId)?.label} only
+                    <button
+                      onClick={() => setFollowUpTarget(null)}
+                      className="icon-btn h-6 w-6"
+                      aria-label="Send to all models"
+                      title="Send to all models"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                )}
+                <button
+                  onClick={() => setShareAnswers((v) => !v)}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 text-xs h-8 px-3 rounded-md border shadow transition-colors',
+                    shareAnswers
+                      ? 'accent-action-fill text-white border-transparent'
+                      : isDark
+                        ? 'border-white/15 bg-white/5 hover:bg-white/10 text-white'
+                        : 'border-rose-200/60 bg-rose-50/60 hover:bg-rose-100/80 text-gray-700',
+                  )}
+                  aria-pressed={shareAnswers}
+                  title="When on, every model also sees the other models' earlier answers"
+                >
+                  <Users size={13} /> Shared context {shareAnswers ? 'on' : 'off'}
+                </button>
+                <button
+                  onClick={() => setBlindMode((v) => !v)}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 text-xs h-8 px-3 rounded-md border shadow transition-colors',
+                    blindMode
+                      ? 'accent-action-fill text-white border-transparent'
+                      : isDark
+                        ? 'border-white/15 bg-white/5 hover:bg-white/10 text-white'
+                        : 'border-rose-200/60 bg-rose-50/60 hover:bg-rose-100/80 text-gray-700',
+                  )}
+                  aria-pressed={blindMode}
+                  title="Hide model names and shuffle columns until you vote"
+                >
+                  <EyeOff size={13} /> Blind {blindMode ? 'on' : 'off'}
+                </button>
+                <button
+                  onClick={() => setLeaderboardOpen(true)}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 text-xs h-8 px-3 rounded-md border shadow transition-colors',
+                    isDark
+                      ? 'border-white/15 bg-white/5 hover:bg-white/10 text-white'
+                      : 'border-rose-200/60 bg-rose-50/60 hover:bg-rose-100/80 text-gray-700',
+                  )}
+                  title="Ratings from your blind votes"
+                >
+                  <Trophy size={13} /> Leaderboard
+                </button>
+              </div>
+            )}
+
             <ModelsModal
               open={modelsModalOpen}
               onClose={() => setModelsModalOpen(false)}
               selectedIds={selectedIds}
               selectedModels={selectedModels}
               customModels={customModels}
+              onCustomModelsChange={setCustomModels}
               onToggle={toggle}
             />
 
@@ -561,6 +687,27 @@ export default function Home() {
                 onEditUser={onEditUser}
                 onDeleteUser={onDeleteUser}
                 onToggle={toggle}
+                blind={
+                  blindMode && activeThread
+                    ? {
+                        threadId: activeThread.id,
+                        votes: votesByThread[activeThread.id] || [],
+                        onVote: castVote,
+                      }
+                    : undefined
+                }
+                branches={{ info: branchInfo, onSwitch: onSwitchBranch }}
+                followUp={{ targetId: activeFollowUpId, onChange: setFollowUpTarget }}
+                focusTurn={focusTurn}
+                synthesis={{
+                  judgeModels,
+                  judgeId: effectiveJudgeId,
+                  onJudgeChange: setJudgeId,
+                  onSynthesize: (turnIndex, mode) => {
+                    const judge = judgeModels.find((m) => m.id === effectiveJudgeId);
+                    if (judge) synthesize(turnIndex, judge, mode);
+                  },
+                }}
               />
             )}
 
@@ -568,11 +715,11 @@ export default function Home() {
               <div className="relative w-[100%] h-[1px] mb-[-1px]">
                 <HomeAiInput
                   isDark={isDark}
-                  onSubmit={(text) => {
+                  onSubmit={(text, attachments) => {
                     try {
                       console.log("[Compare] HomeAiInput onSubmit:", text);
                     } catch {}
-                    send(text);
+                    send(text, attachments, activeFollowUpId ?? undefined);
                   }}
                 />
                 <div className="sr-only" aria-hidden>
@@ -591,6 +738,16 @@ export default function Home() {
         onClose={() => setProjectModalOpen(false)}
         onSave={handleSaveProject}
         project={editingProject}
+        keys={keys}
+      />
+
+      <LeaderboardModal
+        open={leaderboardOpen}
+        onClose={() => setLeaderboardOpen(false)}
+        rows={leaderboard}
+        models={allModels}
+        isDark={isDark}
+        onReset={clearVotes}
       />
 
       <ToastContainer
@@ -1,20 +1,88 @@
 "use client";
 
 import { useParams } from 'next/navigation';
-import { useEffect, useState } from 'react';
-import { decodeShareData } from '@/lib/sharing/encoding';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  decodeSharePayload,
+  isEncryptedSharePayload,
+  shareKeyFromFragment
+} from '@/lib/sharing/encoding';
+import { isStoredShareId, SHARE_LOOKUP_ERRORS } from '@/lib/sharing/storedShares';
+import { fetchSharedChat } from '@/lib/db/shares';
 import type { SharedChatData } from '@/lib/sharing/types';
 import SharedChatPage from '@/components/shared/SharedChatPage';
 import SharedChatError from '@/components/shared/SharedChatError';
 import SharedChatLoading from '@/components/shared/SharedChatLoading';
+import SharedChatPassword from '@/components/shared/SharedChatPassword';
 
+function logShareEvent(event: string, data: Record<string, unknown>) {
+  if (process.env.NODE_ENV !== 'production') return;
+  fetch('/api/metrics', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      event,
+      data: {
+        ...data,
+        userAgent: navigator.userAgent,
+        timestamp: new Date().toISOString()
+      }
+    })
+  }).catch(() => {}); // Silently fail
+}
+
+// Resolves both link forms: a short id stored in Supabase, or the conversation encoded
+// in the path (version 1 base64, or v2 compressed with the key of encrypted links in the
+// fragment)
 export default function SharedChatRoute() {
   const params = useParams();
   const encodedData = params.encodedData as string;
-  
+
   const [chatData, setChatData] = useState<SharedChatData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [passwordState, setPasswordState] = useState<'required' | 'wrong' | null>(null);
+
+  const shareId = encodedData?.substring(0, 8); // Use first 8 chars as share ID for logging
+
+  const showChat = useCallback((decoded: SharedChatData, startTime: number) => {
+    setChatData(decoded);
+    setPasswordState(null);
+    setLoading(false);
+
+    // Log successful share view
+    logShareEvent('share_viewed', {
+      shareId,
+      messageCount: decoded.messages.length,
+      truncated: decoded.truncated || false,
+      loadTime: Date.now() - startTime,
+      referrer: document.referrer
+    });
+  }, [shareId]);
+
+  const loadStoredShare = useCallback(async (password?: string) => {
+    const startTime = Date.now();
+    try {
+      const lookup = await fetchSharedChat(encodedData, password);
+      if (lookup.status === 'ok') {
+        showChat(lookup.chat, startTime);
+      } else if (lookup.status === 'password_required' || lookup.status === 'wrong_password') {
+        setPasswordState(lookup.status === 'wrong_password' ? 'wrong' : 'required');
+        setLoading(false);
+      } else {
+        setError(SHARE_LOOKUP_ERRORS[lookup.status]);
+        setLoading(false);
+      }
+    } catch (err) {
+      console.error('Error loading shared chat:', err);
+      setError('Failed to load shared chat');
+      setLoading(false);
+      logShareEvent('share_decode_error', {
+        shareId,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+  }, [encodedData, shareId, showChat]);
 
   useEffect(() => {
     if (!encodedData) {
@@ -23,96 +91,55 @@ export default function SharedChatRoute() {
       return;
     }
 
-    const startTime = Date.now();
-    const shareId = encodedData.substring(0, 8); // Use first 8 chars as share ID for logging
+    setLoading(true);
+    setError(null);
 
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Decode the shared chat data
-      const decoded = decodeShareData(encodedData);
-      
-      if (!decoded) {
-        setError('Invalid or corrupted share link');
-        setLoading(false);
-        
-        // Log decode failure mm
-        if (process.env.NODE_ENV === 'production') {
-          fetch('/api/metrics', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              event: 'share_decode_error',
-              data: {
-                shareId,
-                error: 'Invalid or corrupted share link',
-                userAgent: navigator.userAgent,
-                timestamp: new Date().toISOString()
-              }
-            })
-          }).catch(() => {}); // Silently fail
-        }
-        
-        return;
-      }
-      
-      const loadTime = Date.now() - startTime;
-      
-      setChatData(decoded);
-      setLoading(false);
-      
-      // Log successful share view
-      if (process.env.NODE_ENV === 'production') {
-        fetch('/api/metrics', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            event: 'share_viewed',
-            data: {
-              shareId,
-              messageCount: decoded.messages.length,
-              truncated: decoded.truncated || false,
-              loadTime,
-              userAgent: navigator.userAgent,
-              referrer: document.referrer,
-              timestamp: new Date().toISOString()
-            }
-          })
-        }).catch(() => {}); // Silently fail
-      }
-      
-    } catch (err) {
-      console.error('Error decoding shared chat:', err);
-      setError('Failed to load shared chat');
+    if (isStoredShareId(encodedData)) {
+      loadStoredShare();
+      return;
+    }
+
+    const startTime = Date.now();
+    const key = shareKeyFromFragment(window.location.hash);
+    if (isEncryptedSharePayload(encodedData) && !key) {
+      setError('Missing decryption key');
       setLoading(false);
-      
-      // Log decode error
-      if (process.env.NODE_ENV === 'production') {
-        fetch('/api/metrics', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            event: 'share_decode_error',
-            data: {
-              shareId,
-              error: err instanceof Error ? err.message : 'Unknown error',
-              userAgent: navigator.userAgent,
-              timestamp: new Date().toISOString()
-            }
-          })
-        }).catch(() => {}); // Silently fail
-      }
+      return;
     }
-  }, [encodedData]);
+
+    // Decode the shared chat data
+    decodeSharePayload(encodedData, key)
+      .then((decoded) => {
+        if (!decoded) {
+          setError('Invalid or corrupted share link');
+          setLoading(false);
+          logShareEvent('share_decode_error', { shareId, error: 'Invalid or corrupted share link' });
+          return;
+        }
+        showChat(decoded, startTime);
+      })
+      .catch((err) => {
+        console.error('Error decoding shared chat:', err);
+        setError('Failed to load shared chat');
+        setLoading(false);
+        logShareEvent('share_decode_error', {
+          shareId,
+          error: err instanceof Error ? err.message : 'Unknown error'
+        });
+      });
+  }, [encodedData, shareId, loadStoredShare, showChat]);
 
   if (loading) {
     return <SharedChatLoading />;
   }
 
+  if (passwordState) {
+    return <SharedChatPassword onSubmit={loadStoredShare} wrongPassword={passwordState === 'wrong'} />;
+  }
+
   if (error || !chatData) {
     return <SharedChatError error={error || 'Unknown error occurred'} />;
   }
 
   return <SharedChatPage chatData={chatData} />;
-}
\ No newline at end of file
+}
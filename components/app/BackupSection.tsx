@@ -0,0 +1,102 @@
+'use client';
+import { useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Archive, Loader2, Upload } from 'lucide-react';
+import { parseArchive } from '@/lib/archive';
+import { collectWorkspaceBackup, describeRestore, restoreArchive } from '@/lib/backup';
+import { downloadJsonFile } from '@/lib/exportUtils';
+import { useAuth } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+import ConversationImport from './ConversationImport';
+
+// Settings section: download a backup of the workspace, or import a backup / exported chats
+export default function BackupSection({ isDark }: { isDark: boolean }) {
+  const { user } = useAuth();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<null | 'backup' | 'import'>(null);
+
+  const backup = async () => {
+    setBusy('backup');
+    try {
+      const data = await collectWorkspaceBackup(user?.id);
+      const date = new Date().toISOString().split('T')[0];
+      downloadJsonFile(data, `open-fiesta-backup_${date}.json`);
+    } catch (e) {
+      toast.error(`Backup failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setBusy('import');
+    try {
+      const parsed = parseArchive(await file.text());
+      if ('error' in parsed) {
+        toast.error(parsed.error);
+        return;
+      }
+      const summary = await restoreArchive(parsed, user?.id);
+      toast.success(describeRestore(summary));
+      // Stores were written outside their hooks; reload so every view picks them up
+      setTimeout(() => window.location.reload(), 1200);
+    } catch (e) {
+      toast.error(`Import failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass = cn(
+    'inline-flex items-center gap-1.5 px-3 py-2 rounded-md border text-sm transition-colors disabled:opacity-60',
+    isDark
+      ? 'border-white/15 bg-white/5 hover:bg-white/10'
+      : 'border-black/15 bg-black/5 hover:bg-black/10',
+  );
+
+  return (
+    <div className={cn('mt-6 pt-4 border-t', isDark ? 'border-white/10' : 'border-black/10')}>
+      <h3 className="text-sm md:text-base font-medium mb-1">Backup &amp; restore</h3>
+      <p className={cn('text-xs mb-3', isDark ? 'text-zinc-400' : 'text-gray-500')}>
+        The backup holds your chats, projects, custom models, endpoints and theme. API keys are
+        never included. Import accepts a backup or chats exported as JSON; chats you already have
+        are not duplicated.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={backup} disabled={busy !== null} className={buttonClass}>
+          {busy === 'backup' ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : (
+            <Archive size={14} />
+          )}
+          Download backup
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          disabled={busy !== null}
+          className={buttonClass}
+        >
+          {busy === 'import' ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : (
+            <Upload size={14} />
+          )}
+          Import…
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <ConversationImport isDark={isDark} />
+    </div>
+  );
+}
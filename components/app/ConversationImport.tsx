@@ -0,0 +1,189 @@
+'use client';
+import { useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { AlertCircle, Loader2, MessagesSquare } from 'lucide-react';
+import { parseConversationImport, SOURCE_LABELS, type ImportResult } from '@/lib/importers';
+import { saveImportedThreads } from '@/lib/importers/persist';
+import { useAuth } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+
+const MAX_ISSUES_SHOWN = 20;
+
+// Import conversations from ChatGPT, Claude or OpenAI-format exports, with a preview to pick
+// which ones to keep
+export default function ConversationImport({ isDark }: { isDark: boolean }) {
+  const { user } = useAuth();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const readFile = async (file: File) => {
+    setReading(true);
+    try {
+      const parsed = parseConversationImport(await file.text());
+      setResult(parsed);
+      setSelected(new Set(parsed.threads.map((t) => t.id)));
+    } catch (e) {
+      toast.error(
+        `Could not read ${file.name}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      );
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const save = async () => {
+    if (!result) return;
+    setSaving(true);
+    try {
+      const threads = result.threads.filter((t) => selected.has(t.id));
+      const { saved, failed } = await saveImportedThreads(threads, user?.id);
+      if (failed.length) {
+        toast.warn(`${saved} chats imported, ${failed.length} failed: ${failed[0].reason}`);
+      } else {
+        toast.success(`${saved} chat${saved === 1 ? '' : 's'} imported`);
+      }
+      // Threads were stored outside the page's state; reload to show them
+      setTimeout(() => window.location.reload(), 1200);
+    } catch (e) {
+      toast.error(`Import failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const muted = isDark ? 'text-zinc-400' : 'text-gray-500';
+  const buttonClass = cn(
+    'inline-flex items-center gap-1.5 px-3 py-2 rounded-md border text-sm transition-colors disabled:opacity-60',
+    isDark
+      ? 'border-white/15 bg-white/5 hover:bg-white/10'
+      : 'border-black/15 bg-black/5 hover:bg-black/10',
+  );
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          disabled={reading || saving}
+          className={buttonClass}
+        >
+          {reading ? <Loader2 size={14} className="animate-spin" /> : <MessagesSquare size={14} />}
+          Import from ChatGPT, Claude or JSONL…
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json,.jsonl"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {result && (
+        <div
+          className={cn(
+            'mt-3 rounded-md border p-3 text-sm',
+            isDark ? 'border-white/10 bg-black/20' : 'border-black/10 bg-black/5',
+          )}
+        >
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <span className="font-medium">
+              {result.source
+                ? `${SOURCE_LABELS[result.source]} export · ${result.threads.length} chats found`
+                : 'Unrecognized file'}
+            </span>
+            {result.threads.length > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setSelected(
+                    selected.size === result.threads.length
+                      ? new Set()
+                      : new Set(result.threads.map((t) => t.id)),
+                  )
+                }
+                className={cn('text-xs underline', muted)}
+              >
+                {selected.size === result.threads.length ? 'Select none' : 'Select all'}
+              </button>
+            )}
+          </div>
+
+          {result.threads.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto space-y-1 pr-1">
+              {result.threads.map((t) => (
+                <li key={t.id}>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(t.id)}
+                      onChange={() => toggle(t.id)}
+                    />
+                    <span className="min-w-0 flex-1 truncate" title={t.title}>
+                      {t.title}
+                    </span>
+                    <span className={cn('shrink-0 text-xs', muted)}>
+                      {t.messages.length} messages · {new Date(t.createdAt).toLocaleDateString()}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {result.issues.length > 0 && (
+            <div
+              className={cn(
+                'mt-2 text-xs space-y-0.5',
+                isDark ? 'text-amber-300' : 'text-amber-700',
+              )}
+            >
+              <div className="inline-flex items-center gap-1 font-medium">
+                <AlertCircle size={12} /> {result.issues.length} skipped
+              </div>
+              {result.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, i) => (
+                <div key={i} className="truncate">
+                  {issue.item}: {issue.reason}
+                </div>
+              ))}
+              {result.issues.length > MAX_ISSUES_SHOWN && (
+                <div>…and {result.issues.length - MAX_ISSUES_SHOWN} more</div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 mt-3">
+            <button type="button" onClick={() => setResult(null)} className={buttonClass}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={saving || selected.size === 0}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium accent-action-fill accent-focus disabled:opacity-60"
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              Import {selected.size} chat{selected.size === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
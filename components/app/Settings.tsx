@@ -6,6 +6,7 @@ import { useLocalStorage } from '@/lib/useLocalStorage';
 import { ApiKeys } from '@/lib/types';
 import { useTheme } from '@/lib/themeContext';
 import { cn } from '@/lib/utils';
+import BackupSection from './BackupSection';
 
 type SettingsProps = { compact?: boolean };
 
@@ -79,7 +80,7 @@ export default function Settings({ compact }: SettingsProps) {
               onClick={() => setOpen(false)}
             />
             <div className={cn(
-              "relative w-full mx-3 sm:mx-6 max-w-2xl lg:max-w-3xl rounded-2xl border p-5 md:p-6 lg:p-7 shadow-2xl pointer-events-auto",
+              "relative w-full mx-3 sm:mx-6 max-w-2xl lg:max-w-3xl rounded-2xl border p-5 md:p-6 lg:p-7 shadow-2xl pointer-events-auto max-h-[90vh] overflow-y-auto",
               isDark
                 ? "border-white/10 bg-zinc-900/95 text-white"
                 : "border-black/10 bg-white/95 text-gray-800"
@@ -276,6 +277,7 @@ export default function Settings({ compact }: SettingsProps) {
                   </p>
                 </div>
               </div>
+              <BackupSection isDark={isDark} />
               <div className="flex flex-col sm:flex-row gap-2 justify-end mt-6">
                 <button
                   onClick={() => setOpen(false)}
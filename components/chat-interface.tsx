@@ -5,7 +5,8 @@ import { useState, useEffect, useRef } from "react"
 import HomeAiInput from "@/components/home/HomeAiInput"
 // removed action icons import (Sparkles, Search, Code, GraduationCap)
 import { mergeModels, useCustomModels } from "@/lib/customModels"
-import type { AiModel } from "@/lib/types"
+import { useCustomEndpoints } from "@/lib/customEndpoints"
+import type { AiModel, Attachment, Citation } from "@/lib/types"
 import MessageDisplay from '@/components/chat/MessageDisplay'
 
 interface Message {
@@ -16,6 +17,8 @@ interface Message {
   avatarUrl?
     : string // optional per-message avatar (model logo)
   avatarAlt?: string
+  attachments?: Attachment[]
+  citations?: Citation[]
 }
 
 export type ChatInterfaceRef = {
@@ -35,7 +38,8 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, { hideInput?: boolean
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const lastModelLabelRef = useRef<string | undefined>(undefined)
   const [customModels] = useCustomModels()
-  const allModels = mergeModels(customModels)
+  const [endpoints] = useCustomEndpoints()
+  const allModels = mergeModels(customModels, endpoints)
 
   // Compute brand logo from a model
   const getBrandFromModel = (model?: AiModel): { src: string; alt: string } => {
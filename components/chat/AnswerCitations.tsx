@@ -0,0 +1,56 @@
+'use client';
+import { useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import type { Citation } from '@/lib/types';
+import { citationLabel, citedSources } from '@/lib/rag/retrieval';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  text: string;
+  citations: Citation[];
+  isDark: boolean;
+};
+
+// Project document excerpts an answer cites; click one to read the excerpt
+export default function AnswerCitations({ text, citations, isDark }: Props) {
+  const [open, setOpen] = useState<number | null>(null);
+  const sources = citedSources(text, citations);
+  const shown = sources.find((c) => c.n === open);
+  const chip = cn(
+    'inline-flex max-w-[220px] items-center gap-1 px-2 py-0.5 rounded text-[11px] transition-colors',
+    isDark
+      ? 'border border-white/10 bg-white/5 hover:bg-white/10'
+      : 'border border-gray-300/30 bg-white/30 hover:bg-white/60',
+  );
+
+  return (
+    <div className={cn('mt-2 text-[11px]', isDark ? 'text-zinc-300/80' : 'text-gray-600/90')}>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <BookOpen size={12} className="opacity-70" aria-label="Sources" />
+        {sources.map((c) => (
+          <button
+            key={c.n}
+            type="button"
+            onClick={() => setOpen(open === c.n ? null : c.n)}
+            className={cn(chip, open === c.n && 'ring-1 ring-[var(--accent-interactive-primary)]')}
+            title={citationLabel(c)}
+          >
+            <span className="font-semibold">[{c.n}]</span>
+            <span className="truncate">{c.name}</span>
+            {c.page !== undefined && <span className="shrink-0 opacity-70">p. {c.page}</span>}
+          </button>
+        ))}
+      </div>
+      {shown && (
+        <blockquote
+          className={cn(
+            'mt-1.5 max-h-40 overflow-y-auto whitespace-pre-wrap rounded border-l-2 px-2 py-1 custom-scrollbar',
+            isDark ? 'border-white/20 bg-white/5' : 'border-black/20 bg-black/5',
+          )}
+        >
+          {shown.excerpt}
+        </blockquote>
+      )}
+    </div>
+  );
+}
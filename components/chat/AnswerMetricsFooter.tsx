@@ -0,0 +1,96 @@
+'use client';
+import { Clock, Coins, Zap } from 'lucide-react';
+import type { AnswerMetrics } from '@/lib/types';
+import { formatCost, formatLatency } from '@/lib/metrics';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  metrics: AnswerMetrics;
+  isDark: boolean;
+  fastest?: boolean;
+  cheapest?: boolean;
+};
+
+export default function AnswerMetricsFooter({ metrics, isDark, fastest, cheapest }: Props) {
+  const approx = metrics.estimated ? '~' : '';
+  const chip = cn(
+    'inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px]',
+    isDark ? 'border border-white/10 bg-white/5' : 'border border-gray-300/30 bg-white/30',
+  );
+  const badge = cn(
+    'inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide',
+    isDark ? 'bg-emerald-500/15 text-emerald-200' : 'bg-emerald-100/80 text-emerald-800',
+  );
+
+  return (
+    <div
+      className={cn(
+        'mt-2 flex flex-wrap items-center gap-1.5 text-[11px]',
+        isDark ? 'text-zinc-300/80' : 'text-gray-600/90',
+      )}
+    >
+      {metrics.latencyMs !== undefined && (
+        <span
+          className={chip}
+          title={
+            metrics.ttftMs !== undefined
+              ? `First token after ${formatLatency(metrics.ttftMs)}, complete after ${formatLatency(metrics.latencyMs)}`
+              : `Complete after ${formatLatency(metrics.latencyMs)}`
+          }
+        >
+          <Clock size={11} className="opacity-80" />
+          {metrics.ttftMs !== undefined && (
+            <>
+              <span className="opacity-80">TTFT</span>
+              <span className="font-medium">{formatLatency(metrics.ttftMs)}</span>
+              <span className="opacity-50">•</span>
+            </>
+          )}
+          <span className="font-medium">{formatLatency(metrics.latencyMs)}</span>
+        </span>
+      )}
+      {(metrics.promptTokens !== undefined || metrics.completionTokens !== undefined) && (
+        <span
+          className={chip}
+          title={
+            metrics.estimated
+              ? 'Estimated from text length; the provider did not report usage'
+              : 'Reported by the provider'
+          }
+        >
+          <span className="opacity-80">In:</span>
+          <span className="font-medium">
+            {approx}
+            {metrics.promptTokens ?? '?'}
+          </span>
+          <span className="opacity-80">Out:</span>
+          <span className="font-medium">
+            {approx}
+            {metrics.completionTokens ?? '?'}
+          </span>
+        </span>
+      )}
+      {metrics.costUsd !== undefined && (
+        <span className={chip} title="Estimated from list prices">
+          <Coins size={11} className="opacity-80" />
+          <span className="font-medium">
+            {metrics.costUsd > 0 ? approx : ''}
+            {formatCost(metrics.costUsd)}
+          </span>
+        </span>
+      )}
+      {fastest && (
+        <span className={badge}>
+          <Zap size={10} />
+          Fastest
+        </span>
+      )}
+      {cheapest && (
+        <span className={badge}>
+          <Coins size={10} />
+          Cheapest
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+import { FileText, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { attachmentKind, formatBytes } from '@/lib/attachments';
+import type { Attachment } from '@/lib/types';
+
+type Props = {
+  attachments: Attachment[];
+  isDark?: boolean;
+  // Composer chips can be removed; transcript chips open a preview
+  onRemove?: (id: string) => void;
+  onOpen?: (attachment: Attachment) => void;
+  className?: string;
+};
+
+export default function AttachmentChips({
+  attachments,
+  isDark = true,
+  onRemove,
+  onOpen,
+  className,
+}: Props) {
+  if (attachments.length === 0) return null;
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {attachments.map((a) => {
+        const image = attachmentKind(a.mime) === 'image' ? (a.thumbnail ?? a.dataUrl) : undefined;
+        return (
+          <div
+            key={a.id}
+            className={cn(
+              'relative flex items-center gap-2 max-w-[220px] rounded-lg border px-2 py-1 text-xs',
+              isDark
+                ? 'border-white/15 bg-white/5 text-white/85'
+                : 'border-black/10 bg-white/60 text-gray-800',
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen?.(a)}
+              disabled={!onOpen}
+              title={a.name}
+              className="flex items-center gap-2 min-w-0 text-left disabled:cursor-default"
+            >
+              {image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={image} alt={a.name} className="h-8 w-8 rounded object-cover shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 shrink-0 opacity-80" />
+              )}
+              <span className="min-w-0">
+                <span className="block truncate">{a.name}</span>
+                <span className="block opacity-60">
+                  {formatBytes(a.size)}
+                  {a.pages ? ` · ${a.pages.included}/${a.pages.total} pages` : ''}
+                  {a.truncated && !a.pages ? ' · truncated' : ''}
+                  {attachmentKind(a.mime) !== 'image' && a.text === undefined ? ' · no text' : ''}
+                </span>
+              </span>
+            </button>
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(a.id)}
+                className={cn(
+                  'shrink-0 inline-flex h-5 w-5 items-center justify-center rounded-full',
+                  isDark ? 'hover:bg-white/15' : 'hover:bg-black/10',
+                )}
+                aria-label={`Remove ${a.name}`}
+                title="Remove"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
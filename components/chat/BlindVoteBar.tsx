@@ -0,0 +1,67 @@
+'use client';
+import { Scale, Trophy } from 'lucide-react';
+import type { BlindVoteWinner } from '@/lib/blindVotes';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  // Contestants in on-screen order; `label` is the masked column label
+  options: { id: string; label: string }[];
+  winner?: BlindVoteWinner;
+  // Names to show once the vote is in, keyed by model id
+  revealedNames: Record<string, string>;
+  ready: boolean; // every answer for the turn has finished
+  isDark: boolean;
+  onVote: (winner: BlindVoteWinner) => void;
+};
+
+export default function BlindVoteBar({
+  options,
+  winner,
+  revealedNames,
+  ready,
+  isDark,
+  onVote,
+}: Props) {
+  const button = cn(
+    'inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium border transition-colors',
+    isDark
+      ? 'bg-white/5 hover:bg-white/15 text-white border-white/15'
+      : 'bg-white/60 hover:bg-white/90 text-gray-700 border-gray-300/50',
+  );
+
+  if (winner) {
+    return (
+      <div
+        className={cn(
+          'px-2 flex items-center gap-2 text-xs',
+          isDark ? 'text-zinc-300' : 'text-gray-600',
+        )}
+      >
+        {winner === 'tie' ? <Scale size={13} /> : <Trophy size={13} className="text-amber-400" />}
+        <span>
+          {winner === 'tie'
+            ? 'You voted a tie'
+            : `You preferred ${revealedNames[winner] || winner}`}
+        </span>
+      </div>
+    );
+  }
+
+  if (!ready || options.length < 2) return null;
+
+  return (
+    <div className="px-2 flex flex-wrap items-center gap-1.5">
+      <span className={cn('text-xs mr-1', isDark ? 'text-zinc-400' : 'text-gray-500')}>
+        Which answer is best?
+      </span>
+      {options.map((o) => (
+        <button key={o.id} onClick={() => onVote(o.id)} className={button}>
+          {o.label}
+        </button>
+      ))}
+      <button onClick={() => onVote('tie')} className={button}>
+        <Scale size={12} /> Tie
+      </button>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 import ConfirmDialog from '@/components/modals/ConfirmDialog';
-import type { AiModel, ChatMessage } from '@/lib/types';
-import { Eye, EyeOff, Loader2, Pencil, Star, Trash, Expand, Shrink, Minus } from 'lucide-react';
+import type { AiModel, Attachment, ChatMessage, ContextUsage, SynthesisMode } from '@/lib/types';
+import { Eye, EyeOff, Loader2, Pencil, Star, Trash, Expand, Shrink, Minus, Trophy, ChevronLeft, ChevronRight, CornerDownRight, Clock } from 'lucide-react';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import MarkdownLite from './MarkdownLite';
 import { CopyToClipboard } from '../ui/CopyToClipboard';
@@ -9,6 +9,42 @@ import { estimateTokens, sanitizeContent, cn } from '@/lib/utils';
 import ModelSelector from '../selectors/ModelSelector';
 import { useTheme } from '@/lib/themeContext';
 import ExpandedChatModal from '../modals/ExpandedChatModal';
+import AnswerMetricsFooter from './AnswerMetricsFooter';
+import AnswerCitations from './AnswerCitations';
+import ContextIndicator from './ContextIndicator';
+import AttachmentChips from './AttachmentChips';
+import AttachmentPreview from '../modals/AttachmentPreview';
+import { rankTurnMetrics } from '@/lib/metrics';
+import BlindVoteBar from './BlindVoteBar';
+import SynthesisPanel from './SynthesisPanel';
+import { isSynthesisAnswer, synthesisCandidates, turnAnswersDone } from '@/lib/synthesis';
+import { QUEUED_CONTENT } from '@/lib/offline/pendingGenerations';
+import type { BranchInfo } from '@/lib/branches';
+import {
+  blindLabel,
+  blindOrder,
+  blindSeed,
+  findTurnVote,
+  type BlindVote,
+  type BlindVoteWinner,
+} from '@/lib/blindVotes';
+
+const NO_COLLAPSED: string[] = [];
+
+// Blind mode: identities are hidden and columns shuffled per turn until the user votes
+export type ChatGridBlindMode = {
+  threadId: string;
+  votes: BlindVote[];
+  onVote: (vote: BlindVote) => void;
+};
+
+// Judge-model "Synthesize" action shown under each turn
+export type ChatGridSynthesis = {
+  judgeModels: AiModel[];
+  judgeId: string;
+  onJudgeChange: (id: string) => void;
+  onSynthesize: (turnIndex: number, mode: SynthesisMode) => void;
+};
 
 export type ChatGridProps = {
   selectedModels: AiModel[];
@@ -20,20 +56,35 @@ export type ChatGridProps = {
   onEditUser: (turnIndex: number, newText: string) => void;
   onDeleteUser: (turnIndex: number) => void;
   onToggle: (id: string) => void;
+  blind?: ChatGridBlindMode;
+  synthesis?: ChatGridSynthesis;
+  // Sibling prompts per turn (from edits) and a way to move between them
+  branches?: { info: BranchInfo[]; onSwitch: (turnIndex: number, delta: number) => void };
+  // Per-column "continue with this model" follow-ups
+  followUp?: { targetId: string | null; onChange: (modelId: string | null) => void };
+  // Scroll to this turn and flash it (e.g. an opened search result); change `key` to refocus
+  focusTurn?: { index: number; key: number } | null;
 };
 
 export default function ChatGrid({
   selectedModels,
   headerTemplate,
-  collapsedIds,
+  collapsedIds: collapsedIdsProp,
   setCollapsedIds,
   loadingIds,
   pairs,
   onEditUser,
   onDeleteUser,
   onToggle,
+  blind,
+  synthesis,
+  branches,
+  followUp,
+  focusTurn,
 }: ChatGridProps) {
   const { theme } = useTheme();
+  // Collapsing would reveal which column is which, so blind mode shows every column
+  const collapsedIds = blind ? NO_COLLAPSED : collapsedIdsProp;
   const isDark = theme.mode === 'dark';
   const [pendingDelete, setPendingDelete] = useState<{ turnIndex: number } | null>(null);
   // Compute grid columns dynamically so expanded model can take full width
@@ -53,6 +104,43 @@ export default function ChatGrid({
     // Otherwise, use responsive layout that fits container
     return `repeat(${selectedModels.length}, minmax(280px, 1fr))`;
   }, [headerTemplate, selectedModels, collapsedIds]);
+  // Fastest / cheapest answer per turn, for the metrics footer badges
+  const turnRanks = useMemo(
+    () => pairs.map((row) => rankTurnMetrics(row.answers.filter((a) => !isSynthesisAnswer(a)))),
+    [pairs],
+  );
+  // Context usage of each model's latest answer, for the column headers
+  const contextUsage = useMemo(() => {
+    const out: Record<string, ContextUsage> = {};
+    for (const row of pairs) {
+      for (const a of row.answers) if (a.modelId && a.context) out[a.modelId] = a.context;
+    }
+    return out;
+  }, [pairs]);
+  // Per-turn column order and vote in blind mode
+  const blindRows = useMemo(() => {
+    if (!blind) return null;
+    return pairs.map((row, i) => {
+      const turnTs = row.user.ts ?? i;
+      return {
+        turnTs,
+        order: blindOrder(selectedModels, blindSeed(blind.threadId, turnTs)),
+        vote: findTurnVote(blind.votes, turnTs),
+      };
+    });
+  }, [blind, pairs, selectedModels]);
+  const castBlindVote = (turnIndex: number, winner: BlindVoteWinner) => {
+    const info = blindRows?.[turnIndex];
+    if (!blind || !info) return;
+    const answered = new Set(pairs[turnIndex].answers.map((a) => a.modelId));
+    blind.onVote({
+      threadId: blind.threadId,
+      turnTs: info.turnTs,
+      modelIds: info.order.filter((m) => answered.has(m.id)).map((m) => m.id),
+      winner,
+      votedAt: Date.now(),
+    });
+  };
   const [editingIdx, setEditingIdx] = useState<number | null>(null);
   const [draft, setDraft] = useState<string>('');
   const [expandedModal, setExpandedModal] = useState<{
@@ -71,6 +159,19 @@ export default function ChatGrid({
     }
   }, [pairs]);
 
+  // Runs after the scroll-to-bottom above so a focused turn wins when both change together
+  const [flashIdx, setFlashIdx] = useState<number | null>(null);
+  const [previewing, setPreviewing] = useState<Attachment | null>(null);
+  useEffect(() => {
+    if (!focusTurn || focusTurn.index < 0) return;
+    const row = scrollRef.current?.querySelector<HTMLElement>(`[data-turn="${focusTurn.index}"]`);
+    if (!row) return;
+    row.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setFlashIdx(focusTurn.index);
+    const timer = setTimeout(() => setFlashIdx(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusTurn]);
+
   return (
     <>
       <div
@@ -96,7 +197,22 @@ export default function ChatGrid({
               )}
               style={{ gridTemplateColumns: headerCols }}
             >
-              {selectedModels.map((m) => {
+              {blind &&
+                selectedModels.map((m, col) => (
+                  <div
+                    key={m.id}
+                    className={cn(
+                      'px-2.5 py-2 min-h-[42px] min-w-0 flex items-center rounded-b-lg backdrop-blur-sm text-[12px] font-medium',
+                      isDark
+                        ? 'bg-black/90 text-white shadow-[0px_1px_2px_rgba(255,255,255,0.25)]'
+                        : 'text-gray-800 shadow-[0_2px_4px_rgba(0,0,0,0.25)]',
+                    )}
+                  >
+                    <EyeOff size={13} className="mr-1.5 opacity-70" />
+                    {blindLabel(col)}
+                  </div>
+                ))}
+              {!blind && selectedModels.map((m) => {
                 const isFree = /(\(|\s)free\)/i.test(m.label);
                 const isCollapsed = collapsedIds.includes(m.id);
                 return (
@@ -158,9 +274,29 @@ export default function ChatGrid({
                         >
                           {m.label}
                         </span>
+                        {contextUsage[m.id] && (
+                          <ContextIndicator usage={contextUsage[m.id]} isDark={isDark} />
+                        )}
                       </div>
                     )}
                     <div className="flex items-center gap-2">
+                      {followUp && !isCollapsed && (
+                        <button
+                          onClick={() =>
+                            followUp.onChange(followUp.targetId === m.id ? null : m.id)
+                          }
+                          className="icon-btn h-7 w-7 accent-focus"
+                          data-selected={followUp.targetId === m.id}
+                          aria-pressed={followUp.targetId === m.id}
+                          title={
+                            followUp.targetId === m.id
+                              ? 'Send follow-ups to all models again'
+                              : `Continue with ${m.label} only`
+                          }
+                        >
+                          <CornerDownRight size={14} />
+                        </button>
+                      )}
                       <button
                         key={m.id}
                         onClick={() => onToggle(m.id)}
@@ -198,7 +334,14 @@ export default function ChatGrid({
             </div>
 
             {pairs.map((row, i) => (
-              <div key={i} className="space-y-3">
+              <div
+                key={i}
+                data-turn={i}
+                className={cn(
+                  'space-y-3 rounded-lg transition-shadow duration-500',
+                  flashIdx === i && 'ring-2 ring-yellow-400/70',
+                )}
+              >
                 {/* User prompt as right-aligned red pill */}
                 <div className="px-2 flex justify-end relative">
                   {editingIdx === i && (
@@ -259,11 +402,64 @@ export default function ChatGrid({
                     </div>
                   )}
                   <div className="group flex gap-2 items-center justify-end sticky right-0 z-10">
+                    {row.user.targetModelId && (
+                      <span
+                        className={cn(
+                          'inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full border',
+                          isDark
+                            ? 'border-white/10 bg-white/5 text-white/70'
+                            : 'border-gray-300/40 bg-white/30 text-gray-600',
+                        )}
+                        title="Follow-up sent to one model"
+                      >
+                        <CornerDownRight size={11} />
+                        {blind
+                          ? 'One model'
+                          : selectedModels.find((m) => m.id === row.user.targetModelId)?.label ||
+                            row.user.targetModelId}
+                      </span>
+                    )}
+                    {(branches?.info[i]?.count ?? 0) > 1 && (
+                      <div
+                        className={cn(
+                          'inline-flex items-center gap-0.5 text-[11px] tabular-nums',
+                          isDark ? 'text-white/70' : 'text-gray-600',
+                        )}
+                      >
+                        <button
+                          onClick={() => branches?.onSwitch(i, -1)}
+                          disabled={branches?.info[i].index === 0}
+                          className="icon-btn h-6 w-6 accent-focus disabled:opacity-40"
+                          title="Previous version of this prompt"
+                        >
+                          <ChevronLeft size={14} />
+                        </button>
+                        <span>
+                          {(branches?.info[i].index ?? 0) + 1}/{branches?.info[i].count}
+                        </span>
+                        <button
+                          onClick={() => branches?.onSwitch(i, 1)}
+                          disabled={branches?.info[i].index === (branches?.info[i].count ?? 0) - 1}
+                          className="icon-btn h-6 w-6 accent-focus disabled:opacity-40"
+                          title="Next version of this prompt"
+                        >
+                          <ChevronRight size={14} />
+                        </button>
+                      </div>
+                    )}
                     <div className="inline-flex items-center text-sm leading-relaxed px-3 py-3 rounded-md bg-[var(--accent-interactive-primary)] text-white shadow-[0_2px_10px_rgba(0,0,0,0.35)]">
                       <span className="truncate whitespace-pre-wrap break-words max-w-[68ch]">
                         {row.user.content}
                       </span>
                     </div>
+                    {row.user.attachments?.length ? (
+                      <AttachmentChips
+                        attachments={row.user.attachments}
+                        isDark={isDark}
+                        onOpen={setPreviewing}
+                        className="justify-end"
+                      />
+                    ) : null}
                     <div className="hidden group-hover:flex order-first gap-1.5 ">
                       <button
                         onClick={() => {
@@ -291,9 +487,13 @@ export default function ChatGrid({
                   className="grid gap-1 items-stretch"
                   style={{ gridTemplateColumns: headerCols }}
                 >
-                  {selectedModels.map((m) => {
+                  {(blindRows?.[i]?.order ?? selectedModels).map((m, col) => {
                     const ans = row.answers.find((a) => a.modelId === m.id);
                     const isCollapsed = collapsedIds.includes(m.id);
+                    const vote = blindRows?.[i]?.vote;
+                    const revealed = !blind || !!vote;
+                    // What the card may show about the model; masked until the turn is voted on
+                    const shown: AiModel = revealed ? m : { ...m, label: blindLabel(col), good: false };
                     return (
                       <div key={m.id} className="h-full">
                         <div
@@ -321,6 +521,23 @@ export default function ChatGrid({
                           title={isCollapsed ? 'Click to expand' : undefined}
                         >
                           {/* decorative overlay removed for cleaner look */}
+                          {blind && (
+                            <div
+                              className={cn(
+                                'mb-1 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium',
+                                vote?.winner === m.id
+                                  ? isDark
+                                    ? 'bg-amber-500/20 text-amber-300 border border-amber-500/30'
+                                    : 'bg-amber-100 text-amber-700 border border-amber-300'
+                                  : isDark
+                                    ? 'border border-white/10 bg-white/5 text-white/80'
+                                    : 'border border-gray-300/40 bg-white/20 text-gray-700',
+                              )}
+                            >
+                              {vote?.winner === m.id && <Trophy size={11} />}
+                              {revealed ? `${blindLabel(col)} · ${m.label}` : blindLabel(col)}
+                            </div>
+                          )}
                           {ans && String(ans.content || '').length > 0 && (
                             <div
                               className={`absolute top-2 right-2 z-10 flex flex-col gap-2 ${
@@ -333,20 +550,20 @@ export default function ChatGrid({
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   setExpandedModal({
-                                    model: m,
+                                    model: shown,
                                     response: ans,
                                     userMessage: row.user.content,
                                   });
                                 }}
                                 className="icon-btn h-7 w-7 accent-focus"
-                                title={`Open ${m.label} response in full screen`}
+                                title={`Open ${shown.label} response in full screen`}
                               >
                                 <Expand size={12} />
                               </button>
 
                               <CopyToClipboard
                                 getText={() => sanitizeContent(ans.content)}
-                                title={`Copy ${m.label} response`}
+                                title={`Copy ${shown.label} response`}
                               />
                             </div>
                           )}
@@ -367,7 +584,7 @@ export default function ChatGrid({
                             >
                               {ans &&
                               String(ans.content || '').length > 0 &&
-                              !['Thinking…', 'Typing…'].includes(String(ans.content)) ? (
+                              !['Thinking…', 'Typing…', QUEUED_CONTENT].includes(String(ans.content)) ? (
                                 <>
                                   <div className="rounded-2xl ring-white/10 px-3 py-2 overflow-hidden">
                                     <div
@@ -380,8 +597,26 @@ export default function ChatGrid({
                                       <MarkdownLite text={sanitizeContent(ans.content)} />
                                     </div>
                                   </div>
-                                  {/* Token usage footer */}
-                                  {ans.tokens &&
+                                  {ans.citations?.length && !isCollapsed ? (
+                                    <AnswerCitations
+                                      text={ans.content}
+                                      citations={ans.citations}
+                                      isDark={isDark}
+                                    />
+                                  ) : null}
+                                  {/* Latency / token / cost footer */}
+                                  {ans.metrics && !isCollapsed && revealed && (
+                                    <AnswerMetricsFooter
+                                      metrics={ans.metrics}
+                                      isDark={isDark}
+                                      fastest={turnRanks[i]?.fastest === m.id}
+                                      cheapest={turnRanks[i]?.cheapest === m.id}
+                                    />
+                                  )}
+                                  {/* Token usage footer for answers saved before metrics existed */}
+                                  {!ans.metrics &&
+                                    ans.tokens &&
+                                    revealed &&
                                     !isCollapsed &&
                                     (() => {
                                       const by = ans.tokens?.by;
@@ -478,6 +713,19 @@ export default function ChatGrid({
                                     </div>
                                   )}
                                 </>
+                              ) : ans && ans.content === QUEUED_CONTENT ? (
+                                <span
+                                  className={cn(
+                                    'inline-flex items-center gap-2 px-2.5 py-1 rounded-full ring-1 text-[12px] font-medium',
+                                    isDark
+                                      ? 'bg-white/10 ring-white/15 text-white/80'
+                                      : 'bg-white/40 ring-white/30 text-gray-700',
+                                  )}
+                                  title="Sent to this model when you're back online"
+                                >
+                                  <Clock size={12} />
+                                  Queued until you&apos;re back online
+                                </span>
                               ) : loadingIds.includes(m.id) ||
                                 (ans && ['Thinking…', 'Typing…'].includes(String(ans.content))) ? (
                                 <div className="w-full self-stretch">
@@ -534,7 +782,9 @@ export default function ChatGrid({
                                     isDark ? 'text-zinc-400' : 'text-gray-500',
                                   )}
                                 >
-                                  No response
+                                  {row.user.targetModelId && row.user.targetModelId !== m.id
+                                    ? 'Not sent to this model'
+                                    : 'No response'}
                                 </span>
                               )}
                             </div>
@@ -558,6 +808,32 @@ export default function ChatGrid({
                     );
                   })}
                 </div>
+                {blind && blindRows?.[i] && (
+                  <BlindVoteBar
+                    options={blindRows[i].order
+                      .map((m, col) => ({ id: m.id, label: blindLabel(col) }))
+                      .filter((o) => row.answers.some((a) => a.modelId === o.id))}
+                    winner={blindRows[i].vote?.winner}
+                    revealedNames={Object.fromEntries(selectedModels.map((m) => [m.id, m.label]))}
+                    ready={row.answers.length > 0 && turnAnswersDone(row.answers)}
+                    isDark={isDark}
+                    onVote={(winner) => castBlindVote(i, winner)}
+                  />
+                )}
+                {/* Judge names could give the blind columns away, so wait for the vote */}
+                {synthesis && (!blind || blindRows?.[i]?.vote) && (
+                  <SynthesisPanel
+                    answer={row.answers.find(isSynthesisAnswer)}
+                    judgeModels={synthesis.judgeModels}
+                    judgeId={synthesis.judgeId}
+                    onJudgeChange={synthesis.onJudgeChange}
+                    onRun={(mode) => synthesis.onSynthesize(i, mode)}
+                    ready={
+                      turnAnswersDone(row.answers) && synthesisCandidates(row.answers).length >= 2
+                    }
+                    isDark={isDark}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -578,6 +854,8 @@ export default function ChatGrid({
         }}
       />
 
+      <AttachmentPreview attachment={previewing} onClose={() => setPreviewing(null)} />
+
       {/* Expanded Chat Modal */}
       {expandedModal && (
         <ExpandedChatModal
@@ -0,0 +1,41 @@
+'use client';
+import { Gauge } from 'lucide-react';
+import type { ContextUsage } from '@/lib/types';
+import { contextPercent, describeContextUsage } from '@/lib/contextBudget';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  usage: ContextUsage;
+  isDark: boolean;
+};
+
+// How full the model's context window was on its latest answer, for the column header
+export default function ContextIndicator({ usage, isDark }: Props) {
+  const percent = contextPercent(usage);
+  const level = percent >= 100 ? 'over' : percent >= 80 ? 'high' : 'ok';
+  const summarized = usage.summarizedTurns;
+  return (
+    <span
+      className={cn(
+        'inline-flex shrink-0 items-center gap-1 h-6 self-center px-2 py-0.5 rounded-full text-[11px] font-medium tabular-nums',
+        level === 'over'
+          ? isDark
+            ? 'bg-red-500/20 text-red-300 border border-red-500/30'
+            : 'bg-red-100 text-red-700 border border-red-300'
+          : level === 'high'
+            ? isDark
+              ? 'bg-amber-500/20 text-amber-300 border border-amber-500/30'
+              : 'bg-amber-100 text-amber-700 border border-amber-300'
+            : isDark
+              ? 'border border-white/10 bg-white/5 text-white/70'
+              : 'border border-gray-300/40 bg-white/20 text-gray-600',
+      )}
+      title={`${describeContextUsage(usage)} (about ${usage.promptTokens.toLocaleString()} of ${usage.contextWindow.toLocaleString()} tokens)`}
+      aria-label={describeContextUsage(usage)}
+    >
+      <Gauge size={11} />
+      {percent}%
+      {summarized > 0 && <span className="hidden sm:inline">· {summarized} summarized</span>}
+    </span>
+  );
+}
@@ -1,8 +1,27 @@
 'use client';
 import { useState } from 'react';
-import { Download, FileText, FileDown, X } from 'lucide-react';
+import {
+  Download,
+  FileText,
+  FileDown,
+  FileJson,
+  FileSpreadsheet,
+  Table2,
+  Braces,
+  X,
+} from 'lucide-react';
 import type { ChatThread, AiModel } from '@/lib/types';
-import { downloadAsMarkdown, downloadAsPdf } from '@/lib/exportUtils';
+import type { BlindVoteStore } from '@/lib/blindVotes';
+import {
+  downloadAsJson,
+  downloadAsMarkdown,
+  downloadAsPdf,
+  downloadComparisonCsv,
+  downloadComparisonHtml,
+  downloadComparisonJsonl,
+} from '@/lib/exportUtils';
+import { readStoredValue } from '@/lib/useLocalStorage';
+import { BLIND_VOTES_STORAGE_KEY } from '@/lib/useBlindVotes';
 
 type Props = {
   thread: ChatThread | null;
@@ -35,6 +54,24 @@ export default function DownloadMenu({ thread, selectedModels }: Props) {
     setIsOpen(false);
   };
 
+  const handleDownloadJson = (e?: React.MouseEvent) => {
+    if (e) stopNative(e);
+    downloadAsJson(thread);
+    setIsOpen(false);
+  };
+
+  // Blind-mode votes for this thread, read at click time so votes cast since mount are included
+  const threadVotes = () =>
+    readStoredValue<BlindVoteStore>(BLIND_VOTES_STORAGE_KEY, {})[thread.id] ?? [];
+
+  const handleDownloadComparison = (format: 'html' | 'csv' | 'jsonl') => (e?: React.MouseEvent) => {
+    if (e) stopNative(e);
+    if (format === 'html') downloadComparisonHtml(thread, selectedModels, threadVotes());
+    else if (format === 'csv') downloadComparisonCsv(thread, threadVotes());
+    else downloadComparisonJsonl(thread, threadVotes());
+    setIsOpen(false);
+  };
+
   return (
     <div className="relative">
       <button
@@ -94,6 +131,55 @@ export default function DownloadMenu({ thread, selectedModels }: Props) {
                     <div className="text-xs text-zinc-400">Formatted document</div>
                   </div>
                 </button>
+
+                <button
+                  onClick={handleDownloadJson}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left rounded-md hover:bg-white/10 text-zinc-200 hover:text-white transition-colors"
+                >
+                  <FileJson size={16} />
+                  <div>
+                    <div className="font-medium">JSON (.json)</div>
+                    <div className="text-xs text-zinc-400">Complete, can be imported</div>
+                  </div>
+                </button>
+              </div>
+
+              <div className="px-2 pt-2 pb-1 mt-1 border-t border-white/10 text-xs font-medium text-zinc-300">
+                Side-by-side comparison
+              </div>
+              <div className="space-y-1">
+                <button
+                  onClick={handleDownloadComparison('html')}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left rounded-md hover:bg-white/10 text-zinc-200 hover:text-white transition-colors"
+                >
+                  <Table2 size={16} />
+                  <div>
+                    <div className="font-medium">HTML (.html)</div>
+                    <div className="text-xs text-zinc-400">One column per model</div>
+                  </div>
+                </button>
+
+                <button
+                  onClick={handleDownloadComparison('csv')}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left rounded-md hover:bg-white/10 text-zinc-200 hover:text-white transition-colors"
+                >
+                  <FileSpreadsheet size={16} />
+                  <div>
+                    <div className="font-medium">CSV (.csv)</div>
+                    <div className="text-xs text-zinc-400">One row per answer</div>
+                  </div>
+                </button>
+
+                <button
+                  onClick={handleDownloadComparison('jsonl')}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left rounded-md hover:bg-white/10 text-zinc-200 hover:text-white transition-colors"
+                >
+                  <Braces size={16} />
+                  <div>
+                    <div className="font-medium">JSONL (.jsonl)</div>
+                    <div className="text-xs text-zinc-400">Prompt/completions for evals</div>
+                  </div>
+                </button>
               </div>
             </div>
           </div>
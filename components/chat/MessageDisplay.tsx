@@ -1,9 +1,12 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
 import { Edit3 } from 'lucide-react'
-import type { ChatMessage } from '@/lib/types'
+import type { Attachment, ChatMessage } from '@/lib/types'
 import MarkdownLite from './MarkdownLite'
+import AttachmentChips from './AttachmentChips'
+import AnswerCitations from './AnswerCitations'
+import AttachmentPreview from '@/components/modals/AttachmentPreview'
 
 interface Message {
   id: string
@@ -31,6 +34,8 @@ export default function MessageDisplay({
   onEditMessage,
   onShareMessage
 }: MessageDisplayProps) {
+  const [previewing, setPreviewing] = useState<Attachment | null>(null)
+
   if (message.role === "assistant") {
     return (
       <div className="flex gap-4 justify-start">
@@ -39,6 +44,9 @@ export default function MessageDisplay({
           <div className="message-content">
             <MarkdownLite text={String(message.content || '')} />
           </div>
+          {message.citations?.length ? (
+            <AnswerCitations text={message.content} citations={message.citations} isDark={isDark} />
+          ) : null}
           {/* No copy/share buttons as requested */}
         </div>
       </div>
@@ -50,7 +58,16 @@ export default function MessageDisplay({
     <div className="flex items-start gap-2 justify-end">
       <div className={`user-message ${isDark ? 'dark' : 'light'}`}>
         <div className="message-content">{message.content}</div>
+        {message.attachments?.length ? (
+          <AttachmentChips
+            attachments={message.attachments}
+            isDark={isDark}
+            onOpen={setPreviewing}
+            className="mt-2"
+          />
+        ) : null}
       </div>
+      <AttachmentPreview attachment={previewing} onClose={() => setPreviewing(null)} />
       {/* Small edit icon outside the bubble */}
       <button
         onClick={() => onEditMessage?.('temp-id', message.content)}
@@ -0,0 +1,183 @@
+'use client';
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useTheme } from '@/lib/themeContext';
+import { useMessageSearch } from '@/lib/useMessageSearch';
+import type { ChatThread } from '@/lib/types';
+import type { Project } from '@/lib/projects';
+import type { MessageSearchFilters, MessageSearchResult } from '@/lib/search';
+
+type Props = {
+  query: string;
+  threads: ChatThread[];
+  userId?: string;
+  projects: Project[];
+  onOpen: (hit: MessageSearchResult) => void;
+};
+
+// yyyy-mm-dd from a date input -> ms at the start (or end) of that local day
+function dayBound(value: string, end: boolean): number | undefined {
+  if (!value) return undefined;
+  const d = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return undefined;
+  return end ? d.getTime() + 24 * 60 * 60 * 1000 - 1 : d.getTime();
+}
+
+export default function MessageSearchResults({ query, threads, userId, projects, onOpen }: Props) {
+  const { theme } = useTheme();
+  const dark = theme.mode === 'dark';
+  const [modelId, setModelId] = useState('');
+  const [provider, setProvider] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  const filters: MessageSearchFilters = {
+    modelId: modelId || undefined,
+    provider: provider || undefined,
+    projectId: projectId || undefined,
+    from: dayBound(fromDay, false),
+    to: dayBound(toDay, true),
+  };
+  const { results, loading, source, facets } = useMessageSearch({
+    userId,
+    threads,
+    query,
+    filters,
+  });
+
+  const field = cn(
+    'w-full min-w-0 rounded-md px-2 py-1 text-xs border focus:outline-none',
+    dark
+      ? 'bg-black/30 border-white/15 text-white/80'
+      : 'bg-white/50 border-gray-300/50 text-gray-700',
+  );
+
+  return (
+    <div className="mb-4">
+      <div
+        className={cn(
+          'flex items-center justify-between text-xs font-semibold uppercase tracking-wider mb-2 px-2',
+          dark ? 'text-white/60' : 'text-gray-700/80',
+        )}
+      >
+        <span>In messages</span>
+        <span className="normal-case font-normal opacity-70">
+          {loading ? 'Searching…' : source === 'local' ? 'This device' : null}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5 mb-2 px-1">
+        <select
+          aria-label="Model"
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          className={field}
+        >
+          <option value="">All models</option>
+          {facets.modelIds.map((id) => (
+            <option key={id} value={id}>
+              {id}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Provider"
+          value={provider}
+          onChange={(e) => setProvider(e.target.value)}
+          className={field}
+        >
+          <option value="">All providers</option>
+          {facets.providers.map((p) => (
+            <option key={p} value={p}>
+              {p}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Project"
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className={cn(field, 'col-span-2')}
+        >
+          <option value="">All projects</option>
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          aria-label="From date"
+          value={fromDay}
+          onChange={(e) => setFromDay(e.target.value)}
+          className={field}
+        />
+        <input
+          type="date"
+          aria-label="To date"
+          value={toDay}
+          onChange={(e) => setToDay(e.target.value)}
+          className={field}
+        />
+      </div>
+
+      {!loading && results.length === 0 && (
+        <div className="text-xs opacity-60 text-center py-2">No messages found</div>
+      )}
+
+      <div className="space-y-1">
+        {results.map((hit) => (
+          <button
+            key={`${hit.threadId}:${hit.messageId ?? hit.ts}:${hit.modelId ?? hit.role}`}
+            onClick={() => onOpen(hit)}
+            className={cn(
+              'w-full text-left rounded-lg px-2 py-1.5 transition-colors',
+              dark ? 'hover:bg-white/10' : 'hover:bg-white/40',
+            )}
+          >
+            <div
+              className={cn(
+                'flex items-center gap-2 text-[11px]',
+                dark ? 'text-white/60' : 'text-gray-600',
+              )}
+            >
+              <span className="truncate font-medium">{hit.threadTitle}</span>
+              <span className="shrink-0 opacity-80">
+                {hit.role === 'user' ? 'You' : hit.modelId || 'Assistant'}
+              </span>
+              {hit.ts && (
+                <span className="ml-auto shrink-0 opacity-70">
+                  {new Date(hit.ts).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+            <div
+              className={cn(
+                'text-xs leading-snug line-clamp-3 break-words',
+                dark ? 'text-white/85' : 'text-gray-800',
+              )}
+            >
+              {hit.snippet.map((part, i) =>
+                part.match ? (
+                  <mark
+                    key={i}
+                    className={cn(
+                      'rounded px-0.5',
+                      dark ? 'bg-yellow-400/30 text-white' : 'bg-yellow-200 text-gray-900',
+                    )}
+                  >
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{part.text}</span>
+                ),
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Share2, Loader2, Copy, Check } from "lucide-react";
 import { toast } from "react-toastify";
 import type { ChatThread } from "@/lib/types";
 import { ShareService } from "@/lib/sharing/shareService";
+import ShareDialog from "./ShareDialog";
 
 interface ShareButtonProps {
   thread: ChatThread;
@@ -16,20 +17,26 @@ export default function ShareButton({ thread, projectName, className = "" }: Sha
   const [showManualCopy, setShowManualCopy] = useState(false);
   const [shareUrl, setShareUrl] = useState<string>("");
   const [manualCopySuccess, setManualCopySuccess] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
   const urlInputRef = useRef<HTMLInputElement>(null);
 
-  const handleShare = async (e: React.MouseEvent) => {
+  const openDialog = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering parent click handlers
+    setDialogOpen(true);
+  };
 
+  // Copy a link with the whole conversation encoded in the URL
+  const handleShare = async (encrypt = false) => {
     if (isSharing) return;
 
+    setDialogOpen(false);
     setIsSharing(true);
     setShowManualCopy(false);
     setManualCopySuccess(false);
 
     try {
       const shareService = new ShareService();
-      const result = await shareService.generateShareableUrl(thread, projectName);
+      const result = await shareService.generateShareableUrl(thread, projectName, { encrypt });
 
       if (result.success && result.url) {
         setShareUrl(result.url);
@@ -111,12 +118,8 @@ export default function ShareButton({ thread, projectName, className = "" }: Sha
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      // Create a synthetic mouse event for keyboard activation
-      const syntheticEvent = {
-        stopPropagation: () => { },
-        preventDefault: () => { }
-      } as React.MouseEvent<HTMLButtonElement>;
-      handleShare(syntheticEvent);
+      e.stopPropagation();
+      setDialogOpen(true);
     }
   };
 
@@ -131,7 +134,7 @@ export default function ShareButton({ thread, projectName, className = "" }: Sha
         aria-label={isSharing ? "Sharing conversation..." : "Share this conversation"}
         aria-describedby="share-button-description"
         title="Share this conversation"
-        onClick={handleShare}
+        onClick={openDialog}
         onKeyDown={handleKeyDown}
         disabled={isSharing}
         className={`h-7 w-7 shrink-0 inline-flex items-center justify-center rounded-md border border-white/10 bg-white/5 hover:bg-blue-500/20 hover:border-blue-300/30 text-zinc-300 hover:text-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-transparent ${className}`}
@@ -148,6 +151,15 @@ export default function ShareButton({ thread, projectName, className = "" }: Sha
         Creates a shareable link for this conversation that can be viewed by anyone with the URL
       </span>
 
+      {dialogOpen && (
+        <ShareDialog
+          thread={thread}
+          projectName={projectName}
+          onClose={() => setDialogOpen(false)}
+          onCopyEncodedLink={handleShare}
+        />
+      )}
+
       {/* Manual Copy Fallback Modal */}
       {showManualCopy && (
         <div
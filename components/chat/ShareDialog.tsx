@@ -0,0 +1,274 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, Copy, Eye, Link2, Loader2, Lock, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import type { ChatThread } from '@/lib/types';
+import { useAuth } from '@/lib/auth';
+import { ShareService } from '@/lib/sharing/shareService';
+import { SHARE_EXPIRY_OPTIONS } from '@/lib/sharing/storedShares';
+import { fetchSharedLinks, revokeSharedLink, type SharedLink } from '@/lib/db/shares';
+
+interface ShareDialogProps {
+  thread: ChatThread;
+  projectName?: string;
+  onClose: () => void;
+  // Legacy link with the conversation encoded in the URL
+  onCopyEncodedLink: (encrypt: boolean) => void;
+}
+
+const isExpired = (link: SharedLink) => !!link.expiresAt && link.expiresAt <= Date.now();
+
+function linkStatus(link: SharedLink): string {
+  if (link.revokedAt) return 'Revoked';
+  if (isExpired(link)) return 'Expired';
+  if (link.expiresAt) return `Expires ${new Date(link.expiresAt).toLocaleDateString()}`;
+  return 'No expiry';
+}
+
+export default function ShareDialog({
+  thread,
+  projectName,
+  onClose,
+  onCopyEncodedLink,
+}: ShareDialogProps) {
+  const { user } = useAuth();
+  const [encrypt, setEncrypt] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState<number>(7);
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [links, setLinks] = useState<SharedLink[]>([]);
+  const [loadingLinks, setLoadingLinks] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const shareService = new ShareService();
+
+  const loadLinks = useCallback(async () => {
+    if (!user?.id) return;
+    setLoadingLinks(true);
+    try {
+      setLinks(await fetchSharedLinks(user.id, thread.id));
+    } catch (e) {
+      console.error('Failed to load share links:', e);
+    } finally {
+      setLoadingLinks(false);
+    }
+  }, [user?.id, thread.id]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const copyLink = async (id: string) => {
+    const ok = await shareService.copyToClipboard(shareService.storedShareUrl(id));
+    if (ok) {
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } else {
+      toast.info(shareService.getClipboardErrorMessage());
+    }
+    return ok;
+  };
+
+  const createLink = async () => {
+    if (!user?.id || creating) return;
+    setCreating(true);
+    try {
+      const result = await shareService.createStoredShare(
+        thread,
+        user.id,
+        { expiresInDays, password },
+        projectName,
+      );
+      if (!result.success || !result.id) {
+        toast.error(result.error || 'Failed to create share link');
+        return;
+      }
+      setPassword('');
+      await loadLinks();
+      if (await copyLink(result.id)) {
+        toast.success('Share link copied to clipboard!', {
+          icon: <Check size={18} color="currentColor" aria-hidden="true" />,
+        });
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    if (!user?.id) return;
+    try {
+      await revokeSharedLink(user.id, id);
+      setLinks((prev) => prev.map((l) => (l.id === id ? { ...l, revokedAt: Date.now() } : l)));
+      toast.success('Share link revoked');
+    } catch (e) {
+      console.error('Failed to revoke share link:', e);
+      toast.error('Could not revoke the share link');
+    }
+  };
+
+  const inputClass =
+    'px-3 py-2 bg-zinc-700 border border-white/10 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] bg-black/50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-dialog-title"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="bg-zinc-800 border border-white/10 rounded-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 id="share-dialog-title" className="text-lg font-semibold">
+            Share conversation
+          </h3>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-white/10 text-white/70"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium">Quick link</h4>
+          <p className="text-white/60 text-xs">
+            The conversation is stored in the link itself. Long chats are shortened, and the link
+            cannot be revoked.
+          </p>
+          <label className="flex items-start gap-2 text-xs text-white/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={encrypt}
+              onChange={(e) => setEncrypt(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Encrypt end to end. The key is kept after the # in the link, so the server never
+              sees the conversation.
+            </span>
+          </label>
+          <button
+            onClick={() => onCopyEncodedLink(encrypt)}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded text-sm bg-white/10 hover:bg-white/20 border border-white/10 transition-colors"
+          >
+            <Copy size={14} aria-hidden="true" /> Copy link
+          </button>
+        </section>
+
+        <section className="space-y-2 mt-6 pt-4 border-t border-white/10">
+          <h4 className="text-sm font-medium">Short link</h4>
+          {!user ? (
+            <p className="text-white/60 text-xs">
+              Sign in to create short links that can expire, require a password and be revoked.
+            </p>
+          ) : (
+            <>
+              <p className="text-white/60 text-xs">
+                A snapshot of this conversation is saved on the server. Later messages are not
+                included.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className={inputClass}
+                  aria-label="Link expiry"
+                >
+                  {SHARE_EXPIRY_OPTIONS.map((o) => (
+                    <option key={o.days} value={o.days}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password (optional)"
+                  autoComplete="new-password"
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                />
+                <button
+                  onClick={createLink}
+                  disabled={creating}
+                  className="inline-flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white rounded text-sm transition-colors"
+                >
+                  {creating ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
+                  Create link
+                </button>
+              </div>
+
+              {loadingLinks && links.length === 0 ? (
+                <Loader2 size={16} className="animate-spin text-white/60" />
+              ) : (
+                links.length > 0 && (
+                  <ul className="mt-3 space-y-2">
+                    {links.map((link) => {
+                      const active = !link.revokedAt && !isExpired(link);
+                      return (
+                        <li
+                          key={link.id}
+                          className="flex items-center gap-2 text-sm rounded border border-white/10 px-3 py-2"
+                        >
+                          <div className={`min-w-0 flex-1 ${active ? '' : 'opacity-50'}`}>
+                            <div className="font-mono truncate flex items-center gap-1">
+                              /shared/{link.id}
+                              {link.hasPassword && (
+                                <Lock size={12} aria-label="Password protected" />
+                              )}
+                            </div>
+                            <div className="text-xs text-white/60 flex items-center gap-2">
+                              <span>{linkStatus(link)}</span>
+                              <span className="inline-flex items-center gap-1">
+                                <Eye size={12} aria-hidden="true" /> {link.viewCount}
+                              </span>
+                            </div>
+                          </div>
+                          {active && (
+                            <>
+                              <button
+                                onClick={() => copyLink(link.id)}
+                                aria-label="Copy link"
+                                className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-white/10"
+                              >
+                                {copiedId === link.id ? <Check size={14} /> : <Copy size={14} />}
+                              </button>
+                              <button
+                                onClick={() => revoke(link.id)}
+                                className="px-2 py-1 rounded text-xs text-red-300 hover:bg-red-500/20"
+                              >
+                                Revoke
+                              </button>
+                            </>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+import { useState } from 'react';
+import { Gavel, RefreshCw, Sparkles } from 'lucide-react';
+import type { AiModel, ChatMessage, SynthesisMode } from '@/lib/types';
+import { cn, sanitizeContent } from '@/lib/utils';
+import MarkdownLite from './MarkdownLite';
+import { CopyToClipboard } from '../ui/CopyToClipboard';
+
+type Props = {
+  // Existing synthesis answer for the turn, if any
+  answer?: ChatMessage;
+  judgeModels: AiModel[];
+  judgeId: string;
+  onJudgeChange: (id: string) => void;
+  onRun: (mode: SynthesisMode) => void;
+  // Every answer has finished and at least two have content
+  ready: boolean;
+  isDark: boolean;
+};
+
+const MODE_LABELS: Record<SynthesisMode, string> = {
+  merge: 'Merged answer',
+  critique: 'Ranked critique',
+};
+
+// "Synthesize" toolbar under a turn plus the judge's answer card
+export default function SynthesisPanel({
+  answer,
+  judgeModels,
+  judgeId,
+  onJudgeChange,
+  onRun,
+  ready,
+  isDark,
+}: Props) {
+  const [mode, setMode] = useState<SynthesisMode>(answer?.synthesis?.mode ?? 'merge');
+  const content = String(answer?.content || '');
+  const pending = !!answer && ['Thinking…', 'Typing…', ''].includes(content.trim());
+  const judgeLabel =
+    judgeModels.find((m) => m.id === answer?.synthesis?.judgeModelId)?.label ||
+    answer?.synthesis?.judgeModelId;
+
+  if (!ready && !answer) return null;
+
+  const control = cn(
+    'h-7 px-2 text-xs rounded-md border focus:outline-none',
+    isDark
+      ? 'bg-white/5 text-white border-white/15 [&>option]:bg-zinc-900'
+      : 'bg-white/60 text-gray-700 border-gray-300/50',
+  );
+
+  const toolbar = (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <select
+        value={judgeId}
+        onChange={(e) => onJudgeChange(e.target.value)}
+        className={cn(control, 'max-w-[22ch]')}
+        title="Judge model"
+        aria-label="Judge model"
+      >
+        {judgeModels.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as SynthesisMode)}
+        className={control}
+        aria-label="Synthesis mode"
+      >
+        <option value="merge">{MODE_LABELS.merge}</option>
+        <option value="critique">{MODE_LABELS.critique}</option>
+      </select>
+      <button
+        onClick={() => onRun(mode)}
+        disabled={!ready || pending || !judgeId}
+        className="inline-flex items-center gap-1 h-7 px-2.5 text-xs rounded-md accent-action-fill text-white disabled:opacity-50"
+        title="Send the prompt and all answers to the judge model"
+      >
+        {answer ? <RefreshCw size={12} /> : <Sparkles size={12} />}
+        {answer ? 'Redo' : 'Synthesize'}
+      </button>
+    </div>
+  );
+
+  if (!answer) return <div className="px-2">{toolbar}</div>;
+
+  return (
+    <div
+      className={cn(
+        'group relative mx-1 rounded-lg p-3',
+        isDark
+          ? 'bg-gradient-to-b from-black/40 to-black/20 shadow-[0px_1px_2px_rgba(255,255,255,0.25)]'
+          : 'bg-gradient-to-b from-white/40 to-white/20 shadow-[0_2px_4px_rgba(0,0,0,0.25)]',
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div
+          className={cn(
+            'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[12px] font-medium',
+            isDark
+              ? 'bg-violet-500/20 text-violet-200 border border-violet-500/30'
+              : 'bg-violet-100 text-violet-700 border border-violet-300',
+          )}
+        >
+          <Gavel size={12} />
+          {MODE_LABELS[answer.synthesis?.mode ?? 'merge']}
+          {judgeLabel && <span className="opacity-80">· {judgeLabel}</span>}
+        </div>
+        <div className="flex items-center gap-1.5">
+          {toolbar}
+          {!pending && <CopyToClipboard getText={() => sanitizeContent(content)} />}
+        </div>
+      </div>
+      {pending ? (
+        <div className={cn('text-[12px]', isDark ? 'text-white/80' : 'text-gray-600')}>
+          Judging answers…
+        </div>
+      ) : (
+        <div className="text-sm leading-relaxed max-h-[50vh] overflow-y-auto custom-scrollbar">
+          <MarkdownLite text={sanitizeContent(content)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,11 +10,13 @@ import ProjectsSection from '@/components/app/ProjectsSection';
 import DownloadMenu from './DownloadMenu';
 import ShareButton from "@/components/chat/ShareButton";
 import ThreadItem from './ThreadItem';
+import MessageSearchResults from './MessageSearchResults';
 import { useTheme } from '@/lib/themeContext';
 import { ACCENT_COLORS, BACKGROUND_STYLES } from '@/lib/themes';
 import AuthButton from '@/components/auth/AuthButton';
 import type { Project } from '@/lib/projects';
 import { useAuth } from '@/lib/auth';
+import type { MessageSearchResult } from '@/lib/search';
 
 type Props = {
   sidebarOpen: boolean;
@@ -35,6 +37,12 @@ type Props = {
   onCreateProject: () => void;
   onUpdateProject: (project: Project) => void;
   onDeleteProject: (id: string) => void;
+  // Paginated loading from the database
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Enables full-text search over message content; called when a result is picked
+  onOpenSearchResult?: (hit: MessageSearchResult) => void;
 };
 
 export default function ThreadSidebar({
@@ -54,6 +62,10 @@ export default function ThreadSidebar({
   onCreateProject,
   onUpdateProject,
   onDeleteProject,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onOpenSearchResult,
 }: Props) {
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
@@ -117,11 +129,42 @@ export default function ThreadSidebar({
   const hasUnusedRecentThread = useMemo(() => {
     const recentThread = threads.find(t =>
       (!t.messages || t.messages.length === 0) &&
+      !t.messageCount &&
       (!t.title || t.title === 'New Chat')
     );
     return recentThread;
   }, [threads]);
 
+  const loadMoreButton = hasMore && onLoadMore && !searchQuery && (
+    <button
+      onClick={onLoadMore}
+      disabled={loadingMore}
+      className={cn(
+        "w-full text-xs py-2 rounded-lg border transition-colors disabled:opacity-60",
+        theme.mode === 'dark'
+          ? "border-white/10 bg-white/5 hover:bg-white/10 text-white/80"
+          : "border-gray-300/40 bg-white/40 hover:bg-white/60 text-gray-700"
+      )}
+    >
+      {loadingMore ? 'Loading…' : 'Load older chats'}
+    </button>
+  );
+
+  const messageSearchResults = (closeMobile: boolean) =>
+    onOpenSearchResult &&
+    searchQuery.trim().length >= 2 && (
+      <MessageSearchResults
+        query={searchQuery}
+        threads={threads}
+        userId={user?.id}
+        projects={projects}
+        onOpen={(hit) => {
+          onOpenSearchResult(hit);
+          if (closeMobile) onCloseMobile();
+        }}
+      />
+    );
+
   const handleThreadSelect = async (id: string) => {
     if (id === activeId) return;
 
@@ -268,7 +311,7 @@ export default function ThreadSidebar({
                 )} />
                 <input
                   type="text"
-                  placeholder="Search threads..."
+                  placeholder={onOpenSearchResult ? "Search chats and messages..." : "Search threads..."}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className={cn(
@@ -430,6 +473,8 @@ export default function ThreadSidebar({
                       </div>
                     </div>
                   )}
+                  {loadMoreButton}
+                  {messageSearchResults(false)}
                 </>
               )}
             </div>
@@ -594,7 +639,7 @@ export default function ThreadSidebar({
                 )} />
                 <input
                   type="text"
-                  placeholder="Search threads..."
+                  placeholder={onOpenSearchResult ? "Search chats and messages..." : "Search threads..."}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className={cn(
@@ -745,6 +790,8 @@ export default function ThreadSidebar({
                       </div>
                     </div>
                   )}
+                  {loadMoreButton}
+                  {messageSearchResults(true)}
                 </>
               )}
               </div>
@@ -3,14 +3,16 @@
 import type React from "react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Globe, Paperclip, Send, Loader2, X, Mic, MicOff, Sparkles, FileText } from "lucide-react";
+import { Globe, Paperclip, Send, Loader2, Mic, MicOff, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import SpeechRecognition, { useSpeechRecognition } from "react-speech-recognition";
-import Image from "next/image";
+import AttachmentChips from "@/components/chat/AttachmentChips";
+import { ATTACHMENT_ACCEPT, acceptAttachmentFiles, readAttachment } from "@/lib/attachments";
+import type { Attachment } from "@/lib/types";
 
 interface Props {
-  onSubmit?: (text: string) => void;
+  onSubmit?: (text: string, attachments?: Attachment[]) => void;
   isDark?: boolean;
   // When provided, replaces the Search toggle with a model selector button
   modelSelectorLabel?: string;
@@ -37,8 +39,9 @@ export default function HomeAiInput({
   const [value, setValue] = useState(initialValue || "");
   const [showSearch, setShowSearch] = useState(true);
   const [isEnhancing, setIsEnhancing] = useState(false);
-  const [attachedFile, setAttachedFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Files still being read or extracted; sending waits for them
+  const [readingCount, setReadingCount] = useState(0);
   const [attachmentErrorMsg, setAttachmentErrorMsg] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -122,62 +125,42 @@ export default function HomeAiInput({
     }
   }, []);
 
-  useEffect(
-    () => () => {
-      if (imagePreview) URL.revokeObjectURL(imagePreview);
-    },
-    [imagePreview],
-  );
+  const showAttachmentError = (msg: string) => {
+    setAttachmentErrorMsg(msg);
+    setTimeout(() => setAttachmentErrorMsg(null), 4000);
+  };
 
-  const handleRemoveAttachment = (e?: React.MouseEvent<HTMLButtonElement>) => {
-    if (e) {
-      e.preventDefault();
-      e.stopPropagation();
-    }
-    if (fileInputRef.current) fileInputRef.current.value = "";
-    if (imagePreview) URL.revokeObjectURL(imagePreview);
-    setImagePreview(null);
-    setAttachedFile(null);
+  const handleRemoveAttachment = (id: string) => {
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files ? e.target.files[0] : null;
-    if (!file) return;
-
-    // Allowed: images, txt, pdf, doc, docx
-    const allowed = [
-      /^image\//,
-      /^text\/plain$/,
-      /^application\/pdf$/,
-      /^application\/msword$/,
-      /^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/,
-    ];
-    const isAllowed = allowed.some((re) => re.test(file.type));
-    if (!isAllowed) {
-      setAttachmentErrorMsg("Unsupported file. Allowed: Images, TXT, PDF, DOC, DOCX.");
-      setTimeout(() => setAttachmentErrorMsg(null), 4000);
-      if (fileInputRef.current) fileInputRef.current.value = "";
-      return;
-    }
+    const files = Array.from(e.target.files ?? []);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (files.length === 0) return;
 
-    setAttachedFile(file);
-    if (file.type.startsWith("image/")) {
-      setImagePreview(URL.createObjectURL(file));
-    } else {
-      setImagePreview(null);
-    }
+    const { accepted, error } = acceptAttachmentFiles(attachments.length + readingCount, files);
+    if (error) showAttachmentError(error);
+    accepted.forEach((i) => {
+      const file = files[i];
+      setReadingCount((n) => n + 1);
+      readAttachment(file)
+        .then((a) => setAttachments((prev) => [...prev, a]))
+        .catch(() => showAttachmentError(`Could not read ${file.name}.`))
+        .finally(() => setReadingCount((n) => n - 1));
+    });
   };
 
   const handleSend = () => {
     const text = value.trim();
-    if (!text) return;
+    if (!text || readingCount > 0) return;
     if (listening) setTimeout(() => stopListening(), 100);
     // Debug: verify send triggers and onSubmit exists
     try {
       console.log("[HomeAiInput] handleSend invoked with:", text);
     } catch {}
     if (onSubmit) {
-      onSubmit(text);
+      onSubmit(text, attachments.length ? attachments : undefined);
     } else {
       try {
         console.warn("[HomeAiInput] onSubmit prop is not provided");
@@ -185,8 +168,7 @@ export default function HomeAiInput({
     }
     // Clear value but keep the height as-is and refocus to preserve layout/feel
     setValue("");
-    setAttachedFile(null);
-    setImagePreview(null);
+    setAttachments([]);
     onClear?.(); // Call clear callback if provided
     requestAnimationFrame(() => {
       textareaRef.current?.focus();
@@ -238,55 +220,19 @@ export default function HomeAiInput({
         style={{ position: "absolute", bottom: "50px", zIndex: 1 }} // Add this inline style
       >
         <div className="flex flex-row items-end">
-          {/* Content area: conditional image layout or standard textarea */}
-          {imagePreview && (
-            <div
-              className=""
-              style={{ "--ai-input-max": `${MAX_HEIGHT}px` } as React.CSSProperties}
-            >
-              <div className="flex gap-3 p-3 pr-4">
-                <div className="relative h-[96px] w-[96px] flex-shrink-0 rounded-xl overflow-hidden border shadow-sm">
-                  <Image
-                    className="object-cover h-full w-full"
-                    src={imagePreview}
-                    height={240}
-                    width={240}
-                    alt="attached image"
-                  />
-                  <button
-                    onClick={handleRemoveAttachment}
-                    className="cursor-pointer absolute top-1.5 right-1.5 inline-flex items-center justify-center h-6 w-6 rounded-full bg-black/70 dark:bg-white/70 text-white dark:text-black hover:bg-black/80 dark:hover:bg-white/80 border border-black/20 dark:border-white/20"
-                    aria-label="Remove image"
-                    title="Remove image"
-                  >
-                    <X className="w-3.5 h-3.5" />
-                  </button>
-                </div>
-              </div>
-            </div>
-          )}
-          {/* Non-image file info */}
-          {attachedFile && !imagePreview && (
-            <div className=" px-4 py-2 mb-2 bg-transparent flex items-center justify-between gap-3">
-              <div className="flex items-center gap-2 min-w-0">
-                <FileText className="w-4 h-4 text-black/80 dark:text-white/80" />
-                <span
-                  className="truncate text-sm text-black/90 dark:text-white/90"
-                  title={attachedFile.name}
-                >
-                  {attachedFile.name}
-                </span>
-                <span className="text-xs text-black/60 dark:text-white/60 flex-shrink-0">
-                  {Math.max(1, Math.round(attachedFile.size / 1024))} KB
+          {(attachments.length > 0 || readingCount > 0) && (
+            <div className="px-3 pt-3 pb-2 flex flex-wrap items-center gap-2">
+              <AttachmentChips
+                attachments={attachments}
+                isDark={isDark}
+                onRemove={handleRemoveAttachment}
+              />
+              {readingCount > 0 && (
+                <span className="inline-flex items-center gap-1 text-xs text-black/60 dark:text-white/60">
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  Reading {readingCount} file{readingCount === 1 ? "" : "s"}…
                 </span>
-              </div>
-              <button
-                onClick={handleRemoveAttachment}
-                className="cursor-pointer inline-flex items-center justify-center h-5 w-5 rounded-full bg-black/50 dark:bg-white/50 text-black/90 dark:text-white/90 hover:bg-black/60 dark:hover:bg-white/60 border border-black/10 dark:border-white/10"
-                aria-label="Remove file"
-              >
-                <X className="w-3.5 h-3.5" />
-              </button>
+              )}
             </div>
           )}
           {/* fix attachment error message display, red outline, drop box attachment area */}
@@ -392,11 +338,11 @@ export default function HomeAiInput({
             <div className="flex items-center gap-2">
               {/* Attach */}
               <label
-                title="Attach file"
+                title="Attach files"
                 className={cn(
                   "cursor-pointer relative rounded-full transition-all duration-200 w-8 h-8 justify-center flex items-center",
                   isDark ? "" : "hover:bg-rose-200/40 hover:border hover:border-rose-300/50",
-                  attachedFile
+                  attachments.length > 0
                     ? "bg-[var(--accent-interactive-primary)]/15 border border-[var(--accent-interactive-primary)] text-[var(--accent-interactive-primary)]"
                     : isDark
                       ? "text-white/60 hover:text-white"
@@ -407,7 +353,8 @@ export default function HomeAiInput({
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileChange}
-                  accept="image/*,application/pdf,text/plain,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
                   className="hidden"
                   aria-label="Attach file"
                 />
@@ -494,7 +441,7 @@ export default function HomeAiInput({
                           ? 'bg-white/10 text-white/50 cursor-not-allowed'
                           : 'bg-white/50 text-gray-500 cursor-not-allowed border border-white/40',
                     )}
-                    disabled={!value.trim()}
+                    disabled={!value.trim() || readingCount > 0}
                     aria-label="Send"
                   >
                     <Send className="w-4 h-4" />
@@ -0,0 +1,57 @@
+'use client';
+import { X } from 'lucide-react';
+import { attachmentKind, formatBytes } from '@/lib/attachments';
+import type { Attachment } from '@/lib/types';
+
+type Props = {
+  attachment: Attachment | null;
+  onClose: () => void;
+};
+
+export default function AttachmentPreview({ attachment, onClose }: Props) {
+  if (!attachment) return null;
+  const isImage = attachmentKind(attachment.mime) === 'image';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-3xl max-h-[85vh] mx-3 flex flex-col rounded-2xl border border-white/10 bg-zinc-900/90 p-5 shadow-2xl">
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <div className="min-w-0">
+            <h3 className="text-base font-semibold tracking-wide truncate">{attachment.name}</h3>
+            <div className="text-xs text-zinc-400">
+              {attachment.mime || 'unknown type'} · {formatBytes(attachment.size)}
+              {attachment.pages
+                ? ` · first ${attachment.pages.included} of ${attachment.pages.total} pages`
+                : ''}
+              {attachment.truncated ? ' · text truncated' : ''}
+            </div>
+          </div>
+          <button
+            aria-label="Close"
+            onClick={onClose}
+            className="h-8 w-8 shrink-0 inline-flex items-center justify-center rounded-md bg-white/10 hover:bg-white/20"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <div className="min-h-0 overflow-auto">
+          {isImage && attachment.dataUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={attachment.dataUrl}
+              alt={attachment.name}
+              className="max-w-full max-h-[70vh] mx-auto rounded-lg object-contain"
+            />
+          ) : attachment.text !== undefined ? (
+            <pre className="whitespace-pre-wrap break-words text-xs leading-relaxed text-zinc-200">
+              {attachment.text || '(no extractable text)'}
+            </pre>
+          ) : (
+            <div className="text-sm text-zinc-400">No preview available for this file.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+import { useState } from 'react';
+import { AlertCircle, Download, Loader2, Pencil, Server, Trash2 } from 'lucide-react';
+import {
+  formatHeaderLines,
+  listEndpointModels,
+  normalizeBaseUrl,
+  parseHeaderLines,
+  parseModelList,
+  useCustomEndpoints,
+} from '@/lib/customEndpoints';
+import type { CustomEndpoint } from '@/lib/customEndpoints';
+import { safeUUID } from '@/lib/uuid';
+import { cn } from '@/lib/utils';
+
+type Draft = {
+  id?: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: string; // "Name: value" per line
+  models: string; // comma- or newline-separated
+  contextWindow: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  baseUrl: '',
+  apiKey: '',
+  headers: '',
+  models: '',
+  contextWindow: '',
+};
+
+function toDraft(e: CustomEndpoint): Draft {
+  return {
+    id: e.id,
+    name: e.name,
+    baseUrl: e.baseUrl,
+    apiKey: e.apiKey ?? '',
+    headers: formatHeaderLines(e.headers),
+    models: e.models.join('\n'),
+    contextWindow: e.contextWindow ? String(e.contextWindow) : '',
+  };
+}
+
+// Add, edit and remove OpenAI-compatible endpoints (vLLM, LM Studio, llama.cpp, ...)
+export default function CustomEndpoints({ isDark }: { isDark: boolean }) {
+  const [endpoints, setEndpoints] = useCustomEndpoints();
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [err, setErr] = useState<string | null>(null);
+  const [fetching, setFetching] = useState(false);
+
+  const set = (patch: Partial<Draft>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setErr(null);
+  };
+
+  const fetchModels = async () => {
+    const baseUrl = normalizeBaseUrl(draft.baseUrl);
+    if (!baseUrl) {
+      setErr('Enter the base URL first.');
+      return;
+    }
+    setFetching(true);
+    setErr(null);
+    try {
+      const models = await listEndpointModels({
+        baseUrl,
+        apiKey: draft.apiKey.trim() || undefined,
+        headers: parseHeaderLines(draft.headers),
+      });
+      if (models.length === 0) setErr('The endpoint did not list any models.');
+      else set({ models: models.join('\n') });
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : 'Could not list models');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const save = () => {
+    const name = draft.name.trim();
+    const baseUrl = normalizeBaseUrl(draft.baseUrl);
+    const models = parseModelList(draft.models);
+    if (!name || !baseUrl) {
+      setErr('Please enter both a name and a base URL.');
+      return;
+    }
+    if (!/^https?:\/\/.+/.test(baseUrl)) {
+      setErr('The base URL must start with http:// or https://');
+      return;
+    }
+    if (models.length === 0) {
+      setErr('Add at least one model id, or fetch them from the endpoint.');
+      return;
+    }
+    const contextWindow = Number(draft.contextWindow);
+    const headers = parseHeaderLines(draft.headers);
+    const endpoint: CustomEndpoint = {
+      id: draft.id ?? safeUUID(),
+      name,
+      baseUrl,
+      ...(draft.apiKey.trim() ? { apiKey: draft.apiKey.trim() } : {}),
+      ...(Object.keys(headers).length ? { headers } : {}),
+      models,
+      ...(Number.isInteger(contextWindow) && contextWindow > 0 ? { contextWindow } : {}),
+    };
+    setEndpoints(
+      draft.id
+        ? endpoints.map((e) => (e.id === draft.id ? endpoint : e))
+        : [...endpoints, endpoint],
+    );
+    setDraft(EMPTY_DRAFT);
+    // Ensure UI picks up new models consistently
+    if (typeof window !== 'undefined') {
+      setTimeout(() => window.location.reload(), 10);
+    }
+  };
+
+  const remove = (id: string) => {
+    setEndpoints(endpoints.filter((e) => e.id !== id));
+    if (draft.id === id) setDraft(EMPTY_DRAFT);
+  };
+
+  const inputClass = cn(
+    'w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1',
+    isDark
+      ? 'bg-black/40 border-white/10 text-white focus:ring-white/30'
+      : 'bg-gray-50/80 border-gray-300/50 text-gray-800 focus:ring-gray-400/50',
+  );
+  const labelClass = cn('text-[11px] md:text-xs', isDark ? 'text-zinc-400' : 'text-gray-600');
+  const buttonClass = cn(
+    'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md border text-sm transition-colors disabled:opacity-60',
+    isDark
+      ? 'bg-white/10 border-white/10 hover:bg-white/20 text-white'
+      : 'bg-gray-200/50 border-gray-300/50 hover:bg-gray-300/50 text-gray-700',
+  );
+
+  return (
+    <div className={cn('mt-6 pt-4 border-t', isDark ? 'border-white/10' : 'border-gray-300/50')}>
+      <h4
+        className={cn(
+          'text-sm md:text-base font-semibold flex items-center gap-2',
+          isDark ? 'text-white' : 'text-gray-800',
+        )}
+      >
+        <Server size={16} /> OpenAI-compatible endpoints
+      </h4>
+      <p className={cn('text-xs mt-1 mb-3', isDark ? 'text-zinc-400' : 'text-gray-600')}>
+        Any server exposing <code>/v1/chat/completions</code> (vLLM, LM Studio, llama.cpp). Its
+        models show up in the picker under the endpoint&apos;s name.
+      </p>
+
+      {endpoints.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {endpoints.map((e) => (
+            <li
+              key={e.id}
+              className={cn(
+                'flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm',
+                isDark ? 'border-white/10 bg-white/5' : 'border-gray-300/50 bg-gray-50/80',
+              )}
+            >
+              <div className="min-w-0">
+                <div className="font-medium truncate">{e.name}</div>
+                <div
+                  className={cn('text-xs truncate', isDark ? 'text-zinc-400' : 'text-gray-500')}
+                  title={e.models.join(', ')}
+                >
+                  {e.baseUrl} · {e.models.length} model{e.models.length === 1 ? '' : 's'}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button onClick={() => setDraft(toDraft(e))} className={buttonClass}>
+                  <Pencil size={12} /> Edit
+                </button>
+                <button onClick={() => remove(e.id)} className={buttonClass}>
+                  <Trash2 size={12} /> Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => set({ name: e.target.value })}
+            placeholder="Team vLLM"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Base URL</label>
+          <input
+            value={draft.baseUrl}
+            onChange={(e) => set({ baseUrl: e.target.value })}
+            placeholder="http://localhost:8000/v1"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>API key (optional)</label>
+          <input
+            type="password"
+            value={draft.apiKey}
+            onChange={(e) => set({ apiKey: e.target.value })}
+            placeholder="Sent as a Bearer token"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Context window (tokens, optional)</label>
+          <input
+            inputMode="numeric"
+            value={draft.contextWindow}
+            onChange={(e) => set({ contextWindow: e.target.value.replace(/\D/g, '') })}
+            placeholder="8192"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Extra headers (one &quot;Name: value&quot; per line)</label>
+          <textarea
+            value={draft.headers}
+            onChange={(e) => set({ headers: e.target.value })}
+            rows={3}
+            placeholder="X-Team: research"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Models (comma or newline separated)</label>
+          <textarea
+            value={draft.models}
+            onChange={(e) => set({ models: e.target.value })}
+            rows={3}
+            placeholder="meta-llama/Llama-3.1-8B-Instruct"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {err ? (
+          <div
+            className={cn(
+              'text-xs inline-flex items-center gap-2',
+              isDark ? 'text-rose-300' : 'text-red-600',
+            )}
+          >
+            <AlertCircle size={14} /> {err}
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex items-center gap-2">
+          {draft.id && (
+            <button onClick={() => setDraft(EMPTY_DRAFT)} className={buttonClass}>
+              Cancel
+            </button>
+          )}
+          <button onClick={fetchModels} disabled={fetching} className={buttonClass}>
+            {fetching ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            Fetch models
+          </button>
+          <button
+            onClick={save}
+            className="px-3 py-1.5 rounded-md accent-action-fill accent-focus text-white text-sm"
+          >
+            {draft.id ? 'Save endpoint' : 'Add endpoint'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
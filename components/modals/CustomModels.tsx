@@ -4,10 +4,12 @@ import { createPortal } from 'react-dom';
 import { Wrench } from 'lucide-react';
 import { useCustomModels, makeCustomModel } from '@/lib/customModels';
 import { useLocalStorage } from '@/lib/useLocalStorage';
+import { getProviderAdapter } from '@/lib/providers';
 import type { ApiKeys } from '@/lib/types';
 import { X, Check, Copy, Loader2, AlertCircle, Trash2 } from 'lucide-react';
 import { useTheme } from '@/lib/themeContext';
 import { cn } from '@/lib/utils';
+import CustomEndpoints from './CustomEndpoints';
 
 type CustomModelsProps = { compact?: boolean };
 
@@ -80,12 +82,7 @@ export default function CustomModels({ compact }: CustomModelsProps) {
       try {
         setValidating(true);
         // Always use keys.ollama for baseUrl
-        const res = await fetch("/api/ollama/validate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ slug: s, baseUrl: keys.ollama }),
-        });
-        const data = await res.json();
+        const data = await getProviderAdapter('ollama').validate!({ slug: s, keys });
         if (!data?.ok) {
           const errorMsg = [
             "Validation error",
@@ -124,12 +121,7 @@ export default function CustomModels({ compact }: CustomModelsProps) {
     // For OpenRouter models, use the existing validation
     try {
       setValidating(true);
-      const res = await fetch('/api/openrouter/validate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ slug: s, apiKey: keys?.openrouter }),
-      });
-      const data = await res.json();
+      const data = await getProviderAdapter('openrouter').validate!({ slug: s, keys });
       if (!data?.ok) {
         const errorMsg = `Validation error${data?.status ? ` (status ${data.status})` : ""}`;
         setValidMsg(errorMsg);
@@ -179,7 +171,7 @@ export default function CustomModels({ compact }: CustomModelsProps) {
               onClick={() => setOpen(false)}
             />
             <div className={cn(
-              "relative w-full max-w-xl md:max-w-2xl lg:max-w-3xl xl:max-w-4xl 2xl:max-w-5xl mx-auto rounded-2xl border p-6 md:p-7 lg:p-8 shadow-2xl",
+              "relative w-full max-w-xl md:max-w-2xl lg:max-w-3xl xl:max-w-4xl 2xl:max-w-5xl mx-auto rounded-2xl border p-6 md:p-7 lg:p-8 shadow-2xl max-h-[90vh] overflow-y-auto",
               isDark 
                 ? "border-white/10 bg-zinc-900/95" 
                 : "border-gray-300/50 bg-white/95"
@@ -196,7 +188,7 @@ export default function CustomModels({ compact }: CustomModelsProps) {
                     "text-xs md:text-sm mt-1",
                     isDark ? "text-zinc-400" : "text-gray-600"
                   )}>
-                    Add any model from OpenRouter or Ollama. Selection is still
+                    Add any model from OpenRouter, Ollama or an OpenAI-compatible server. Selection is still
                     capped at 5 in the picker.
                   </p>
                 </div>
@@ -376,6 +368,7 @@ export default function CustomModels({ compact }: CustomModelsProps) {
                   </table>
                 </div>
               )}
+              <CustomEndpoints isDark={isDark} />
             </div>
           </div>,
           document.body,
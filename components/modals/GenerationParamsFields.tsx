@@ -0,0 +1,109 @@
+'use client';
+import { useState } from 'react';
+import type { GenerationParams } from '@/lib/types';
+import { GENERATION_LIMITS, normalizeGenerationParams } from '@/lib/generationParams';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  value: GenerationParams;
+  onChange: (next: GenerationParams) => void;
+  isDark: boolean;
+  // Placeholder values shown for unset fields (e.g. the inherited defaults)
+  inherited?: GenerationParams;
+};
+
+// Temperature / max tokens / top_p / stop sequence inputs.
+// Remount with a new `key` to reset the stop-sequence text when `value` changes externally.
+export default function GenerationParamsFields({ value, onChange, isDark, inherited }: Props) {
+  const [stopText, setStopText] = useState((value.stop || []).join(', '));
+
+  const update = (patch: Partial<GenerationParams>) => {
+    const next = { ...value, ...patch };
+    (Object.keys(patch) as Array<keyof GenerationParams>).forEach((k) => {
+      if (patch[k] === undefined) delete next[k];
+    });
+    onChange(normalizeGenerationParams(next));
+  };
+
+  const parseNumber = (raw: string) => {
+    if (raw.trim() === '') return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : undefined;
+  };
+
+  const inputClass = cn(
+    'w-full px-2.5 py-1.5 text-sm border rounded-md focus:outline-none focus:ring-2 transition-colors',
+    isDark
+      ? 'bg-white/5 text-white placeholder-white/40 border-white/20 focus:border-white/30 focus:ring-[var(--accent-interactive-primary)]/50'
+      : 'bg-black/5 text-gray-800 placeholder-gray-500 border-black/20 focus:border-black/30 focus:ring-[var(--accent-interactive-primary)]/50',
+  );
+  const labelClass = cn(
+    'block text-xs font-medium mb-1',
+    isDark ? 'text-white/70' : 'text-gray-600',
+  );
+  const placeholder = (v: number | undefined, fallback: string) =>
+    v !== undefined ? String(v) : fallback;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className={labelClass}>
+          Temperature ({GENERATION_LIMITS.temperature.min}–{GENERATION_LIMITS.temperature.max})
+        </label>
+        <input
+          type="number"
+          step={0.1}
+          min={GENERATION_LIMITS.temperature.min}
+          max={GENERATION_LIMITS.temperature.max}
+          value={value.temperature ?? ''}
+          placeholder={placeholder(inherited?.temperature, 'Provider default')}
+          onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Max tokens</label>
+        <input
+          type="number"
+          step={1}
+          min={GENERATION_LIMITS.maxTokens.min}
+          max={GENERATION_LIMITS.maxTokens.max}
+          value={value.maxTokens ?? ''}
+          placeholder={placeholder(inherited?.maxTokens, 'Provider default')}
+          onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Top P (0–1)</label>
+        <input
+          type="number"
+          step={0.05}
+          min={GENERATION_LIMITS.topP.min}
+          max={GENERATION_LIMITS.topP.max}
+          value={value.topP ?? ''}
+          placeholder={placeholder(inherited?.topP, 'Provider default')}
+          onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Stop sequences</label>
+        <input
+          type="text"
+          value={stopText}
+          placeholder={inherited?.stop?.join(', ') || 'Comma separated, up to 4'}
+          onChange={(e) => {
+            setStopText(e.target.value);
+            const stop = e.target.value
+              .split(',')
+              .map((s) => s.trim())
+              .filter(Boolean);
+            update({ stop: stop.length > 0 ? stop : undefined });
+          }}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
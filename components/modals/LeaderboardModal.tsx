@@ -0,0 +1,106 @@
+'use client';
+import { Trophy, X } from 'lucide-react';
+import type { AiModel } from '@/lib/types';
+import type { EloRow } from '@/lib/blindVotes';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  rows: EloRow[];
+  // Used to resolve model ids to labels; unknown ids are shown as-is
+  models: AiModel[];
+  isDark: boolean;
+  onReset?: () => void;
+};
+
+// Elo ratings computed from blind comparison votes across all threads
+export default function LeaderboardModal({ open, onClose, rows, models, isDark, onReset }: Props) {
+  if (!open) return null;
+  const labelOf = (id: string) => models.find((m) => m.id === id)?.label || id;
+  const cell = 'px-3 py-2 text-right tabular-nums';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div
+        className={cn(
+          'relative w-full max-w-lg mx-3 rounded-2xl border p-5 shadow-2xl',
+          isDark
+            ? 'border-white/10 bg-zinc-900/90 text-white'
+            : 'border-black/10 bg-white text-gray-800',
+        )}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-base font-semibold tracking-wide inline-flex items-center gap-2">
+            <Trophy size={16} className="text-amber-400" /> Model leaderboard
+          </h3>
+          <button
+            aria-label="Close"
+            onClick={onClose}
+            className={cn(
+              'h-8 w-8 inline-flex items-center justify-center rounded-md',
+              isDark ? 'bg-white/10 hover:bg-white/20' : 'bg-black/5 hover:bg-black/10',
+            )}
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-gray-500')}>
+            No votes yet. Turn on blind mode, send a prompt and vote for the best answer.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className={cn('text-xs', isDark ? 'text-zinc-400' : 'text-gray-500')}>
+                <tr>
+                  <th className="px-3 py-2 text-left">#</th>
+                  <th className="px-3 py-2 text-left">Model</th>
+                  <th className={cell}>Rating</th>
+                  <th className={cell}>W</th>
+                  <th className={cell}>L</th>
+                  <th className={cell}>T</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r, idx) => (
+                  <tr
+                    key={r.modelId}
+                    className={cn('border-t', isDark ? 'border-white/10' : 'border-black/10')}
+                  >
+                    <td className="px-3 py-2">{idx + 1}</td>
+                    <td className="px-3 py-2 truncate max-w-[22ch]" title={labelOf(r.modelId)}>
+                      {labelOf(r.modelId)}
+                    </td>
+                    <td className={cn(cell, 'font-semibold')}>{r.rating}</td>
+                    <td className={cell}>{r.wins}</td>
+                    <td className={cell}>{r.losses}</td>
+                    <td className={cell}>{r.ties}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {rows.length > 0 && onReset && (
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={onReset}
+              className={cn(
+                'px-3 py-2 text-sm rounded-md border',
+                isDark
+                  ? 'text-rose-100 border-rose-300/30 bg-rose-500/20 hover:bg-rose-500/30'
+                  : 'text-rose-700 border-rose-300 bg-rose-50 hover:bg-rose-100',
+              )}
+            >
+              Reset votes
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,20 @@
 import { useEffect, useState } from 'react';
 import { toast } from 'react-toastify';
 import { motion } from 'framer-motion';
-import { X, Star, StarOff, Search, Eye, Brain, MessageSquare, Mic, Image as ImageIcon, Heart } from 'lucide-react';
-import type { AiModel } from '@/lib/types';
+import { X, Star, StarOff, Search, Eye, Brain, MessageSquare, Mic, Image as ImageIcon, Heart, SlidersHorizontal } from 'lucide-react';
+import type { AiModel, ApiKeys } from '@/lib/types';
 import { MODEL_CATALOG } from '@/lib/models';
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import { mergeModels } from '@/lib/customModels';
 import type { CustomModel } from '@/lib/customModels';
+import { endpointModels, useCustomEndpoints } from '@/lib/customEndpoints';
+import { toOllamaModel } from '@/lib/ollama';
+import { useOllamaModels } from '@/lib/useOllamaModels';
+import { isEmptyGenerationParams } from '@/lib/generationParams';
+import { useGenerationParams } from '@/lib/useGenerationParams';
+import type { GenerationParams } from '@/lib/types';
+import GenerationParamsFields from './GenerationParamsFields';
+import OllamaModels from './OllamaModels';
 import { useTheme } from '@/lib/themeContext';
 import { cn } from '@/lib/utils';
 
@@ -17,6 +25,7 @@ export type ModelsModalProps = {
   selectedIds: string[];
   selectedModels: AiModel[];
   customModels: CustomModel[];
+  onCustomModelsChange: (models: CustomModel[]) => void;
   onToggle: (id: string) => void;
 };
 
@@ -26,11 +35,21 @@ export default function ModelsModal({
   selectedIds,
   selectedModels,
   customModels,
+  onCustomModelsChange,
   onToggle,
 }: ModelsModalProps) {
   const { theme } = useTheme();
   const isDark = theme.mode === 'dark';
   const [searchQuery, setSearchQuery] = useState('');
+  const [paramsOpen, setParamsOpen] = useState(false);
+  // '*' edits the defaults shared by all models; otherwise a model id
+  const [paramsScope, setParamsScope] = useState<string>('*');
+  const [paramsResets, setParamsResets] = useState(0);
+  const [genParams, setGenParams] = useGenerationParams();
+  const [keys] = useLocalStorage<ApiKeys>('ai-fiesta:keys', {});
+  // Installed Ollama models are listed once a base URL is set in Settings
+  const ollama = useOllamaModels(open ? keys.ollama : undefined);
+  const [endpoints] = useCustomEndpoints();
   const [favoriteIds, setFavoriteIds] = useLocalStorage<string[]>('ai-fiesta:favorite-models', [
     'unstable-gpt-5-chat',
     'unstable-claude-sonnet-4',
@@ -53,6 +72,18 @@ export default function ModelsModal({
 
   if (!open) return null;
 
+  const scopeParams: GenerationParams =
+    paramsScope === '*' ? genParams.defaults : genParams.models[paramsScope] || {};
+  const setScopeParams = (next: GenerationParams) => {
+    setGenParams((prev) => {
+      if (paramsScope === '*') return { ...prev, defaults: next };
+      const models = { ...prev.models };
+      if (isEmptyGenerationParams(next)) delete models[paramsScope];
+      else models[paramsScope] = next;
+      return { ...prev, models };
+    });
+  };
+
   const showImageLimitToast = () => {
     toast.info('Only one image generation model can be active at a time.', {
       className: 'glass-toast',
@@ -90,6 +121,19 @@ export default function ModelsModal({
     onToggle(m.id);
   };
 
+  // Installed Ollama models become custom models when first picked so the pages can find them
+  const selectOllama = (m: AiModel) => {
+    if (!customModels.some((c) => c.id === m.id)) {
+      onCustomModelsChange([...customModels, { ...m, custom: true }]);
+    }
+    handleToggle(m);
+  };
+  const deleteOllama = async (name: string) => {
+    if (await ollama.remove(name)) {
+      onCustomModelsChange(customModels.filter((c) => !(c.provider === 'ollama' && c.id === name)));
+    }
+  };
+
   // Enhanced categorization with thinking models
   const isThinkingModel = (m: AiModel) => {
     const id = m.id.toLowerCase();
@@ -194,7 +238,7 @@ export default function ModelsModal({
   };
 
   // Filter models by search query
-  const filteredModels = MODEL_CATALOG.filter((m) => {
+  const matchesSearch = (m: AiModel) => {
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
@@ -203,7 +247,8 @@ export default function ModelsModal({
       m.provider.toLowerCase().includes(query) ||
       providerLabel(m.provider).toLowerCase().includes(query)
     );
-  });
+  };
+  const filteredModels = MODEL_CATALOG.filter(matchesSearch);
 
   filteredModels.forEach((m) => {
     const key = pick(m as AiModel);
@@ -231,12 +276,14 @@ export default function ModelsModal({
     showBadges = true,
     iconUrl,
     iconAlt,
+    onSelect = handleToggle,
   }: {
     title: string;
     models: AiModel[];
     showBadges?: boolean;
     iconUrl?: string;
     iconAlt?: string;
+    onSelect?: (m: AiModel) => void;
   }) => (
     <div className="space-y-3">
       <div className={cn(
@@ -290,7 +337,7 @@ export default function ModelsModal({
           return (
             <div
               key={m.id}
-              onClick={() => !disabled && handleToggle(m)}
+              onClick={() => !disabled && onSelect(m)}
               className={cn(
                 "relative group cursor-pointer rounded-2xl border backdrop-blur-sm transition-all duration-300 overflow-hidden",
                 disabled ? 'opacity-40 cursor-not-allowed' : 'hover:scale-[1.02] hover:shadow-2xl',
@@ -566,12 +613,48 @@ export default function ModelsModal({
         ));
     });
 
+  const installedOllama = ollama.models.map(toOllamaModel);
+  const installedIds = new Set(installedOllama.map((m) => m.id));
   const customSection = (
-    <Section key="Custom models" title="Custom models" models={customModels} showBadges={false} />
+    <Section
+      key="Custom models"
+      title="Custom models"
+      models={customModels.filter((m) => !(m.provider === 'ollama' && installedIds.has(m.id)))}
+      showBadges={false}
+    />
   );
+  const ollamaSection = keys.ollama ? (
+    <div key="Ollama" className="space-y-3">
+      <Section
+        title="Ollama (local)"
+        models={installedOllama.filter(matchesSearch)}
+        onSelect={selectOllama}
+      />
+      <OllamaModels
+        models={ollama.models}
+        loading={ollama.loading}
+        error={ollama.error}
+        pulling={ollama.pulling}
+        onPull={ollama.pull}
+        onCancelPull={ollama.cancelPull}
+        onDelete={deleteOllama}
+        onRefresh={ollama.refresh}
+        isDark={isDark}
+      />
+    </div>
+  ) : null;
+  // One section per OpenAI-compatible endpoint (configured in Custom Models)
+  const endpointSections = endpoints.map((e) => (
+    <Section
+      key={`endpoint-${e.id}`}
+      title={e.name}
+      models={endpointModels([e]).filter(matchesSearch)}
+      showBadges={false}
+    />
+  ));
 
   // Use merged models for tab counts
-  const allModels = mergeModels(customModels);
+  const allModels = mergeModels(customModels, endpoints);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -597,6 +680,21 @@ export default function ModelsModal({
           )}>
             Select up to 5 models
           </h3>
+          <div className="flex items-center gap-2">
+          <button
+            aria-label="Generation parameters"
+            title="Generation parameters"
+            onClick={() => setParamsOpen((v) => !v)}
+            className={cn(
+              "h-8 px-2.5 inline-flex items-center gap-1.5 rounded-md text-xs font-medium transition-colors",
+              paramsOpen
+                ? "accent-action-fill text-white"
+                : isDark ? "bg-white/10 hover:bg-white/20 text-white" : "bg-gray-200/80 hover:bg-gray-300/80 text-gray-700"
+            )}
+          >
+            <SlidersHorizontal size={14} />
+            Parameters
+          </button>
           <button
             aria-label="Close"
             onClick={onClose}
@@ -607,7 +705,55 @@ export default function ModelsModal({
           >
             <X size={16} />
           </button>
+          </div>
         </div>
+        {paramsOpen && (
+          <div className={cn(
+            "mb-4 rounded-xl border p-3 space-y-3",
+            isDark ? "border-white/10 bg-black/20" : "border-gray-300/50 bg-gray-50/80"
+          )}>
+            <div className="flex items-center justify-between gap-2">
+              <select
+                value={paramsScope}
+                onChange={(e) => setParamsScope(e.target.value)}
+                className={cn(
+                  "px-2 py-1.5 text-sm border rounded-md focus:outline-none",
+                  isDark ? "bg-zinc-900 border-white/20 text-white" : "bg-white border-gray-300 text-gray-800"
+                )}
+              >
+                <option value="*">All models (default)</option>
+                {selectedModels.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.label}
+                    {genParams.models[m.id] ? ' •' : ''}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => {
+                  setScopeParams({});
+                  setParamsResets((n) => n + 1);
+                }}
+                className={cn(
+                  "text-xs px-2 py-1 rounded-md transition-colors",
+                  isDark ? "text-zinc-300 hover:bg-white/10" : "text-gray-600 hover:bg-gray-200/80"
+                )}
+              >
+                Reset
+              </button>
+            </div>
+            <GenerationParamsFields
+              key={`${paramsScope}-${paramsResets}`}
+              value={scopeParams}
+              onChange={setScopeParams}
+              isDark={isDark}
+              inherited={paramsScope === '*' ? undefined : genParams.defaults}
+            />
+            <p className={cn("text-xs", isDark ? "text-zinc-400" : "text-gray-500")}>
+              Defaults apply to every model so comparisons use the same settings. Per-model values override them; empty fields use the provider default.
+            </p>
+          </div>
+        )}
         <div className="flex items-center justify-between mb-4">
           <div className={cn(
             "text-sm",
@@ -641,7 +787,9 @@ export default function ModelsModal({
         </div>
 
         <div className="space-y-4 flex-1 overflow-y-auto pr-1 scroll-touch safe-inset">
+          {ollamaSection}
           {customSection}
+          {endpointSections}
           {builtInSections}
         </div>
       </div>
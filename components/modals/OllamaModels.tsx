@@ -0,0 +1,183 @@
+'use client';
+import { useState } from 'react';
+import { Download, Loader2, RefreshCw, Trash2, X } from 'lucide-react';
+import type { OllamaModelInfo } from '@/lib/ollama';
+import { pullPercent } from '@/lib/ollama';
+import type { OllamaPull } from '@/lib/useOllamaModels';
+import { formatBytes } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  models: OllamaModelInfo[];
+  loading: boolean;
+  error: string | null;
+  pulling: OllamaPull | null;
+  onPull: (name: string) => Promise<boolean>;
+  onCancelPull: () => void;
+  onDelete: (name: string) => void;
+  onRefresh: () => void;
+  isDark: boolean;
+};
+
+// Pull and delete models on the user's Ollama instance; installed ones are picked like any
+// other model in the cards below
+export default function OllamaModels({
+  models,
+  loading,
+  error,
+  pulling,
+  onPull,
+  onCancelPull,
+  onDelete,
+  onRefresh,
+  isDark,
+}: Props) {
+  const [name, setName] = useState('');
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const percent = pulling?.progress ? pullPercent(pulling.progress) : undefined;
+  const muted = isDark ? 'text-zinc-400' : 'text-gray-500';
+  const button = cn(
+    'inline-flex items-center gap-1.5 h-8 px-2.5 rounded-md text-xs font-medium transition-colors disabled:opacity-50',
+    isDark
+      ? 'bg-white/10 hover:bg-white/20 text-white'
+      : 'bg-gray-200/80 hover:bg-gray-300/80 text-gray-700',
+  );
+
+  const submit = async () => {
+    if (await onPull(name)) setName('');
+  };
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl border p-3 space-y-2.5',
+        isDark ? 'border-white/10 bg-black/20' : 'border-gray-300/50 bg-gray-50/80',
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+          }}
+          placeholder="Model to pull, e.g. llama3.2 or qwen2.5:7b"
+          aria-label="Model to pull"
+          disabled={!!pulling}
+          className={cn(
+            'flex-1 min-w-0 px-2.5 py-1.5 text-sm border rounded-md focus:outline-none',
+            isDark
+              ? 'bg-zinc-900 border-white/20 text-white placeholder-zinc-500'
+              : 'bg-white border-gray-300 text-gray-800 placeholder-gray-400',
+          )}
+        />
+        {pulling ? (
+          <button type="button" onClick={onCancelPull} className={button}>
+            <X size={14} />
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={submit} disabled={!name.trim()} className={button}>
+            <Download size={14} />
+            Pull
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onRefresh}
+          disabled={loading}
+          className={cn(button, 'w-8 justify-center px-0')}
+          title="Refresh installed models"
+          aria-label="Refresh installed models"
+        >
+          <RefreshCw size={14} className={cn(loading && 'animate-spin')} />
+        </button>
+      </div>
+
+      {pulling && (
+        <div className="space-y-1">
+          <div className={cn('flex justify-between text-xs', muted)}>
+            <span className="truncate">
+              {pulling.name}: {pulling.progress?.status ?? 'starting…'}
+            </span>
+            {pulling.progress?.total ? (
+              <span className="shrink-0 tabular-nums">
+                {formatBytes(pulling.progress.completed ?? 0)} /{' '}
+                {formatBytes(pulling.progress.total)}
+              </span>
+            ) : null}
+          </div>
+          <div
+            className={cn(
+              'h-1.5 rounded-full overflow-hidden',
+              isDark ? 'bg-white/10' : 'bg-black/10',
+            )}
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div
+              className={cn(
+                'h-full bg-[var(--accent-interactive-primary)] transition-[width] duration-300',
+                percent === undefined && 'w-1/3 animate-pulse',
+              )}
+              style={percent !== undefined ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+        </div>
+      )}
+
+      {models.length > 0 && (
+        <ul className="space-y-1">
+          {models.map((m) => (
+            <li key={m.name} className="flex items-center gap-2 text-sm">
+              <span
+                className={cn('min-w-0 flex-1 truncate', isDark ? 'text-white' : 'text-gray-800')}
+              >
+                {m.name}
+              </span>
+              <span className={cn('shrink-0 text-xs', muted)}>
+                {[m.parameterSize, m.quantization, formatBytes(m.size)].filter(Boolean).join(' · ')}
+              </span>
+              {confirming === m.name ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setConfirming(null);
+                    onDelete(m.name);
+                  }}
+                  onBlur={() => setConfirming(null)}
+                  autoFocus
+                  className="shrink-0 text-xs font-medium text-red-400 hover:text-red-300"
+                >
+                  Delete?
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirming(m.name)}
+                  className="icon-btn h-6 w-6 shrink-0 accent-focus"
+                  title={`Delete ${m.name} from Ollama`}
+                  aria-label={`Delete ${m.name} from Ollama`}
+                >
+                  <Trash2 size={13} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!loading && !error && models.length === 0 && (
+        <p className={cn('text-xs', muted)}>No models installed yet. Pull one to get started.</p>
+      )}
+      {loading && models.length === 0 && (
+        <p className={cn('inline-flex items-center gap-1.5 text-xs', muted)}>
+          <Loader2 size={12} className="animate-spin" />
+          Loading installed models…
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
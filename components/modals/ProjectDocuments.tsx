@@ -0,0 +1,130 @@
+'use client';
+import { useRef } from 'react';
+import { FileText, Loader2, Trash, Upload } from 'lucide-react';
+import type { ApiKeys } from '@/lib/types';
+import { DOCUMENT_ACCEPT } from '@/lib/documents';
+import { formatBytes } from '@/lib/attachments';
+import { EMBEDDER_OPTIONS, type EmbedderId } from '@/lib/rag';
+import { useProjectDocuments } from '@/lib/rag/useProjectDocuments';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  projectId: string | null;
+  embedder: EmbedderId;
+  onEmbedderChange: (id: EmbedderId) => void;
+  keys: ApiKeys;
+  isDark: boolean;
+};
+
+// Document library of a project: files are chunked and embedded on this device and the most
+// relevant excerpts are sent with every prompt in the project
+export default function ProjectDocuments({
+  projectId,
+  embedder,
+  onEmbedderChange,
+  keys,
+  isDark,
+}: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { documents, adding, error, addFiles, remove } = useProjectDocuments(projectId, {
+    embedder,
+    keys,
+  });
+
+  const muted = isDark ? 'text-white/50' : 'text-gray-500';
+  const rowClass = cn(
+    'flex items-center gap-2 rounded-md border px-2.5 py-1.5 text-sm',
+    isDark ? 'border-white/10 bg-white/5' : 'border-black/10 bg-black/5',
+  );
+
+  if (!projectId) {
+    return (
+      <p className={cn('text-xs', muted)}>Create the project first, then add documents to it.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={embedder}
+          onChange={(e) => onEmbedderChange(e.target.value as EmbedderId)}
+          aria-label="Embeddings"
+          className={cn(
+            'flex-1 px-2.5 py-1.5 text-sm border rounded-md focus:outline-none',
+            isDark
+              ? 'bg-white/5 text-white border-white/20'
+              : 'bg-black/5 text-gray-800 border-black/20',
+          )}
+        >
+          {EMBEDDER_OPTIONS.map((o) => (
+            <option key={o.id} value={o.id}>
+              Embeddings: {o.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          disabled={adding.length > 0}
+          className={cn(
+            'inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border transition-colors disabled:opacity-50',
+            isDark
+              ? 'border-white/20 bg-white/5 hover:bg-white/10 text-white'
+              : 'border-black/20 bg-black/5 hover:bg-black/10 text-gray-700',
+          )}
+        >
+          <Upload size={14} />
+          Add files
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {documents.map((doc) => (
+        <div key={doc.id} className={rowClass}>
+          <FileText size={14} className="shrink-0 opacity-70" />
+          <span className="min-w-0 flex-1 truncate" title={doc.name}>
+            {doc.name}
+          </span>
+          <span className={cn('shrink-0 text-xs', muted)}>
+            {formatBytes(doc.size)}
+            {doc.pages ? ` · ${doc.pages} pages` : ''} · {doc.chunkCount} chunks
+            {doc.truncated ? ' · partly read' : ''}
+          </span>
+          <button
+            type="button"
+            onClick={() => remove(doc.id)}
+            className="icon-btn h-6 w-6 shrink-0 accent-focus"
+            title={`Remove ${doc.name}`}
+            aria-label={`Remove ${doc.name}`}
+          >
+            <Trash size={13} />
+          </button>
+        </div>
+      ))}
+      {adding.map((name) => (
+        <div key={name} className={rowClass}>
+          <Loader2 size={14} className="shrink-0 animate-spin opacity-70" />
+          <span className="min-w-0 flex-1 truncate">{name}</span>
+          <span className={cn('shrink-0 text-xs', muted)}>Reading and indexing…</span>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <p className={cn('text-xs', muted)}>
+        Stored in this browser. The most relevant excerpts are sent with each prompt in this project
+        and answers cite them by number. Documents keep the embeddings they were added with.
+      </p>
+    </div>
+  );
+}
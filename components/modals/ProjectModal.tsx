@@ -8,21 +8,35 @@ import {
   validateProjectName,
   validateSystemPrompt,
 } from '@/lib/projects';
+import type { ApiKeys, GenerationParams } from '@/lib/types';
+import type { EmbedderId } from '@/lib/rag';
+import { isEmptyGenerationParams } from '@/lib/generationParams';
 import { useTheme } from '@/lib/themeContext';
 import { cn } from '@/lib/utils';
+import GenerationParamsFields from './GenerationParamsFields';
+import ProjectDocuments from './ProjectDocuments';
 
 interface ProjectModalProps {
   open: boolean;
   onClose: () => void;
   onSave: (project: Project) => void;
   project?: Project | null; // null for create, Project for edit
+  keys?: ApiKeys; // for provider embeddings of project documents
 }
 
-export default function ProjectModal({ open, onClose, onSave, project = null }: ProjectModalProps) {
+export default function ProjectModal({
+  open,
+  onClose,
+  onSave,
+  project = null,
+  keys = {},
+}: ProjectModalProps) {
   const { theme } = useTheme();
   const isDark = theme.mode === 'dark';
   const [name, setName] = useState('');
   const [systemPrompt, setSystemPrompt] = useState('');
+  const [generationParams, setGenerationParams] = useState<GenerationParams>({});
+  const [embedder, setEmbedder] = useState<EmbedderId>('local');
   const [nameError, setNameError] = useState<string | null>(null);
   const [promptError, setPromptError] = useState<string | null>(null);
 
@@ -36,9 +50,13 @@ export default function ProjectModal({ open, onClose, onSave, project = null }:
       if (project) {
         setName(project.name);
         setSystemPrompt(project.systemPrompt);
+        setGenerationParams(project.generationParams || {});
+        setEmbedder(project.embedder || 'local');
       } else {
         setName('');
         setSystemPrompt('');
+        setGenerationParams({});
+        setEmbedder('local');
       }
       setNameError(null);
       setPromptError(null);
@@ -68,11 +86,22 @@ export default function ProjectModal({ open, onClose, onSave, project = null }:
     }
 
     // Create or update project
+    const params = isEmptyGenerationParams(generationParams) ? undefined : generationParams;
+    const embedderSetting = embedder === 'local' ? undefined : embedder;
     let savedProject: Project;
     if (isEditing && project) {
-      savedProject = updateProject(project, { name, systemPrompt });
+      savedProject = updateProject(project, {
+        name,
+        systemPrompt,
+        generationParams: params,
+        embedder: embedderSetting,
+      });
     } else {
-      savedProject = createProject(name, systemPrompt);
+      savedProject = {
+        ...createProject(name, systemPrompt),
+        generationParams: params,
+        embedder: embedderSetting,
+      };
     }
 
     onSave(savedProject);
@@ -128,7 +157,7 @@ export default function ProjectModal({ open, onClose, onSave, project = null }:
         </div>
 
         {/* Body */}
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
           <p className={cn(
             "text-sm",
             isDark ? "text-white/70" : "text-gray-600"
@@ -210,6 +239,45 @@ export default function ProjectModal({ open, onClose, onSave, project = null }:
               <span>{systemPrompt.length}/1000</span>
             </div>
           </div>
+
+          {/* Generation parameters */}
+          <div>
+            <div className={cn(
+              "block text-sm font-medium mb-2",
+              isDark ? "text-white/80" : "text-gray-700"
+            )}>
+              Generation parameters
+            </div>
+            <GenerationParamsFields
+              key={`${project?.id ?? 'new'}-${open}`}
+              value={generationParams}
+              onChange={setGenerationParams}
+              isDark={isDark}
+            />
+            <p className={cn(
+              "mt-1 text-xs",
+              isDark ? "text-white/50" : "text-gray-500"
+            )}>
+              Applies to every model in this project. Per-model settings in the model picker still take precedence.
+            </p>
+          </div>
+
+          {/* Documents */}
+          <div>
+            <div className={cn(
+              "block text-sm font-medium mb-2",
+              isDark ? "text-white/80" : "text-gray-700"
+            )}>
+              Documents
+            </div>
+            <ProjectDocuments
+              projectId={project?.id ?? null}
+              embedder={embedder}
+              onEmbedderChange={setEmbedder}
+              keys={keys}
+              isDark={isDark}
+            />
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { offlineManager } from '@/lib/offline/manager';
+import { offlineDataLayer } from '@/lib/offline/dataLayer';
+import { messageKey } from '@/lib/offline/merge';
+import type { CachedConversation, ConflictReason, ConflictResolution } from '@/lib/offline/types';
+import type { ChatMessage } from '@/lib/types';
+
+interface ConflictResolverProps {
+  userId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+const REASON_TEXT: Record<ConflictReason, string> = {
+  title: 'Renamed differently on each device',
+  messages: 'Both devices continued the conversation from the same message',
+  edit: 'The same message was changed on both devices',
+};
+
+// Messages one side has that the other doesn't, for a short preview
+function onlyIn(side: ChatMessage[], other: ChatMessage[]): ChatMessage[] {
+  const keys = new Set(other.map(messageKey));
+  return side.filter((m) => !keys.has(messageKey(m)));
+}
+
+function MessagePreview({
+  label,
+  title,
+  messages,
+}: {
+  label: string;
+  title: string;
+  messages: ChatMessage[];
+}) {
+  return (
+    <div className="flex-1 min-w-0 p-3 rounded border border-gray-200 dark:border-gray-700">
+      <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">{label}</div>
+      <div className="text-sm font-medium truncate mb-2">{title}</div>
+      {messages.length === 0 ? (
+        <div className="text-xs text-gray-500">No messages missing from the other copy</div>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {messages.map((m) => (
+            <li key={messageKey(m)} className="text-xs truncate">
+              <span className="font-semibold">
+                {m.role === 'user' ? 'You' : m.modelId || 'Assistant'}:
+              </span>{' '}
+              {m.content}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ userId, open, onClose }) => {
+  const [conflicts, setConflicts] = useState<CachedConversation[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await offlineManager.getConflicts());
+  }, []);
+
+  useEffect(() => {
+    if (open) loadConflicts();
+  }, [open, loadConflicts]);
+
+  const handleResolve = async (threadId: string, choice: ConflictResolution) => {
+    setBusyId(threadId);
+    try {
+      const result = await offlineDataLayer.resolveConflict(userId, threadId, choice);
+      if (!result.success) console.error('Error resolving conflict:', result.error);
+      await loadConflicts();
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-lg bg-white dark:bg-gray-900 p-5 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Resolve sync conflicts</h2>
+          <button
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            Close
+          </button>
+        </div>
+
+        {conflicts.length === 0 && (
+          <div className="text-sm text-gray-500">No conflicts left. Everything is in sync.</div>
+        )}
+
+        <div className="space-y-4">
+          {conflicts.map((conv) => {
+            const remote = conv.conflict!.remote;
+            const busy = busyId === conv.id;
+            return (
+              <div
+                key={conv.id}
+                className="rounded-lg border border-purple-300 dark:border-purple-800 p-4"
+              >
+                <div className="font-medium mb-1">{conv.thread.title}</div>
+                <ul className="text-xs text-purple-700 dark:text-purple-300 mb-3">
+                  {conv.conflict!.reasons.map((reason) => (
+                    <li key={reason}>{REASON_TEXT[reason]}</li>
+                  ))}
+                </ul>
+                <div className="flex flex-col sm:flex-row gap-3 mb-3">
+                  <MessagePreview
+                    label="This device"
+                    title={conv.thread.title}
+                    messages={onlyIn(conv.thread.messages, remote.messages)}
+                  />
+                  <MessagePreview
+                    label="Server"
+                    title={remote.title}
+                    messages={onlyIn(remote.messages, conv.thread.messages)}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => handleResolve(conv.id, 'local')}
+                    disabled={busy}
+                    className="text-sm px-3 py-1.5 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Keep this device
+                  </button>
+                  <button
+                    onClick={() => handleResolve(conv.id, 'remote')}
+                    disabled={busy}
+                    className="text-sm px-3 py-1.5 rounded bg-gray-500 text-white hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Keep server
+                  </button>
+                  <button
+                    onClick={() => handleResolve(conv.id, 'merge')}
+                    disabled={busy}
+                    className="text-sm px-3 py-1.5 rounded bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50"
+                  >
+                    Merge both
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
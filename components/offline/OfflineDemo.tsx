@@ -98,7 +98,7 @@ export const OfflineDemo: React.FC<OfflineDemoProps> = ({ userId = 'demo-user' }
       <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg mb-6">
         <h3 className="text-lg font-semibold mb-3">Connection Status</h3>
         <div className="flex items-center gap-4">
-          <OfflineIndicator showDetails={true} />
+          <OfflineIndicator showDetails={true} userId={userId} />
           <div className="text-sm">
             <div>Online: {isOnline ? 'Yes' : 'No'}</div>
             <div>Queued Actions: {status.queuedActionsCount}</div>
@@ -3,24 +3,33 @@
 import React, { useState, useEffect } from 'react';
 import { offlineManager } from '@/lib/offline/manager';
 import type { OfflineStatus } from '@/lib/offline/types';
+import { ConflictResolver } from './ConflictResolver';
+import { SyncIssuesPanel } from './SyncIssuesPanel';
 
 interface OfflineIndicatorProps {
   className?: string;
   showDetails?: boolean;
+  // Needed to push conflict resolutions; without it conflicts are only reported
+  userId?: string;
 }
 
 export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   className = '',
-  showDetails = false
+  showDetails = false,
+  userId
 }) => {
   const [status, setStatus] = useState<OfflineStatus>({
     isOnline: navigator.onLine,
     queuedActionsCount: 0,
+    pendingGenerationsCount: 0,
+    deadLetterCount: 0,
     syncInProgress: false,
     hasConflicts: false
   });
 
   const [showTooltip, setShowTooltip] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showSyncIssues, setShowSyncIssues] = useState(false);
 
   useEffect(() => {
     const updateStatus = async () => {
@@ -35,6 +44,14 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   }, []);
 
   const handleManualSync = async () => {
+    if (status.hasConflicts && userId) {
+      setShowConflicts(true);
+      return;
+    }
+    if (status.deadLetterCount > 0) {
+      setShowSyncIssues(true);
+      return;
+    }
     if (status.isOnline && !status.syncInProgress) {
       await offlineManager.syncQueuedActions();
     }
@@ -45,6 +62,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     if (status.syncInProgress) return 'bg-yellow-500';
     if (status.queuedActionsCount > 0) return 'bg-orange-500';
     if (status.hasConflicts) return 'bg-purple-500';
+    if (status.deadLetterCount > 0) return 'bg-rose-600';
     return 'bg-green-500';
   };
 
@@ -53,11 +71,18 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     if (status.syncInProgress) return 'Syncing...';
     if (status.queuedActionsCount > 0) return `${status.queuedActionsCount} pending`;
     if (status.hasConflicts) return 'Conflicts';
+    if (status.deadLetterCount > 0) {
+      return `${status.deadLetterCount} sync ${status.deadLetterCount === 1 ? 'issue' : 'issues'}`;
+    }
     return 'Online';
   };
 
   const getTooltipText = () => {
     if (!status.isOnline) {
+      if (status.pendingGenerationsCount > 0) {
+        const prompts = status.pendingGenerationsCount === 1 ? 'prompt' : 'prompts';
+        return `You are offline. ${status.pendingGenerationsCount} queued ${prompts} will be sent to your models when you reconnect.`;
+      }
       return 'You are offline. Changes will be saved locally and synced when you reconnect.';
     }
     if (status.syncInProgress) {
@@ -67,7 +92,14 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
       return `${status.queuedActionsCount} actions waiting to be synced. Click to sync now.`;
     }
     if (status.hasConflicts) {
-      return 'Some changes have conflicts that need to be resolved.';
+      return userId
+        ? 'Some chats changed on another device too. Click to choose which version to keep.'
+        : 'Some changes have conflicts that need to be resolved.';
+    }
+    if (status.deadLetterCount > 0) {
+      return status.deadLetterCount === 1
+        ? '1 change could not be synced. Click to retry or discard it.'
+        : `${status.deadLetterCount} changes could not be synced. Click to retry or discard them.`;
     }
     return 'All changes are synchronized.';
   };
@@ -113,6 +145,11 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
           <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900" />
         </div>
       )}
+
+      {userId && (
+        <ConflictResolver userId={userId} open={showConflicts} onClose={() => setShowConflicts(false)} />
+      )}
+      <SyncIssuesPanel open={showSyncIssues} onClose={() => setShowSyncIssues(false)} />
     </div>
   );
 };
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { offlineManager } from '@/lib/offline/manager';
+import type { OfflineQueueItem } from '@/lib/offline/types';
+
+interface SyncIssuesPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<OfflineQueueItem['type'], string> = {
+  SEND_MESSAGE: 'Save message',
+  UPDATE_THREAD: 'Update chat',
+  DELETE_THREAD: 'Delete chat',
+  CREATE_THREAD: 'Create chat',
+  UPDATE_TITLE: 'Rename chat',
+  DELETE_MESSAGES: 'Remove messages',
+  GENERATE_ANSWERS: 'Answer queued prompt',
+};
+
+// Short description of what the action was about, taken from its payload
+function summarize(action: OfflineQueueItem): string | null {
+  const payload = action.payload ?? {};
+  if (action.type === 'UPDATE_TITLE' || action.type === 'CREATE_THREAD') {
+    return payload.title ?? null;
+  }
+  const content = payload.message?.content ?? payload.prompt?.content;
+  return typeof content === 'string' ? content : null;
+}
+
+export const SyncIssuesPanel: React.FC<SyncIssuesPanelProps> = ({ open, onClose }) => {
+  const [items, setItems] = useState<OfflineQueueItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    const deadLetters = await offlineManager.getDeadLetters();
+    setItems(deadLetters.sort((a, b) => a.timestamp - b.timestamp));
+  }, []);
+
+  useEffect(() => {
+    if (open) loadItems();
+  }, [open, loadItems]);
+
+  const handle = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+      await loadItems();
+    } catch (error) {
+      console.error('Error handling sync issue:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl max-h-[85vh] overflow-y-auto rounded-lg bg-white dark:bg-gray-900 p-5 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Sync issues</h2>
+          <button
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            Close
+          </button>
+        </div>
+
+        {items.length === 0 && (
+          <div className="text-sm text-gray-500">Nothing is stuck. All changes are syncing.</div>
+        )}
+
+        <ul className="space-y-3">
+          {items.map((item) => {
+            const detail = summarize(item);
+            const busy = busyId === item.id;
+            return (
+              <li
+                key={item.id}
+                className="rounded-lg border border-red-200 dark:border-red-900/60 p-3 text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{ACTION_LABELS[item.type] ?? item.type}</span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(item.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                {detail && (
+                  <div className="text-xs text-gray-600 dark:text-gray-400 truncate mt-1">
+                    {detail}
+                  </div>
+                )}
+                <div className="text-xs text-red-600 dark:text-red-400 mt-1">
+                  {item.errorKind === 'permanent'
+                    ? 'Rejected by the server'
+                    : `Failed after ${item.retryCount} attempts`}
+                  {item.error ? `: ${item.error}` : ''}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => handle(item.id, (id) => offlineManager.retryDeadLetter(id))}
+                    disabled={busy}
+                    className="text-xs px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                  <button
+                    onClick={() => handle(item.id, (id) => offlineManager.discardDeadLetter(id))}
+                    disabled={busy}
+                    className="text-xs px-2 py-1 rounded bg-gray-500 text-white hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SyncIssuesPanel;
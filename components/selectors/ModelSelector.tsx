@@ -2,6 +2,7 @@
 import { useMemo } from 'react';
 import { AiModel } from '@/lib/types';
 import { mergeModels, useCustomModels } from '@/lib/customModels';
+import { useCustomEndpoints } from '@/lib/customEndpoints';
 import { useTheme } from '@/lib/themeContext';
 import { cn } from '@/lib/utils';
 
@@ -17,7 +18,11 @@ export default function ModelSelector({
   const { theme } = useTheme();
   const isDark = theme.mode === 'dark';
   const [customModels] = useCustomModels();
-  const allModels: AiModel[] = useMemo(() => mergeModels(customModels), [customModels]);
+  const [endpoints] = useCustomEndpoints();
+  const allModels: AiModel[] = useMemo(
+    () => mergeModels(customModels, endpoints),
+    [customModels, endpoints],
+  );
   const disabledIds = useMemo(() => {
     if (selectedIds.length < max) return new Set<string>();
     return new Set<string>(allModels.filter((m) => !selectedIds.includes(m.id)).map((m) => m.id));
@@ -29,6 +29,34 @@ export default function SharedChatError({ error }: SharedChatErrorProps) {
           suggestion: 'The link may have been corrupted during sharing. Please request a new share link.',
           severity: 'error' as const
         };
+      case 'Missing decryption key':
+        return {
+          title: 'Incomplete Share Link',
+          description: 'This conversation is encrypted, and the key after the # in the link is missing.',
+          suggestion: 'Make sure you copied the whole link, including everything after the #.',
+          severity: 'error' as const
+        };
+      case 'Share link not found':
+        return {
+          title: 'Share Link Not Found',
+          description: 'No shared conversation exists at this address.',
+          suggestion: 'Please check that you have the complete URL and try again.',
+          severity: 'error' as const
+        };
+      case 'Share link revoked':
+        return {
+          title: 'Share Link Revoked',
+          description: 'The owner has stopped sharing this conversation.',
+          suggestion: 'Ask them for a new share link if you still need access.',
+          severity: 'error' as const
+        };
+      case 'Share link expired':
+        return {
+          title: 'Share Link Expired',
+          description: 'This share link is no longer valid.',
+          suggestion: 'Ask the owner for a new share link if you still need access.',
+          severity: 'error' as const
+        };
       case 'Failed to load shared chat':
         return {
           title: 'Loading Failed',
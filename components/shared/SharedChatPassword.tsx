@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import { useTheme } from '@/lib/themeContext';
+import { BACKGROUND_STYLES } from '@/lib/themes';
+import { Loader2, Lock } from 'lucide-react';
+
+interface SharedChatPasswordProps {
+  onSubmit: (password: string) => Promise<void>;
+  wrongPassword?: boolean;
+}
+
+export default function SharedChatPassword({ onSubmit, wrongPassword }: SharedChatPasswordProps) {
+  const { theme } = useTheme();
+  const backgroundClass = BACKGROUND_STYLES[theme.background].className;
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || submitting) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(password);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={`min-h-screen w-full ${backgroundClass} relative text-white`}>
+      <div className="absolute inset-0 z-0 pointer-events-none opacity-95" />
+
+      <div className="relative z-10 flex items-center justify-center min-h-screen px-4">
+        <form onSubmit={handleSubmit} className="w-full max-w-sm text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="w-14 h-14 bg-white/10 rounded-full flex items-center justify-center">
+              <Lock size={24} className="text-white/80" aria-hidden="true" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-xl font-semibold">Password Protected</h1>
+            <p className="text-white/70">Enter the password to view this shared conversation.</p>
+          </div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            aria-label="Password"
+            aria-invalid={wrongPassword}
+            className="w-full px-3 py-2 bg-black/30 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {wrongPassword && (
+            <p className="text-red-300 text-sm" role="alert">
+              Wrong password. Please try again.
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={!password || submitting}
+            className="w-full inline-flex items-center justify-center gap-2 px-6 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 rounded-lg transition-colors"
+          >
+            {submitting && <Loader2 size={16} className="animate-spin" aria-hidden="true" />}
+            View conversation
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
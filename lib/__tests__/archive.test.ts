@@ -0,0 +1,195 @@
+import {
+  ARCHIVE_VERSION,
+  BACKUP_FORMAT,
+  THREADS_FORMAT,
+  addMissingById,
+  mergeImportedProjects,
+  mergeImportedThreads,
+  parseArchive,
+  toThreadArchive,
+  toWorkspaceBackup,
+  withFreshMessageIds,
+} from '../archive';
+import type { ChatThread } from '../types';
+import type { Project } from '../projects';
+
+const thread: ChatThread = {
+  id: 't1',
+  title: 'Compare',
+  createdAt: 1_700_000_000_000,
+  projectId: 'p1',
+  pageType: 'compare',
+  messages: [
+    {
+      id: 'u1',
+      parentId: null,
+      role: 'user',
+      content: 'Hello',
+      ts: 1,
+      attachments: [{ id: 'a1', name: 'notes.txt', mime: 'text/plain', size: 5, text: 'notes' }],
+    },
+    {
+      id: 'r1',
+      parentId: 'u1',
+      role: 'assistant',
+      content: 'Hi',
+      modelId: 'gpt',
+      provider: 'openrouter',
+      tokens: { total: 12 },
+      ts: 2,
+    },
+  ],
+  branches: [{ id: 'u2', parentId: null, role: 'user', content: 'Edited', ts: 3 }],
+  messageCount: 2,
+  messagesLoaded: true,
+};
+
+const project: Project = {
+  id: 'p1',
+  name: 'Research',
+  systemPrompt: 'Be precise',
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+describe('thread archive', () => {
+  it('round-trips a thread without losing message fields', () => {
+    const text = JSON.stringify(toThreadArchive([thread]));
+    const parsed = parseArchive(text);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.archive.format).toBe(THREADS_FORMAT);
+    expect(parsed.archive.version).toBe(ARCHIVE_VERSION);
+    const [imported] = parsed.archive.threads;
+    expect(imported.messages).toEqual(thread.messages);
+    expect(imported.branches).toEqual(thread.branches);
+    expect(imported).toMatchObject({ id: 't1', projectId: 'p1', pageType: 'compare' });
+    // Database summary bookkeeping is not exported
+    expect(imported).not.toHaveProperty('messagesLoaded');
+    expect(parsed.skippedThreads).toBe(0);
+  });
+
+  it('rejects files that are not exports, or come from a newer version', () => {
+    expect(parseArchive('not json')).toEqual({ error: 'The file is not valid JSON.' });
+    expect(parseArchive('{"format":"other"}')).toHaveProperty('error');
+    expect(
+      parseArchive(JSON.stringify({ format: THREADS_FORMAT, version: ARCHIVE_VERSION + 1 })),
+    ).toEqual({ error: 'This export was made by a newer version of Open Fiesta.' });
+    expect(
+      parseArchive(JSON.stringify({ format: THREADS_FORMAT, version: 1, threads: [] })),
+    ).toEqual({ error: 'The file contains no chats to import.' });
+  });
+
+  it('skips invalid threads and drops invalid message fields', () => {
+    const parsed = parseArchive(
+      JSON.stringify({
+        format: THREADS_FORMAT,
+        version: 1,
+        threads: [
+          { id: 'bad' },
+          {
+            id: 't2',
+            messages: [
+              { role: 'user', content: 'ok', tokens: 'lots', usedKeyType: 'stolen' },
+              { role: 'robot', content: 'dropped' },
+            ],
+          },
+        ],
+      }),
+    );
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.skippedThreads).toBe(1);
+    expect(parsed.archive.threads[0]).toMatchObject({
+      id: 't2',
+      title: 'Imported chat',
+      messages: [{ role: 'user', content: 'ok' }],
+    });
+    expect(parsed.archive.threads[0].messages[0]).not.toHaveProperty('tokens');
+  });
+});
+
+describe('workspace backup', () => {
+  it('never carries endpoint keys or headers', () => {
+    const backup = toWorkspaceBackup({
+      threads: [thread],
+      projects: [project],
+      customModels: [],
+      customEndpoints: [
+        {
+          id: 'e1',
+          name: 'vLLM',
+          baseUrl: 'http://gpu:8000/v1',
+          apiKey: 'sk-secret',
+          headers: { Authorization: 'Bearer x' },
+          models: ['llama'],
+        },
+      ],
+    });
+    expect(JSON.stringify(backup)).not.toContain('sk-secret');
+    expect(JSON.stringify(backup)).not.toContain('Bearer x');
+
+    const parsed = parseArchive(JSON.stringify(backup));
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.archive.format).toBe(BACKUP_FORMAT);
+    if (parsed.archive.format !== BACKUP_FORMAT) return;
+    expect(parsed.archive.projects).toEqual([project]);
+    expect(parsed.archive.customEndpoints).toEqual([
+      { id: 'e1', name: 'vLLM', baseUrl: 'http://gpu:8000/v1', models: ['llama'] },
+    ]);
+  });
+});
+
+describe('id collisions', () => {
+  it('skips duplicates and copies changed threads under new ids', () => {
+    const changed = { ...thread, messages: [{ ...thread.messages[0], content: 'Other' }] };
+    const fresh = { ...thread, id: 't9' };
+    const result = mergeImportedThreads([thread], [thread, changed, fresh]);
+    expect(result.duplicates).toBe(1);
+    expect(result.renamed).toBe(1);
+    expect(result.threads).toHaveLength(2);
+    expect(result.threads[0].id).not.toBe('t1');
+    expect(result.threads[0].messages[0].id).not.toBe('u1');
+    expect(result.threads[1].id).toBe('t9');
+  });
+
+  it('treats a matching summary-only thread as already present', () => {
+    const summary = { ...thread, messages: [], messagesLoaded: false };
+    expect(mergeImportedThreads([summary], [thread]).duplicates).toBe(1);
+  });
+
+  it('relinks threads to projects imported under a new id', () => {
+    const { projects, idMap } = mergeImportedProjects(
+      [{ ...project, name: 'Someone else' }],
+      [project, { ...project, id: 'p2', name: 'New' }],
+    );
+    expect(projects.map((p) => p.name)).toEqual(['Research', 'New']);
+    expect(idMap.p1).toBe(projects[0].id);
+    expect(mergeImportedProjects([project], [project]).projects).toEqual([]);
+
+    const merged = mergeImportedThreads([], [thread], idMap);
+    expect(merged.threads[0].projectId).toBe(idMap.p1);
+  });
+
+  it('keeps parent links when giving messages new ids', () => {
+    const copy = withFreshMessageIds(thread);
+    const [user, answer] = copy.messages;
+    expect(user.id).not.toBe('u1');
+    expect(user.parentId).toBeNull();
+    expect(answer.parentId).toBe(user.id);
+    expect(copy.branches?.[0].id).not.toBe('u2');
+  });
+
+  it('adds only entries whose id is free', () => {
+    expect(
+      addMissingById(
+        [{ id: 'a', v: 1 }],
+        [
+          { id: 'a', v: 2 },
+          { id: 'b', v: 3 },
+        ],
+      ),
+    ).toEqual([
+      { id: 'a', v: 1 },
+      { id: 'b', v: 3 },
+    ]);
+  });
+});
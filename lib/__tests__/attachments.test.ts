@@ -0,0 +1,159 @@
+import {
+  MAX_ATTACHMENTS,
+  MAX_STORED_TEXT_CHARS,
+  acceptAttachmentFiles,
+  attachmentKind,
+  contentWithAttachments,
+  formatBytes,
+  inlineAttachments,
+  promptImages,
+  storedAttachment,
+  storedThreads,
+} from '../attachments';
+import type { Attachment, ChatMessage } from '../types';
+
+const image = (id: string): Attachment => ({
+  id,
+  name: `${id}.jpg`,
+  mime: 'image/jpeg',
+  size: 2048,
+  dataUrl: `data:image/jpeg;base64,${id}`,
+});
+
+const notes: Attachment = {
+  id: 'n',
+  name: 'notes.txt',
+  mime: 'text/plain',
+  size: 12,
+  text: 'hello there',
+};
+
+describe('attachmentKind', () => {
+  it('classifies supported types', () => {
+    expect(attachmentKind('image/png')).toBe('image');
+    expect(attachmentKind('text/plain')).toBe('text');
+    expect(attachmentKind('application/pdf')).toBe('document');
+    expect(
+      attachmentKind('application/vnd.openxmlformats-officedocument.wordprocessingml.document'),
+    ).toBe('document');
+    expect(attachmentKind('application/zip')).toBeNull();
+  });
+
+  it('reads text-like files locally and sends the rest to the server', () => {
+    expect(attachmentKind('', 'README.md')).toBe('text');
+    expect(attachmentKind('video/mp2t', 'app.ts')).toBe('text');
+    expect(attachmentKind('text/csv', 'data.csv')).toBe('text');
+    expect(attachmentKind('text/html', 'page.html')).toBe('document');
+  });
+});
+
+describe('acceptAttachmentFiles', () => {
+  it('skips unsupported and oversized files', () => {
+    const { accepted, error } = acceptAttachmentFiles(0, [
+      { name: 'a.png', type: 'image/png', size: 10 },
+      { name: 'b.zip', type: 'application/zip', size: 10 },
+      { name: 'c.pdf', type: 'application/pdf', size: 50 * 1024 * 1024 },
+    ]);
+    expect(accepted).toEqual([0]);
+    expect(error).toContain('Unsupported file');
+    expect(error).toContain('c.pdf is larger than 10 MB');
+  });
+
+  it('caps the number of files per message', () => {
+    const files = Array.from({ length: 3 }, (_, i) => ({
+      name: `${i}.txt`,
+      type: 'text/plain',
+      size: 1,
+    }));
+    const { accepted, error } = acceptAttachmentFiles(MAX_ATTACHMENTS - 2, files);
+    expect(accepted).toEqual([0, 1]);
+    expect(error).toBe(`Up to ${MAX_ATTACHMENTS} files per message.`);
+  });
+});
+
+describe('prompt assembly', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Summarize', attachments: [notes, image('old')], ts: 1 },
+    { role: 'assistant', content: 'Done', modelId: 'm', ts: 2 },
+    { role: 'user', content: 'Compare these', attachments: [image('x'), image('y')], ts: 3 },
+  ];
+
+  it('inlines document text but not images', () => {
+    expect(contentWithAttachments(messages[0])).toBe(
+      'Summarize\n\n[Attached file: notes.txt]\nhello there',
+    );
+    expect(contentWithAttachments(messages[2])).toBe('Compare these');
+  });
+
+  it('marks truncated and unreadable files', () => {
+    const msg: ChatMessage = {
+      role: 'user',
+      content: 'Read',
+      attachments: [
+        { ...notes, truncated: true },
+        { id: 'd', name: 'scan.pdf', mime: 'application/pdf', size: 9 },
+      ],
+    };
+    const out = contentWithAttachments(msg);
+    expect(out).toContain('[Attached file: notes.txt (truncated)]');
+    expect(out).toContain('[Attached file: scan.pdf. Its text could not be extracted');
+  });
+
+  it('drops attachment objects from provider messages without mutating history', () => {
+    const out = inlineAttachments(messages);
+    expect(out.every((m) => m.attachments === undefined)).toBe(true);
+    expect(out[0].content).toContain('hello there');
+    expect(out[1]).toBe(messages[1]);
+    expect(messages[0].attachments).toHaveLength(2);
+  });
+
+  it('sends only the images of the latest prompt', () => {
+    expect(promptImages(messages)).toEqual([
+      'data:image/jpeg;base64,x',
+      'data:image/jpeg;base64,y',
+    ]);
+    expect(promptImages(messages.slice(0, 2))).toEqual(['data:image/jpeg;base64,old']);
+    expect(promptImages([])).toEqual([]);
+  });
+});
+
+describe('storedAttachment', () => {
+  it('drops image data but keeps the thumbnail', () => {
+    const stored = storedAttachment({ ...image('i'), thumbnail: 'data:image/jpeg;base64,t' });
+    expect(stored.dataUrl).toBeUndefined();
+    expect(stored.thumbnail).toBe('data:image/jpeg;base64,t');
+  });
+
+  it('caps long text', () => {
+    const stored = storedAttachment({ ...notes, text: 'x'.repeat(MAX_STORED_TEXT_CHARS + 1) });
+    expect(stored.text).toHaveLength(MAX_STORED_TEXT_CHARS);
+    expect(stored.truncated).toBe(true);
+    expect(storedAttachment(notes)).toEqual(notes);
+  });
+
+  it('applies to every message of stored threads', () => {
+    const [thread] = storedThreads([
+      {
+        id: 't',
+        title: 't',
+        createdAt: 0,
+        messages: [
+          { role: 'user', content: 'q', attachments: [image('a')] },
+          { role: 'assistant', content: 'partial', modelId: 'm', streaming: true },
+        ],
+        branches: [{ role: 'user', content: 'old', attachments: [image('b')] }],
+      },
+    ]);
+    expect(thread.messages[0].attachments?.[0].dataUrl).toBeUndefined();
+    expect(thread.messages[1]).not.toHaveProperty('streaming');
+    expect(thread.branches?.[0].attachments?.[0].dataUrl).toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks a readable unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2 KB');
+    expect(formatBytes(3.5 * 1024 * 1024)).toBe('3.5 MB');
+  });
+});
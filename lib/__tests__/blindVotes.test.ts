@@ -0,0 +1,76 @@
+import {
+  blindLabel,
+  blindOrder,
+  computeEloRatings,
+  findTurnVote,
+  upsertVote,
+  type BlindVote,
+} from '../blindVotes';
+
+const vote = (turnTs: number, modelIds: string[], winner: string, votedAt = turnTs): BlindVote => ({
+  threadId: 't1',
+  turnTs,
+  modelIds,
+  winner,
+  votedAt,
+});
+
+describe('blindOrder', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+
+  it('is deterministic for a seed and keeps every item', () => {
+    const first = blindOrder(items, 't1:100');
+    expect(blindOrder(items, 't1:100')).toEqual(first);
+    expect(first.slice().sort()).toEqual(items);
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('varies across seeds', () => {
+    const orders = new Set(
+      Array.from({ length: 20 }, (_, i) => blindOrder(items, `t1:${i}`).join('')),
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+});
+
+describe('blindLabel', () => {
+  it('labels columns alphabetically', () => {
+    expect(blindLabel(0)).toBe('Response A');
+    expect(blindLabel(2)).toBe('Response C');
+  });
+});
+
+describe('upsertVote / findTurnVote', () => {
+  it('replaces an earlier vote for the same turn', () => {
+    let store = upsertVote({}, vote(1, ['a', 'b'], 'a'));
+    store = upsertVote(store, vote(1, ['a', 'b'], 'b'));
+    store = upsertVote(store, vote(2, ['a', 'b'], 'tie'));
+    expect(store.t1).toHaveLength(2);
+    expect(findTurnVote(store.t1, 1)?.winner).toBe('b');
+    expect(findTurnVote(store.t1, 3)).toBeUndefined();
+  });
+});
+
+describe('computeEloRatings', () => {
+  it('moves the winner up and the loser down by the same amount', () => {
+    const [top, bottom] = computeEloRatings([vote(1, ['a', 'b'], 'a')]);
+    expect(top).toMatchObject({ modelId: 'a', rating: 1016, wins: 1, games: 1 });
+    expect(bottom).toMatchObject({ modelId: 'b', rating: 984, losses: 1, games: 1 });
+  });
+
+  it('leaves equal ratings unchanged on a tie', () => {
+    const rows = computeEloRatings([vote(1, ['a', 'b', 'c'], 'tie')]);
+    expect(rows.map((r) => r.rating)).toEqual([1000, 1000, 1000]);
+    expect(rows.every((r) => r.ties === 1)).toBe(true);
+  });
+
+  it('scores a multi-model win against each loser only', () => {
+    const rows = computeEloRatings([vote(1, ['a', 'b', 'c'], 'c')]);
+    expect(rows[0]).toMatchObject({ modelId: 'c', rating: 1032 });
+    expect(rows.slice(1).map((r) => r.rating)).toEqual([984, 984]);
+  });
+
+  it('ignores votes whose winner is not a contestant', () => {
+    expect(computeEloRatings([vote(1, ['a', 'b'], 'z')])).toEqual([]);
+  });
+});
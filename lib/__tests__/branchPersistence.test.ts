@@ -0,0 +1,72 @@
+import { addMessage, fetchThreadMessages } from '../db';
+import { branchFromTurn, linkPath } from '../branches';
+import type { ChatMessage } from '../types';
+
+// In-memory `messages` table: rows are stored as inserted and read back in created_at order
+const rows: Record<string, unknown>[] = [];
+
+jest.mock('@/lib/db/client', () => {
+  const ok = { data: null, error: null };
+  const query = (table: string) => ({
+    insert: (row: Record<string, unknown>) => {
+      rows.push({ id: `row-${rows.length}`, ...row });
+      return { select: async () => ({ data: [rows[rows.length - 1]], error: null }) };
+    },
+    update: () => ({ eq: async () => ok }),
+    select: () => {
+      const chain = {
+        eq: () => chain,
+        order: async () => ({
+          data:
+            table === 'messages'
+              ? [...rows].sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+              : [],
+          error: null,
+        }),
+      };
+      return chain;
+    },
+  });
+  return { supabase: { from: query } };
+});
+
+const save = async (messages: ChatMessage[]) => {
+  for (const message of messages) {
+    await addMessage({ userId: 'u', chatId: 'c', message });
+  }
+};
+
+describe('saved branches', () => {
+  beforeEach(() => {
+    rows.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('restores the active path and older branches from saved rows', async () => {
+    const [q1, a1, q2, a2] = linkPath([
+      { role: 'user', content: 'q1', ts: 1_000 },
+      { role: 'assistant', content: 'a1', modelId: 'm', ts: 2_000 },
+      { role: 'user', content: 'q2', ts: 3_000 },
+      { role: 'assistant', content: 'a2', modelId: 'm', ts: 4_000 },
+    ]);
+    await save([q1, a1, q2, a2]);
+
+    const edited = branchFromTurn({ messages: [q1, a1, q2, a2] }, 2, {
+      content: 'q2 edited',
+      ts: 5_000,
+    });
+    const answer: ChatMessage = {
+      role: 'assistant',
+      content: 'a2 edited',
+      modelId: 'm',
+      ts: 6_000,
+      parentId: edited.user.id,
+    };
+    await save([edited.user, answer]);
+
+    const loaded = await fetchThreadMessages('u', 'c');
+    expect(loaded.messages.map((m) => m.content)).toEqual(['q1', 'a1', 'q2 edited', 'a2 edited']);
+    expect(loaded.branches?.map((m) => m.content)).toEqual(['q2', 'a2']);
+    expect(loaded.messages[2]).toMatchObject({ id: edited.user.id, parentId: q1.id });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  branchFromTurn,
+  linkPath,
+  splitActivePath,
+  switchBranch,
+  turnBranchInfo,
+} from '../branches';
+import type { ChatMessage } from '../types';
+
+const linear: ChatMessage[] = [
+  { role: 'user', content: 'q1', ts: 1 },
+  { role: 'assistant', content: 'a1', modelId: 'm', ts: 2 },
+  { role: 'user', content: 'q2', ts: 3 },
+  { role: 'assistant', content: 'a2', modelId: 'm', ts: 4 },
+];
+
+describe('linkPath', () => {
+  it('chains prompts and hangs answers off their prompt', () => {
+    const [q1, a1, q2, a2] = linkPath(linear);
+    expect(q1.parentId).toBeNull();
+    expect(a1.parentId).toBe(q1.id);
+    expect(q2.parentId).toBe(q1.id);
+    expect(a2.parentId).toBe(q2.id);
+  });
+
+  it('keeps existing links', () => {
+    const linked = linkPath(linear);
+    expect(linkPath(linked)).toEqual(linked);
+  });
+});
+
+describe('branchFromTurn / switchBranch', () => {
+  it('keeps the old prompt and its follow-ups reachable after an edit', () => {
+    const edited = branchFromTurn({ messages: linear }, 2, { content: 'q2 edited', ts: 10 });
+    expect(edited.messages.map((m) => m.content)).toEqual(['q1', 'a1', 'q2 edited']);
+    expect(edited.branches?.map((m) => m.content)).toEqual(['q2', 'a2']);
+    expect(edited.user.parentId).toBe(edited.messages[0].id);
+
+    const withAnswer = {
+      messages: [
+        ...edited.messages,
+        {
+          role: 'assistant' as const,
+          content: 'a2 new',
+          modelId: 'm',
+          ts: 11,
+          parentId: edited.user.id,
+        },
+      ],
+      branches: edited.branches,
+    };
+    expect(turnBranchInfo(withAnswer)).toEqual([
+      { index: 0, count: 1 },
+      { index: 1, count: 2 },
+    ]);
+
+    const back = switchBranch(withAnswer, 1, -1);
+    expect(back.messages.map((m) => m.content)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(back.branches?.map((m) => m.content)).toEqual(['q2 edited', 'a2 new']);
+    expect(turnBranchInfo(back)[1]).toEqual({ index: 0, count: 2 });
+
+    const forward = switchBranch(back, 1, 1);
+    expect(forward.messages.map((m) => m.content)).toEqual(['q1', 'a1', 'q2 edited', 'a2 new']);
+    expect(switchBranch(forward, 1, 1)).toBe(forward);
+  });
+});
+
+describe('splitActivePath', () => {
+  it('reads rows without parent links as a linear thread', () => {
+    const rows = linear.map((m, i) => ({ ...m, id: `r${i}`, parentId: null }));
+    const { messages, branches } = splitActivePath(rows);
+    expect(messages.map((m) => [m.id, m.parentId])).toEqual([
+      ['r0', null],
+      ['r1', 'r0'],
+      ['r2', 'r0'],
+      ['r3', 'r2'],
+    ]);
+    expect(branches).toBeUndefined();
+    expect(turnBranchInfo({ messages })).toEqual([
+      { index: 0, count: 1 },
+      { index: 0, count: 1 },
+    ]);
+  });
+
+  it('keeps rows without parent links on the path when a linked turn follows them', () => {
+    const old = ['u1', 'a1', 'u2', 'a2', 'u3', 'a3'].map(
+      (id, i): ChatMessage => ({
+        id,
+        role: id.startsWith('u') ? 'user' : 'assistant',
+        content: id,
+        ts: i,
+      }),
+    );
+    const rows: ChatMessage[] = [
+      ...old,
+      { id: 'u4', role: 'user', content: 'u4', ts: 6, parentId: 'u3' },
+      { id: 'a4', role: 'assistant', content: 'a4', ts: 7, parentId: 'u4' },
+    ];
+    const { messages, branches } = splitActivePath(rows);
+    expect(messages.map((m) => m.content)).toEqual([
+      'u1',
+      'a1',
+      'u2',
+      'a2',
+      'u3',
+      'a3',
+      'u4',
+      'a4',
+    ]);
+    expect(branches).toBeUndefined();
+    expect(turnBranchInfo({ messages }).every((b) => b.count === 1)).toBe(true);
+  });
+
+  it('picks the newest branch at each fork', () => {
+    const linked = linkPath(linear);
+    const edited = branchFromTurn({ messages: linked }, 2, { content: 'q2 edited', ts: 10 });
+    const { messages, branches } = splitActivePath([...linked, edited.user]);
+    expect(messages.map((m) => m.content)).toEqual(['q1', 'a1', 'q2 edited']);
+    expect(branches?.map((m) => m.content)).toEqual(['q2', 'a2']);
+  });
+});
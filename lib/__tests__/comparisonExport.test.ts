@@ -0,0 +1,123 @@
+import {
+  COMPARISON_CSV_COLUMNS,
+  comparisonTurns,
+  formatComparisonCsv,
+  formatComparisonHtml,
+  formatComparisonJsonl,
+  voteOutcome,
+} from '../comparisonExport';
+import type { BlindVote } from '../blindVotes';
+import type { AiModel, ChatThread } from '../types';
+
+const thread: ChatThread = {
+  id: 't1',
+  title: 'Compare <b>',
+  createdAt: 1_700_000_000_000,
+  pageType: 'compare',
+  messages: [
+    { role: 'user', content: 'Say "hi", then stop', ts: 10 },
+    {
+      role: 'assistant',
+      content: 'hi',
+      modelId: 'a',
+      ts: 11,
+      metrics: { latencyMs: 120, promptTokens: 5, completionTokens: 1 },
+    },
+    { role: 'assistant', content: '<script>x</script>\nhello', modelId: 'b', ts: 12 },
+    { role: 'user', content: 'Second', ts: 20 },
+  ],
+};
+
+const models: AiModel[] = [{ id: 'a', label: 'Model A', provider: 'openrouter', model: 'a' }];
+
+const votes: BlindVote[] = [
+  { threadId: 't1', turnTs: 10, modelIds: ['a', 'b'], winner: 'b', votedAt: 1 },
+];
+
+describe('comparisonTurns', () => {
+  it('groups answers under their prompt and attaches votes', () => {
+    const turns = comparisonTurns(thread, votes);
+    expect(turns.map((t) => [t.index, t.prompt.content, t.answers.length])).toEqual([
+      [1, 'Say "hi", then stop', 2],
+      [2, 'Second', 0],
+    ]);
+    expect(turns[0].vote?.winner).toBe('b');
+    expect(turns[1].vote).toBeUndefined();
+    expect(voteOutcome(turns[0], 'a')).toBe('loss');
+    expect(voteOutcome(turns[0], 'b')).toBe('win');
+    expect(voteOutcome(turns[1], 'a')).toBe('');
+  });
+});
+
+describe('formatComparisonHtml', () => {
+  it('renders a column per model and escapes content', () => {
+    const html = formatComparisonHtml(thread, models, votes);
+    expect(html).toContain('<title>Compare &lt;b&gt;</title>');
+    expect(html).toContain('<th>Model A</th><th>b <span class="badge">Winner</span></th>');
+    expect(html).toContain('&lt;script&gt;x&lt;/script&gt;\nhello');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('120 ms');
+    expect(html).toContain('No answers');
+  });
+});
+
+describe('formatComparisonCsv', () => {
+  it('writes one quoted row per answer', () => {
+    const lines = formatComparisonCsv(thread, votes).split('\r\n');
+    expect(lines[0]).toBe(COMPARISON_CSV_COLUMNS.join(','));
+    expect(lines[1]).toBe('1,"Say ""hi"", then stop",a,hi,120,5,1,loss');
+    // Line breaks inside a quoted field stay as-is; records are separated by CRLF
+    expect(lines[2]).toBe('1,"Say ""hi"", then stop",b,"<script>x</script>\nhello",,,,win');
+    expect(lines[3]).toBe('');
+  });
+
+  it('escapes cells a spreadsheet would run as formulas', () => {
+    const risky: ChatThread = {
+      ...thread,
+      messages: [
+        { role: 'user', content: '=HYPERLINK("http://x")', ts: 1 },
+        { role: 'assistant', content: '@SUM(A1)', modelId: '+a', ts: 2 },
+        { role: 'assistant', content: '-1', modelId: 'b', ts: 3 },
+      ],
+    };
+    const [, first, second] = formatComparisonCsv(risky).split('\r\n');
+    expect(first).toBe(`1,"'=HYPERLINK(""http://x"")",'+a,'@SUM(A1),,,,`);
+    expect(second).toBe(`1,"'=HYPERLINK(""http://x"")",b,'-1,,,,`);
+  });
+});
+
+describe('formatComparisonJsonl', () => {
+  it('writes a prompt/completions record per answered turn', () => {
+    const lines = formatComparisonJsonl(thread, votes).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      thread_id: 't1',
+      turn: 1,
+      prompt: 'Say "hi", then stop',
+      completions: [
+        { model: 'a', text: 'hi', latency_ms: 120, prompt_tokens: 5, completion_tokens: 1 },
+        {
+          model: 'b',
+          text: '<script>x</script>\nhello',
+          latency_ms: null,
+          prompt_tokens: null,
+          completion_tokens: null,
+        },
+      ],
+      winner: 'b',
+    });
+  });
+
+  it('marks failed answers and leaves unvoted turns without a winner', () => {
+    const failed: ChatThread = {
+      ...thread,
+      messages: [
+        { role: 'user', content: 'q', ts: 1 },
+        { role: 'assistant', content: 'Rate limited', modelId: 'a', code: 429 },
+      ],
+    };
+    const record = JSON.parse(formatComparisonJsonl(failed));
+    expect(record.completions[0].error).toBe(true);
+    expect(record.winner).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describeContextUsage, fitToContext, promptBudget, summarizeTurns } from '../contextBudget';
+import { contextWindowFor } from '../models';
+import type { ChatMessage } from '../types';
+
+const words = (n: number, word = 'lorem') => Array.from({ length: n }, () => word).join(' ');
+
+// Turn i: a prompt and one answer of roughly `size` tokens each
+function conversation(turns: number, size: number): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  for (let i = 0; i < turns; i++) {
+    out.push({ role: 'user', content: `Question ${i}: ${words(size)}`, ts: i * 2 });
+    out.push({
+      role: 'assistant',
+      content: `Answer ${i}: ${words(size)}`,
+      modelId: 'm',
+      ts: i * 2 + 1,
+    });
+  }
+  return out;
+}
+
+describe('contextWindowFor', () => {
+  it('uses the catalog limit, then the provider default', () => {
+    expect(contextWindowFor({ provider: 'mistral', contextWindow: 40_000 })).toBe(40_000);
+    expect(contextWindowFor({ provider: 'ollama' })).toBe(4_096);
+    expect(contextWindowFor({ provider: 'openrouter' })).toBe(32_768);
+  });
+});
+
+describe('promptBudget', () => {
+  it('leaves room for the answer', () => {
+    expect(promptBudget(32_768)).toBe(32_768 - 4_096);
+    expect(promptBudget(4_096)).toBe(3_072);
+    expect(promptBudget(8_000, 2_000)).toBe(6_000);
+    expect(promptBudget(1_000, 5_000)).toBe(0);
+  });
+});
+
+describe('fitToContext', () => {
+  it('sends short conversations unchanged', () => {
+    const messages = conversation(3, 20);
+    const { messages: out, usage } = fitToContext(messages, { contextWindow: 32_768 });
+    expect(out).toEqual(messages);
+    expect(usage.summarizedTurns).toBe(0);
+    expect(usage.contextWindow).toBe(32_768);
+    expect(usage.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('summarizes the oldest turns to fit and keeps the latest prompt', () => {
+    const messages = [
+      { role: 'system', content: 'Be concise.', ts: -1 } as ChatMessage,
+      ...conversation(10, 400),
+      { role: 'user', content: 'Latest question', ts: 100 } as ChatMessage,
+    ];
+    const { messages: out, usage } = fitToContext(messages, { contextWindow: 8_000 });
+    expect(usage.summarizedTurns).toBeGreaterThan(0);
+    expect(usage.promptTokens).toBeLessThanOrEqual(promptBudget(8_000));
+    expect(out[0].role).toBe('system');
+    expect(out[0].content).toMatch(/^Be concise\.\n\nSummary of \d+ earlier turns/);
+    expect(out[0].content).toContain(`- User: Question ${usage.summarizedTurns - 1}:`);
+    expect(out.filter((m) => m.role === 'system')).toHaveLength(1);
+    expect(out[out.length - 1].content).toBe('Latest question');
+    // Whole turns are dropped: the first kept message is a prompt
+    expect(out[1].role).toBe('user');
+    expect(out[1].content).toMatch(new RegExp(`^Question ${usage.summarizedTurns}:`));
+  });
+
+  it('adds a system message for the summary when there is none', () => {
+    const { messages: out, usage } = fitToContext(conversation(12, 300), {
+      contextWindow: 4_096,
+      maxTokens: 1_000,
+    });
+    expect(out[0].role).toBe('system');
+    expect(usage.promptTokens).toBeLessThanOrEqual(3_096);
+  });
+
+  it('keeps the latest turn even when it alone is too long', () => {
+    const messages = [
+      ...conversation(2, 10),
+      { role: 'user', content: words(2_000) } as ChatMessage,
+    ];
+    const { messages: out, usage } = fitToContext(messages, { contextWindow: 1_024 });
+    expect(usage.summarizedTurns).toBe(2);
+    expect(out[out.length - 1].content).toBe(words(2_000));
+    expect(usage.promptTokens).toBeGreaterThan(usage.contextWindow);
+  });
+});
+
+describe('summarizeTurns', () => {
+  it('clips long messages and keeps the newest turns when over budget', () => {
+    const turns = conversation(30, 200).reduce<ChatMessage[][]>(
+      (acc, m, i) => (i % 2 ? (acc[acc.length - 1].push(m), acc) : [...acc, [m]]),
+      [],
+    );
+    const summary = summarizeTurns(turns, 300);
+    expect(summary).toMatch(/^Summary of 30 earlier turns/);
+    expect(summary).toMatch(/\(\d+ earliest not shown\)/);
+    expect(summary).toContain('Question 29:');
+    expect(summary).not.toContain('Question 0:');
+    expect(summary).toContain('…');
+  });
+});
+
+describe('describeContextUsage', () => {
+  it('reads like the column header', () => {
+    expect(
+      describeContextUsage({ promptTokens: 820, contextWindow: 1_000, summarizedTurns: 6 }),
+    ).toBe('Context 82% used, 6 turns summarized');
+    expect(
+      describeContextUsage({ promptTokens: 10, contextWindow: 1_000, summarizedTurns: 0 }),
+    ).toBe('Context 1% used');
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  endpointModelId,
+  endpointModels,
+  formatHeaderLines,
+  normalizeBaseUrl,
+  parseHeaderLines,
+  parseModelList,
+} from '../customEndpoints';
+import type { CustomEndpoint } from '../customEndpoints';
+import { mergeModels } from '../customModels';
+import { contextWindowFor } from '../models';
+import {
+  chatMessages,
+  endpointHeaders,
+  endpointTarget,
+  isEndpointAllowed,
+  isLinkLocalAddress,
+  proxyTarget,
+} from '../server/openaiCompatible';
+
+const vllm: CustomEndpoint = {
+  id: 'e1',
+  name: 'Team vLLM',
+  baseUrl: 'http://gpu-box:8000/v1',
+  models: ['llama-3.1-8b', 'qwen2.5-7b'],
+  contextWindow: 32_768,
+};
+
+describe('endpointModels', () => {
+  it('lists every model of every endpoint under the openai-compatible provider', () => {
+    const models = endpointModels([
+      vllm,
+      { id: 'e2', name: 'LM Studio', baseUrl: 'x', models: ['phi-4'] },
+    ]);
+    expect(models.map((m) => m.id)).toEqual([
+      'endpoint:e1:llama-3.1-8b',
+      'endpoint:e1:qwen2.5-7b',
+      'endpoint:e2:phi-4',
+    ]);
+    expect(models[0]).toMatchObject({
+      label: 'llama-3.1-8b (Team vLLM)',
+      provider: 'openai-compatible',
+      model: 'llama-3.1-8b',
+      endpointId: 'e1',
+      category: 'text',
+      contextWindow: 32_768,
+    });
+    expect(models[2].contextWindow).toBeUndefined();
+  });
+
+  it('is merged into the picker and uses the endpoint context window', () => {
+    const all = mergeModels([], [vllm]);
+    const model = all.find((m) => m.id === endpointModelId('e1', 'qwen2.5-7b'));
+    expect(model).toBeDefined();
+    expect(contextWindowFor(model!)).toBe(32_768);
+    expect(contextWindowFor({ ...model!, contextWindow: undefined })).toBe(8_192);
+  });
+});
+
+describe('form parsing', () => {
+  it('parses "Name: value" header lines and skips invalid ones', () => {
+    expect(
+      parseHeaderLines('X-Team: research\nbad line\nAuthorization: Bearer a:b\n: nope'),
+    ).toEqual({
+      'X-Team': 'research',
+      Authorization: 'Bearer a:b',
+    });
+    expect(formatHeaderLines({ 'X-Team': 'research', 'X-Env': 'dev' })).toBe(
+      'X-Team: research\nX-Env: dev',
+    );
+  });
+
+  it('splits model lists on commas and newlines, de-duplicated', () => {
+    expect(parseModelList('a, b\n c \n\na')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('strips trailing slashes and a pasted /chat/completions path', () => {
+    expect(normalizeBaseUrl(' http://localhost:1234/v1/ ')).toBe('http://localhost:1234/v1');
+    expect(normalizeBaseUrl('http://localhost:8080/v1/chat/completions')).toBe(
+      'http://localhost:8080/v1',
+    );
+  });
+});
+
+describe('server endpointTarget', () => {
+  it('rejects missing, malformed and non-http URLs', () => {
+    expect(endpointTarget({})).toEqual({ error: 'Missing endpoint base URL' });
+    expect(endpointTarget({ baseUrl: 'not a url' })).toEqual({
+      error: 'Invalid endpoint base URL',
+    });
+    expect(endpointTarget({ baseUrl: 'file:///etc/passwd' })).toHaveProperty('error');
+  });
+
+  it('keeps custom headers but drops reserved ones', () => {
+    const target = endpointTarget({
+      baseUrl: 'http://localhost:8000/v1/chat/completions',
+      apiKey: ' sk-local ',
+      headers: { 'X-Team': 'research', Host: 'evil', 'Content-Length': '1', 'bad header': 'x' },
+    });
+    expect(target).toEqual({
+      baseUrl: 'http://localhost:8000/v1',
+      apiKey: 'sk-local',
+      headers: { 'X-Team': 'research' },
+    });
+    if ('error' in target) throw new Error('unexpected error');
+    expect(endpointHeaders(target, 'text/event-stream')).toEqual({
+      'X-Team': 'research',
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      Authorization: 'Bearer sk-local',
+    });
+  });
+
+  it('sends only plain-text messages', () => {
+    expect(
+      chatMessages([
+        { role: 'system', content: 'Be brief' },
+        { role: 'tool', content: 'coerced to user' },
+        { role: 'assistant', content: '' },
+        null,
+      ]),
+    ).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'coerced to user' },
+    ]);
+  });
+});
+
+describe('endpoint proxy policy', () => {
+  const setting = process.env.OPENAI_COMPATIBLE_ENDPOINTS;
+  afterEach(() => {
+    if (setting === undefined) delete process.env.OPENAI_COMPATIBLE_ENDPOINTS;
+    else process.env.OPENAI_COMPATIBLE_ENDPOINTS = setting;
+  });
+
+  it('is off unless the server lists the host or allows any', () => {
+    const url = new URL('http://gpu-box:8000/v1');
+    expect(isEndpointAllowed(url, undefined)).toBe(false);
+    expect(isEndpointAllowed(url, 'localhost:8000')).toBe(false);
+    expect(isEndpointAllowed(url, 'localhost, GPU-box:8000')).toBe(true);
+    expect(isEndpointAllowed(url, 'gpu-box')).toBe(true);
+    expect(isEndpointAllowed(url, '*')).toBe(true);
+  });
+
+  it('recognizes link-local addresses', () => {
+    expect(isLinkLocalAddress('169.254.169.254')).toBe(true);
+    expect(isLinkLocalAddress('::ffff:169.254.169.254')).toBe(true);
+    expect(isLinkLocalAddress('fe80::1')).toBe(true);
+    expect(isLinkLocalAddress('fd00:ec2::254')).toBe(true);
+    expect(isLinkLocalAddress('127.0.0.1')).toBe(false);
+    expect(isLinkLocalAddress('10.0.0.5')).toBe(false);
+    expect(isLinkLocalAddress('fe8::1')).toBe(false);
+  });
+
+  it('refuses disabled and link-local targets', async () => {
+    delete process.env.OPENAI_COMPATIBLE_ENDPOINTS;
+    expect(await proxyTarget({ baseUrl: 'http://127.0.0.1:8000/v1' })).toMatchObject({
+      status: 403,
+    });
+    process.env.OPENAI_COMPATIBLE_ENDPOINTS = '*';
+    expect(await proxyTarget({ baseUrl: 'http://169.254.169.254/latest' })).toMatchObject({
+      status: 403,
+    });
+    expect(await proxyTarget({ baseUrl: 'http://[fe80::1]:8000/v1' })).toMatchObject({
+      status: 403,
+    });
+    expect(await proxyTarget({ baseUrl: 'http://127.0.0.1:8000/v1' })).toEqual({
+      baseUrl: 'http://127.0.0.1:8000/v1',
+      apiKey: undefined,
+      headers: {},
+    });
+    expect(await proxyTarget({ baseUrl: 'ftp://x' })).toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import {
+  clipPages,
+  documentBlock,
+  documentType,
+  htmlToText,
+  isDocumentDataUrl,
+} from '../documents';
+import { documentPromptBlock, withDocumentAttachment } from '../server/documents';
+
+const dataUrl = (mime: string, text: string) =>
+  `data:${mime};base64,${Buffer.from(text).toString('base64')}`;
+
+describe('documentType', () => {
+  it('uses the MIME type, then the extension', () => {
+    expect(documentType('application/pdf')).toBe('pdf');
+    expect(documentType('', 'Report.DOCX')).toBe('docx');
+    expect(documentType('text/html; charset=utf-8')).toBe('html');
+    expect(documentType('text/csv', 'data.csv')).toBe('csv');
+    expect(documentType('', 'README.md')).toBe('markdown');
+    // Browsers report TypeScript files as MPEG transport streams
+    expect(documentType('video/mp2t', 'index.ts')).toBe('code');
+    expect(documentType('text/plain')).toBe('text');
+    expect(documentType('image/png', 'photo.png')).toBeNull();
+    expect(documentType('application/zip', 'a.zip')).toBeNull();
+  });
+
+  it('tells documents from images in data URLs', () => {
+    expect(isDocumentDataUrl('data:application/pdf;base64,AAA')).toBe(true);
+    expect(isDocumentDataUrl('data:image/png;base64,AAA')).toBe(false);
+    expect(isDocumentDataUrl(undefined)).toBe(false);
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps readable text only', () => {
+    const html =
+      '<html><head><style>p{}</style><script>alert(1)</script></head>' +
+      '<body><h1>Title</h1><p>One &amp; two&nbsp;&#x2192; three</p><!-- note --></body></html>';
+    expect(htmlToText(html)).toBe('Title\nOne & two → three');
+  });
+});
+
+describe('clipPages', () => {
+  it('keeps whole pages within the budget and reports the rest', () => {
+    const out = clipPages(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)], 120, 10);
+    expect(out.pages).toEqual({ included: 2, total: 10 });
+    expect(out.truncated).toBe(true);
+    expect(out.text).toMatch(/^--- Page 1 ---\na+\n\n--- Page 2 ---\nb+$/);
+  });
+
+  it('cuts a single oversized page instead of dropping it', () => {
+    const out = clipPages(['x'.repeat(500)], 100);
+    expect(out.text).toHaveLength(100);
+    expect(out).toMatchObject({ truncated: true, pages: { included: 1, total: 1 } });
+  });
+
+  it('returns no text for pages without a text layer', () => {
+    expect(clipPages(['', '  '], 100)).toEqual({ text: '', truncated: false });
+  });
+});
+
+describe('documentBlock', () => {
+  it('labels partial documents', () => {
+    expect(
+      documentBlock({
+        name: 'r.pdf',
+        text: 'body',
+        truncated: true,
+        pages: { included: 3, total: 9 },
+      }),
+    ).toBe('[Attached file: r.pdf (pages 1-3 of 9, truncated)]\nbody');
+    expect(documentBlock({ name: 'a.txt', text: '' })).toBe(
+      '[Attached file: a.txt]\n(no extractable text)',
+    );
+  });
+});
+
+describe('withDocumentAttachment', () => {
+  const messages = [
+    { role: 'user', content: 'first' },
+    { role: 'assistant', content: 'ok' },
+    { role: 'user', content: 'Summarize' },
+  ];
+
+  it('appends document text to the last user message', async () => {
+    const out = await withDocumentAttachment(messages, dataUrl('text/csv', 'a,b\n1,2\n'));
+    expect(out.imageDataUrl).toBeUndefined();
+    expect(out.messages[2].content).toBe('Summarize\n\n[Attached file: text/csv]\na,b\n1,2');
+    expect(out.messages[0]).toBe(messages[0]);
+    expect(messages[2].content).toBe('Summarize');
+  });
+
+  it('passes images through untouched', async () => {
+    const image = 'data:image/png;base64,AAAA';
+    expect(await withDocumentAttachment(messages, image)).toEqual({
+      messages,
+      imageDataUrl: image,
+    });
+    expect(await withDocumentAttachment(messages, undefined)).toEqual({ messages });
+  });
+
+  it('notes files it cannot read', async () => {
+    expect(await documentPromptBlock(dataUrl('application/zip', 'PK..'), 'a.zip')).toBe(
+      "[Attached file: a.zip. This file type (application/zip) can't be read as text.]",
+    );
+    expect(await documentPromptBlock(dataUrl('text/html', '<p>Hi</p>'), 'page.html')).toBe(
+      '[Attached file: page.html]\nHi',
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { createGeminiStreamHandler, toGeminiBody } from '../server/gemini';
+
+describe('toGeminiBody', () => {
+  it('moves system messages to systemInstruction and sends images inline', () => {
+    const body = toGeminiBody(
+      [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' },
+        { role: 'user', content: 'What is this?' },
+      ],
+      'data:image/png;base64,AAA',
+    );
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'Be brief' }] });
+    expect(body.contents.map((c) => c.role)).toEqual(['user', 'model', 'user']);
+    expect(body.contents[2].parts).toEqual([
+      { text: 'What is this?' },
+      { inline_data: { mime_type: 'image/png', data: 'AAA' } },
+    ]);
+  });
+
+  it('stands in a user message for an empty conversation', () => {
+    expect(toGeminiBody([])).toEqual({
+      contents: [{ role: 'user', parts: [{ text: 'Please respond to the instruction.' }] }],
+    });
+  });
+});
+
+describe('createGeminiStreamHandler', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    global.fetch = originalFetch;
+  });
+
+  it('stops the idle timer when the request cannot be sent', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    // jest.setup.js replaces Request with a stub that has no body
+    const req = {
+      json: async () => ({ apiKey: 'k', messages: [{ role: 'user', content: 'hi' }] }),
+    } as unknown as Request;
+    await createGeminiStreamHandler()(req);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { normalizeGenerationParams, resolveGenerationParams } from '../generationParams';
+import {
+  geminiGenerationConfig,
+  ollamaOptions,
+  openAISamplingParams,
+} from '../server/generationParams';
+
+describe('normalizeGenerationParams', () => {
+  it('clamps values and drops invalid fields', () => {
+    expect(
+      normalizeGenerationParams({
+        temperature: 3,
+        topP: -1,
+        maxTokens: 100.6,
+        stop: ['###', '', 42, 'END', 'a', 'b'],
+        extra: true,
+      }),
+    ).toEqual({ temperature: 2, topP: 0, maxTokens: 101, stop: ['###', 'END', 'a', 'b'] });
+  });
+
+  it('returns an empty object for garbage input', () => {
+    expect(normalizeGenerationParams('hot')).toEqual({});
+    expect(normalizeGenerationParams({ temperature: NaN, stop: [] })).toEqual({});
+  });
+});
+
+describe('resolveGenerationParams', () => {
+  const store = {
+    defaults: { temperature: 0.2, maxTokens: 512 },
+    models: { 'gemini-2.5-pro': { temperature: 1 } },
+  };
+
+  it('layers defaults, project and model overrides', () => {
+    const project = { generationParams: { maxTokens: 1024, topP: 0.9 } };
+    expect(resolveGenerationParams(store, 'gemini-2.5-pro', project)).toEqual({
+      temperature: 1,
+      maxTokens: 1024,
+      topP: 0.9,
+    });
+    expect(resolveGenerationParams(store, 'open-evil', null)).toEqual({
+      temperature: 0.2,
+      maxTokens: 512,
+    });
+  });
+
+  it('is empty when nothing is configured', () => {
+    expect(resolveGenerationParams(undefined, 'open-evil')).toEqual({});
+  });
+});
+
+describe('server mapping', () => {
+  it('maps to OpenAI-compatible fields with route fallbacks', () => {
+    expect(
+      openAISamplingParams(
+        { temperature: 0, stop: ['\n\n'] },
+        { maxTokens: 2048, temperature: 0.7 },
+      ),
+    ).toEqual({
+      temperature: 0,
+      max_tokens: 2048,
+      stop: ['\n\n'],
+    });
+    // No fallback temperature means none is sent (Pollinations/Azure)
+    expect(openAISamplingParams(undefined, { maxTokens: 4000 })).toEqual({ max_tokens: 4000 });
+  });
+
+  it('maps to Gemini and Ollama field names', () => {
+    const params = { temperature: 0.5, maxTokens: 300, topP: 0.8, stop: ['END'] };
+    expect(geminiGenerationConfig(params)).toEqual({
+      temperature: 0.5,
+      maxOutputTokens: 300,
+      topP: 0.8,
+      stopSequences: ['END'],
+    });
+    expect(ollamaOptions(params)).toEqual({
+      temperature: 0.5,
+      num_predict: 300,
+      top_p: 0.8,
+      stop: ['END'],
+    });
+  });
+});
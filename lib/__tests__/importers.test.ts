@@ -0,0 +1,221 @@
+import {
+  importedModelId,
+  parseChatGPTExport,
+  parseClaudeExport,
+  parseConversationImport,
+  parseOpenAIJsonl,
+} from '../importers';
+
+const chatgptConversation = {
+  title: 'Haiku help',
+  create_time: 1_700_000_000.5,
+  current_node: 'a2',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['sys'], message: null },
+    sys: {
+      id: 'sys',
+      parent: 'root',
+      children: ['u1'],
+      message: {
+        author: { role: 'system' },
+        content: { content_type: 'text', parts: [''] },
+        metadata: { is_visually_hidden_from_conversation: true },
+      },
+    },
+    u1: {
+      id: 'u1',
+      parent: 'sys',
+      children: ['a1', 'a2'],
+      message: {
+        author: { role: 'user' },
+        create_time: 1_700_000_001,
+        content: { content_type: 'text', parts: ['Write a haiku'] },
+        metadata: {},
+      },
+    },
+    a1: {
+      id: 'a1',
+      parent: 'u1',
+      children: [],
+      message: {
+        author: { role: 'assistant' },
+        create_time: 1_700_000_002,
+        content: { content_type: 'text', parts: ['Discarded draft'] },
+        metadata: { model_slug: 'gpt-4o' },
+      },
+    },
+    a2: {
+      id: 'a2',
+      parent: 'u1',
+      children: [],
+      message: {
+        author: { role: 'assistant' },
+        create_time: 1_700_000_003,
+        content: { content_type: 'text', parts: ['Autumn moonlight'] },
+        metadata: { model_slug: 'gpt-4o' },
+      },
+    },
+  },
+};
+
+describe('parseChatGPTExport', () => {
+  it('imports the current branch and skips hidden system messages', () => {
+    const { source, threads, issues } = parseChatGPTExport([chatgptConversation]);
+    expect(source).toBe('chatgpt');
+    expect(issues).toEqual([]);
+    expect(threads).toHaveLength(1);
+    const [thread] = threads;
+    expect(thread.title).toBe('Haiku help');
+    expect(thread.pageType).toBe('home');
+    expect(thread.createdAt).toBe(1_700_000_000_500);
+    expect(thread.messages.map((m) => m.content)).toEqual(['Write a haiku', 'Autumn moonlight']);
+    expect(thread.messages[1].modelId).toBe('imported:chatgpt:gpt-4o');
+    expect(thread.messages[0].modelId).toBeUndefined();
+  });
+
+  it('links messages into a single path', () => {
+    const [thread] = parseChatGPTExport([chatgptConversation]).threads;
+    const [user, answer] = thread.messages;
+    expect(user.parentId).toBeNull();
+    expect(answer.parentId).toBe(user.id);
+  });
+
+  it('follows the last child when no current node is recorded', () => {
+    const [thread] = parseChatGPTExport([
+      { ...chatgptConversation, current_node: undefined },
+    ]).threads;
+    expect(thread.messages.map((m) => m.content)).toEqual(['Write a haiku', 'Autumn moonlight']);
+  });
+
+  it('reports conversations without messages', () => {
+    const { threads, issues } = parseChatGPTExport([{ title: 'Empty', mapping: {} }, 42]);
+    expect(threads).toEqual([]);
+    expect(issues).toEqual([
+      { item: 'Empty', reason: 'No text messages' },
+      { item: 'Conversation 2', reason: 'No message tree (mapping) found' },
+    ]);
+  });
+});
+
+describe('parseClaudeExport', () => {
+  it('imports messages and keeps extracted attachment text', () => {
+    const { source, threads, issues } = parseClaudeExport([
+      {
+        uuid: 'c1',
+        name: '',
+        created_at: '2024-05-01T10:00:00Z',
+        chat_messages: [
+          {
+            sender: 'human',
+            text: 'Summarize this\nplease',
+            created_at: '2024-05-01T10:00:00Z',
+            attachments: [
+              { file_name: 'notes.md', file_size: 12, extracted_content: 'Meeting notes' },
+            ],
+          },
+          {
+            sender: 'assistant',
+            text: '',
+            content: [{ type: 'text', text: 'Here is a summary' }],
+            created_at: '2024-05-01T10:00:05Z',
+          },
+          { sender: 'assistant', text: '   ' },
+        ],
+      },
+    ]);
+    expect(source).toBe('claude');
+    expect(issues).toEqual([]);
+    const [thread] = threads;
+    expect(thread.title).toBe('Summarize this');
+    expect(thread.messages).toHaveLength(2);
+    expect(thread.messages[0].attachments).toEqual([
+      expect.objectContaining({ name: 'notes.md', mime: 'text/plain', text: 'Meeting notes' }),
+    ]);
+    expect(thread.messages[1]).toMatchObject({
+      role: 'assistant',
+      content: 'Here is a summary',
+      modelId: 'imported:claude',
+      ts: Date.parse('2024-05-01T10:00:05Z'),
+    });
+  });
+});
+
+describe('parseOpenAIJsonl', () => {
+  it('imports one conversation per line and reports bad lines', () => {
+    const text = [
+      JSON.stringify({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: [{ type: 'text', text: 'Hello!' }] },
+        ],
+      }),
+      '',
+      '{ not json',
+      JSON.stringify({ messages: [{ role: 'system', content: 'Only system' }] }),
+    ].join('\n');
+    const { threads, issues } = parseOpenAIJsonl(text);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hello!'],
+    ]);
+    expect(threads[0].messages[1].modelId).toBe('imported:openai:gpt-4o-mini');
+    expect(issues).toEqual([
+      { item: 'Line 3', reason: 'Not valid JSON' },
+      { item: 'Line 4', reason: 'No user or assistant messages' },
+    ]);
+  });
+
+  it('makes timestamps strictly increasing', () => {
+    const line = JSON.stringify({
+      created: 1_700_000_000,
+      messages: [
+        { role: 'user', content: 'a' },
+        { role: 'assistant', content: 'b' },
+        { role: 'user', content: 'c' },
+      ],
+    });
+    const ts = parseOpenAIJsonl(line).threads[0].messages.map((m) => m.ts!);
+    expect(ts[0]).toBe(1_700_000_000_000);
+    expect(ts[1]).toBeGreaterThan(ts[0]);
+    expect(ts[2]).toBeGreaterThan(ts[1]);
+  });
+});
+
+describe('parseConversationImport', () => {
+  it('detects each format', () => {
+    expect(parseConversationImport(JSON.stringify([chatgptConversation])).source).toBe('chatgpt');
+    expect(
+      parseConversationImport(
+        JSON.stringify([{ name: 'x', chat_messages: [{ sender: 'human', text: 'hi' }] }]),
+      ).source,
+    ).toBe('claude');
+    expect(
+      parseConversationImport(JSON.stringify({ messages: [{ role: 'user', content: 'hi' }] }))
+        .source,
+    ).toBe('openai');
+    const jsonl = [1, 2]
+      .map((n) => JSON.stringify({ messages: [{ role: 'user', content: `q${n}` }] }))
+      .join('\n');
+    expect(parseConversationImport(jsonl).threads).toHaveLength(2);
+  });
+
+  it('reports unrecognized files', () => {
+    expect(parseConversationImport(JSON.stringify({ foo: 1 }))).toMatchObject({
+      source: null,
+      threads: [],
+      issues: [{ item: 'File' }],
+    });
+    expect(parseConversationImport('not json at all').source).toBeNull();
+  });
+});
+
+describe('importedModelId', () => {
+  it('tags the source and optional model', () => {
+    expect(importedModelId('claude')).toBe('imported:claude');
+    expect(importedModelId('chatgpt', ' gpt-4 ')).toBe('imported:chatgpt:gpt-4');
+    expect(importedModelId('openai', 5)).toBe('imported:openai');
+  });
+});
@@ -0,0 +1,66 @@
+import { MESSAGE_METADATA_VERSION, fromMessageMetadata, toMessageMetadata } from '../db/metadata';
+import type { ChatMessage } from '../types';
+
+describe('message metadata', () => {
+  const answer: ChatMessage = {
+    role: 'assistant',
+    content: 'Hi',
+    modelId: 'gpt',
+    ts: 1,
+    provider: 'openrouter',
+    usedKeyType: 'shared',
+    code: 503,
+    tokens: { by: 'messages', total: 12 },
+    metrics: { latencyMs: 420, promptTokens: 10, completionTokens: 2, costUsd: 0.0001 },
+  };
+
+  it('round-trips every metadata field with a version tag', () => {
+    const stored = toMessageMetadata(answer);
+    expect(stored).toMatchObject({ v: MESSAGE_METADATA_VERSION, provider: 'openrouter' });
+    expect(stored).not.toHaveProperty('content');
+    expect(fromMessageMetadata(JSON.parse(JSON.stringify(stored)))).toEqual({
+      provider: 'openrouter',
+      usedKeyType: 'shared',
+      code: 503,
+      tokens: { by: 'messages', total: 12 },
+      metrics: answer.metrics,
+    });
+  });
+
+  it('keeps prompt attachments and drops malformed ones', () => {
+    const attachments = [{ id: 'a', name: 'notes.txt', mime: 'text/plain', size: 5, text: 'hello' }];
+    const stored = toMessageMetadata({ role: 'user', content: 'q', attachments });
+    expect(fromMessageMetadata(JSON.parse(JSON.stringify(stored)))).toEqual({ attachments });
+    expect(fromMessageMetadata({ v: 1, attachments: [{ name: 1 }] })).toEqual({});
+  });
+
+  it('stores attachments without image data', () => {
+    const image = { id: 'i', name: 'a.jpg', mime: 'image/jpeg', size: 5, thumbnail: 'data:t' };
+    const stored = toMessageMetadata({
+      role: 'user',
+      content: 'q',
+      attachments: [{ ...image, dataUrl: 'data:image/jpeg;base64,big' }],
+    });
+    expect(stored?.attachments).toEqual([image]);
+  });
+
+  it('keeps context usage of an answer', () => {
+    const context = { promptTokens: 900, contextWindow: 4096, summarizedTurns: 3 };
+    const stored = toMessageMetadata({ role: 'assistant', content: 'a', context });
+    expect(fromMessageMetadata(JSON.parse(JSON.stringify(stored)))).toEqual({ context });
+    expect(fromMessageMetadata({ v: 1, context: { promptTokens: '900' } })).toEqual({});
+  });
+
+  it('stores nothing for plain messages', () => {
+    expect(toMessageMetadata({ role: 'user', content: 'q' })).toBeNull();
+  });
+
+  it('tolerates legacy, malformed and future rows', () => {
+    expect(fromMessageMetadata(null)).toEqual({});
+    expect(fromMessageMetadata('not json')).toEqual({});
+    expect(
+      fromMessageMetadata({ v: 99, provider: 'gemini', usedKeyType: 'bogus', newField: 1 }),
+    ).toEqual({ provider: 'gemini' });
+    expect(fromMessageMetadata('{"v":1,"code":429}')).toEqual({ code: 429 });
+  });
+});
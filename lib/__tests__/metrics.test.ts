@@ -0,0 +1,98 @@
+import { buildAnswerMetrics, formatCost, formatLatency, rankTurnMetrics } from '../metrics';
+import { estimateCostUsd } from '../models';
+import type { ChatMessage } from '../types';
+
+describe('estimateCostUsd', () => {
+  it('prices known models per million tokens', () => {
+    expect(
+      estimateCostUsd({ provider: 'gemini', model: 'gemini-2.5-pro' }, 1_000_000, 100_000),
+    ).toBeCloseTo(2.25);
+  });
+
+  it('treats free pools and local models as free and unknown models as unpriced', () => {
+    expect(
+      estimateCostUsd({ provider: 'openrouter', model: 'deepseek/deepseek-r1:free' }, 10, 10),
+    ).toBe(0);
+    expect(estimateCostUsd({ provider: 'ollama', model: 'llama3' }, 10, 10)).toBe(0);
+    expect(
+      estimateCostUsd({ provider: 'openrouter', model: 'some/unknown-model' }, 10, 10),
+    ).toBeUndefined();
+  });
+});
+
+describe('buildAnswerMetrics', () => {
+  const promptMessages: ChatMessage[] = [{ role: 'user', content: 'x'.repeat(40) }];
+
+  it('uses provider usage when reported', () => {
+    const metrics = buildAnswerMetrics({
+      model: { provider: 'mistral', model: 'mistral-small-latest' },
+      startedAt: 1000,
+      firstTokenAt: 1250,
+      endedAt: 3000,
+      usage: { promptTokens: 100, completionTokens: 200 },
+      promptMessages,
+      completion: 'hello',
+    });
+    expect(metrics).toEqual({
+      ttftMs: 250,
+      latencyMs: 2000,
+      promptTokens: 100,
+      completionTokens: 200,
+      costUsd: (100 * 0.1 + 200 * 0.3) / 1_000_000,
+      estimated: false,
+    });
+  });
+
+  it('estimates tokens from text when usage is missing', () => {
+    const metrics = buildAnswerMetrics({
+      model: { provider: 'open-provider', model: 'evil' },
+      startedAt: 0,
+      endedAt: 500,
+      promptMessages,
+      completion: 'y'.repeat(8),
+    });
+    expect(metrics).toMatchObject({
+      promptTokens: 10,
+      completionTokens: 2,
+      costUsd: 0,
+      estimated: true,
+    });
+    expect(metrics.ttftMs).toBeUndefined();
+  });
+});
+
+describe('rankTurnMetrics', () => {
+  const answer = (modelId: string, latencyMs: number, costUsd?: number): ChatMessage => ({
+    role: 'assistant',
+    content: 'ok',
+    modelId,
+    metrics: { latencyMs, costUsd },
+  });
+
+  it('picks the fastest and cheapest answers', () => {
+    expect(
+      rankTurnMetrics([answer('a', 900, 0.01), answer('b', 400, 0.02), answer('c', 700)]),
+    ).toEqual({
+      fastest: 'b',
+      cheapest: 'a',
+    });
+  });
+
+  it('needs two measured answers and a real price difference', () => {
+    expect(rankTurnMetrics([answer('a', 900, 0)])).toEqual({});
+    expect(rankTurnMetrics([answer('a', 900, 0), answer('b', 300, 0)])).toEqual({
+      fastest: 'b',
+      cheapest: undefined,
+    });
+  });
+});
+
+describe('formatting', () => {
+  it('formats latency and cost', () => {
+    expect(formatLatency(420)).toBe('420 ms');
+    expect(formatLatency(2345)).toBe('2.35 s');
+    expect(formatCost(0)).toBe('free');
+    expect(formatCost(0.00001)).toBe('<$0.0001');
+    expect(formatCost(0.0123)).toBe('$0.012');
+  });
+});
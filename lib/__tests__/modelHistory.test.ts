@@ -0,0 +1,35 @@
+import { historyForModel } from '../modelHistory';
+import type { ChatMessage } from '../types';
+
+const thread: ChatMessage[] = [
+  { role: 'user', content: 'q1' },
+  { role: 'assistant', content: 'a1 from A', modelId: 'a' },
+  { role: 'assistant', content: 'a1 from B', modelId: 'b' },
+  { role: 'user', content: 'follow-up for B', targetModelId: 'b' },
+  { role: 'assistant', content: 'a2 from B', modelId: 'b' },
+  { role: 'user', content: 'q3' },
+];
+
+const contents = (msgs: ChatMessage[]) => msgs.map((m) => m.content);
+
+describe('historyForModel', () => {
+  it('keeps only the model’s own answers and the prompts it was sent', () => {
+    expect(contents(historyForModel(thread, 'a'))).toEqual(['q1', 'a1 from A', 'q3']);
+    expect(contents(historyForModel(thread, 'b'))).toEqual([
+      'q1',
+      'a1 from B',
+      'follow-up for B',
+      'a2 from B',
+      'q3',
+    ]);
+  });
+
+  it('can include other models’ answers but still skips their private follow-ups', () => {
+    expect(contents(historyForModel(thread, 'a', { includeOtherAnswers: true }))).toEqual([
+      'q1',
+      'a1 from A',
+      'a1 from B',
+      'q3',
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { parseOllamaTags, pullOllamaModel, pullPercent, toOllamaModel } from '../ollama';
+import type { OllamaPullProgress } from '../ollama';
+
+describe('parseOllamaTags', () => {
+  it('maps /api/tags to installed models sorted by name', () => {
+    const models = parseOllamaTags({
+      models: [
+        {
+          name: 'qwen2.5:7b',
+          size: 4_683_087_332,
+          modified_at: '2025-01-02T10:00:00Z',
+          details: { family: 'qwen2', parameter_size: '7.6B', quantization_level: 'Q4_K_M' },
+        },
+        { model: 'llama3.2:latest', size: 2_019_393_189 },
+        { size: 1 },
+      ],
+    });
+    expect(models).toEqual([
+      {
+        name: 'llama3.2:latest',
+        size: 2_019_393_189,
+        modifiedAt: undefined,
+        family: undefined,
+        parameterSize: undefined,
+        quantization: undefined,
+      },
+      {
+        name: 'qwen2.5:7b',
+        size: 4_683_087_332,
+        modifiedAt: '2025-01-02T10:00:00Z',
+        family: 'qwen2',
+        parameterSize: '7.6B',
+        quantization: 'Q4_K_M',
+      },
+    ]);
+    expect(parseOllamaTags(null)).toEqual([]);
+    expect(parseOllamaTags({ models: 'nope' })).toEqual([]);
+  });
+});
+
+describe('toOllamaModel', () => {
+  it('uses the installed name as id and slug, like models added by hand', () => {
+    expect(
+      toOllamaModel({
+        name: 'llama3.2:latest',
+        size: 1,
+        parameterSize: '3.2B',
+        quantization: 'Q4_0',
+      }),
+    ).toEqual({
+      id: 'llama3.2:latest',
+      label: 'llama3.2',
+      provider: 'ollama',
+      model: 'llama3.2:latest',
+      category: 'text',
+      tags: ['3.2B', 'Q4_0'],
+      custom: true,
+    });
+    // Namespaced models keep the Ollama provider despite the slash
+    expect(toOllamaModel({ name: 'hf.co/org/model:Q8_0', size: 1 }).provider).toBe('ollama');
+  });
+});
+
+describe('pullPercent', () => {
+  it('needs both sizes', () => {
+    expect(pullPercent({ status: 'pulling abc', total: 200, completed: 50 })).toBe(25);
+    expect(pullPercent({ status: 'pulling manifest' })).toBeUndefined();
+  });
+});
+
+describe('pullOllamaModel', () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+  // Minimal fetch Response whose body yields `body` in two chunks, split mid-line
+  const respond = (body: string, status = 200) => {
+    const half = Math.floor(body.length / 2);
+    const chunks = [body.slice(0, half), body.slice(half)].map(
+      (c) => new Uint8Array(Buffer.from(c)),
+    );
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: status < 400,
+      status,
+      json: async () => JSON.parse(body),
+      body: {
+        getReader: () => ({
+          read: async () =>
+            chunks.length
+              ? { value: chunks.shift(), done: false }
+              : { value: undefined, done: true },
+        }),
+      },
+    });
+  };
+
+  it('reports each progress line and resolves on success', async () => {
+    respond(
+      [
+        '{"status":"pulling manifest"}',
+        '{"status":"pulling abc","digest":"abc","total":100,"completed":40}',
+        '{"status":"success"}',
+      ].join('\n'),
+    );
+    const seen: OllamaPullProgress[] = [];
+    await pullOllamaModel('llama3.2', (p) => seen.push(p), { baseUrl: 'http://host:11434' });
+    expect(seen.map((p) => p.status)).toEqual(['pulling manifest', 'pulling abc', 'success']);
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('/api/ollama/pull');
+    expect(JSON.parse(init.body)).toEqual({ baseUrl: 'http://host:11434', name: 'llama3.2' });
+  });
+
+  it("rejects with Ollama's error", async () => {
+    respond(
+      '{"status":"pulling manifest"}\n{"error":"pull model manifest: file does not exist"}\n',
+    );
+    await expect(pullOllamaModel('nope', () => {})).rejects.toThrow('file does not exist');
+  });
+
+  it('rejects when the route fails or the stream ends early', async () => {
+    respond('{"error":"Cannot connect to Ollama instance"}', 502);
+    await expect(pullOllamaModel('llama3.2', () => {})).rejects.toThrow('Cannot connect');
+    respond('{"status":"pulling abc","total":10,"completed":1}\n');
+    await expect(pullOllamaModel('llama3.2', () => {})).rejects.toThrow('did not finish');
+  });
+});
@@ -0,0 +1,106 @@
+import { chunkText } from '../rag/chunking';
+import { cosine, localEmbedding } from '../rag/embeddings';
+import { citedSources, rankChunks, retrievalContext, toCitations } from '../rag/retrieval';
+import type { DocumentChunk } from '../rag/store';
+
+const chunk = (documentId: string, index: number, text: string, page?: number): DocumentChunk => ({
+  id: `${documentId}:${index}`,
+  documentId,
+  projectId: 'p1',
+  index,
+  ...(page !== undefined ? { page } : {}),
+  text,
+  vector: localEmbedding(text),
+});
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('  Hello world.  ')).toEqual([{ text: 'Hello world.' }]);
+    expect(chunkText('   ')).toEqual([]);
+  });
+
+  it('splits long text into overlapping chunks on word breaks', () => {
+    const words = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(words, 300, 50);
+    expect(chunks.length).toBeGreaterThan(4);
+    for (const c of chunks) {
+      expect(c.text.length).toBeLessThanOrEqual(300);
+      expect(c.text).toMatch(/^word\d+/);
+      expect(c.text).toMatch(/word\d+$/);
+    }
+    // Consecutive chunks share words
+    const last = chunks[0].text.split(' ').pop()!;
+    expect(chunks[1].text.split(' ')).toContain(last);
+    expect(chunks[chunks.length - 1].text.endsWith('word199')).toBe(true);
+  });
+
+  it('never spans pages and records the page', () => {
+    const text = `--- Page 1 ---\nAlpha text.\n\n--- Page 2 ---\n${'beta '.repeat(100)}\n\n--- Page 3 ---\n\n`;
+    const chunks = chunkText(text, 200, 20);
+    expect(chunks[0]).toEqual({ page: 1, text: 'Alpha text.' });
+    expect(chunks.slice(1).every((c) => c.page === 2 && !c.text.includes('Alpha'))).toBe(true);
+    expect(chunks.some((c) => c.page === 3)).toBe(false);
+  });
+});
+
+describe('localEmbedding', () => {
+  it('scores related text above unrelated text', () => {
+    const query = localEmbedding('How do I reset my router password?');
+    const related = localEmbedding('To reset the router password, hold the reset button.');
+    const unrelated = localEmbedding('Quarterly revenue grew in the European market.');
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    expect(cosine(query, query)).toBeCloseTo(1);
+  });
+
+  it('returns a zero vector for text without words', () => {
+    expect(localEmbedding('?!').every((v) => v === 0)).toBe(true);
+    expect(cosine(localEmbedding('?!'), localEmbedding('router'))).toBe(0);
+  });
+});
+
+describe('retrieval', () => {
+  const chunks = [
+    chunk('d1', 0, 'The router password can be reset from the admin page.', 4),
+    chunk('d1', 1, 'Warranty covers hardware defects for two years.', 5),
+    chunk('d2', 0, 'Reset the router by holding the button for ten seconds.'),
+  ];
+
+  it('ranks chunks by similarity and drops weak matches', () => {
+    const query = localEmbedding('reset router');
+    const ranked = rankChunks(query, chunks, 5, 0.1);
+    expect(ranked.map((r) => r.chunk.id)).not.toContain('d1:1');
+    expect(ranked.length).toBe(2);
+    expect(ranked[0].score).toBeGreaterThanOrEqual(ranked[1].score);
+    expect(rankChunks(query, chunks, 1)).toHaveLength(1);
+  });
+
+  it('numbers citations and formats the prompt context', () => {
+    const ranked = rankChunks(localEmbedding('reset router password'), chunks, 2);
+    const citations = toCitations(ranked, new Map([['d1', 'Manual.pdf']]));
+    expect(citations.map((c) => c.n)).toEqual([1, 2]);
+    expect(citations[0]).toEqual({
+      n: 1,
+      documentId: 'd1',
+      name: 'Manual.pdf',
+      page: 4,
+      excerpt: chunks[0].text,
+    });
+    expect(citations[1].name).toBe('Document');
+    expect(citations[1]).not.toHaveProperty('page');
+
+    const context = retrievalContext(citations);
+    expect(context).toContain('[1] Manual.pdf, page 4\nThe router password');
+    expect(context).toContain('[2] Document\nReset the router');
+    expect(retrievalContext([])).toBe('');
+  });
+
+  it('shows the sources an answer cites, or all of them', () => {
+    const citations = toCitations(
+      rankChunks(localEmbedding('router'), chunks, 3),
+      new Map([['d1', 'Manual.pdf']]),
+    );
+    expect(citedSources('Hold the button [2].', citations).map((c) => c.n)).toEqual([2]);
+    expect(citedSources('See [1][2] and [9].', citations).map((c) => c.n)).toEqual([1, 2]);
+    expect(citedSources('No citations here.', citations)).toHaveLength(citations.length);
+  });
+});
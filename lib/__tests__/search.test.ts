@@ -0,0 +1,138 @@
+import {
+  buildSearchIndex,
+  buildSnippet,
+  parseSearchResultParams,
+  searchFacets,
+  searchIndex,
+  searchResultHref,
+  tokenize,
+  turnIndexOf,
+} from '../search';
+import type { ChatMessage, ChatThread } from '../types';
+
+const threads: ChatThread[] = [
+  {
+    id: 't1',
+    title: 'Rust help',
+    createdAt: 0,
+    pageType: 'compare',
+    projectId: 'p1',
+    messages: [
+      { id: 'u1', role: 'user', content: 'How do lifetimes work in Rust?', ts: 100 },
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: 'Lifetimes describe how long references stay valid.',
+        modelId: 'gpt',
+        provider: 'openrouter',
+        ts: 101,
+      },
+      {
+        id: 'a2',
+        role: 'assistant',
+        content: 'Rust lifetimes are annotations.',
+        modelId: 'gemini',
+        provider: 'gemini',
+        ts: 102,
+      },
+      { id: 'u2', role: 'user', content: 'And borrowing?', ts: 200 },
+    ],
+  },
+  {
+    id: 't2',
+    title: 'Cooking',
+    createdAt: 0,
+    pageType: 'home',
+    messages: [
+      { id: 'u3', role: 'user', content: 'A recipe for rusty nail cocktail', ts: 300 },
+      { role: 'system', content: 'rust', ts: 301 },
+    ],
+  },
+];
+
+describe('tokenize', () => {
+  it('lowercases and drops single letters', () => {
+    expect(tokenize("What's Rust 2 do?")).toEqual(['what', 'rust', '2', 'do']);
+  });
+});
+
+describe('searchIndex', () => {
+  const index = buildSearchIndex(threads);
+
+  it('indexes user and assistant messages only', () => {
+    expect(index.docs).toHaveLength(5);
+  });
+
+  it('matches every term, the last one as a prefix', () => {
+    const hits = searchIndex(index, 'rust lifeti');
+    expect(hits.map((h) => h.messageId).sort()).toEqual(['a2', 'u1']);
+    expect(searchIndex(index, 'rust').map((h) => h.messageId)).toContain('u3');
+    expect(searchIndex(index, 'rust cocktail').map((h) => h.messageId)).toEqual([]);
+  });
+
+  it('applies model, provider, project and date filters', () => {
+    expect(searchIndex(index, 'lifetimes', { modelId: 'gpt' }).map((h) => h.messageId)).toEqual([
+      'a1',
+    ]);
+    expect(searchIndex(index, 'lifetimes', { provider: 'gemini' })).toHaveLength(1);
+    expect(searchIndex(index, 'rust', { projectId: 'p1' }).every((h) => h.threadId === 't1')).toBe(
+      true,
+    );
+    expect(searchIndex(index, 'rust', { from: 250 }).map((h) => h.messageId)).toEqual(['u3']);
+    expect(searchIndex(index, 'rust', { to: 101 }).map((h) => h.messageId)).toEqual(['u1']);
+  });
+
+  it('ranks newer messages first among equal scores', () => {
+    expect(searchIndex(index, 'rusty').map((h) => h.messageId)).toEqual(['u3']);
+    expect(searchIndex(index, 'lifetimes').map((h) => h.messageId)).toEqual(['a2', 'a1', 'u1']);
+  });
+
+  it('lists facets', () => {
+    expect(searchFacets(index)).toEqual({
+      modelIds: ['gemini', 'gpt'],
+      providers: ['gemini', 'openrouter'],
+    });
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights matches at word starts', () => {
+    const parts = buildSnippet('Running rerun run', ['run']);
+    expect(parts.filter((p) => p.match).map((p) => p.text)).toEqual(['Running', 'run']);
+  });
+
+  it('trims long content around the first match', () => {
+    const content = `${'a '.repeat(100)}needle ${'b '.repeat(100)}`;
+    const parts = buildSnippet(content, ['needle'], 10);
+    expect(parts[0]).toEqual({ text: '…', match: false });
+    expect(parts[parts.length - 1]).toEqual({ text: '…', match: false });
+    expect(parts.some((p) => p.match && p.text === 'needle')).toBe(true);
+  });
+});
+
+describe('turnIndexOf', () => {
+  const messages = threads[0].messages as ChatMessage[];
+
+  it('finds the turn by message id or timestamp', () => {
+    expect(turnIndexOf(messages, { messageId: 'a2', role: 'assistant' })).toBe(0);
+    expect(turnIndexOf(messages, { ts: 200, role: 'user' })).toBe(1);
+    expect(turnIndexOf(messages, { messageId: 'missing', role: 'user' })).toBe(-1);
+  });
+});
+
+describe('search result links', () => {
+  it('round-trips through the query string', () => {
+    const target = {
+      threadId: 't1',
+      messageId: 'a1',
+      role: 'assistant' as const,
+      modelId: 'gpt',
+      ts: 101,
+      threadTitle: 'Rust & more',
+    };
+    const href = searchResultHref('/compare', target);
+    expect(href.startsWith('/compare?')).toBe(true);
+    expect(parseSearchResultParams(href.slice(href.indexOf('?')))).toEqual(target);
+    expect(parseSearchResultParams('?foo=1')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import {
+  SHARE_V2_ENCRYPTED_PREFIX,
+  SHARE_V2_PREFIX,
+  decodeSharePayload,
+  encodeShareData,
+  encodeShareDataV2,
+  isEncryptedSharePayload,
+  shareKeyFromFragment,
+} from '../sharing/encoding';
+import type { SharedChatData } from '../sharing/types';
+
+const chat: SharedChatData = {
+  version: 1,
+  title: 'Übersicht 🎉',
+  createdAt: 1_700_000_000_000,
+  truncated: false,
+  messages: Array.from({ length: 40 }, (_, i) => ({
+    role: i % 2 ? ('assistant' as const) : ('user' as const),
+    content: `Message ${i}: the quick brown fox jumps over the lazy dog.`,
+    modelId: i % 2 ? 'gpt-4o' : undefined,
+    ts: 1_700_000_000_000 + i,
+  })),
+};
+
+const roundTripped = JSON.parse(JSON.stringify(chat));
+
+describe('share format v2', () => {
+  it('round-trips compressed payloads and is much shorter than version 1', async () => {
+    const { encoded, key } = await encodeShareDataV2(chat);
+    expect(encoded.startsWith(SHARE_V2_PREFIX)).toBe(true);
+    expect(encoded).toMatch(/^[A-Za-z0-9._-]+$/);
+    expect(key).toBeUndefined();
+    expect(encoded.length).toBeLessThan(encodeShareData(chat).length / 3);
+    expect(await decodeSharePayload(encoded)).toEqual(roundTripped);
+  });
+
+  it('round-trips encrypted payloads with the key', async () => {
+    const { encoded, key } = await encodeShareDataV2(chat, { encrypt: true });
+    expect(encoded.startsWith(SHARE_V2_ENCRYPTED_PREFIX)).toBe(true);
+    expect(isEncryptedSharePayload(encoded)).toBe(true);
+    expect(key).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(await decodeSharePayload(encoded, key)).toEqual(roundTripped);
+  });
+
+  it('does not decode encrypted payloads without the right key', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { encoded } = await encodeShareDataV2(chat, { encrypt: true });
+    const other = await encodeShareDataV2(chat, { encrypt: true });
+    expect(await decodeSharePayload(encoded)).toBeNull();
+    expect(await decodeSharePayload(encoded, other.key)).toBeNull();
+  });
+
+  it('still decodes version 1 links', async () => {
+    expect(await decodeSharePayload(encodeShareData(chat))).toEqual(roundTripped);
+  });
+
+  it('rejects corrupt payloads', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await decodeSharePayload(`${SHARE_V2_PREFIX}not-deflate`)).toBeNull();
+  });
+});
+
+describe('shareKeyFromFragment', () => {
+  it('reads the k parameter', () => {
+    expect(shareKeyFromFragment('#k=abc_-1')).toBe('abc_-1');
+    expect(shareKeyFromFragment('')).toBeUndefined();
+    expect(shareKeyFromFragment('#other=1')).toBeUndefined();
+  });
+});
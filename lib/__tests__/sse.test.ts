@@ -0,0 +1,24 @@
+import { idleTimeout } from '../server/sse';
+
+describe('idleTimeout', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('aborts only after a quiet period', () => {
+    const aborter = new AbortController();
+    const idle = idleTimeout(aborter, 1000);
+    jest.advanceTimersByTime(800);
+    idle.touch();
+    jest.advanceTimersByTime(800);
+    expect(aborter.signal.aborted).toBe(false);
+    jest.advanceTimersByTime(200);
+    expect(aborter.signal.aborted).toBe(true);
+  });
+
+  it('never aborts once cleared', () => {
+    const aborter = new AbortController();
+    idleTimeout(aborter, 1000).clear();
+    jest.advanceTimersByTime(5000);
+    expect(aborter.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  SHARE_ID_LENGTH,
+  generateShareId,
+  isSharedChatLookup,
+  isStoredShareId,
+  shareExpiry,
+} from '../sharing/storedShares';
+import type { SharedChatData } from '../sharing/types';
+
+const chat: SharedChatData = {
+  version: 1,
+  title: 'Hi',
+  createdAt: 1,
+  messages: [{ role: 'user', content: 'Hello' }],
+  truncated: false,
+};
+
+describe('share ids', () => {
+  it('generates short alphanumeric ids', () => {
+    const ids = new Set(Array.from({ length: 50 }, generateShareId));
+    expect(ids.size).toBe(50);
+    for (const id of ids) {
+      expect(id).toHaveLength(SHARE_ID_LENGTH);
+      expect(isStoredShareId(id)).toBe(true);
+    }
+  });
+
+  it('skips bytes that would bias the alphabet', () => {
+    const batches = [
+      [255, 248, 0, 1, 2, 3, 4, 5, 6, 7],
+      [61, 250, 8, 9, 10],
+    ];
+    const spy = jest
+      .spyOn(crypto, 'getRandomValues')
+      .mockImplementation(<T extends ArrayBufferView | null>(array: T): T => {
+        (array as unknown as Uint8Array).set(batches.shift() ?? []);
+        return array;
+      });
+    expect(generateShareId()).toBe('ABCDEFGH9I');
+    spy.mockRestore();
+  });
+
+  it('tells short ids apart from legacy encoded links', () => {
+    // Same shape as encodeShareData output (URL-safe base64 of the JSON)
+    expect(isStoredShareId(Buffer.from(JSON.stringify(chat)).toString('base64url'))).toBe(false);
+    expect(isStoredShareId('abc')).toBe(false);
+    expect(isStoredShareId('abcde-ghij')).toBe(false);
+  });
+});
+
+describe('shareExpiry', () => {
+  it('returns an ISO date the given days ahead, or null for no expiry', () => {
+    const now = Date.UTC(2024, 0, 1);
+    expect(shareExpiry(7, now)).toBe('2024-01-08T00:00:00.000Z');
+    expect(shareExpiry(0, now)).toBeNull();
+    expect(shareExpiry(undefined, now)).toBeNull();
+  });
+});
+
+describe('isSharedChatLookup', () => {
+  it('accepts known statuses only', () => {
+    expect(isSharedChatLookup({ status: 'ok', chat })).toBe(true);
+    expect(isSharedChatLookup({ status: 'expired' })).toBe(true);
+    expect(isSharedChatLookup({ status: 'ok' })).toBe(false);
+    expect(isSharedChatLookup({ status: 'gone' })).toBe(false);
+    expect(isSharedChatLookup(null)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  SYNTHESIS_MODEL_ID,
+  buildSynthesisPrompt,
+  canJudge,
+  isSynthesisAnswer,
+  synthesisCandidates,
+  turnAnswersDone,
+} from '../synthesis';
+import type { ChatMessage } from '../types';
+
+describe('synthesisCandidates', () => {
+  it('keeps finished model answers and drops placeholders and earlier syntheses', () => {
+    const answers: ChatMessage[] = [
+      { role: 'assistant', content: 'Paris', modelId: 'a' },
+      { role: 'assistant', content: 'Thinking…', modelId: 'b' },
+      { role: 'assistant', content: '   ', modelId: 'c' },
+      { role: 'assistant', content: 'Merged', modelId: SYNTHESIS_MODEL_ID },
+      { role: 'assistant', content: 'It is Paris', modelId: 'd' },
+    ];
+    expect(synthesisCandidates(answers).map((a) => a.modelId)).toEqual(['a', 'd']);
+    expect(isSynthesisAnswer(answers[3])).toBe(true);
+  });
+
+  it('leaves out answers that are still streaming', () => {
+    const answers: ChatMessage[] = [
+      { role: 'assistant', content: 'Paris', modelId: 'a' },
+      { role: 'assistant', content: 'It is Pa', modelId: 'b', streaming: true },
+    ];
+    expect(synthesisCandidates(answers).map((a) => a.modelId)).toEqual(['a']);
+  });
+});
+
+describe('turnAnswersDone', () => {
+  const done: ChatMessage = { role: 'assistant', content: 'Paris', modelId: 'a' };
+
+  it('holds the blind vote back while any answer is still streaming', () => {
+    const partial: ChatMessage = { role: 'assistant', content: 'It is Pa', modelId: 'b' };
+    expect(turnAnswersDone([done, { ...partial, streaming: true }])).toBe(false);
+    expect(turnAnswersDone([done, { ...partial, streaming: false }])).toBe(true);
+  });
+
+  it('treats placeholders as unfinished and ignores the synthesis answer', () => {
+    expect(turnAnswersDone([done, { role: 'assistant', content: 'Queued…', modelId: 'b' }])).toBe(
+      false,
+    );
+    expect(
+      turnAnswersDone([
+        done,
+        { role: 'assistant', content: 'Thinking…', modelId: SYNTHESIS_MODEL_ID, streaming: true },
+      ]),
+    ).toBe(true);
+  });
+});
+
+describe('buildSynthesisPrompt', () => {
+  it('includes the question, each labelled answer and the mode instructions', () => {
+    const prompt = buildSynthesisPrompt({
+      prompt: ' Capital of France? ',
+      answers: [
+        { label: 'Model A', content: 'Paris' },
+        { label: 'Model B', content: 'Lyon' },
+      ],
+      mode: 'critique',
+    });
+    expect(prompt).toContain('## Question\nCapital of France?');
+    expect(prompt).toContain('### Answer 1 (Model A)\nParis');
+    expect(prompt).toContain('### Answer 2 (Model B)\nLyon');
+    expect(prompt).toMatch(/Rank the answers/);
+    expect(buildSynthesisPrompt({ prompt: 'q', answers: [], mode: 'merge' })).toMatch(
+      /merging the strongest parts/,
+    );
+  });
+});
+
+describe('canJudge', () => {
+  it('only accepts text models', () => {
+    expect(canJudge({ id: 'x', label: 'x', provider: 'gemini', model: 'x' })).toBe(true);
+    expect(
+      canJudge({ id: 'y', label: 'y', provider: 'open-provider', model: 'y', category: 'image' }),
+    ).toBe(false);
+  });
+});
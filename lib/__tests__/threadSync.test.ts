@@ -0,0 +1,73 @@
+import {
+  appendThreadPage,
+  latestUpdate,
+  mergeThreadSummaries,
+  withLoadedMessages,
+} from '../threadSync';
+import type { ChatThread } from '../types';
+
+const thread = (id: string, extra: Partial<ChatThread> = {}): ChatThread => ({
+  id,
+  title: id,
+  messages: [],
+  createdAt: 0,
+  ...extra,
+});
+
+describe('appendThreadPage', () => {
+  it('skips threads already listed', () => {
+    const next = appendThreadPage([thread('a'), thread('b')], [thread('b'), thread('c')]);
+    expect(next.map((t) => t.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('mergeThreadSummaries', () => {
+  const loaded = thread('a', {
+    messages: [{ role: 'user', content: 'hi' }],
+    messagesLoaded: true,
+    updatedAt: 1,
+  });
+
+  it('moves changed threads to the top and adds new ones', () => {
+    const next = mergeThreadSummaries(
+      [thread('x'), loaded],
+      [thread('new', { messagesLoaded: false }), thread('a', { title: 'Renamed', updatedAt: 5 })],
+      null,
+    );
+    expect(next.map((t) => t.id)).toEqual(['new', 'a', 'x']);
+    expect(next[1]).toMatchObject({ title: 'Renamed', messages: [], messagesLoaded: false });
+  });
+
+  it('keeps the active thread’s local messages', () => {
+    const [a] = mergeThreadSummaries(
+      [loaded],
+      [thread('a', { title: 'Renamed', updatedAt: 5 })],
+      'a',
+    );
+    expect(a).toMatchObject({ title: 'Renamed', messagesLoaded: true, updatedAt: 5 });
+    expect(a.messages).toHaveLength(1);
+  });
+});
+
+describe('withLoadedMessages', () => {
+  it('keeps messages sent while the fetch was in flight', () => {
+    const summary = thread('a', {
+      messagesLoaded: false,
+      messages: [{ role: 'user', content: 'typed early', id: 'local' }],
+    });
+    const next = withLoadedMessages(summary, {
+      messages: [{ role: 'user', content: 'from db', id: 'db1' }],
+    });
+    expect(next.messages.map((m) => m.content)).toEqual(['from db', 'typed early']);
+    expect(next.messagesLoaded).toBe(true);
+  });
+});
+
+describe('latestUpdate', () => {
+  it('returns the newest updatedAt as ISO, or null', () => {
+    expect(latestUpdate([thread('a')])).toBeNull();
+    expect(latestUpdate([thread('a', { updatedAt: 1000 }), thread('b', { updatedAt: 5000 })])).toBe(
+      new Date(5000).toISOString(),
+    );
+  });
+});
@@ -0,0 +1,316 @@
+import type { ChatMessage, ChatThread } from './types';
+import type { Project } from './projects';
+import type { CustomModel } from './customModels';
+import type { CustomEndpoint } from './customEndpoints';
+import type { ThemeConfig } from './themes';
+import { validateThemeConfig } from './themes';
+import { fromMessageMetadata } from './db/metadata';
+import { safeUUID } from './uuid';
+
+// Lossless JSON export of threads, and a backup archive of the whole workspace.
+//
+// Both formats carry a `format` tag and a `version`. `version` is bumped when a field changes
+// meaning; readers accept every version up to ARCHIVE_VERSION and ignore unknown keys. Message
+// fields are validated like the database metadata column (see lib/db/metadata.ts), so a bad
+// field is dropped instead of rejecting the file.
+export const ARCHIVE_VERSION = 1;
+
+export const THREADS_FORMAT = 'open-fiesta/threads';
+export const BACKUP_FORMAT = 'open-fiesta/backup';
+
+export type ThreadArchive = {
+  format: typeof THREADS_FORMAT;
+  version: number;
+  exportedAt: string;
+  threads: ChatThread[];
+};
+
+// API keys are never included: endpoints lose `apiKey` and `headers` (which often hold tokens)
+export type WorkspaceBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  threads: ChatThread[];
+  projects: Project[];
+  customModels: CustomModel[];
+  customEndpoints: CustomEndpoint[];
+  theme?: ThemeConfig;
+};
+
+export type Archive = ThreadArchive | WorkspaceBackup;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+const nonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+// Thread fields worth keeping; database summary bookkeeping is dropped
+function exportableThread(t: ChatThread): ChatThread {
+  return {
+    id: t.id,
+    title: t.title,
+    createdAt: t.createdAt,
+    messages: t.messages,
+    ...(t.projectId ? { projectId: t.projectId } : {}),
+    ...(t.pageType ? { pageType: t.pageType } : {}),
+    ...(t.branches?.length ? { branches: t.branches } : {}),
+  };
+}
+
+export function toThreadArchive(threads: ChatThread[]): ThreadArchive {
+  return {
+    format: THREADS_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    threads: threads.map(exportableThread),
+  };
+}
+
+export function toWorkspaceBackup(data: {
+  threads: ChatThread[];
+  projects: Project[];
+  customModels: CustomModel[];
+  customEndpoints: CustomEndpoint[];
+  theme?: ThemeConfig | null;
+}): WorkspaceBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    threads: data.threads.map(exportableThread),
+    projects: data.projects,
+    customModels: data.customModels,
+    customEndpoints: data.customEndpoints.map((e) => ({
+      id: e.id,
+      name: e.name,
+      baseUrl: e.baseUrl,
+      models: e.models,
+      ...(e.contextWindow ? { contextWindow: e.contextWindow } : {}),
+    })),
+    ...(data.theme ? { theme: data.theme } : {}),
+  };
+}
+
+function parseMessage(raw: unknown): ChatMessage | null {
+  if (!isObject(raw)) return null;
+  const { role, content } = raw;
+  if (role !== 'user' && role !== 'assistant' && role !== 'system') return null;
+  if (typeof content !== 'string') return null;
+  return {
+    ...fromMessageMetadata(raw),
+    role,
+    content,
+    ...(nonEmptyString(raw.id) ? { id: raw.id } : {}),
+    ...(nonEmptyString(raw.parentId) || raw.parentId === null
+      ? { parentId: raw.parentId as string | null }
+      : {}),
+    ...(nonEmptyString(raw.modelId) ? { modelId: raw.modelId } : {}),
+    ...(typeof raw.ts === 'number' && Number.isFinite(raw.ts) ? { ts: raw.ts } : {}),
+  };
+}
+
+function parseMessages(raw: unknown): ChatMessage[] {
+  return (Array.isArray(raw) ? raw : [])
+    .map(parseMessage)
+    .filter((m): m is ChatMessage => m !== null);
+}
+
+function parseThread(raw: unknown): ChatThread | null {
+  if (!isObject(raw) || !nonEmptyString(raw.id) || !Array.isArray(raw.messages)) return null;
+  const messages = parseMessages(raw.messages);
+  if (messages.length === 0) return null;
+  const branches = parseMessages(raw.branches);
+  return {
+    id: raw.id,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : 'Imported chat',
+    createdAt:
+      typeof raw.createdAt === 'number' && Number.isFinite(raw.createdAt)
+        ? raw.createdAt
+        : (messages[0].ts ?? Date.now()),
+    messages,
+    ...(nonEmptyString(raw.projectId) ? { projectId: raw.projectId } : {}),
+    ...(raw.pageType === 'home' || raw.pageType === 'compare' ? { pageType: raw.pageType } : {}),
+    ...(branches.length ? { branches } : {}),
+  };
+}
+
+function parseProject(raw: unknown): Project | null {
+  if (!isObject(raw) || !nonEmptyString(raw.id) || typeof raw.name !== 'string') return null;
+  const now = Date.now();
+  return {
+    ...(raw as Partial<Project>),
+    id: raw.id,
+    name: raw.name,
+    systemPrompt: typeof raw.systemPrompt === 'string' ? raw.systemPrompt : '',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : now,
+  };
+}
+
+function parseCustomModel(raw: unknown): CustomModel | null {
+  if (!isObject(raw) || !nonEmptyString(raw.id) || !nonEmptyString(raw.model)) return null;
+  if (!nonEmptyString(raw.provider)) return null;
+  return {
+    ...(raw as Partial<CustomModel>),
+    label: typeof raw.label === 'string' && raw.label ? raw.label : raw.model,
+    custom: true,
+  } as CustomModel;
+}
+
+function parseEndpoint(raw: unknown): CustomEndpoint | null {
+  if (!isObject(raw) || !nonEmptyString(raw.id) || !nonEmptyString(raw.baseUrl)) return null;
+  const models = Array.isArray(raw.models) ? raw.models.filter(nonEmptyString) : [];
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : raw.baseUrl,
+    baseUrl: raw.baseUrl,
+    models,
+    ...(typeof raw.contextWindow === 'number' ? { contextWindow: raw.contextWindow } : {}),
+  };
+}
+
+function parseList<T>(raw: unknown, parse: (v: unknown) => T | null): T[] {
+  return (Array.isArray(raw) ? raw : []).map(parse).filter((v): v is T => v !== null);
+}
+
+export type ParsedArchive = {
+  archive: Archive;
+  skippedThreads: number; // entries that were not valid threads
+};
+
+// Validate an exported file (a thread archive or a workspace backup)
+export function parseArchive(text: string): ParsedArchive | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'The file is not valid JSON.' };
+  }
+  if (!isObject(data)) return { error: 'The file is not an Open Fiesta export.' };
+  if (data.format !== THREADS_FORMAT && data.format !== BACKUP_FORMAT) {
+    return { error: 'The file is not an Open Fiesta export.' };
+  }
+  const version = typeof data.version === 'number' ? data.version : NaN;
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: 'The export has no valid version.' };
+  }
+  if (version > ARCHIVE_VERSION) {
+    return { error: 'This export was made by a newer version of Open Fiesta.' };
+  }
+
+  const rawThreads = Array.isArray(data.threads) ? data.threads : [];
+  const threads = parseList(rawThreads, parseThread);
+  const exportedAt = typeof data.exportedAt === 'string' ? data.exportedAt : '';
+  const skippedThreads = rawThreads.length - threads.length;
+
+  if (data.format === THREADS_FORMAT) {
+    if (threads.length === 0) return { error: 'The file contains no chats to import.' };
+    return {
+      archive: { format: THREADS_FORMAT, version, exportedAt, threads },
+      skippedThreads,
+    };
+  }
+
+  return {
+    archive: {
+      format: BACKUP_FORMAT,
+      version,
+      exportedAt,
+      threads,
+      projects: parseList(data.projects, parseProject),
+      customModels: parseList(data.customModels, parseCustomModel),
+      customEndpoints: parseList(data.customEndpoints, parseEndpoint),
+      ...(isObject(data.theme)
+        ? { theme: validateThemeConfig(data.theme as Partial<ThemeConfig>) }
+        : {}),
+    },
+    skippedThreads,
+  };
+}
+
+// Give a thread's messages new ids, keeping parent links (and so branches) intact. Imported
+// copies must not share message ids with threads already stored.
+export function withFreshMessageIds(thread: ChatThread): ChatThread {
+  const ids = new Map<string, string>();
+  const all = [...thread.messages, ...(thread.branches ?? [])];
+  for (const m of all) if (m.id) ids.set(m.id, safeUUID());
+  const remap = (m: ChatMessage): ChatMessage => ({
+    ...m,
+    ...(m.id ? { id: ids.get(m.id) } : {}),
+    ...(m.parentId ? { parentId: ids.get(m.parentId) ?? null } : {}),
+  });
+  return {
+    ...thread,
+    messages: thread.messages.map(remap),
+    ...(thread.branches ? { branches: thread.branches.map(remap) } : {}),
+  };
+}
+
+const sameMessages = (a: ChatThread, b: ChatThread) =>
+  a.messages.length === b.messages.length &&
+  a.messages.every((m, i) => m.role === b.messages[i].role && m.content === b.messages[i].content);
+
+export type ThreadMerge = {
+  threads: ChatThread[]; // imported threads to add, ready to store
+  duplicates: number; // already present with the same messages; not added again
+  renamed: number; // id was taken by a different thread; imported under a new id
+};
+
+// Resolve id collisions between imported threads and the ones already stored
+export function mergeImportedThreads(
+  existing: ChatThread[],
+  imported: ChatThread[],
+  projectIds: Record<string, string> = {},
+): ThreadMerge {
+  const byId = new Map(existing.map((t) => [t.id, t]));
+  const out: ChatThread[] = [];
+  let duplicates = 0;
+  let renamed = 0;
+  for (const thread of imported) {
+    const current = byId.get(thread.id);
+    // Threads loaded as summaries have no messages to compare; treat matching ids as duplicates
+    if (current && (current.messagesLoaded === false || sameMessages(current, thread))) {
+      duplicates++;
+      continue;
+    }
+    let next = thread;
+    if (current) {
+      next = { ...withFreshMessageIds(thread), id: safeUUID() };
+      renamed++;
+    }
+    if (next.projectId && projectIds[next.projectId]) {
+      next = { ...next, projectId: projectIds[next.projectId] };
+    }
+    byId.set(next.id, next);
+    out.push(next);
+  }
+  return { threads: out, duplicates, renamed };
+}
+
+export type ProjectMerge = {
+  projects: Project[]; // projects to add
+  idMap: Record<string, string>; // imported id -> id to link threads to, when it changed
+};
+
+// Projects with the same id and name are the same project; a different name under a taken id
+// is imported as a new project
+export function mergeImportedProjects(existing: Project[], imported: Project[]): ProjectMerge {
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const projects: Project[] = [];
+  const idMap: Record<string, string> = {};
+  for (const project of imported) {
+    const current = byId.get(project.id);
+    if (current && current.name === project.name) continue;
+    const next = current ? { ...project, id: safeUUID(), isActive: false } : project;
+    if (next.id !== project.id) idMap[project.id] = next.id;
+    byId.set(next.id, next);
+    projects.push(next);
+  }
+  return { projects, idMap };
+}
+
+// Add imported entries whose id is not taken yet
+export function addMissingById<T extends { id: string }>(existing: T[], imported: T[]): T[] {
+  const ids = new Set(existing.map((v) => v.id));
+  return [...existing, ...imported.filter((v) => !ids.has(v.id))];
+}
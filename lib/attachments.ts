@@ -0,0 +1,204 @@
+import type { Attachment, ChatMessage, ChatThread } from './types';
+import { safeUUID } from './uuid';
+import {
+  DOCUMENT_ACCEPT,
+  MAX_DOCUMENT_BYTES,
+  MAX_DOCUMENT_CHARS,
+  clipText,
+  documentBlock,
+  type ClippedDocument,
+  documentType,
+  isPlainTextDocument,
+} from './documents';
+
+// Files attached to prompts. Images are downscaled and sent to vision models as data URLs;
+// documents are turned into text once (via /api/attachments) and that text is inlined into
+// the prompt for every model, so follow-up turns keep the context.
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = MAX_DOCUMENT_BYTES;
+export const MAX_TEXT_CHARS = MAX_DOCUMENT_CHARS;
+// Text kept per attachment in saved history (messages.metadata and localStorage)
+export const MAX_STORED_TEXT_CHARS = 20000;
+const IMAGE_MAX_EDGE = 1568;
+const THUMBNAIL_EDGE = 160;
+
+// Value for the file input's `accept` attribute
+export const ATTACHMENT_ACCEPT = `image/*,${DOCUMENT_ACCEPT}`;
+
+export type AttachmentKind = 'image' | 'text' | 'document';
+
+// Text-like files are read in the browser; PDF, Word and HTML go through /api/attachments
+export function attachmentKind(mime: string, name?: string): AttachmentKind | null {
+  if (/^image\//.test(mime)) return 'image';
+  const type = documentType(mime, name);
+  if (!type) return null;
+  return isPlainTextDocument(type) ? 'text' : 'document';
+}
+
+// Files that can be added next to `existing` ones, and why any were left out
+export function acceptAttachmentFiles(
+  existing: number,
+  files: Array<Pick<File, 'name' | 'type' | 'size'>>,
+): { accepted: number[]; error: string | null } {
+  const accepted: number[] = [];
+  const problems = new Set<string>();
+  files.forEach((file, i) => {
+    if (!attachmentKind(file.type, file.name)) {
+      problems.add(
+        'Unsupported file. Allowed: images, PDF, Word, HTML, CSV, Markdown, text and code.',
+      );
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      problems.add(`${file.name} is larger than 10 MB.`);
+    } else if (existing + accepted.length >= MAX_ATTACHMENTS) {
+      problems.add(`Up to ${MAX_ATTACHMENTS} files per message.`);
+    } else {
+      accepted.push(i);
+    }
+  });
+  return { accepted, error: problems.size ? [...problems].join(' ') : null };
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(String(fr.result));
+    fr.onerror = () => reject(fr.error);
+    fr.readAsDataURL(file);
+  });
+}
+
+// Re-encode an image so its longest edge is at most `edge` pixels
+async function scaleImage(file: Blob, edge: number, quality: number): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, edge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close?.();
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+// Browser only: turns a picked file into an Attachment
+export async function readAttachment(file: File): Promise<Attachment> {
+  const base: Attachment = { id: safeUUID(), name: file.name, mime: file.type, size: file.size };
+  const kind = attachmentKind(file.type, file.name);
+  if (kind === 'image') {
+    try {
+      const [dataUrl, thumbnail] = await Promise.all([
+        scaleImage(file, IMAGE_MAX_EDGE, 0.85),
+        scaleImage(file, THUMBNAIL_EDGE, 0.7),
+      ]);
+      return { ...base, dataUrl, thumbnail };
+    } catch {
+      // Formats the browser can't decode (e.g. HEIC) are sent as-is
+      return { ...base, dataUrl: await readAsDataUrl(file) };
+    }
+  }
+  const read = await readFileText(file);
+  if (!read) return base;
+  const { text, truncated, pages } = read;
+  return {
+    ...base,
+    text,
+    truncated: truncated || undefined,
+    pages: pages && pages.included < pages.total ? pages : undefined,
+  };
+}
+
+/**
+ * Browser only: the text of a non-image file. Text-like files are read here, the rest by
+ * /api/attachments, which accepts larger `maxChars` for project documents (up to
+ * MAX_LIBRARY_CHARS). Null when the file can't be read.
+ */
+export async function readFileText(
+  file: File,
+  maxChars: number = MAX_TEXT_CHARS,
+): Promise<ClippedDocument | null> {
+  const kind = attachmentKind(file.type, file.name);
+  if (!kind || kind === 'image') return null;
+  if (kind === 'text') return clipText(await file.text(), maxChars);
+
+  const res = await fetch('/api/attachments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      name: file.name,
+      mime: file.type,
+      maxChars,
+      dataUrl: await readAsDataUrl(file),
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || typeof data.text !== 'string') return null;
+  return { text: data.text, truncated: !!data.truncated, pages: data.pages };
+}
+
+function attachmentBlock(a: Attachment): string | null {
+  if (attachmentKind(a.mime) === 'image') return null;
+  return documentBlock(a);
+}
+
+// Prompt text with the contents of its non-image attachments appended
+export function contentWithAttachments(message: ChatMessage): string {
+  const blocks = (message.attachments ?? []).map(attachmentBlock).filter(Boolean);
+  return blocks.length ? `${message.content}\n\n${blocks.join('\n\n')}` : message.content;
+}
+
+// Messages as sent to providers: attachment text inlined, attachment objects dropped
+export function inlineAttachments(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) => {
+    if (!m.attachments?.length) return m;
+    const out: ChatMessage = { ...m, content: contentWithAttachments(m) };
+    delete out.attachments;
+    return out;
+  });
+}
+
+// Images of the latest user prompt; providers attach them to that message
+export function promptImages(messages: ChatMessage[]): string[] {
+  const prompt = [...messages].reverse().find((m) => m.role === 'user');
+  return (prompt?.attachments ?? []).flatMap((a) =>
+    attachmentKind(a.mime) === 'image' && a.dataUrl ? [a.dataUrl] : [],
+  );
+}
+
+// Attachment as saved with its message: the image data URL is dropped (the thumbnail still
+// shows it in the history) and the text is capped, so stored threads stay well under quota
+export function storedAttachment(a: Attachment): Attachment {
+  const out: Attachment = { ...a };
+  delete out.dataUrl;
+  if (out.text !== undefined && out.text.length > MAX_STORED_TEXT_CHARS) {
+    out.text = out.text.slice(0, MAX_STORED_TEXT_CHARS);
+    out.truncated = true;
+  }
+  return out;
+}
+
+// An answer cut off by a reload is not streaming any more, so the flag is not kept
+function storedMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) => {
+    if (!m.attachments?.length && m.streaming === undefined) return m;
+    const out: ChatMessage = { ...m };
+    delete out.streaming;
+    if (m.attachments?.length) out.attachments = m.attachments.map(storedAttachment);
+    return out;
+  });
+}
+
+// Threads as written to localStorage
+export function storedThreads(threads: ChatThread[]): ChatThread[] {
+  return threads.map((t) => ({
+    ...t,
+    messages: storedMessages(t.messages ?? []),
+    ...(t.branches ? { branches: storedMessages(t.branches) } : {}),
+  }));
+}
+
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.max(1, Math.round(size / 1024))} KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(size / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
@@ -0,0 +1,140 @@
+import type { ChatThread } from './types';
+import type { Project } from './projects';
+import type { CustomModel } from './customModels';
+import type { CustomEndpoint } from './customEndpoints';
+import { CUSTOM_MODELS_STORAGE_KEY } from './customModels';
+import { CUSTOM_ENDPOINTS_STORAGE_KEY } from './customEndpoints';
+import { PROJECTS_STORAGE_KEY } from './useProjects';
+import { loadTheme, saveTheme } from './themeUtils';
+import { readStoredValue, writeStoredValue } from './useLocalStorage';
+import { fetchThreads, importThread } from './db';
+import {
+  BACKUP_FORMAT,
+  addMissingById,
+  mergeImportedProjects,
+  mergeImportedThreads,
+  toWorkspaceBackup,
+  withFreshMessageIds,
+} from './archive';
+import type { ParsedArchive, WorkspaceBackup } from './archive';
+
+// Reads and writes the stores a backup covers. API keys ('ai-fiesta:keys') are never touched.
+// Writers bypass the React hooks, so the page must be reloaded after a restore.
+
+export const THREADS_STORAGE_KEY = 'ai-fiesta:threads';
+
+function readProjects(): Project[] {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(PROJECTS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Signed-in users' threads come from the database with every message; local threads are only
+// summaries for them
+export async function collectWorkspaceBackup(userId?: string): Promise<WorkspaceBackup> {
+  const threads = userId
+    ? await fetchThreads(userId)
+    : readStoredValue<ChatThread[]>(THREADS_STORAGE_KEY, []);
+  return toWorkspaceBackup({
+    threads: threads.filter((t) => t.messages.length > 0),
+    projects: readProjects(),
+    customModels: readStoredValue<CustomModel[]>(CUSTOM_MODELS_STORAGE_KEY, []),
+    customEndpoints: readStoredValue<CustomEndpoint[]>(CUSTOM_ENDPOINTS_STORAGE_KEY, []),
+    theme: loadTheme(),
+  });
+}
+
+export type RestoreSummary = {
+  threads: number; // imported
+  duplicates: number; // already present
+  renamed: number; // imported under a new id
+  skipped: number; // invalid entries in the file
+  failed: number; // could not be saved to the database
+  projects: number;
+  customModels: number;
+  customEndpoints: number;
+  theme: boolean;
+};
+
+export async function restoreArchive(
+  { archive, skippedThreads }: ParsedArchive,
+  userId?: string,
+): Promise<RestoreSummary> {
+  const isBackup = archive.format === BACKUP_FORMAT;
+
+  const existingProjects = readProjects();
+  const { projects, idMap } = isBackup
+    ? mergeImportedProjects(existingProjects, archive.projects)
+    : { projects: [], idMap: {} };
+  if (projects.length) {
+    window.localStorage.setItem(
+      PROJECTS_STORAGE_KEY,
+      JSON.stringify([...existingProjects, ...projects]),
+    );
+  }
+
+  const existingThreads = readStoredValue<ChatThread[]>(THREADS_STORAGE_KEY, []);
+  const merged = mergeImportedThreads(existingThreads, archive.threads, idMap);
+  let stored = merged.threads;
+  let failed = 0;
+  if (userId) {
+    stored = [];
+    for (const thread of merged.threads) {
+      try {
+        stored.push(await importThread(userId, withFreshMessageIds(thread)));
+      } catch (e) {
+        console.warn('Failed to import thread:', e);
+        failed++;
+      }
+    }
+  }
+  if (stored.length) writeStoredValue(THREADS_STORAGE_KEY, [...stored, ...existingThreads]);
+
+  let customModels = 0;
+  let customEndpoints = 0;
+  if (isBackup) {
+    const models = readStoredValue<CustomModel[]>(CUSTOM_MODELS_STORAGE_KEY, []);
+    const nextModels = addMissingById(models, archive.customModels);
+    customModels = nextModels.length - models.length;
+    if (customModels) writeStoredValue(CUSTOM_MODELS_STORAGE_KEY, nextModels);
+
+    const endpoints = readStoredValue<CustomEndpoint[]>(CUSTOM_ENDPOINTS_STORAGE_KEY, []);
+    const nextEndpoints = addMissingById(endpoints, archive.customEndpoints);
+    customEndpoints = nextEndpoints.length - endpoints.length;
+    if (customEndpoints) writeStoredValue(CUSTOM_ENDPOINTS_STORAGE_KEY, nextEndpoints);
+
+    if (archive.theme) saveTheme(archive.theme);
+  }
+
+  return {
+    threads: stored.length,
+    duplicates: merged.duplicates,
+    renamed: merged.renamed,
+    skipped: skippedThreads,
+    failed,
+    projects: projects.length,
+    customModels,
+    customEndpoints,
+    theme: isBackup && !!archive.theme,
+  };
+}
+
+export function describeRestore(s: RestoreSummary): string {
+  const parts = [`${s.threads} chat${s.threads === 1 ? '' : 's'} imported`];
+  if (s.duplicates) parts.push(`${s.duplicates} already present`);
+  if (s.renamed) parts.push(`${s.renamed} copied under a new id`);
+  if (s.skipped) parts.push(`${s.skipped} invalid skipped`);
+  if (s.failed) parts.push(`${s.failed} failed to save`);
+  if (s.projects) parts.push(`${s.projects} project${s.projects === 1 ? '' : 's'}`);
+  if (s.customModels) {
+    parts.push(`${s.customModels} custom model${s.customModels === 1 ? '' : 's'}`);
+  }
+  if (s.customEndpoints) {
+    parts.push(`${s.customEndpoints} endpoint${s.customEndpoints === 1 ? '' : 's'}`);
+  }
+  if (s.theme) parts.push('theme restored');
+  return parts.join(', ');
+}
@@ -0,0 +1,142 @@
+// Blind comparison: per-turn column shuffling, votes and Elo ratings.
+// Pure helpers only; persistence lives in useBlindVotes.
+
+export type BlindVoteWinner = string | 'tie';
+
+export interface BlindVote {
+  threadId: string;
+  turnTs: number; // ts of the user message the vote belongs to
+  modelIds: string[]; // models that answered the turn (the contestants)
+  winner: BlindVoteWinner; // a model id from modelIds, or 'tie'
+  votedAt: number;
+}
+
+// threadId -> votes cast in that thread
+export type BlindVoteStore = Record<string, BlindVote[]>;
+
+export interface EloRow {
+  modelId: string;
+  rating: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  games: number;
+}
+
+export const ELO_BASE_RATING = 1000;
+export const ELO_K_FACTOR = 32;
+
+// FNV-1a, good enough to seed a shuffle deterministically
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Shuffle `items` with a seed so the same turn keeps the same order across re-renders and reloads
+export function blindOrder<T>(items: T[], seed: string): T[] {
+  const out = items.slice();
+  const rand = seededRandom(hashSeed(seed));
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+export function blindSeed(threadId: string, turnTs: number): string {
+  return `${threadId}:${turnTs}`;
+}
+
+// 0 -> "Response A", 1 -> "Response B", ...
+export function blindLabel(index: number): string {
+  return `Response ${String.fromCharCode(65 + (index % 26))}`;
+}
+
+export function findTurnVote(
+  votes: BlindVote[] | undefined,
+  turnTs: number,
+): BlindVote | undefined {
+  return (votes || []).find((v) => v.turnTs === turnTs);
+}
+
+// Replace any earlier vote for the same turn
+export function upsertVote(store: BlindVoteStore, vote: BlindVote): BlindVoteStore {
+  const prev = (store[vote.threadId] || []).filter((v) => v.turnTs !== vote.turnTs);
+  return { ...store, [vote.threadId]: [...prev, vote] };
+}
+
+function expectedScore(a: number, b: number): number {
+  return 1 / (1 + Math.pow(10, (b - a) / 400));
+}
+
+// Elo over every vote in chronological order. A vote is scored as pairwise games:
+// the winner beats each other contestant, and a tie is a draw between all pairs.
+export function computeEloRatings(
+  votes: BlindVote[],
+  opts: { k?: number; base?: number } = {},
+): EloRow[] {
+  const k = opts.k ?? ELO_K_FACTOR;
+  const base = opts.base ?? ELO_BASE_RATING;
+  const rows = new Map<string, EloRow>();
+  const row = (modelId: string) => {
+    let r = rows.get(modelId);
+    if (!r) {
+      r = { modelId, rating: base, wins: 0, losses: 0, ties: 0, games: 0 };
+      rows.set(modelId, r);
+    }
+    return r;
+  };
+
+  const ordered = votes.slice().sort((a, b) => a.votedAt - b.votedAt);
+  for (const vote of ordered) {
+    const ids = Array.from(new Set(vote.modelIds));
+    if (ids.length < 2) continue;
+    if (vote.winner !== 'tie' && !ids.includes(vote.winner)) continue;
+
+    // Collect deltas first so every pair in a vote uses the pre-vote ratings
+    const deltas = new Map<string, number>();
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = row(ids[i]);
+        const b = row(ids[j]);
+        if (vote.winner !== 'tie' && vote.winner !== a.modelId && vote.winner !== b.modelId) {
+          continue; // two losers: no information about each other
+        }
+        const scoreA = vote.winner === 'tie' ? 0.5 : vote.winner === a.modelId ? 1 : 0;
+        const ea = expectedScore(a.rating, b.rating);
+        deltas.set(a.modelId, (deltas.get(a.modelId) || 0) + k * (scoreA - ea));
+        deltas.set(b.modelId, (deltas.get(b.modelId) || 0) + k * (1 - scoreA - (1 - ea)));
+      }
+    }
+    deltas.forEach((d, id) => {
+      row(id).rating += d;
+    });
+
+    for (const id of ids) {
+      const r = row(id);
+      r.games += 1;
+      if (vote.winner === 'tie') r.ties += 1;
+      else if (vote.winner === id) r.wins += 1;
+      else r.losses += 1;
+    }
+  }
+
+  return Array.from(rows.values())
+    .map((r) => ({ ...r, rating: Math.round(r.rating) }))
+    .sort((a, b) => b.rating - a.rating || b.wins - a.wins);
+}
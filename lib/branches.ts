@@ -0,0 +1,157 @@
+import type { ChatMessage, ChatThread } from './types';
+import { safeUUID } from './uuid';
+
+// Conversation tree helpers.
+//
+// Every message carries an id and a parentId: a user message points at the previous turn's
+// user message (null for the first turn) and answers point at their user message. Editing a
+// prompt adds a sibling user message instead of overwriting it.
+//
+// `thread.messages` always holds the active path (what the UI, export and share read) and
+// `thread.branches` holds every message that is on another branch.
+
+export type BranchInfo = { index: number; count: number };
+
+type BranchState = Pick<ChatThread, 'messages' | 'branches'>;
+
+const parentKey = (m: ChatMessage) => m.parentId ?? null;
+
+// Give a linear message list ids and parent links. Existing links are kept, so this is safe to
+// run on threads created before branching existed.
+export function linkPath(messages: ChatMessage[]): ChatMessage[] {
+  let prevUserId: string | null = null;
+  let currentUserId: string | null = null;
+  return messages.map((m) => {
+    const id = m.id ?? safeUUID();
+    if (m.role === 'user') {
+      const linked = { ...m, id, parentId: m.parentId !== undefined ? m.parentId : prevUserId };
+      prevUserId = id;
+      currentUserId = id;
+      return linked;
+    }
+    return { ...m, id, parentId: m.parentId !== undefined ? m.parentId : currentUserId };
+  });
+}
+
+function byTs(a: ChatMessage, b: ChatMessage) {
+  return (a.ts ?? 0) - (b.ts ?? 0);
+}
+
+// Walk down from `user`: its answers, then the newest follow-up prompt, and so on
+function descend(pool: ChatMessage[], user: ChatMessage): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  let current: ChatMessage | undefined = user;
+  while (current) {
+    const cur: ChatMessage = current;
+    out.push(cur);
+    out.push(...pool.filter((m) => m.role !== 'user' && m.parentId === cur.id));
+    const next = pool.filter((m) => m.role === 'user' && m.parentId === cur.id).sort(byTs);
+    current = next[next.length - 1];
+  }
+  return out;
+}
+
+// Prompts that share the parent of `user` (including itself), oldest first
+function siblingsOf(pool: ChatMessage[], user: ChatMessage): ChatMessage[] {
+  if (!user.id) return [user];
+  return pool
+    .filter((m) => m.role === 'user' && m.id && parentKey(m) === parentKey(user))
+    .sort(byTs);
+}
+
+// Position of each active-path prompt among its siblings, one entry per turn
+export function turnBranchInfo(thread: BranchState): BranchInfo[] {
+  const pool = [...thread.messages, ...(thread.branches ?? [])];
+  return thread.messages
+    .filter((m) => m.role === 'user')
+    .map((u) => {
+      const siblings = siblingsOf(pool, u);
+      return {
+        index: Math.max(
+          0,
+          siblings.findIndex((s) => s.id === u.id),
+        ),
+        count: siblings.length,
+      };
+    });
+}
+
+// Make the sibling `delta` steps away from turn `turnIndex` active. Returns the thread unchanged
+// when there is no such sibling.
+export function switchBranch<T extends BranchState>(
+  thread: T,
+  turnIndex: number,
+  delta: number,
+): T {
+  const userIdx = thread.messages.reduce<number[]>(
+    (acc, m, i) => (m.role === 'user' ? [...acc, i] : acc),
+    [],
+  )[turnIndex];
+  if (userIdx === undefined) return thread;
+  const pool = [...thread.messages, ...(thread.branches ?? [])];
+  const current = thread.messages[userIdx];
+  const siblings = siblingsOf(pool, current);
+  const target = siblings[siblings.findIndex((s) => s.id === current.id) + delta];
+  if (!target || target === current) return thread;
+
+  const messages = [...thread.messages.slice(0, userIdx), ...descend(pool, target)];
+  const onPath = new Set(messages);
+  return { ...thread, messages, branches: pool.filter((m) => !onPath.has(m)) };
+}
+
+// Replace the prompt at `userIdx` with a new sibling. The old prompt and everything after it
+// moves to `branches`; the new active path ends at the returned prompt.
+export function branchFromTurn(
+  thread: BranchState,
+  userIdx: number,
+  patch: Partial<ChatMessage>,
+): BranchState & { user: ChatMessage } {
+  const linked = linkPath(thread.messages);
+  const old = linked[userIdx];
+  const user: ChatMessage = {
+    ...old,
+    ...patch,
+    id: safeUUID(),
+    parentId: old.parentId ?? null,
+  };
+  return {
+    messages: [...linked.slice(0, userIdx), user],
+    branches: [...(thread.branches ?? []), ...linked.slice(userIdx)],
+    user,
+  };
+}
+
+// Rows saved before parent links existed have no parent at all and come before every linked
+// row. Chain them in order, as linkPath does, so they read as one path instead of as forks.
+function linkLegacyRows(pool: ChatMessage[]): ChatMessage[] {
+  const firstLinked = pool.findIndex((m) => m.parentId);
+  const legacy = firstLinked === -1 ? pool : pool.slice(0, firstLinked);
+  return [
+    ...linkPath(legacy.map((m) => ({ ...m, parentId: undefined }))),
+    ...pool.slice(legacy.length),
+  ];
+}
+
+// Rebuild the active path from a flat list (e.g. rows loaded from the database, oldest first).
+// Threads that never branched come back as one path; otherwise the newest branch at every fork
+// is active.
+export function splitActivePath(rows: ChatMessage[]): BranchState {
+  const pool = linkLegacyRows(rows);
+  const users = pool.filter((m) => m.role === 'user' && m.id);
+  const forks = new Set<string>();
+  const branched = users.some((u) => {
+    const key = String(parentKey(u));
+    if (forks.has(key)) return true;
+    forks.add(key);
+    return false;
+  });
+  if (!branched) return { messages: pool, branches: undefined };
+
+  const ids = new Set(users.map((u) => u.id));
+  const roots = users.filter((u) => !u.parentId || !ids.has(u.parentId)).sort(byTs);
+  const root = roots[roots.length - 1];
+  const messages = root ? descend(pool, root) : pool;
+  const onPath = new Set(messages);
+  const branches = pool.filter((m) => !onPath.has(m));
+  return { messages, branches: branches.length > 0 ? branches : undefined };
+}
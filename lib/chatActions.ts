@@ -1,9 +1,44 @@
-import { callGemini, callOpenRouter, callOpenProvider, callUnstable, callMistral, callOllama, streamOpenRouter } from './client';
+import { getProviderAdapter } from './providers';
+import type { ProviderRequest } from './providers';
 import { safeUUID } from './uuid';
-import type { AiModel, ApiKeys, ChatMessage, ChatThread } from './types';
+import type {
+  AiModel,
+  ApiKeys,
+  Attachment,
+  ChatMessage,
+  Citation,
+  ChatThread,
+  SynthesisMode,
+  TokenUsage,
+} from './types';
 import type { Project } from './projects';
+import type { CustomEndpoint } from './customEndpoints';
+import { resolveGenerationParams } from './generationParams';
+import { contextWindowFor } from './models';
+import { fitToContext } from './contextBudget';
+import { buildAnswerMetrics } from './metrics';
+import type { GenerationParamsStore } from './generationParams';
+import {
+  SYNTHESIS_MODEL_ID,
+  buildSynthesisPrompt,
+  isSynthesisAnswer,
+  synthesisCandidates,
+  turnAnswersDone,
+} from './synthesis';
 import { toast } from 'react-toastify';
 import { addMessage as addMessageDb, updateThreadTitle } from '@/lib/db';
+import { branchFromTurn, linkPath } from './branches';
+import { historyForModel } from './modelHistory';
+import { inlineAttachments, promptImages } from './attachments';
+import { retrieveCitations, retrievalContext } from './rag';
+import { offlineManager } from './offline/manager';
+import {
+  QUEUED_CONTENT,
+  historyUpToPrompt,
+  isOffline,
+  queuedPlaceholders,
+} from './offline/pendingGenerations';
+import type { PendingGeneration } from './offline/types';
 
 const abortControllers: Record<string, AbortController> = {};
 
@@ -23,6 +58,8 @@ function abortAll() {
 export type ChatDeps = {
   selectedModels: AiModel[];
   keys: ApiKeys;
+  // OpenAI-compatible endpoints that 'openai-compatible' models point at
+  endpoints?: CustomEndpoint[];
   threads: ChatThread[];
   activeThread: ChatThread | null;
   setThreads: (updater: (prev: ChatThread[]) => ChatThread[]) => void;
@@ -31,31 +68,54 @@ export type ChatDeps = {
   setLoadingIdsInit: (ids: string[]) => void;
   activeProject?: Project | null;
   selectedVoice?: string;
+  generationParams?: GenerationParamsStore;
+  // Let every model see the other models' answers (off: each model only sees its own)
+  shareAnswers?: boolean;
   userId?: string;
   pageType?: 'home' | 'compare';
 };
 
-type ApiTextResult = {
-  text?: string;
-  error?: string;
-  code?: number;
-  provider?: string;
-  usedKeyType?: 'user' | 'shared' | 'none';
-};
+type AnswerMeta = Pick<
+  ChatMessage,
+  | 'provider'
+  | 'usedKeyType'
+  | 'tokens'
+  | 'code'
+  | 'metrics'
+  | 'synthesis'
+  | 'citations'
+  | 'context'
+>;
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
 
-function extractText(res: unknown): string {
-  if (res && typeof res === 'object') {
-    const r = res as Partial<ApiTextResult>;
-    const t = typeof r.text === 'string' ? r.text : undefined;
-    const e = typeof r.error === 'string' ? r.error : undefined;
-    return t || e || 'No response';
-  }
-  return 'No response';
+// Reveal a complete response progressively with requestAnimationFrame for smooth scrolling
+function typewrite(full: string, render: (chunk: string) => void, onComplete: () => void) {
+  let i = 0;
+  const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
+  let lastUpdate = 0;
+  const animate = (timestamp: number) => {
+    if (timestamp - lastUpdate >= 12) {
+      // Throttle to ~83fps for smoothness
+      i = Math.min(full.length, i + step);
+      render(full.slice(0, i));
+      lastUpdate = timestamp;
+    }
+    if (i < full.length) {
+      requestAnimationFrame(animate);
+    } else {
+      onComplete();
+    }
+  };
+  requestAnimationFrame(animate);
 }
 
 export function createChatActions({
   selectedModels,
   keys,
+  endpoints,
   threads,
   activeThread,
   setThreads,
@@ -64,6 +124,8 @@ export function createChatActions({
   setLoadingIdsInit,
   activeProject,
   selectedVoice,
+  generationParams,
+  shareAnswers,
   userId,
   pageType,
 }: ChatDeps) {
@@ -82,12 +144,29 @@ export function createChatActions({
     return t;
   }
 
-  function prepareMessages(messages: ChatMessage[]): ChatMessage[] {
-    // If there's an active project with a system prompt, inject it at the beginning
-    if (activeProject?.systemPrompt?.trim()) {
+  // Project document excerpts for a prompt; fetched once and shared by every model answering it
+  const retrievals = new Map<string, Promise<Citation[]>>();
+  function citationsFor(history: ChatMessage[]): Promise<Citation[]> {
+    const query = [...history].reverse().find((m) => m.role === 'user')?.content ?? '';
+    if (!activeProject || !query.trim()) return Promise.resolve([]);
+    let pending = retrievals.get(query);
+    if (!pending) {
+      pending = retrieveCitations({ projectId: activeProject.id, query, keys });
+      retrievals.set(query, pending);
+    }
+    return pending;
+  }
+
+  function prepareMessages(messages: ChatMessage[], citations: Citation[] = []): ChatMessage[] {
+    // If there's an active project with a system prompt or retrieved document excerpts,
+    // inject them at the beginning
+    const system = [activeProject?.systemPrompt?.trim(), retrievalContext(citations)]
+      .filter(Boolean)
+      .join('\n\n');
+    if (system) {
       const systemMsg: ChatMessage = {
         role: 'system',
-        content: activeProject.systemPrompt.trim(),
+        content: system,
         ts: Date.now() - 1000000, // Ensure it's at the beginning
       };
 
@@ -106,13 +185,265 @@ export function createChatActions({
     return messages;
   }
 
-  async function send(text: string, imageDataUrl?: string) {
+  // Models a turn is sent to: every selected model, or just the follow-up target
+  function turnModels(targetModelId?: string): AiModel[] {
+    return targetModelId ? selectedModels.filter((m) => m.id === targetModelId) : selectedModels;
+  }
+
+  function contextFor(m: AiModel, messages: ChatMessage[]): ChatMessage[] {
+    return historyForModel(messages, m.id, { includeOtherAnswers: shareAnswers });
+  }
+
+  // Save a prompt with its id and parent link, so branches can be rebuilt on reload.
+  // Offline it is queued and written when the browser reconnects.
+  async function savePrompt(threadId: string, msg: ChatMessage) {
+    if (!userId) return;
+    try {
+      if (isOffline()) {
+        await offlineManager.sendMessageOffline(userId, threadId, msg);
+      } else {
+        await addMessageDb({ userId, chatId: threadId, message: msg });
+      }
+    } catch (e) {
+      console.error('Failed to save user message to DB:', e);
+    }
+  }
+
+  // Update the answer identified by (modelId, ts), appending it to the thread if it is not there yet.
+  // Answers whose turn was switched away from while streaming are updated on their branch.
+  function upsertAnswer(
+    threadId: string,
+    modelId: string,
+    ts: number,
+    update: (msg: ChatMessage) => ChatMessage,
+    fallbackHistory: ChatMessage[],
+  ) {
+    setThreads((prev) =>
+      prev.map((t) => {
+        if (t.id !== threadId) return t;
+        let found = false;
+        const apply = (msg: ChatMessage) => {
+          if (msg.ts !== ts || msg.modelId !== modelId) return msg;
+          found = true;
+          return update(msg);
+        };
+        const msgs = (t.messages ?? fallbackHistory).map(apply);
+        const branches = t.branches?.map(apply);
+        if (!found) msgs.push(update({ role: 'assistant', content: '', modelId, ts }));
+        return { ...t, messages: msgs, branches };
+      }),
+    );
+  }
+
+  // Clear the streaming flag of an answer. Unlike upsertAnswer it never adds the answer back,
+  // so answers deleted while they streamed stay deleted.
+  function finishAnswer(threadId: string, modelId: string, ts: number) {
+    const finish = (msg: ChatMessage) =>
+      msg.streaming && msg.ts === ts && msg.modelId === modelId ? { ...msg, streaming: false } : msg;
+    setThreads((prev) =>
+      prev.map((t) =>
+        t.id === threadId
+          ? { ...t, messages: t.messages?.map(finish), branches: t.branches?.map(finish) }
+          : t,
+      ),
+    );
+  }
+
+  // Single code path for every provider: pick the adapter, stream when it can, otherwise
+  // fetch the full answer and typewrite it. The answer is marked as streaming until it is
+  // complete, and persisted once complete.
+  // `answerId` stores the answer under a different modelId (e.g. the synthesis card).
+  async function runModel(
+    m: AiModel,
+    threadId: string,
+    history: ChatMessage[],
+    opts: {
+      placeholderTs?: number;
+      answerId?: string;
+      extraMeta?: AnswerMeta;
+      parentId?: string | null;
+      // Don't search project documents (the synthesis judge gets its own prompt)
+      skipRetrieval?: boolean;
+    } = {},
+  ) {
+    const answerId = opts.answerId ?? m.id;
+    // Tree links for the answer: a fresh id, attached to the prompt it answers
+    const link = {
+      id: safeUUID(),
+      parentId:
+        opts.parentId !== undefined
+          ? opts.parentId
+          : ([...history].reverse().find((x) => x.role === 'user')?.id ?? null),
+    };
+    const controller = new AbortController();
+    abortControllers[answerId] = controller;
+    const adapter = getProviderAdapter(m.provider);
+    const ts = opts.placeholderTs ?? Date.now();
+    upsertAnswer(
+      threadId,
+      answerId,
+      ts,
+      (msg) => ({
+        ...msg,
+        ...link,
+        content: msg.content && msg.content !== QUEUED_CONTENT ? msg.content : 'Thinking…',
+        streaming: true,
+      }),
+      history,
+    );
+    // Set once the answer is handed to typewrite, which finishes it when the text is shown
+    let typing = false;
+    try {
+      const citations = opts.skipRetrieval ? [] : await citationsFor(history);
+      if (controller.signal.aborted) return;
+      const params = resolveGenerationParams(generationParams, m.id, activeProject);
+      // Attachments travel with their prompt: document text is inlined on every turn,
+      // images are sent with the latest prompt. Older turns are summarized when the
+      // conversation outgrows the model's context window.
+      const fitted = fitToContext(prepareMessages(inlineAttachments(history), citations), {
+        contextWindow: contextWindowFor(m),
+        maxTokens: params.maxTokens,
+      });
+      const extraMeta: AnswerMeta = {
+        ...opts.extraMeta,
+        ...(citations.length ? { citations } : {}),
+        context: fitted.usage,
+      };
+      const images = promptImages(history);
+      const req: ProviderRequest = {
+        model: m,
+        keys,
+        messages: fitted.messages,
+        imageDataUrl: images[0],
+        images: images.length ? images : undefined,
+        voice: selectedVoice,
+        params,
+        endpoint: m.endpointId ? endpoints?.find((e) => e.id === m.endpointId) : undefined,
+        signal: controller.signal,
+      };
+      const startedAt = Date.now();
+      const metricsFor = (completion: string, usage?: TokenUsage, firstTokenAt?: number) =>
+        buildAnswerMetrics({
+          model: m,
+          startedAt,
+          firstTokenAt,
+          endedAt: Date.now(),
+          usage,
+          promptMessages: req.messages,
+          completion,
+        });
+
+      const persist = (content: string, meta: AnswerMeta) => {
+        if (!userId || !threadId) return;
+        const finalMsg: ChatMessage = {
+          role: 'assistant',
+          content,
+          modelId: answerId,
+          ts,
+          ...extraMeta,
+          ...meta,
+          ...link,
+        };
+        addMessageDb({ userId, chatId: threadId, message: finalMsg }).catch((e) =>
+          console.error(`Failed to save ${m.provider} assistant message to DB:`, e),
+        );
+      };
+
+      if (adapter.capabilities.streaming && adapter.stream) {
+        let meta: AnswerMeta = { ...extraMeta };
+        let content = '';
+        let buffer = '';
+        let errorText = '';
+        let usage: TokenUsage | undefined;
+        let firstTokenAt: number | undefined;
+        let flushTimer: ReturnType<typeof setTimeout> | null = null;
+        const flush = () => {
+          flushTimer = null;
+          if (!buffer) return;
+          content += buffer;
+          buffer = '';
+          const snapshot = content;
+          upsertAnswer(
+            threadId,
+            answerId,
+            ts,
+            (msg) => ({ ...msg, ...link, ...meta, content: snapshot }),
+            history,
+          );
+        };
+        await adapter.stream(req, {
+          onToken: (delta) => {
+            if (firstTokenAt === undefined) firstTokenAt = Date.now();
+            buffer += delta;
+            if (flushTimer == null) flushTimer = setTimeout(flush, 24);
+          },
+          onMeta: (x) => {
+            meta = { ...meta, provider: x.provider, usedKeyType: x.usedKeyType };
+          },
+          onUsage: (u) => {
+            usage = { ...usage, ...u };
+          },
+          onError: (err) => {
+            errorText = err.error || 'Error';
+            meta = {
+              ...meta,
+              code: err.code,
+              provider: err.provider ?? meta.provider,
+              usedKeyType: err.usedKeyType ?? meta.usedKeyType,
+            };
+          },
+        });
+        if (flushTimer != null) clearTimeout(flushTimer);
+        flush();
+        if (controller.signal.aborted) return;
+        const full = content.trim() || errorText || 'No response';
+        // Errors and empty answers get no metrics; their text is not a model completion
+        if (content.trim()) meta = { ...meta, metrics: metricsFor(full, usage, firstTokenAt) };
+        upsertAnswer(threadId, answerId, ts, (msg) => ({ ...msg, ...link, ...meta, content: full }), history);
+        persist(full, meta);
+        return;
+      }
+
+      const res = await adapter.call(req);
+      if (controller.signal.aborted) return;
+      const full = res.text || 'No response';
+      const meta: AnswerMeta = {
+        ...extraMeta,
+        provider: res.provider,
+        usedKeyType: res.usedKeyType,
+        tokens: res.tokens,
+        code: res.code,
+        metrics: res.text && !res.error ? metricsFor(full, res.usage) : undefined,
+      };
+      typing = true;
+      typewrite(
+        full,
+        (chunk) =>
+          upsertAnswer(threadId, answerId, ts, (msg) => ({ ...msg, ...link, ...meta, content: chunk }), history),
+        () => {
+          finishAnswer(threadId, answerId, ts);
+          persist(full, meta);
+        },
+      );
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      const text = err instanceof Error && err.message ? err.message : 'No response';
+      upsertAnswer(threadId, answerId, ts, (msg) => ({ ...msg, ...link, content: text }), history);
+    } finally {
+      if (!typing) finishAnswer(threadId, answerId, ts);
+      if (abortControllers[answerId] === controller) delete abortControllers[answerId];
+    }
+  }
+
+  // `targetModelId` sends a follow-up to that model only
+  async function send(text: string, attachments?: Attachment[], targetModelId?: string) {
     const prompt = text.trim();
     if (!prompt) return;
 
     abortAll();
 
-    if (selectedModels.length === 0) {
+    const models = turnModels(targetModelId);
+    if (models.length === 0) {
       toast.warn('Select at least one model.', {
         style: {
           background: '#ff4d4f',
@@ -121,10 +452,48 @@ export function createChatActions({
       });
     }
 
-    const userMsg: ChatMessage = { role: 'user', content: prompt, ts: Date.now() };
     const thread = ensureThread();
-    const nextHistory = [...(thread.messages ?? []), userMsg];
+    const history = linkPath(thread.messages ?? []);
+    const lastUser = [...history].reverse().find((x) => x.role === 'user');
+    const userMsg: ChatMessage = {
+      role: 'user',
+      content: prompt,
+      ts: Date.now(),
+      id: safeUUID(),
+      parentId: lastUser?.id ?? null,
+      ...(targetModelId ? { targetModelId } : {}),
+      ...(attachments?.length ? { attachments } : {}),
+    };
+    const nextHistory = [...history, userMsg];
     const newTitle = thread.title === 'New Chat' ? prompt.slice(0, 40) : thread.title;
+
+    // Offline: show "queued" placeholders and let the offline manager replay the prompt later
+    if (isOffline()) {
+      const { answers, placeholders } = queuedPlaceholders(models.map((m) => m.id));
+      setThreads((prev) =>
+        prev.map((t) =>
+          t.id === thread.id ? { ...t, title: newTitle, messages: [...nextHistory, ...placeholders] } : t,
+        ),
+      );
+      if (userId && newTitle !== thread.title) {
+        offlineManager
+          .updateThreadTitleOffline(userId, thread.id, newTitle)
+          .catch((e) => console.error('Failed to queue thread title update:', e));
+      }
+      // Queued ahead of the generation, so the prompt is written before it is answered
+      await savePrompt(thread.id, userMsg);
+      try {
+        await offlineManager.queueGeneration(userId, {
+          threadId: thread.id,
+          prompt: userMsg,
+          answers,
+        });
+      } catch (e) {
+        console.error('Failed to queue offline prompt:', e);
+      }
+      return;
+    }
+
     setThreads((prev) =>
       prev.map((t) =>
         t.id === thread.id
@@ -136,7 +505,7 @@ export function createChatActions({
           : t,
       ),
     );
-    
+
     // Update thread title in database if it changed
     if (userId && thread.id && newTitle !== thread.title) {
       try {
@@ -145,675 +514,50 @@ export function createChatActions({
         console.error('Failed to update thread title in DB:', e);
       }
     }
+    await savePrompt(thread.id, userMsg);
 
     // Skip internal loading - using ChatInterface loading animation instead
-    // setLoadingIdsInit(selectedModels.map((m) => m.id));
     await Promise.allSettled(
-      selectedModels.map(async (m) => {
-        const controller = new AbortController();
-        abortControllers[m.id] = controller;
-        try {
-          if (m.provider === 'gemini') {
-            const res = await callGemini({
-              apiKey: keys.gemini || undefined,
-              model: m.model,
-              messages: prepareMessages(nextHistory),
-              imageDataUrl,
-              signal: controller.signal,
-            });
-            const full = String(extractText(res) || '').trim();
-            if (full) {
-              // Add placeholder for super fast typing animation
-              const placeholderTs = Date.now();
-              const placeholder: ChatMessage = {
-                role: 'assistant',
-                content: '',
-                modelId: m.id,
-                ts: placeholderTs,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                    : t,
-                ),
-              );
-              
-              // Super fast typing effect with requestAnimationFrame for smooth scrolling
-              let i = 0;
-              const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
-              let lastUpdate = 0;
-              const animate = (timestamp: number) => {
-                if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                  i = Math.min(full.length, i + step);
-                  const chunk = full.slice(0, i);
-                  setThreads((prev) =>
-                    prev.map((t) => {
-                      if (t.id !== thread.id) return t;
-                      const msgs = (t.messages ?? []).map((msg) =>
-                        msg.ts === placeholderTs && msg.modelId === m.id
-                          ? { ...msg, content: chunk }
-                          : msg,
-                      );
-                      return { ...t, messages: msgs };
-                    }),
-                  );
-                  lastUpdate = timestamp;
-                }
-                
-                if (i < full.length) {
-                  requestAnimationFrame(animate);
-                } else {
-                  // Save to database after typing completes
-                  if (userId && thread.id) {
-                    const finalMsg: ChatMessage = {
-                      role: 'assistant',
-                      content: full,
-                      modelId: m.id,
-                      ts: placeholderTs,
-                    };
-                    addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                      console.error('Failed to save assistant message to DB:', e)
-                    );
-                  }
-                }
-              };
-              requestAnimationFrame(animate);
-            }
-          } else if (m.provider === 'open-provider') {
-            // No placeholder - using ChatInterface loading animation
-
-            const res = await callOpenProvider({
-              apiKey: keys['open-provider'] || undefined,
-              model: m.model,
-              messages: prepareMessages(nextHistory),
-              imageDataUrl,
-              voice: selectedVoice,
-            });
-            const full = String(extractText(res) || '').trim();
-            if (full) {
-              // Add placeholder for super fast typing animation
-              const placeholderTs = Date.now();
-              const placeholder: ChatMessage = {
-                role: 'assistant',
-                content: '',
-                modelId: m.id,
-                ts: placeholderTs,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                    : t,
-                ),
-              );
-              
-              // Super fast typing effect with requestAnimationFrame for smooth scrolling
-              let i = 0;
-              const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
-              let lastUpdate = 0;
-              const animate = (timestamp: number) => {
-                if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                  i = Math.min(full.length, i + step);
-                  const chunk = full.slice(0, i);
-                  setThreads((prev) =>
-                    prev.map((t) => {
-                      if (t.id !== thread.id) return t;
-                      const msgs = (t.messages ?? []).map((msg) =>
-                        msg.ts === placeholderTs && msg.modelId === m.id
-                          ? { ...msg, content: chunk, provider: (res as any)?.provider, usedKeyType: (res as any)?.usedKeyType, tokens: (res as any)?.tokens }
-                          : msg,
-                      );
-                      return { ...t, messages: msgs };
-                    }),
-                  );
-                  lastUpdate = timestamp;
-                }
-                
-                if (i < full.length) {
-                  requestAnimationFrame(animate);
-                } else {
-                  // Save to database after typing completes
-                  if (userId && thread.id) {
-                    const finalMsg: ChatMessage = {
-                      role: 'assistant',
-                      content: full,
-                      modelId: m.id,
-                      ts: placeholderTs,
-                      provider: (res as any)?.provider,
-                      usedKeyType: (res as any)?.usedKeyType,
-                      tokens: (res as any)?.tokens,
-                    };
-                    addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                      console.error('Failed to save open-provider assistant message to DB:', e)
-                    );
-                  }
-                }
-              };
-              requestAnimationFrame(animate);
-            }
-          } else if (m.provider === 'unstable') {
-            // No placeholder - using ChatInterface loading animation
-
-            const res = await callUnstable({
-              apiKey: keys['unstable'] || undefined,
-              model: m.model,
-              messages: prepareMessages(nextHistory),
-              imageDataUrl,
-            });
-            
-            let content = '';
-            if (res && typeof (res as { error?: unknown })?.error === 'string') {
-              content = String((res as { error: unknown }).error).trim();
-            } else {
-              content = String(extractText(res) || '').trim() || 'No response';
-            }
-            
-            if (content) {
-              // Add placeholder for super fast typing animation
-              const placeholderTs = Date.now();
-              const placeholder: ChatMessage = {
-                role: 'assistant',
-                content: '',
-                modelId: m.id,
-                ts: placeholderTs,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                    : t,
-                ),
-              );
-              
-              // Super fast typing effect with requestAnimationFrame for smooth scrolling
-              let i = 0;
-              const step = Math.max(2, Math.ceil(content.length / 40)); // Smaller steps for smoother animation
-              let lastUpdate = 0;
-              const animate = (timestamp: number) => {
-                if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                  i = Math.min(content.length, i + step);
-                  const chunk = content.slice(0, i);
-                  setThreads((prev) =>
-                    prev.map((t) => {
-                      if (t.id !== thread.id) return t;
-                      const msgs = (t.messages ?? []).map((msg) =>
-                        msg.ts === placeholderTs && msg.modelId === m.id
-                          ? { ...msg, content: chunk }
-                          : msg,
-                      );
-                      return { ...t, messages: msgs };
-                    }),
-                  );
-                  lastUpdate = timestamp;
-                }
-                
-                if (i < content.length) {
-                  requestAnimationFrame(animate);
-                } else {
-                  // Save to database after typing completes
-                  if (userId && thread.id) {
-                    const finalMsg: ChatMessage = {
-                      role: 'assistant',
-                      content,
-                      modelId: m.id,
-                      ts: placeholderTs,
-                    };
-                    addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                      console.error('Failed to save unstable assistant message to DB:', e)
-                    );
-                  }
-                }
-              };
-              requestAnimationFrame(animate);
-            } else {
-              // Add response directly without typewriter effect
-              const assistantMsg: ChatMessage = {
-                role: 'assistant',
-                content,
-                modelId: m.id,
-                ts: Date.now(),
-                provider: (res as any)?.provider,
-                usedKeyType: (res as any)?.usedKeyType,
-                tokens: (res as any)?.tokens,
-                code: (res as any)?.code,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), assistantMsg] }
-                    : t,
-                ),
-              );
-              
-              // Save to database
-              if (userId && thread.id) {
-                try {
-                  await addMessageDb({
-                    userId,
-                    chatId: thread.id,
-                    message: assistantMsg,
-                  });
-                } catch (e) {
-                  console.error('Failed to save unstable assistant message to DB:', e);
-                }
-              }
-            }
-          } else if (m.provider === 'mistral') {
-            // No placeholder - using ChatInterface loading animation
-
-            const res = await callMistral({ apiKey: keys['mistral'] || undefined, model: m.model, messages: prepareMessages(nextHistory), imageDataUrl });
-            const full = String(extractText(res) || '').trim() || 'No response';
-            if (full) {
-              // Add placeholder for super fast typing animation
-              const placeholderTs = Date.now();
-              const placeholder: ChatMessage = {
-                role: 'assistant',
-                content: '',
-                modelId: m.id,
-                ts: placeholderTs,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                    : t,
-                ),
-              );
-              
-              // Super fast typing effect with requestAnimationFrame for smooth scrolling
-              let i = 0;
-              const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
-              let lastUpdate = 0;
-              const animate = (timestamp: number) => {
-                if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                  i = Math.min(full.length, i + step);
-                  const chunk = full.slice(0, i);
-                  setThreads((prev) =>
-                    prev.map((t) => {
-                      if (t.id !== thread.id) return t;
-                      const msgs = (t.messages ?? []).map((msg) =>
-                        msg.ts === placeholderTs && msg.modelId === m.id
-                          ? { ...msg, content: chunk }
-                          : msg,
-                      );
-                      return { ...t, messages: msgs };
-                    }),
-                  );
-                  lastUpdate = timestamp;
-                }
-                
-                if (i < full.length) {
-                  requestAnimationFrame(animate);
-                } else {
-                  // Save to database after typing completes
-                  if (userId && thread.id) {
-                    const finalMsg: ChatMessage = {
-                      role: 'assistant',
-                      content: full,
-                      modelId: m.id,
-                      ts: placeholderTs,
-                    };
-                    addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                      console.error('Failed to save mistral assistant message to DB:', e)
-                    );
-                  }
-                }
-              };
-              requestAnimationFrame(animate);
-            } else {
-              // Add response directly without typewriter effect
-              const assistantMsg: ChatMessage = {
-                role: 'assistant',
-                content: full,
-                modelId: m.id,
-                ts: Date.now(),
-                provider: (res as any)?.provider,
-                usedKeyType: (res as any)?.usedKeyType,
-                tokens: (res as any)?.tokens,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), assistantMsg] }
-                    : t,
-                ),
-              );
-              
-              // Save to database
-              if (userId && thread.id) {
-                try {
-                  await addMessageDb({
-                    userId,
-                    chatId: thread.id,
-                    message: assistantMsg,
-                  });
-                } catch (e) {
-                  console.error('Failed to save mistral assistant message to DB:', e);
-                }
-              }
-            }
-          } else if (m.provider === 'ollama') {
-            // No placeholder - using ChatInterface loading animation
-
-            const res = await callOllama({ baseUrl: keys['ollama'] || undefined, model: m.model, messages: prepareMessages(nextHistory), signal: controller.signal });
-            const full = String(extractText(res) || '').trim() || 'No response';
-            if (full) {
-              // Add placeholder for super fast typing animation
-              const placeholderTs = Date.now();
-              const placeholder: ChatMessage = {
-                role: 'assistant',
-                content: '',
-                modelId: m.id,
-                ts: placeholderTs,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                    : t,
-                ),
-              );
-              
-              // Super fast typing effect with requestAnimationFrame for smooth scrolling
-              let i = 0;
-              const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
-              let lastUpdate = 0;
-              const animate = (timestamp: number) => {
-                if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                  i = Math.min(full.length, i + step);
-                  const chunk = full.slice(0, i);
-                  setThreads((prev) =>
-                    prev.map((t) => {
-                      if (t.id !== thread.id) return t;
-                      const msgs = (t.messages ?? []).map((msg) =>
-                        msg.ts === placeholderTs && msg.modelId === m.id
-                          ? { ...msg, content: chunk }
-                          : msg,
-                      );
-                      return { ...t, messages: msgs };
-                    }),
-                  );
-                  lastUpdate = timestamp;
-                }
-                
-                if (i < full.length) {
-                  requestAnimationFrame(animate);
-                } else {
-                  // Save to database after typing completes
-                  if (userId && thread.id) {
-                    const finalMsg: ChatMessage = {
-                      role: 'assistant',
-                      content: full,
-                      modelId: m.id,
-                      ts: placeholderTs,
-                    };
-                    addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                      console.error('Failed to save ollama assistant message to DB:', e)
-                    );
-                  }
-                }
-              };
-              requestAnimationFrame(animate);
-            } else {
-              // Add response directly without typewriter effect
-              const assistantMsg: ChatMessage = {
-                role: 'assistant',
-                content: full,
-                modelId: m.id,
-                ts: Date.now(),
-                provider: (res as any)?.provider,
-                usedKeyType: (res as any)?.usedKeyType,
-                tokens: (res as any)?.tokens,
-              };
-              setThreads((prev) =>
-                prev.map((t) =>
-                  t.id === thread.id
-                    ? { ...t, messages: [...(t.messages ?? nextHistory), assistantMsg] }
-                    : t,
-                ),
-              );
-              
-              // Save to database
-              if (userId && thread.id) {
-                try {
-                  await addMessageDb({
-                    userId,
-                    chatId: thread.id,
-                    message: assistantMsg,
-                  });
-                } catch (e) {
-                  console.error('Failed to save ollama assistant message to DB:', e);
-                }
-              }
-            }
-          } else {
-            // No placeholder - using ChatInterface loading animation
-
-            let buffer = '';
-            let flushTimer: number | null = null;
-            let gotAny = false;
-            const flush = () => {
-              if (!buffer) return;
-              const chunk = buffer;
-              buffer = '';
-              // Skip updating placeholder - using ChatInterface loading animation instead
-            };
-            const mt =
-              typeof imageDataUrl === 'string'
-                ? /^data:(.*?);base64/.exec(imageDataUrl)?.[1] || ''
-                : '';
-            const isImage = !!mt && /^image\//i.test(mt);
-            // Treat attachments with missing/unknown MIME type as non-image to force non-stream (server-side extraction)
-            const isNonImageAttachment = !!imageDataUrl && (!mt || !isImage); // txt/pdf/docx or unknown
+      models.map((m) => runModel(m, thread.id, contextFor(m, nextHistory))),
+    );
+  }
 
-            if (isNonImageAttachment) {
-              const res = await callOpenRouter({
-                apiKey: keys.openrouter || undefined,
-                model: m.model,
-                messages: prepareMessages(nextHistory),
-                imageDataUrl,
-                signal: controller.signal,
-              });
-              const full = String(extractText(res) || '').trim();
-              if (full) {
-                // Add placeholder for super fast typing animation
-                const placeholderTs = Date.now();
-                const placeholder: ChatMessage = {
-                  role: 'assistant',
-                  content: '',
-                  modelId: m.id,
-                  ts: placeholderTs,
-                };
-                setThreads((prev) =>
-                  prev.map((t) =>
-                    t.id === thread.id
-                      ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                      : t,
-                  ),
-                );
-                
-                // Super fast typing effect with requestAnimationFrame for smooth scrolling
-                let i = 0;
-                const step = Math.max(2, Math.ceil(full.length / 40)); // Smaller steps for smoother animation
-                let lastUpdate = 0;
-                const animate = (timestamp: number) => {
-                  if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                    i = Math.min(full.length, i + step);
-                    const chunk = full.slice(0, i);
-                    setThreads((prev) =>
-                      prev.map((t) => {
-                        if (t.id !== thread.id) return t;
-                        const msgs = (t.messages ?? []).map((msg) =>
-                          msg.ts === placeholderTs && msg.modelId === m.id
-                            ? { ...msg, content: chunk }
-                            : msg,
-                        );
-                        return { ...t, messages: msgs };
-                      }),
-                    );
-                    lastUpdate = timestamp;
-                  }
-                  
-                  if (i < full.length) {
-                    requestAnimationFrame(animate);
-                  } else {
-                    // Save to database after typing completes
-                    if (userId && thread.id) {
-                      const finalMsg: ChatMessage = {
-                        role: 'assistant',
-                        content: full,
-                        modelId: m.id,
-                        ts: placeholderTs,
-                      };
-                      addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                        console.error('Failed to save openrouter assistant message to DB:', e)
-                      );
-                    }
-                  }
-                };
-                requestAnimationFrame(animate);
-              }
-              return;
-            }
+  // Answer a prompt that was queued while offline, filling in its "queued" placeholders.
+  // Resolves false when the thread isn't loaded here, so the prompt stays queued.
+  async function replayGeneration(generation: PendingGeneration): Promise<boolean> {
+    const t = threads.find((tt) => tt.id === generation.threadId);
+    if (!t || t.messagesLoaded === false) return false;
+
+    let history = historyUpToPrompt(t.messages ?? [], generation.prompt);
+    if (!history) {
+      // The prompt was dropped from local state (e.g. reloaded from the server); restore it
+      history = [...(t.messages ?? []), generation.prompt];
+      setThreads((prev) =>
+        prev.map((tt) => (tt.id === t.id ? { ...tt, messages: [...history!] } : tt)),
+      );
+    }
+    const replayHistory = history;
 
-            await streamOpenRouter(
-              {
-                apiKey: keys.openrouter || undefined,
-                model: m.model,
-                messages: prepareMessages(nextHistory),
-                imageDataUrl,
-                signal: controller.signal,
-              },
-              {
-                onToken: (delta) => {
-                  gotAny = true;
-                  buffer += delta;
-                  // Skip token-by-token updates - using ChatInterface loading animation instead
-                },
-                onMeta: (meta) => {
-                  // Skip meta updates - using ChatInterface loading animation instead
-                },
-                onError: (err) => {
-                  // Skip error updates - using ChatInterface loading animation instead
-                },
-                onDone: async () => {
-                  if (flushTimer != null) {
-                    window.clearTimeout(flushTimer);
-                    flushTimer = null;
-                  }
-                  
-                  // Add placeholder for super fast typing animation
-                  const fullResponse = buffer.trim();
-                  if (fullResponse) {
-                    const placeholderTs = Date.now();
-                    const placeholder: ChatMessage = {
-                      role: 'assistant',
-                      content: '',
-                      modelId: m.id,
-                      ts: placeholderTs,
-                    };
-                    setThreads((prev) =>
-                      prev.map((t) =>
-                        t.id === thread.id
-                          ? { ...t, messages: [...(t.messages ?? nextHistory), placeholder] }
-                          : t,
-                      ),
-                    );
-                    
-                    // Super fast typing effect with requestAnimationFrame for smooth scrolling
-                    let i = 0;
-                    const step = Math.max(2, Math.ceil(fullResponse.length / 40)); // Smaller steps for smoother animation
-                    let lastUpdate = 0;
-                    const animate = (timestamp: number) => {
-                      if (timestamp - lastUpdate >= 12) { // Throttle to ~83fps for smoothness
-                        i = Math.min(fullResponse.length, i + step);
-                        const chunk = fullResponse.slice(0, i);
-                        setThreads((prev) =>
-                          prev.map((t) => {
-                            if (t.id !== thread.id) return t;
-                            const msgs = (t.messages ?? []).map((msg) =>
-                              msg.ts === placeholderTs && msg.modelId === m.id
-                                ? { ...msg, content: chunk }
-                                : msg,
-                            );
-                            return { ...t, messages: msgs };
-                          }),
-                        );
-                        lastUpdate = timestamp;
-                      }
-                      
-                      if (i < fullResponse.length) {
-                        requestAnimationFrame(animate);
-                      } else {
-                        // Save to database after typing completes
-                        if (userId && thread.id) {
-                          const finalMsg: ChatMessage = {
-                            role: 'assistant',
-                            content: fullResponse,
-                            modelId: m.id,
-                            ts: placeholderTs,
-                          };
-                          addMessageDb({ userId, chatId: thread.id, message: finalMsg }).catch(e => 
-                            console.error('Failed to save openrouter assistant message to DB:', e)
-                          );
-                        }
-                      }
-                    };
-                    requestAnimationFrame(animate);
-                  }
-                  
-                  if (!gotAny) {
-                    try {
-                      const res = await callOpenRouter({
-                        apiKey: keys.openrouter || undefined,
-                        model: m.model,
-                        messages: nextHistory,
-                        imageDataUrl,
-                        signal: controller.signal,
-                      });
-                      const text = extractText(res);
-                      if (text && text.trim()) {
-                        const assistantMsg: ChatMessage = {
-                          role: 'assistant',
-                          content: String(text).trim(),
-                          modelId: m.id,
-                          ts: Date.now(),
-                        };
-                        setThreads((prev) =>
-                          prev.map((t) =>
-                            t.id === thread.id
-                              ? { ...t, messages: [...(t.messages ?? nextHistory), assistantMsg] }
-                              : t,
-                          ),
-                        );
-                        
-                        // Save to database
-                        if (userId && thread.id) {
-                          try {
-                            await addMessageDb({
-                              userId,
-                              chatId: thread.id,
-                              message: assistantMsg,
-                            });
-                          } catch (e) {
-                            console.error('Failed to save assistant message to DB:', e);
-                          }
-                        }
-                      }
-                    } catch {}
-                  }
-                },
-              },
-            );
-          }
-        } finally {
-          delete abortControllers[m.id];
-          // Skip internal loading - using ChatInterface loading animation instead
-          // setLoadingIds((prev) => prev.filter((x) => x !== m.id));
+    await Promise.allSettled(
+      generation.answers.map(({ modelId, ts }) => {
+        const m = selectedModels.find((mm) => mm.id === modelId);
+        if (!m) {
+          upsertAnswer(
+            t.id,
+            modelId,
+            ts,
+            (msg) => ({ ...msg, content: 'Not sent: this model is no longer selected.' }),
+            replayHistory,
+          );
+          return Promise.resolve();
         }
+        return runModel(m, t.id, contextFor(m, replayHistory), {
+          placeholderTs: ts,
+          parentId: generation.prompt.id ?? null,
+        });
       }),
     );
+    return true;
   }
 
   function onEditUser(turnIndex: number, newText: string) {
@@ -837,20 +581,18 @@ export function createChatActions({
     }
     if (userIdx < 0) return;
 
-    const updated: ChatMessage[] = [...original];
-    updated[userIdx] = { ...updated[userIdx], content: newText };
-    let j = userIdx + 1;
-    while (j < updated.length && updated[j].role !== 'user') j++;
-    updated.splice(userIdx + 1, j - (userIdx + 1));
+    // The edited prompt becomes a new branch; the old prompt and its answers stay reachable
+    const branch = branchFromTurn(t, userIdx, { content: newText, ts: Date.now() });
+    const updated: ChatMessage[] = [...branch.messages];
 
     const placeholders: { model: AiModel; ts: number }[] = [];
     const inserts: ChatMessage[] = [];
-    for (const m of selectedModels) {
+    for (const m of turnModels(branch.user.targetModelId)) {
       const ts = Date.now() + Math.floor(Math.random() * 1000);
       placeholders.push({ model: m, ts });
-      inserts.push({ role: 'assistant', content: '', modelId: m.id, ts });
+      inserts.push({ role: 'assistant', content: 'Thinking…', modelId: m.id, ts });
     }
-    updated.splice(userIdx + 1, 0, ...inserts);
+    updated.push(...inserts);
 
     const newTitle =
       t.title === 'New Chat' ||
@@ -858,285 +600,27 @@ export function createChatActions({
         ? (updated.find((mm) => mm.role === 'user')?.content ?? 'New Chat').slice(0, 40)
         : t.title;
     setThreads((prev) =>
-      prev.map((tt) => (tt.id === t.id ? { ...tt, messages: updated, title: newTitle } : tt)),
+      prev.map((tt) =>
+        tt.id === t.id
+          ? { ...tt, messages: updated, branches: branch.branches, title: newTitle }
+          : tt,
+      ),
     );
+    savePrompt(t.id, branch.user);
 
     const baseHistory = updated.slice(0, userIdx + 1);
 
     // Skip internal loading - using ChatInterface loading animation instead
-    // setLoadingIdsInit(selectedModels.map(m => m.id));
-    Promise.allSettled(selectedModels.map(async (m) => {
-      const controller = new AbortController();
-      abortControllers[m.id] = controller;
-      const ph = placeholders.find(p => p.model.id === m.id);
-      if (!ph) { 
-        // Skip internal loading - using ChatInterface loading animation instead
-        // setLoadingIds(prev => prev.filter(x => x !== m.id)); 
-        return; 
-      }
-      const placeholderTs = ph.ts;
-      try {
-        if (m.provider === 'gemini') {
-          const res = await callGemini({ apiKey: keys.gemini || undefined, model: m.model, messages: baseHistory, signal: controller.signal });
-          const full = String(extractText(res) || '').trim();
-          if (!full) {
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: 'No response' } : msg);
-              return { ...tt, messages: msgs };
-            }));
-          } else {
-            // typewriter effect
-            let i = 0;
-            const step = Math.max(2, Math.ceil(full.length / 80));
-            const timer = window.setInterval(() => {
-              i = Math.min(full.length, i + step);
-              const chunk = full.slice(0, i);
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: chunk } : msg);
-                return { ...tt, messages: msgs };
-              }));
-              if (i >= full.length) window.clearInterval(timer);
-            }, 24);
-          }
-        } else if (m.provider === 'open-provider') {
-          const res = await callOpenProvider({ apiKey: keys['open-provider'] || undefined, model: m.model, messages: baseHistory, voice: selectedVoice });
-          const full = String(extractText(res) || '').trim();
-          if (!full) {
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                ? { ...msg, content: 'No response', provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                : msg);
-              return { ...tt, messages: msgs };
-            }));
-          } else {
-            // typewriter effect for all models (image models already have markdown in the response)
-            let i = 0;
-            const step = Math.max(2, Math.ceil(full.length / 80));
-            const timer = window.setInterval(() => {
-              i = Math.min(full.length, i + step);
-              const chunk = full.slice(0, i);
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: chunk } : msg);
-                return { ...tt, messages: msgs };
-              }));
-              if (i >= full.length) {
-                window.clearInterval(timer);
-                // attach provider meta and token info once complete
-                setThreads(prev => prev.map(tt => {
-                  if (tt.id !== t.id) return tt;
-                  const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                    ? { ...msg, provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                    : msg);
-                  return { ...tt, messages: msgs };
-                }));
-                
-                // Save final message to database
-                if (userId && t.id) {
-                  const finalMsg: ChatMessage = {
-                    role: 'assistant',
-                    content: full,
-                    modelId: m.id,
-                    ts: placeholderTs,
-                  };
-                  addMessageDb({ userId, chatId: t.id, message: finalMsg }).catch(e => 
-                    console.error('Failed to save assistant message to DB:', e)
-                  );
-                }
-              }
-            }, 24);
-          }
-        } else if (m.provider === 'unstable') {
-          const res = await callUnstable({ apiKey: keys['unstable'] || undefined, model: m.model, messages: baseHistory });
-          if (res && typeof (res as { error?: unknown })?.error === 'string') {
-            const errText = String((res as { error: unknown }).error).trim();
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                ? { ...msg, content: errText, provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, code: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.code } as ChatMessage
-                : msg);
-              return { ...tt, messages: msgs };
-            }));
-            return;
-          }
-          const full = String(extractText(res) || '').trim();
-          if (!full) {
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                ? { ...msg, content: 'No response', provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                : msg);
-              return { ...tt, messages: msgs };
-            }));
-          } else {
-            // typewriter effect for unstable models
-            let i = 0;
-            const step = Math.max(2, Math.ceil(full.length / 80));
-            const timer = window.setInterval(() => {
-              i = Math.min(full.length, i + step);
-              const chunk = full.slice(0, i);
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: chunk } : msg);
-                return { ...tt, messages: msgs };
-              }));
-              if (i >= full.length) {
-                window.clearInterval(timer);
-                // attach provider meta and token info once complete
-                setThreads(prev => prev.map(tt => {
-                  if (tt.id !== t.id) return tt;
-                  const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                    ? { ...msg, provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                    : msg);
-                  return { ...tt, messages: msgs };
-                }));
-              }
-            }, 24);
-          }
-        } else if (m.provider === 'mistral') {
-          const res = await callMistral({ apiKey: keys['mistral'] || undefined, model: m.model, messages: baseHistory });
-          const full = String(extractText(res) || '').trim();
-          if (!full) {
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                ? { ...msg, content: 'No response', provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                : msg);
-              return { ...tt, messages: msgs };
-            }));
-          } else {
-            // typewriter effect for mistral models
-            let i = 0;
-            const step = Math.max(2, Math.ceil(full.length / 80));
-            const timer = window.setInterval(() => {
-              i = Math.min(full.length, i + step);
-              const chunk = full.slice(0, i);
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: chunk } : msg);
-                return { ...tt, messages: msgs };
-              }));
-              if (i >= full.length) {
-                window.clearInterval(timer);
-                // attach provider meta and token info once complete
-                setThreads(prev => prev.map(tt => {
-                  if (tt.id !== t.id) return tt;
-                  const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                    ? { ...msg, provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                    : msg);
-                  return { ...tt, messages: msgs };
-                }));
-              }
-            }, 24);
-          }
-        } else if (m.provider === 'ollama') {
-          const res = await callOllama({ baseUrl: keys['ollama'] || undefined, model: m.model, messages: baseHistory });
-          const full = String(extractText(res) || '').trim();
-          // Check for empty response or literal "No response"
-          if (!full || full === 'No response') {
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                ? { ...msg, content: 'No response', provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                : msg);
-              return { ...tt, messages: msgs };
-            }));
-          } else {
-            // typewriter effect for ollama models
-            let i = 0;
-            const step = Math.max(2, Math.ceil(full.length / 80));
-            const timer = window.setInterval(() => {
-              i = Math.min(full.length, i + step);
-              const chunk = full.slice(0, i);
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: chunk } : msg);
-                return { ...tt, messages: msgs };
-              }));
-              if (i >= full.length) {
-                window.clearInterval(timer);
-                // attach provider meta and token info once complete
-                setThreads(prev => prev.map(tt => {
-                  if (tt.id !== t.id) return tt;
-                  const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id)
-                    ? { ...msg, provider: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.provider, usedKeyType: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.usedKeyType, tokens: (res as { provider?: string; usedKeyType?: 'user' | 'shared' | 'none'; tokens?: object; code?: number; error?: string })?.tokens } as ChatMessage
-                    : msg);
-                  return { ...tt, messages: msgs };
-                }));
-              }
-            }, 24);
-          }
-        } else {
-          let buffer = '';
-          let flushTimer: number | null = null;
-          let gotAny = false;
-          const flush = () => {
-            if (!buffer) return;
-            const chunk = buffer; buffer = '';
-            setThreads(prev => prev.map(tt => {
-              if (tt.id !== t.id) return tt;
-              const msgs = (tt.messages ?? []).map(msg => {
-                if (!(msg.ts === placeholderTs && msg.modelId === m.id)) return msg;
-                const cur = msg.content || '';
-                const next = cur === 'Thinking…' ? chunk : cur + chunk;
-                return { ...msg, content: next };
-              });
-              return { ...tt, messages: msgs };
-            }));
-          };
-          await streamOpenRouter({ apiKey: keys.openrouter || undefined, model: m.model, messages: baseHistory, signal: controller.signal }, {
-            onToken: (delta) => {
-              gotAny = true;
-              buffer += delta;
-              if (flushTimer == null) flushTimer = window.setTimeout(() => { flushTimer = null; flush(); }, 24);
-            },
-            onMeta: (meta) => {
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, provider: meta.provider, usedKeyType: meta.usedKeyType } as ChatMessage : msg);
-                return { ...tt, messages: msgs };
-              }));
-            },
-            onError: (err) => {
-              if (flushTimer != null) { window.clearTimeout(flushTimer); flushTimer = null; }
-              const text = err.error || 'Error';
-              setThreads(prev => prev.map(tt => {
-                if (tt.id !== t.id) return tt;
-                const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: text, code: err.code, provider: err.provider, usedKeyType: err.usedKeyType } as ChatMessage : msg);
-                return { ...tt, messages: msgs };
-              }));
-            },
-            onDone: async () => {
-              if (flushTimer != null) { window.clearTimeout(flushTimer); flushTimer = null; }
-              flush();
-              if (!gotAny) {
-                try {
-                  const res = await callOpenRouter({ apiKey: keys.openrouter || undefined, model: m.model, messages: baseHistory, signal: controller.signal });
-                  const text = extractText(res);
-                  setThreads(prev => prev.map(tt => {
-                    if (tt.id !== t.id) return tt;
-                    const msgs = (tt.messages ?? []).map(msg => (msg.ts === placeholderTs && msg.modelId === m.id) ? { ...msg, content: String(text).trim() } : msg);
-                    return { ...tt, messages: msgs };
-                  }));
-                } catch {}
-              }
-            }
-          });
-        }
-        } finally {
-          delete abortControllers[m.id];
-          // Skip internal loading - using ChatInterface loading animation instead
-          // setLoadingIds(prev => prev.filter(x => x !== m.id));
-        }
-    }));
+    Promise.allSettled(
+      placeholders.map(({ model, ts }) =>
+        runModel(model, t.id, contextFor(model, baseHistory), { placeholderTs: ts }),
+      ),
+    );
   }
 
   function onDeleteUser(turnIndex: number) {
     if (!activeThread) return;
-    const t = threads.find(tt => tt.id === activeThread.id);
+    const t = threads.find((tt) => tt.id === activeThread.id);
     if (!t) return;
     const original = [...(t.messages ?? [])];
 
@@ -1147,7 +631,10 @@ export function createChatActions({
     for (let i = 0; i < original.length; i++) {
       if (original[i].role === 'user') {
         userCount += 1;
-        if (userCount === turnIndex) { userIdx = i; break; }
+        if (userCount === turnIndex) {
+          userIdx = i;
+          break;
+        }
       }
     }
     if (userIdx < 0) return;
@@ -1159,12 +646,12 @@ export function createChatActions({
     // Remove the user message and all assistant responses until the next user message
     updated.splice(userIdx, j - userIdx);
 
-    setThreads(prev => prev.map(tt => tt.id === t.id ? { ...tt, messages: updated } : tt));
+    setThreads((prev) => prev.map((tt) => (tt.id === t.id ? { ...tt, messages: updated } : tt)));
   }
 
   function onDeleteAnswer(turnIndex: number, modelId: string) {
     if (!activeThread) return;
-    const t = threads.find(tt => tt.id === activeThread.id);
+    const t = threads.find((tt) => tt.id === activeThread.id);
     if (!t) return;
     const original = [...(t.messages ?? [])];
 
@@ -1175,7 +662,10 @@ export function createChatActions({
     for (let i = 0; i < original.length; i++) {
       if (original[i].role === 'user') {
         userCount += 1;
-        if (userCount === turnIndex) { userIdx = i; break; }
+        if (userCount === turnIndex) {
+          userIdx = i;
+          break;
+        }
       }
     }
     if (userIdx < 0) return;
@@ -1190,8 +680,79 @@ export function createChatActions({
       }
     }
 
-    setThreads(prev => prev.map(tt => tt.id === t.id ? { ...tt, messages: updated } : tt));
+    setThreads((prev) => prev.map((tt) => (tt.id === t.id ? { ...tt, messages: updated } : tt)));
+  }
+
+  // Send the turn's prompt and every finished answer to a judge model, which either merges
+  // them into one answer or ranks them. The result replaces any earlier synthesis of the turn.
+  function synthesize(turnIndex: number, judge: AiModel, mode: SynthesisMode) {
+    if (!activeThread) return;
+    const t = threads.find((tt) => tt.id === activeThread.id);
+    if (!t) return;
+    const original = [...(t.messages ?? [])];
+
+    let userCount = -1;
+    let userIdx = -1;
+    for (let i = 0; i < original.length; i++) {
+      if (original[i].role === 'user') {
+        userCount += 1;
+        if (userCount === turnIndex) {
+          userIdx = i;
+          break;
+        }
+      }
+    }
+    if (userIdx < 0) return;
+    let j = userIdx + 1;
+    while (j < original.length && original[j].role !== 'user') j++;
+
+    // Partial answers would be judged as if they were complete
+    if (!turnAnswersDone(original.slice(userIdx + 1, j))) {
+      toast.warn('Wait for every answer to finish before synthesizing.');
+      return;
+    }
+    const answers = synthesisCandidates(original.slice(userIdx + 1, j));
+    if (answers.length < 2) {
+      toast.warn('Synthesis needs at least two finished answers.');
+      return;
+    }
+
+    abortControllers[SYNTHESIS_MODEL_ID]?.abort();
+
+    const labelOf = (id?: string) => selectedModels.find((m) => m.id === id)?.label || id || '';
+    const prompt = buildSynthesisPrompt({
+      prompt: original[userIdx].content,
+      answers: answers.map((a) => ({ label: labelOf(a.modelId), content: a.content })),
+      mode,
+    });
+
+    const ts = Date.now();
+    const parentId = original[userIdx].id ?? null;
+    const extraMeta: AnswerMeta = { synthesis: { judgeModelId: judge.id, mode } };
+    const turn = original.slice(userIdx + 1, j).filter((msg) => !isSynthesisAnswer(msg));
+    const updated: ChatMessage[] = [
+      ...original.slice(0, userIdx + 1),
+      ...turn,
+      {
+        role: 'assistant',
+        content: 'Thinking…',
+        modelId: SYNTHESIS_MODEL_ID,
+        ts,
+        parentId,
+        ...extraMeta,
+      },
+      ...original.slice(j),
+    ];
+    setThreads((prev) => prev.map((tt) => (tt.id === t.id ? { ...tt, messages: updated } : tt)));
+
+    runModel(judge, t.id, [{ role: 'user', content: prompt, ts }], {
+      placeholderTs: ts,
+      answerId: SYNTHESIS_MODEL_ID,
+      extraMeta,
+      parentId,
+      skipRetrieval: true,
+    });
   }
 
-  return { send, onEditUser, onDeleteUser, onDeleteAnswer };
-}
\ No newline at end of file
+  return { send, onEditUser, onDeleteUser, onDeleteAnswer, synthesize, replayGeneration };
+}
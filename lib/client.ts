@@ -1,18 +1,21 @@
-import { ChatMessage } from './types';
+import type { ChatMessage, GenerationParams } from './types';
+import type { ProviderStreamHandlers } from './providers/types';
 
 export async function callGemini(args: {
   apiKey?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   imageDataUrl?: string;
   signal?: AbortSignal;
 }) {
-  const endpoint = args.model === 'gemini-2.5-pro' ? '/api/gemini-pro' : '/api/gemini';
+  const { signal, ...body } = args;
+  const endpoint = body.model === 'gemini-2.5-pro' ? '/api/gemini-pro' : '/api/gemini';
   const res = await fetch(endpoint, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(args),
-    signal: args.signal,
+    body: JSON.stringify(body),
+    signal,
   });
   return res.json();
 }
@@ -21,18 +24,21 @@ export async function callOpenRouter(args: {
   apiKey?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   imageDataUrl?: string;
+  images?: string[]; // several image data URLs; takes precedence over imageDataUrl
   signal?: AbortSignal;
 }) {
+  const { signal, ...body } = args;
   const res = await fetch('/api/openrouter', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
-      ...args,
+      ...body,
       referer: typeof window !== 'undefined' ? window.location.origin : undefined,
       title: 'AI Fiesta',
     }),
-    signal: args.signal,
+    signal,
   });
   return res.json();
 }
@@ -41,13 +47,17 @@ export async function callOpenProvider(args: {
   apiKey?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   imageDataUrl?: string;
   voice?: string;
+  signal?: AbortSignal;
 }) {
+  const { signal, ...body } = args;
   const res = await fetch('/api/open-provider', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(args),
+    body: JSON.stringify(body),
+    signal,
   });
   return res.json();
 }
@@ -56,12 +66,16 @@ export async function callUnstable(args: {
   apiKey?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   imageDataUrl?: string;
+  signal?: AbortSignal;
 }) {
+  const { signal, ...body } = args;
   const res = await fetch('/api/unstable', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(args),
+    body: JSON.stringify(body),
+    signal,
   });
   return res.json();
 }
@@ -70,12 +84,16 @@ export async function callMistral(args: {
   apiKey?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   imageDataUrl?: string;
+  signal?: AbortSignal;
 }) {
+  const { signal, ...body } = args;
   const res = await fetch('/api/mistral', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(args),
+    body: JSON.stringify(body),
+    signal,
   });
   return res.json();
 }
@@ -84,6 +102,7 @@ export async function callOllama(args: {
   baseUrl?: string;
   model: string;
   messages: ChatMessage[];
+  params?: GenerationParams;
   signal?: AbortSignal;
 }) {
   const { signal, ...body } = args;
@@ -96,51 +115,60 @@ export async function callOllama(args: {
   return res.json();
 }
 
-export type ORStreamHandlers = {
-  onToken: (chunk: string) => void;
-  onMeta?: (meta: { provider?: string; usedKeyType?: 'user' | 'shared' | 'none' }) => void;
-  onError?: (err: {
-    error?: string;
-    code?: number;
-    provider?: string;
-    usedKeyType?: 'user' | 'shared' | 'none';
-  }) => void;
-  onDone?: () => void;
-};
+export async function callOpenAICompatible(args: {
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  model: string;
+  messages: ChatMessage[];
+  params?: GenerationParams;
+  signal?: AbortSignal;
+}) {
+  const { signal, ...body } = args;
+  const res = await fetch('/api/openai-compatible', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  return res.json();
+}
+
+export type ORStreamHandlers = ProviderStreamHandlers;
 
-export async function streamOpenRouter(
-  args: {
-    apiKey?: string;
-    model: string;
-    messages: ChatMessage[];
-    imageDataUrl?: string;
-    signal?: AbortSignal;
-  },
+// Read one of our /api/*/stream endpoints (see lib/server/sse.ts for the wire format)
+async function streamSSE(
+  endpoint: string,
+  body: Record<string, unknown>,
+  signal: AbortSignal | undefined,
   handlers: ORStreamHandlers,
+  provider: string,
 ) {
+  let finished = false;
+  const done = () => {
+    if (finished) return;
+    finished = true;
+    handlers.onDone?.();
+  };
   try {
-    const res = await fetch('/api/openrouter/stream', {
+    const res = await fetch(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        ...args,
-        referer: typeof window !== 'undefined' ? window.location.origin : undefined,
-        title: 'AI Fiesta',
-      }),
-      signal: args.signal,
+      body: JSON.stringify(body),
+      signal,
     });
     if (!res.body) {
-      handlers.onError?.({ error: 'No stream body', code: res.status, provider: 'openrouter' });
-      handlers.onDone?.();
+      handlers.onError?.({ error: 'No stream body', code: res.status, provider });
+      done();
       return;
     }
     const reader = res.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
     const pump = async (): Promise<void> => {
-      const { value, done } = await reader.read();
-      if (done) {
-        handlers.onDone?.();
+      const { value, done: eof } = await reader.read();
+      if (eof) {
+        done();
         return;
       }
       buffer += decoder.decode(value, { stream: true });
@@ -151,13 +179,14 @@ export async function streamOpenRouter(
         if (!line.startsWith('data:')) continue;
         const payload = line.slice(5).trim();
         if (payload === '[DONE]') {
-          handlers.onDone?.();
+          done();
           return;
         }
         try {
           const json = JSON.parse(payload);
           if (typeof json?.delta === 'string' && json.delta) handlers.onToken(json.delta);
           if (json?.provider || json?.usedKeyType) handlers.onMeta?.(json);
+          if (json?.usage && typeof json.usage === 'object') handlers.onUsage?.(json.usage);
           if (json?.error)
             handlers.onError?.({
               error: json.error,
@@ -175,11 +204,131 @@ export async function streamOpenRouter(
   } catch (err) {
     if (err instanceof DOMException && err.name === 'AbortError') {
       // Abort is expected, no need to show an error.
-      handlers.onDone?.();
+      done();
       return;
     }
     const e = err as Error | undefined;
-    handlers.onError?.({ error: e?.message || 'Stream failed', provider: 'openrouter' });
-    handlers.onDone?.();
+    handlers.onError?.({ error: e?.message || 'Stream failed', provider });
+    done();
   }
 }
+
+export async function streamOpenRouter(
+  args: {
+    apiKey?: string;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    imageDataUrl?: string;
+    images?: string[];
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  return streamSSE(
+    '/api/openrouter/stream',
+    {
+      ...body,
+      referer: typeof window !== 'undefined' ? window.location.origin : undefined,
+      title: 'AI Fiesta',
+    },
+    signal,
+    handlers,
+    'openrouter',
+  );
+}
+
+export async function streamGemini(
+  args: {
+    apiKey?: string;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    imageDataUrl?: string;
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  const endpoint =
+    args.model === 'gemini-2.5-pro' ? '/api/gemini-pro/stream' : '/api/gemini/stream';
+  return streamSSE(endpoint, body, signal, handlers, 'gemini');
+}
+
+export async function streamMistral(
+  args: {
+    apiKey?: string;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    imageDataUrl?: string;
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  return streamSSE('/api/mistral/stream', body, signal, handlers, 'mistral');
+}
+
+export async function streamOllama(
+  args: {
+    baseUrl?: string;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  return streamSSE('/api/ollama/stream', body, signal, handlers, 'ollama');
+}
+
+export async function streamOpenProvider(
+  args: {
+    apiKey?: string;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  return streamSSE('/api/open-provider/stream', body, signal, handlers, 'open-provider');
+}
+
+export async function streamOpenAICompatible(
+  args: {
+    baseUrl: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+    model: string;
+    messages: ChatMessage[];
+    params?: GenerationParams;
+    signal?: AbortSignal;
+  },
+  handlers: ORStreamHandlers,
+) {
+  const { signal, ...body } = args;
+  return streamSSE('/api/openai-compatible/stream', body, signal, handlers, 'openai-compatible');
+}
+
+export async function validateOpenRouterModel(args: { slug: string; apiKey?: string }) {
+  const res = await fetch('/api/openrouter/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(args),
+  });
+  return res.json();
+}
+
+export async function validateOllamaModel(args: { slug: string; baseUrl?: string }) {
+  const res = await fetch('/api/ollama/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(args),
+  });
+  return res.json();
+}
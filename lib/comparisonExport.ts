@@ -0,0 +1,199 @@
+// Comparison exports: each turn as one prompt with a column per model, rather than the
+// sequential transcript of formatChatForExport. Pure formatters; downloads live in exportUtils.
+import { findTurnVote, type BlindVote } from './blindVotes';
+import { formatCost, formatLatency } from './metrics';
+import type { AiModel, ChatMessage, ChatThread } from './types';
+
+export type ComparisonTurn = {
+  index: number; // 1-based
+  prompt: ChatMessage;
+  answers: ChatMessage[];
+  vote?: BlindVote; // blind-mode vote cast on this turn
+};
+
+// Group the thread's active path into turns and attach any vote cast on each one
+export function comparisonTurns(thread: ChatThread, votes: BlindVote[] = []): ComparisonTurn[] {
+  const turns: ComparisonTurn[] = [];
+  for (const m of thread.messages) {
+    if (m.role === 'user') {
+      turns.push({
+        index: turns.length + 1,
+        prompt: m,
+        answers: [],
+        vote: m.ts !== undefined ? findTurnVote(votes, m.ts) : undefined,
+      });
+    } else if (m.role === 'assistant' && turns.length > 0) {
+      turns[turns.length - 1].answers.push(m);
+    }
+  }
+  return turns;
+}
+
+// 'win' / 'loss' / 'tie' for an answer in a voted turn, '' when the turn was not voted on
+export function voteOutcome(turn: ComparisonTurn, modelId?: string): 'win' | 'loss' | 'tie' | '' {
+  const vote = turn.vote;
+  if (!vote || !modelId || !vote.modelIds.includes(modelId)) return '';
+  if (vote.winner === 'tie') return 'tie';
+  return vote.winner === modelId ? 'win' : 'loss';
+}
+
+function modelLabel(models: AiModel[], modelId?: string): string {
+  return models.find((m) => m.id === modelId)?.label ?? modelId ?? 'Assistant';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function metricsSummary(answer: ChatMessage): string {
+  const m = answer.metrics;
+  if (!m) return '';
+  const parts: string[] = [];
+  if (m.latencyMs !== undefined) parts.push(formatLatency(m.latencyMs));
+  if (m.completionTokens !== undefined) {
+    parts.push(`${m.estimated ? '~' : ''}${m.completionTokens} tokens`);
+  }
+  if (m.costUsd !== undefined) parts.push(formatCost(m.costUsd));
+  return parts.join(' · ');
+}
+
+const VOTE_BADGES = { win: 'Winner', tie: 'Tie', loss: '', '': '' } as const;
+
+/**
+ * Standalone HTML page with one table per turn and a column per model.
+ * Answers are shown as escaped plain text so the file is safe to open anywhere.
+ */
+export function formatComparisonHtml(
+  thread: ChatThread,
+  models: AiModel[],
+  votes: BlindVote[] = [],
+): string {
+  const title = escapeHtml(thread.title || 'Untitled Chat');
+  const date = new Date(thread.createdAt).toLocaleString('en-US');
+
+  const tables = comparisonTurns(thread, votes)
+    .map((turn) => {
+      const head = turn.answers
+        .map((a) => {
+          const badge = VOTE_BADGES[voteOutcome(turn, a.modelId)];
+          return `<th>${escapeHtml(modelLabel(models, a.modelId))}${
+            badge ? ` <span class="badge">${badge}</span>` : ''
+          }</th>`;
+        })
+        .join('');
+      const cells = turn.answers.map((a) => `<td>${escapeHtml(a.content)}</td>`).join('');
+      const stats = turn.answers
+        .map((a) => `<td class="stats">${escapeHtml(metricsSummary(a))}</td>`)
+        .join('');
+      return `<section>
+<h2>Turn ${turn.index}</h2>
+<div class="prompt">${escapeHtml(turn.prompt.content)}</div>
+${
+  turn.answers.length
+    ? `<table><thead><tr>${head}</tr></thead><tbody><tr>${cells}</tr><tr>${stats}</tr></tbody></table>`
+    : '<p class="stats">No answers</p>'
+}
+</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 32px; color: #1f2937; }
+h1 { margin-bottom: 4px; }
+.date { color: #6b7280; margin-bottom: 24px; }
+section { margin-bottom: 40px; }
+.prompt { white-space: pre-wrap; background: #eff6ff; border-left: 4px solid #2563eb; padding: 12px 16px; margin-bottom: 12px; }
+table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+th, td { border: 1px solid #e5e7eb; padding: 10px 12px; vertical-align: top; text-align: left; }
+th { background: #f9fafb; }
+td { white-space: pre-wrap; word-wrap: break-word; font-size: 14px; line-height: 1.5; }
+.stats { color: #6b7280; font-size: 12px; }
+.badge { background: #16a34a; color: #fff; border-radius: 4px; padding: 1px 6px; font-size: 11px; font-weight: 500; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="date">${escapeHtml(date)}</div>
+${tables}
+</body>
+</html>
+`;
+}
+
+// Text a spreadsheet would run as a formula (=, +, -, @, or a leading tab or CR) gets a `'`
+// prefix so it shows as typed. Numbers are written as is.
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const COMPARISON_CSV_COLUMNS = [
+  'turn',
+  'prompt',
+  'model',
+  'answer',
+  'latency_ms',
+  'prompt_tokens',
+  'completion_tokens',
+  'vote',
+] as const;
+
+/**
+ * One row per answer (RFC 4180 quoting, CRLF line endings, formulas escaped)
+ */
+export function formatComparisonCsv(thread: ChatThread, votes: BlindVote[] = []): string {
+  const rows: (string | number | undefined)[][] = [[...COMPARISON_CSV_COLUMNS]];
+  for (const turn of comparisonTurns(thread, votes)) {
+    for (const a of turn.answers) {
+      rows.push([
+        turn.index,
+        turn.prompt.content,
+        a.modelId,
+        a.content,
+        a.metrics?.latencyMs,
+        a.metrics?.promptTokens,
+        a.metrics?.completionTokens,
+        voteOutcome(turn, a.modelId),
+      ]);
+    }
+  }
+  return rows.map((r) => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Evaluation dataset: one JSON object per turn with the prompt and every model's completion.
+ * `winner` is the voted model id, 'tie', or null when the turn was not voted on.
+ */
+export function formatComparisonJsonl(thread: ChatThread, votes: BlindVote[] = []): string {
+  return comparisonTurns(thread, votes)
+    .filter((turn) => turn.answers.length > 0)
+    .map(
+      (turn) =>
+        JSON.stringify({
+          thread_id: thread.id,
+          turn: turn.index,
+          prompt: turn.prompt.content,
+          completions: turn.answers.map((a) => ({
+            model: a.modelId ?? null,
+            text: a.content,
+            latency_ms: a.metrics?.latencyMs ?? null,
+            prompt_tokens: a.metrics?.promptTokens ?? null,
+            completion_tokens: a.metrics?.completionTokens ?? null,
+            ...(a.code && a.code >= 400 ? { error: true } : {}),
+          })),
+          winner: turn.vote?.winner ?? null,
+        }) + '\n',
+    )
+    .join('');
+}
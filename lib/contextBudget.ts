@@ -0,0 +1,120 @@
+import { estimateTokens } from './utils';
+import type { ChatMessage, ContextUsage } from './types';
+
+// Keep a model's prompt inside its context window. The system message and the latest turn are
+// always sent; older turns are dropped oldest first and replaced by a short summary of what
+// they said, so the model still knows what the conversation covered.
+
+// Role markers and separators the providers add around every message
+const MESSAGE_OVERHEAD = 4;
+// Room left for the answer when the request sets no max tokens
+const DEFAULT_OUTPUT_RESERVE = 4_096;
+// Share of the prompt budget the summary of dropped turns may take, and its hard cap
+const SUMMARY_SHARE = 0.15;
+const SUMMARY_MAX_TOKENS = 1_500;
+// Characters kept from each dropped prompt and answer
+const SUMMARY_PROMPT_CHARS = 240;
+const SUMMARY_ANSWER_CHARS = 360;
+
+export function messageTokens(m: ChatMessage): number {
+  return estimateTokens(String(m.content || '')) + MESSAGE_OVERHEAD;
+}
+
+// Tokens the prompt may use: the window minus room for the answer
+export function promptBudget(contextWindow: number, maxTokens?: number): number {
+  const reserve = maxTokens ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(contextWindow / 4));
+  return Math.max(0, contextWindow - reserve);
+}
+
+// Each user message with the answers that follow it
+function splitTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const m of messages) {
+    if (m.role === 'user' || turns.length === 0) turns.push([m]);
+    else turns[turns.length - 1].push(m);
+  }
+  return turns;
+}
+
+function clip(text: string, max: number): string {
+  const t = text.replace(/\s+/g, ' ').trim();
+  return t.length > max ? `${t.slice(0, max - 1).trimEnd()}…` : t;
+}
+
+/**
+ * Digest of turns that no longer fit: the start of every prompt and answer. When even that is
+ * over `maxTokens`, the most recent turns are kept and the rest are only counted.
+ */
+export function summarizeTurns(turns: ChatMessage[][], maxTokens: number): string {
+  const header = `Summary of ${turns.length} earlier turn${turns.length === 1 ? '' : 's'} left out to fit the context window:`;
+  const entries = turns.map((turn) =>
+    turn
+      .map((m) =>
+        m.role === 'user'
+          ? `- User: ${clip(m.content, SUMMARY_PROMPT_CHARS)}`
+          : `  Answer: ${clip(m.content, SUMMARY_ANSWER_CHARS)}`,
+      )
+      .join('\n'),
+  );
+  let used = estimateTokens(header);
+  let first = entries.length;
+  while (first > 0 && used + estimateTokens(entries[first - 1]) <= maxTokens) {
+    first -= 1;
+    used += estimateTokens(entries[first]);
+  }
+  const omitted = first > 0 ? [`- (${first} earliest not shown)`] : [];
+  return [header, ...omitted, ...entries.slice(first)].join('\n');
+}
+
+/**
+ * Fit `messages` (system message first, if any) into `contextWindow`, leaving room for
+ * `maxTokens` of answer. Token counts are the chars/4 estimate used elsewhere.
+ */
+export function fitToContext(
+  messages: ChatMessage[],
+  opts: { contextWindow: number; maxTokens?: number },
+): { messages: ChatMessage[]; usage: ContextUsage } {
+  const budget = promptBudget(opts.contextWindow, opts.maxTokens);
+  const system = messages[0]?.role === 'system' ? messages[0] : undefined;
+  const turns = splitTurns(system ? messages.slice(1) : messages);
+  const turnTokens = turns.map((turn) => turn.reduce((sum, m) => sum + messageTokens(m), 0));
+  const summaryBudget = Math.min(SUMMARY_MAX_TOKENS, Math.floor(budget * SUMMARY_SHARE));
+
+  let kept = turnTokens.reduce((a, b) => a + b, 0);
+  let dropped = 0;
+  let summary = '';
+  const fixed = () =>
+    estimateTokens([system?.content, summary].filter(Boolean).join('\n\n')) +
+    (system || summary ? MESSAGE_OVERHEAD : 0);
+  // The latest turn always stays, even when it alone is over budget
+  while (fixed() + kept > budget && dropped < turns.length - 1) {
+    kept -= turnTokens[dropped];
+    dropped += 1;
+    summary = summarizeTurns(turns.slice(0, dropped), summaryBudget);
+  }
+
+  const rest = turns.slice(dropped).flat();
+  const systemContent = [system?.content, summary].filter(Boolean).join('\n\n');
+  const out: ChatMessage[] = systemContent
+    ? [{ ...(system ?? { ts: rest[0]?.ts }), role: 'system', content: systemContent }, ...rest]
+    : rest;
+  return {
+    messages: out,
+    usage: {
+      promptTokens: out.reduce((sum, m) => sum + messageTokens(m), 0),
+      contextWindow: opts.contextWindow,
+      summarizedTurns: dropped,
+    },
+  };
+}
+
+export function contextPercent(usage: ContextUsage): number {
+  return usage.contextWindow > 0 ? Math.round((usage.promptTokens / usage.contextWindow) * 100) : 0;
+}
+
+// e.g. "Context 82% used, 6 turns summarized"
+export function describeContextUsage(usage: ContextUsage): string {
+  const n = usage.summarizedTurns;
+  const summarized = n > 0 ? `, ${n} turn${n === 1 ? '' : 's'} summarized` : '';
+  return `Context ${contextPercent(usage)}% used${summarized}`;
+}
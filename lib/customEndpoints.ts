@@ -0,0 +1,99 @@
+import { useLocalStorage } from '@/lib/useLocalStorage';
+import type { CustomModel } from '@/lib/customModels';
+
+// Self-hosted or third-party servers that speak the OpenAI chat completions API
+// (vLLM, LM Studio, llama.cpp server, LiteLLM, ...). Each one contributes its models to the
+// picker under the 'openai-compatible' provider; the key and headers never leave this browser
+// except to be forwarded by /api/openai-compatible.
+export type CustomEndpoint = {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. http://localhost:8000/v1; "/chat/completions" is appended
+  apiKey?: string; // sent as a Bearer token
+  headers?: Record<string, string>; // extra request headers
+  models: string[]; // model ids as the server names them
+  contextWindow?: number; // tokens, applied to every model of the endpoint
+};
+
+export const CUSTOM_ENDPOINTS_STORAGE_KEY = 'ai-fiesta:custom-endpoints';
+
+export function useCustomEndpoints() {
+  const [endpoints, setEndpoints] = useLocalStorage<CustomEndpoint[]>(CUSTOM_ENDPOINTS_STORAGE_KEY, []);
+  return [endpoints, setEndpoints] as const;
+}
+
+export function endpointModelId(endpointId: string, model: string): string {
+  return `endpoint:${endpointId}:${model}`;
+}
+
+// Picker entries for every model of every endpoint
+export function endpointModels(endpoints: CustomEndpoint[]): CustomModel[] {
+  return endpoints.flatMap((e) =>
+    e.models.map((model) => ({
+      id: endpointModelId(e.id, model),
+      label: `${model} (${e.name})`,
+      provider: 'openai-compatible' as const,
+      model,
+      endpointId: e.id,
+      category: 'text' as const,
+      ...(e.contextWindow ? { contextWindow: e.contextWindow } : {}),
+      custom: true as const,
+    })),
+  );
+}
+
+export function normalizeBaseUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/chat\/completions$/, '');
+}
+
+// "Name: value" per line -> header map; lines without a colon are ignored
+export function parseHeaderLines(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const at = line.indexOf(':');
+    if (at <= 0) continue;
+    const name = line.slice(0, at).trim();
+    const value = line.slice(at + 1).trim();
+    if (/^[A-Za-z0-9-]+$/.test(name) && value) out[name] = value;
+  }
+  return out;
+}
+
+export function formatHeaderLines(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers ?? {})
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('\n');
+}
+
+// Comma- or newline-separated model ids, trimmed and de-duplicated
+export function parseModelList(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split(/[\n,]/)
+        .map((s) => s.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+export type EndpointConnection = Pick<CustomEndpoint, 'baseUrl' | 'apiKey' | 'headers'>;
+
+// Fields the /api/openai-compatible routes need to reach an endpoint
+export function endpointConnection(e: EndpointConnection): EndpointConnection {
+  return { baseUrl: e.baseUrl, apiKey: e.apiKey || undefined, headers: e.headers };
+}
+
+export async function listEndpointModels(e: EndpointConnection): Promise<string[]> {
+  const res = await fetch('/api/openai-compatible/models', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(endpointConnection(e)),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || `Could not list models (${res.status})`);
+  return Array.isArray(data?.models) ? data.models : [];
+}
@@ -1,18 +1,19 @@
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import { MODEL_CATALOG } from '@/lib/models';
 import type { AiModel } from '@/lib/types';
+import { endpointModels, type CustomEndpoint } from '@/lib/customEndpoints';
 
 export type CustomModel = AiModel & { custom: true };
 
-const STORAGE_KEY = 'ai-fiesta:custom-models';
+export const CUSTOM_MODELS_STORAGE_KEY = 'ai-fiesta:custom-models';
 
 export function useCustomModels() {
-  const [models, setModels] = useLocalStorage<CustomModel[]>(STORAGE_KEY, []);
+  const [models, setModels] = useLocalStorage<CustomModel[]>(CUSTOM_MODELS_STORAGE_KEY, []);
   return [models, setModels] as const;
 }
 
-export function mergeModels(customs: CustomModel[]): AiModel[] {
-  return [...MODEL_CATALOG, ...customs];
+export function mergeModels(customs: CustomModel[], endpoints: CustomEndpoint[] = []): AiModel[] {
+  return [...MODEL_CATALOG, ...customs, ...endpointModels(endpoints)];
 }
 
 export function makeCustomModel(label: string, slug: string): CustomModel {
@@ -1,3 +1,6 @@
 export * from './client'
 export * from './threads'
 export * from './messages'
+export * from './metadata'
+export * from './search'
+export * from './shares'
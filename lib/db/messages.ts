@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/db/client'
 import type { ChatMessage } from '@/lib/types'
+import { toMessageMetadata } from '@/lib/db/metadata'
 
 export async function addMessage(params: {
   userId: string
@@ -19,13 +20,16 @@ export async function addMessage(params: {
   const { data, error } = await supabase
     .from('messages')
     .insert({
+      // Client-generated ids keep parent links valid across branches
+      ...(message.id ? { id: message.id } : {}),
+      parent_id: message.parentId ?? null,
       chat_id: chatId,
       owner_id: userId,
       role: message.role,
       content: message.content,
       model: message.modelId ?? null,
       content_json: null,
-      metadata: null,
+      metadata: toMessageMetadata(message),
       created_at: message.ts ? new Date(message.ts).toISOString() : new Date().toISOString(),
     })
     .select()
@@ -47,3 +51,15 @@ export async function addMessage(params: {
     console.error('⚠️ Failed to update chat timestamp:', updateError)
   }
 }
+
+// Remove messages by id, e.g. when an offline conflict is resolved in favour of the local copy
+export async function deleteMessages(userId: string, chatId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .eq('owner_id', userId)
+    .eq('chat_id', chatId)
+    .in('id', ids)
+  if (error) throw error
+}
@@ -0,0 +1,94 @@
+import type { ChatMessage } from '@/lib/types'
+import { storedAttachment } from '@/lib/attachments'
+
+// Shape of the `messages.metadata` jsonb column.
+//
+// Every field of ChatMessage that has no column of its own is stored here. `v` is bumped when a
+// field changes meaning; readers keep accepting older versions and ignore unknown keys, so rows
+// written by newer clients still load.
+export const MESSAGE_METADATA_VERSION = 1
+
+export type MessageMetadata = {
+  v: number
+} & Pick<
+  ChatMessage,
+  | 'provider'
+  | 'usedKeyType'
+  | 'code'
+  | 'tokens'
+  | 'metrics'
+  | 'synthesis'
+  | 'targetModelId'
+  | 'attachments'
+  | 'citations'
+  | 'context'
+>
+
+const METADATA_FIELDS = [
+  'provider',
+  'usedKeyType',
+  'code',
+  'tokens',
+  'metrics',
+  'synthesis',
+  'targetModelId',
+  'attachments',
+  'citations',
+  'context',
+] as const
+
+type MetadataField = (typeof METADATA_FIELDS)[number]
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v)
+
+// Per-field checks applied on read; a field that fails is dropped rather than failing the row
+const VALIDATORS: Record<MetadataField, (v: unknown) => boolean> = {
+  provider: (v) => typeof v === 'string',
+  usedKeyType: (v) => v === 'user' || v === 'shared' || v === 'none',
+  code: (v) => typeof v === 'number',
+  tokens: (v) => isObject(v) && typeof v.total === 'number',
+  metrics: isObject,
+  synthesis: (v) => isObject(v) && typeof v.judgeModelId === 'string' && typeof v.mode === 'string',
+  targetModelId: (v) => typeof v === 'string',
+  attachments: (v) =>
+    Array.isArray(v) &&
+    v.every((a) => isObject(a) && typeof a.name === 'string' && typeof a.mime === 'string'),
+  citations: (v) =>
+    Array.isArray(v) &&
+    v.every((c) => isObject(c) && typeof c.n === 'number' && typeof c.name === 'string'),
+  context: (v) =>
+    isObject(v) && typeof v.promptTokens === 'number' && typeof v.contextWindow === 'number',
+}
+
+// ChatMessage -> metadata column value. Returns null when there is nothing to store.
+// Attachments are stored without image data (see storedAttachment).
+export function toMessageMetadata(message: ChatMessage): MessageMetadata | null {
+  const out: Record<string, unknown> = {}
+  for (const key of METADATA_FIELDS) {
+    if (message[key] !== undefined && message[key] !== null) out[key] = message[key]
+  }
+  if (message.attachments) out.attachments = message.attachments.map(storedAttachment)
+  if (Object.keys(out).length === 0) return null
+  return { v: MESSAGE_METADATA_VERSION, ...out } as MessageMetadata
+}
+
+// Metadata column value -> the ChatMessage fields it carries
+export function fromMessageMetadata(raw: unknown): Partial<ChatMessage> {
+  let value = raw
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return {}
+    }
+  }
+  if (!isObject(value)) return {}
+
+  const out: Record<string, unknown> = {}
+  for (const key of METADATA_FIELDS) {
+    const v = value[key]
+    if (v !== undefined && v !== null && VALIDATORS[key](v)) out[key] = v
+  }
+  return out as Partial<ChatMessage>
+}
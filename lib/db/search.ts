@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/db/client'
+import { fromMessageMetadata } from '@/lib/db/metadata'
+import type { MessageSearchFilters, MessageSearchHit } from '@/lib/search'
+
+type ChatRef = { title: string | null; project_id: string | null; page_type: 'home' | 'compare' | null }
+
+type SearchRow = {
+  id: string
+  role: 'user' | 'assistant'
+  content: string | null
+  model: string | null
+  metadata: unknown
+  created_at: string
+  chat_id: string
+  chats: ChatRef | ChatRef[] | null
+}
+
+// Full-text search over the user's messages. Uses the english tsvector on `messages.content`
+// (see the GIN index in the README schema); the query accepts web-search syntax ("quoted", -not, or).
+export async function searchMessages(
+  userId: string,
+  query: string,
+  filters: MessageSearchFilters = {},
+  limit = 50
+): Promise<MessageSearchHit[]> {
+  const q = query.trim()
+  if (!q) return []
+
+  let request = supabase
+    .from('messages')
+    .select('id, role, content, model, metadata, created_at, chat_id, chats!inner(title, project_id, page_type)')
+    .eq('owner_id', userId)
+    .in('role', ['user', 'assistant'])
+    .textSearch('content', q, { type: 'websearch', config: 'english' })
+  if (filters.modelId) request = request.eq('model', filters.modelId)
+  if (filters.provider) request = request.eq('metadata->>provider', filters.provider)
+  if (filters.projectId) request = request.eq('chats.project_id', filters.projectId)
+  if (filters.from !== undefined) request = request.gte('created_at', new Date(filters.from).toISOString())
+  if (filters.to !== undefined) request = request.lte('created_at', new Date(filters.to).toISOString())
+
+  const { data, error } = await request.order('created_at', { ascending: false }).limit(limit)
+  if (error) throw error
+
+  return ((data || []) as SearchRow[]).map((row) => {
+    const chat = Array.isArray(row.chats) ? row.chats[0] : row.chats
+    return {
+      threadId: row.chat_id,
+      threadTitle: chat?.title || 'New Chat',
+      pageType: chat?.page_type || 'home',
+      projectId: chat?.project_id || undefined,
+      messageId: row.id,
+      role: row.role,
+      modelId: row.model || undefined,
+      provider: fromMessageMetadata(row.metadata).provider,
+      ts: new Date(row.created_at).getTime(),
+      content: row.content ?? '',
+    }
+  })
+}
@@ -0,0 +1,115 @@
+import { supabase } from '@/lib/db/client'
+import type { SharedChatData } from '@/lib/sharing/types'
+import {
+  generateShareId,
+  isSharedChatLookup,
+  type SharedChatLookup,
+} from '@/lib/sharing/storedShares'
+
+// Server-stored share links (`shared_chats`). Owners read and revoke their rows directly;
+// viewers only go through the get_shared_chat function, which checks expiry, revocation
+// and the password (with a limit on wrong attempts) and counts the view. Passwords are
+// hashed with bcrypt in the database; the browser never hashes them itself.
+
+export type SharedLink = {
+  id: string
+  chatId?: string
+  title: string
+  createdAt: number
+  expiresAt?: number
+  revokedAt?: number
+  hasPassword: boolean
+  viewCount: number
+}
+
+type SharedLinkRow = {
+  id: string
+  chat_id: string | null
+  title: string
+  created_at: string
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number | null
+  has_password: boolean | null
+}
+
+function mapSharedLinkRow(row: SharedLinkRow): SharedLink {
+  return {
+    id: row.id,
+    chatId: row.chat_id || undefined,
+    title: row.title,
+    createdAt: new Date(row.created_at).getTime(),
+    expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at).getTime() : undefined,
+    hasPassword: !!row.has_password,
+    viewCount: row.view_count ?? 0,
+  }
+}
+
+// password_hash itself is never read back; has_password is a generated column
+const SHARED_LINK_COLUMNS =
+  'id, chat_id, title, created_at, expires_at, revoked_at, view_count, has_password'
+
+export async function createSharedLink(params: {
+  userId: string
+  chatId?: string
+  snapshot: SharedChatData
+  expiresAt?: string | null
+  password?: string
+}): Promise<SharedLink> {
+  const { userId, chatId, snapshot, expiresAt, password } = params
+  // Retry once on the (unlikely) id collision
+  for (let attempt = 0; ; attempt++) {
+    const id = generateShareId()
+    const { data, error } = await supabase
+      .from('shared_chats')
+      .insert({
+        id,
+        owner_id: userId,
+        chat_id: chatId ?? null,
+        title: snapshot.title,
+        snapshot,
+        // Replaced by its bcrypt hash in the hash_shared_chat_password trigger
+        password_hash: password ?? null,
+        expires_at: expiresAt ?? null,
+      })
+      .select(SHARED_LINK_COLUMNS)
+      .single()
+    if (error?.code === '23505' && attempt === 0) continue
+    if (error) throw error
+    return mapSharedLinkRow(data)
+  }
+}
+
+export async function fetchSharedLinks(userId: string, chatId?: string): Promise<SharedLink[]> {
+  let query = supabase
+    .from('shared_chats')
+    .select(SHARED_LINK_COLUMNS)
+    .eq('owner_id', userId)
+    .order('created_at', { ascending: false })
+  if (chatId) query = query.eq('chat_id', chatId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map(mapSharedLinkRow)
+}
+
+export async function revokeSharedLink(userId: string, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('shared_chats')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('owner_id', userId)
+  if (error) throw error
+}
+
+// Open a share as a viewer (signed in or not)
+export async function fetchSharedChat(id: string, password?: string): Promise<SharedChatLookup> {
+  const { data, error } = await supabase.rpc('get_shared_chat', {
+    p_id: id,
+    p_password: password ?? null,
+  })
+  if (error) throw error
+  if (!isSharedChatLookup(data)) throw new Error('Unexpected share lookup response')
+  return data
+}
@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/db/client'
 import type { ChatMessage, ChatThread } from '@/lib/types'
+import { splitActivePath } from '@/lib/branches'
+import { fromMessageMetadata, toMessageMetadata } from '@/lib/db/metadata'
 
 // Map DB rows to UI types
 function mapChatRowToThread(row: any, messages: any[] = []): ChatThread {
@@ -7,18 +9,22 @@ function mapChatRowToThread(row: any, messages: any[] = []): ChatThread {
     id: row.id,
     title: row.title || 'New Chat',
     createdAt: new Date(row.created_at).getTime(),
+    updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : undefined,
     projectId: row.project_id || undefined,
     pageType: row.page_type || 'home',
-    messages: messages.map(mapMessageRowToChatMessage),
+    ...splitActivePath(messages.map(mapMessageRowToChatMessage)),
   }
 }
 
 function mapMessageRowToChatMessage(row: any): ChatMessage {
   return {
+    ...fromMessageMetadata(row.metadata),
     role: row.role,
     content: row.content,
     ts: new Date(row.created_at).getTime(),
     modelId: row.model || undefined,
+    id: row.id || undefined,
+    parentId: row.parent_id ?? undefined,
   }
 }
 
@@ -51,18 +57,112 @@ export async function fetchThreads(userId: string): Promise<ChatThread[]> {
   return chats.map((c: { id: string }) => mapChatRowToThread(c, messageMap.get(c.id) || []))
 }
 
+// Chat columns plus an embedded message count; no message bodies
+const SUMMARY_COLUMNS = 'id, title, created_at, updated_at, project_id, page_type, messages(count)'
+
+type ChatSummaryRow = {
+  id: string
+  title: string | null
+  created_at: string
+  updated_at: string | null
+  project_id: string | null
+  page_type: string | null
+  messages?: { count: number }[]
+}
+
+function mapSummaryRowToThread(row: ChatSummaryRow): ChatThread {
+  return {
+    ...mapChatRowToThread(row),
+    updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : undefined,
+    messageCount: Array.isArray(row.messages) ? Number(row.messages[0]?.count) || 0 : undefined,
+    messagesLoaded: false,
+  }
+}
+
+export type ThreadSummaryFilter = {
+  pageType?: 'home' | 'compare'
+  projectId?: string | null // only threads in this project; null/undefined = all
+}
+
+export type ThreadSummaryPage = {
+  threads: ChatThread[]
+  nextCursor: string | null // pass back to get the next page; null on the last page
+}
+
+// One page of threads (newest activity first) without their messages.
+// Use fetchThreadMessages to load a thread when it is opened.
+export async function fetchThreadSummaries(
+  userId: string,
+  opts: ThreadSummaryFilter & { limit?: number; cursor?: string | null } = {}
+): Promise<ThreadSummaryPage> {
+  const limit = opts.limit ?? 50
+  let query = supabase.from('chats').select(SUMMARY_COLUMNS).eq('owner_id', userId)
+  if (opts.pageType) query = query.eq('page_type', opts.pageType)
+  if (opts.projectId) query = query.eq('project_id', opts.projectId)
+  if (opts.cursor) query = query.lt('updated_at', opts.cursor)
+
+  // Ask for one extra row to know whether another page exists
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(limit + 1)
+  if (error) throw error
+
+  const rows = data || []
+  const page = rows.slice(0, limit)
+  return {
+    threads: page.map(mapSummaryRowToThread),
+    nextCursor: rows.length > limit ? page[page.length - 1].updated_at : null,
+  }
+}
+
+// Threads whose updated_at is after `since` (ISO timestamp), for incremental refresh
+export async function fetchThreadsUpdatedSince(
+  userId: string,
+  since: string,
+  opts: ThreadSummaryFilter = {}
+): Promise<ChatThread[]> {
+  let query = supabase
+    .from('chats')
+    .select(SUMMARY_COLUMNS)
+    .eq('owner_id', userId)
+    .gt('updated_at', since)
+  if (opts.pageType) query = query.eq('page_type', opts.pageType)
+  if (opts.projectId) query = query.eq('project_id', opts.projectId)
+
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(200)
+  if (error) throw error
+  return (data || []).map(mapSummaryRowToThread)
+}
+
+// All messages of one thread, split into the active path and other branches
+export async function fetchThreadMessages(
+  userId: string,
+  chatId: string
+): Promise<Pick<ChatThread, 'messages' | 'branches'>> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('owner_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return splitActivePath((data || []).map(mapMessageRowToChatMessage))
+}
+
 export async function createThread(params: {
+  // Client-generated id, e.g. of a thread created offline; the database picks one otherwise
+  id?: string
   userId: string
   title?: string
   projectId?: string | null
   pageType?: 'home' | 'compare'
   initialMessage?: ChatMessage | null
 }): Promise<ChatThread> {
-  const { userId, title, projectId, pageType = 'home', initialMessage } = params
+  const { id, userId, title, projectId, pageType = 'home', initialMessage } = params
 
   const { data: chat, error } = await supabase
     .from('chats')
     .insert({
+      ...(id ? { id } : {}),
       owner_id: userId,
       project_id: projectId ?? null,
       title: title ?? 'New Chat',
@@ -80,11 +180,13 @@ export async function createThread(params: {
       .insert({
         chat_id: chat.id,
         owner_id: userId,
+        ...(initialMessage.id ? { id: initialMessage.id } : {}),
+        parent_id: initialMessage.parentId ?? null,
         role: initialMessage.role,
         content: initialMessage.content,
         model: initialMessage.modelId ?? null,
         content_json: null,
-        metadata: null,
+        metadata: toMessageMetadata(initialMessage),
       })
       .select('*')
       .single()
@@ -95,6 +197,52 @@ export async function createThread(params: {
   return mapChatRowToThread(chat, messages)
 }
 
+// Store an imported thread (see lib/archive.ts) with all its messages, branches included.
+// The chat gets a new id; message ids are kept, so pass a thread with fresh message ids.
+export async function importThread(userId: string, thread: ChatThread): Promise<ChatThread> {
+  const { data: chat, error } = await supabase
+    .from('chats')
+    .insert({
+      owner_id: userId,
+      project_id: thread.projectId ?? null,
+      title: thread.title,
+      page_type: thread.pageType ?? 'home',
+      created_at: new Date(thread.createdAt).toISOString(),
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  const all = [...thread.messages, ...(thread.branches ?? [])]
+  if (all.length === 0) return mapChatRowToThread(chat)
+  // One insert, so parent links are checked once every row is in
+  const { data: rows, error: msgErr } = await supabase
+    .from('messages')
+    .insert(
+      all.map((m) => ({
+        ...(m.id ? { id: m.id } : {}),
+        parent_id: m.parentId ?? null,
+        chat_id: chat.id,
+        owner_id: userId,
+        role: m.role,
+        content: m.content,
+        model: m.modelId ?? null,
+        content_json: null,
+        metadata: toMessageMetadata(m),
+        created_at: new Date(m.ts ?? thread.createdAt).toISOString(),
+      })),
+    )
+    .select('*')
+  if (msgErr) {
+    // Don't leave an empty chat behind
+    await supabase.from('chats').delete().eq('id', chat.id)
+    throw msgErr
+  }
+
+  return mapChatRowToThread(chat, rows ?? [])
+}
+
 export async function deleteThread(userId: string, chatId: string): Promise<void> {
   const { error } = await supabase
     .from('chats')
@@ -0,0 +1,152 @@
+// Document types we can turn into prompt text, shared by the browser (attachment picker) and the
+// server (lib/server/documents.ts) so every provider sees an attached file the same way.
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENT_CHARS = 80000;
+// Project documents are chunked for retrieval rather than inlined, so they may be much longer
+export const MAX_LIBRARY_CHARS = 2000000;
+// PDFs longer than this are read up to this page and reported as truncated
+export const MAX_DOCUMENT_PAGES = 300;
+
+export type DocumentType = 'pdf' | 'docx' | 'html' | 'csv' | 'markdown' | 'code' | 'text';
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const CODE_EXTENSIONS = (
+  'js jsx ts tsx mjs cjs json py rb go rs java kt swift c h cc cpp hpp cs php sh bash sql ' +
+  'css scss yaml yml toml xml vue svelte lua r dart scala'
+).split(' ');
+
+// Value for a file input's `accept` attribute covering every document type
+export const DOCUMENT_ACCEPT = ['txt', 'pdf', 'doc', 'docx', 'csv', 'md', 'markdown', 'html', 'htm']
+  .concat(CODE_EXTENSIONS)
+  .map((ext) => `.${ext}`)
+  .join(',');
+
+const extensionOf = (name?: string) => /\.([a-z0-9]+)$/i.exec(name ?? '')?.[1]?.toLowerCase() ?? '';
+
+/**
+ * Classify a file by MIME type, falling back to its extension (browsers report '' or odd types
+ * such as video/mp2t for .ts files). Returns null for images and anything we can't read.
+ */
+export function documentType(mime: string, name?: string): DocumentType | null {
+  const mt = (mime || '').toLowerCase().split(';')[0].trim();
+  const ext = extensionOf(name);
+  if (mt === 'application/pdf' || ext === 'pdf') return 'pdf';
+  if (mt === DOCX_MIME || mt === 'application/msword' || ext === 'docx' || ext === 'doc') {
+    return 'docx';
+  }
+  if (mt === 'text/html' || mt === 'application/xhtml+xml' || ext === 'html' || ext === 'htm') {
+    return 'html';
+  }
+  if (mt === 'text/csv' || ext === 'csv') return 'csv';
+  if (mt === 'text/markdown' || ext === 'md' || ext === 'markdown') return 'markdown';
+  if (CODE_EXTENSIONS.includes(ext)) return 'code';
+  if (/^application\/(json|javascript|typescript|xml|x-sh|x-python)$/.test(mt)) return 'code';
+  if (mt.startsWith('text/') || ext === 'txt') return 'text';
+  return null;
+}
+
+// Plain-text types can be read as UTF-8 as they are; the others need a parser
+export function isPlainTextDocument(type: DocumentType): boolean {
+  return type === 'text' || type === 'csv' || type === 'markdown' || type === 'code';
+}
+
+// True for a data URL that carries something other than an image
+export function isDocumentDataUrl(dataUrl?: string): boolean {
+  if (!dataUrl) return false;
+  const mt = /^data:(.*?);base64/.exec(dataUrl)?.[1] || '';
+  return !/^image\//i.test(mt);
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Readable text of an HTML page: scripts, styles and tags dropped, block elements on their own lines
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote|table)>/gi, '\n')
+    .replace(/<(td|th)[^>]*>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (m, code: string) => {
+      if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? m;
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export type PageRange = { included: number; total: number };
+
+export type ClippedDocument = { text: string; truncated: boolean; pages?: PageRange };
+
+/**
+ * Join page texts into one string of at most `maxChars`, keeping whole pages where possible.
+ * `totalPages` is the document's page count when fewer pages than that were read.
+ */
+export function clipPages(
+  pages: string[],
+  maxChars: number,
+  totalPages = pages.length,
+): ClippedDocument {
+  // Scanned PDFs have pages but no text layer
+  if (pages.every((p) => !p.trim())) return { text: '', truncated: false };
+  const parts: string[] = [];
+  let used = 0;
+  let cut = false;
+  for (let i = 0; i < pages.length; i++) {
+    const body = pages[i].trim();
+    const chunk = `--- Page ${i + 1} ---\n${body}`;
+    const cost = chunk.length + (parts.length ? 2 : 0);
+    if (used + cost > maxChars) {
+      // A single page larger than the budget is cut rather than dropped entirely
+      if (parts.length === 0) parts.push(chunk.slice(0, maxChars));
+      cut = true;
+      break;
+    }
+    parts.push(chunk);
+    used += cost;
+  }
+  return {
+    text: parts.join('\n\n'),
+    truncated: cut || parts.length < totalPages,
+    pages: { included: parts.length, total: totalPages },
+  };
+}
+
+export function clipText(raw: string, maxChars: number): ClippedDocument {
+  const text = raw.trim();
+  return { text: text.slice(0, maxChars), truncated: text.length > maxChars };
+}
+
+export type DocumentBlockInput = {
+  name: string;
+  text?: string;
+  truncated?: boolean;
+  pages?: PageRange;
+};
+
+// The text a model receives for one attached document
+export function documentBlock(doc: DocumentBlockInput): string {
+  if (doc.text === undefined) {
+    return `[Attached file: ${doc.name}. Its text could not be extracted; ask the user to paste the relevant parts if needed.]`;
+  }
+  const notes: string[] = [];
+  if (doc.pages && doc.pages.included < doc.pages.total) {
+    notes.push(`pages 1-${doc.pages.included} of ${doc.pages.total}`);
+  }
+  if (doc.truncated) notes.push('truncated');
+  const note = notes.length ? ` (${notes.join(', ')})` : '';
+  return `[Attached file: ${doc.name}${note}]\n${doc.text || '(no extractable text)'}`;
+}
@@ -1,4 +1,11 @@
 import type { ChatThread, AiModel, ChatMessage } from './types';
+import { toThreadArchive } from './archive';
+import type { BlindVote } from './blindVotes';
+import {
+  formatComparisonCsv,
+  formatComparisonHtml,
+  formatComparisonJsonl,
+} from './comparisonExport';
 
 /**
  * Formats a chat thread for export
@@ -78,8 +85,12 @@ export function formatChatForExport(thread: ChatThread, selectedModels: AiModel[
 /**
  * Download a text file
  */
-export function downloadTextFile(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+export function downloadTextFile(
+  content: string,
+  filename: string,
+  type = 'text/plain;charset=utf-8',
+): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -300,3 +311,63 @@ export function downloadAsMarkdown(thread: ChatThread, selectedModels: AiModel[]
 
   downloadTextFile(markdown, filename);
 }
+
+/**
+ * Download chat thread as a lossless JSON archive that can be imported again
+ */
+export function downloadAsJson(thread: ChatThread): void {
+  const title = thread.title || 'Untitled Chat';
+  const filename = `${title.replace(/[^a-z0-9]/gi, '_')}_${new Date().toISOString().split('T')[0]}.json`;
+
+  downloadJsonFile(toThreadArchive([thread]), filename);
+}
+
+function comparisonFilename(thread: ChatThread, ext: string): string {
+  const title = thread.title || 'Untitled Chat';
+  return `${title.replace(/[^a-z0-9]/gi, '_')}_comparison_${new Date().toISOString().split('T')[0]}.${ext}`;
+}
+
+/**
+ * Download a side-by-side comparison (one column per model) as a standalone HTML page
+ */
+export function downloadComparisonHtml(
+  thread: ChatThread,
+  selectedModels: AiModel[],
+  votes: BlindVote[] = [],
+): void {
+  downloadTextFile(
+    formatComparisonHtml(thread, selectedModels, votes),
+    comparisonFilename(thread, 'html'),
+    'text/html;charset=utf-8',
+  );
+}
+
+/**
+ * Download one CSV row per answer: prompt, model, answer, latency, tokens and vote
+ */
+export function downloadComparisonCsv(thread: ChatThread, votes: BlindVote[] = []): void {
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  downloadTextFile(
+    '\ufeff' + formatComparisonCsv(thread, votes),
+    comparisonFilename(thread, 'csv'),
+    'text/csv;charset=utf-8',
+  );
+}
+
+/**
+ * Download a prompt/completions JSONL dataset for evaluation tools
+ */
+export function downloadComparisonJsonl(thread: ChatThread, votes: BlindVote[] = []): void {
+  downloadTextFile(
+    formatComparisonJsonl(thread, votes),
+    comparisonFilename(thread, 'jsonl'),
+    'application/x-ndjson;charset=utf-8',
+  );
+}
+
+/**
+ * Download any value as a pretty-printed JSON file
+ */
+export function downloadJsonFile(data: unknown, filename: string): void {
+  downloadTextFile(JSON.stringify(data, null, 2), filename, 'application/json;charset=utf-8');
+}
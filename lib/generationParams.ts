@@ -0,0 +1,71 @@
+import type { GenerationParams } from '@/lib/types';
+import type { Project } from '@/lib/projects';
+
+// `defaults` applies to every model so comparisons run with the same sampling settings;
+// `models` holds per-model overrides keyed by AiModel.id.
+export type GenerationParamsStore = {
+  defaults: GenerationParams;
+  models: Record<string, GenerationParams>;
+};
+
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 32768 },
+  stop: { maxCount: 4, maxLength: 64 },
+} as const;
+
+export const EMPTY_GENERATION_PARAMS_STORE: GenerationParamsStore = { defaults: {}, models: {} };
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+// Drop anything that is not a usable value and clamp the rest into range.
+// Used on the client before saving and by the API routes before forwarding upstream.
+export function normalizeGenerationParams(raw: unknown): GenerationParams {
+  if (!raw || typeof raw !== 'object') return {};
+  const r = raw as Record<string, unknown>;
+  const out: GenerationParams = {};
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+
+  const temperature = num(r.temperature);
+  if (temperature !== undefined) {
+    const { min, max } = GENERATION_LIMITS.temperature;
+    out.temperature = clamp(temperature, min, max);
+  }
+  const topP = num(r.topP);
+  if (topP !== undefined) {
+    const { min, max } = GENERATION_LIMITS.topP;
+    out.topP = clamp(topP, min, max);
+  }
+  const maxTokens = num(r.maxTokens);
+  if (maxTokens !== undefined) {
+    const { min, max } = GENERATION_LIMITS.maxTokens;
+    out.maxTokens = clamp(Math.round(maxTokens), min, max);
+  }
+  if (Array.isArray(r.stop)) {
+    const { maxCount, maxLength } = GENERATION_LIMITS.stop;
+    const stop = r.stop
+      .filter((s): s is string => typeof s === 'string' && s.length > 0)
+      .map((s) => s.slice(0, maxLength))
+      .slice(0, maxCount);
+    if (stop.length > 0) out.stop = stop;
+  }
+  return out;
+}
+
+export function isEmptyGenerationParams(p: GenerationParams | undefined): boolean {
+  return !p || Object.keys(normalizeGenerationParams(p)).length === 0;
+}
+
+// Effective params for one model: global defaults, then the active project, then the model override
+export function resolveGenerationParams(
+  store: GenerationParamsStore | undefined,
+  modelId: string,
+  project?: Pick<Project, 'generationParams'> | null,
+): GenerationParams {
+  return normalizeGenerationParams({
+    ...(store?.defaults || {}),
+    ...(project?.generationParams || {}),
+    ...(store?.models?.[modelId] || {}),
+  });
+}
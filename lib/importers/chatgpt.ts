@@ -0,0 +1,88 @@
+import type { ChatMessage, ChatThread } from '@/lib/types';
+import {
+  buildThread,
+  importedModelId,
+  isObject,
+  toMillis,
+  type ImportIssue,
+  type ImportResult,
+} from './common';
+
+// ChatGPT "Export data" conversations.json: an array of conversations whose messages form a tree
+// (`mapping`, linked by `parent`/`children`). Regenerated answers and edited prompts are side
+// branches; only the path ending at `current_node`, the one shown in ChatGPT, is imported.
+
+type Node = { parent?: unknown; children?: unknown; message?: unknown };
+
+function activePath(mapping: Record<string, unknown>, currentNode: unknown): Node[] {
+  let id = typeof currentNode === 'string' && currentNode in mapping ? currentNode : undefined;
+  if (!id) {
+    // No current node recorded: follow the last child from the root
+    id = Object.keys(mapping).find((k) => {
+      const n = mapping[k];
+      return isObject(n) && !n.parent;
+    });
+    while (id) {
+      const children = (mapping[id] as Node | undefined)?.children;
+      const last = Array.isArray(children) ? children[children.length - 1] : undefined;
+      if (typeof last !== 'string' || !(last in mapping)) break;
+      id = last;
+    }
+  }
+  const path: Node[] = [];
+  const seen = new Set<string>();
+  while (id && !seen.has(id) && isObject(mapping[id])) {
+    seen.add(id);
+    const node = mapping[id] as Node;
+    path.push(node);
+    id = typeof node.parent === 'string' ? node.parent : undefined;
+  }
+  return path.reverse();
+}
+
+function nodeMessage(node: Node): ChatMessage | null {
+  const msg = node.message;
+  if (!isObject(msg)) return null;
+  const role = isObject(msg.author) ? msg.author.role : undefined;
+  // System prompts and tool calls (browsing, code) are not part of the visible conversation
+  if (role !== 'user' && role !== 'assistant') return null;
+  const metadata = isObject(msg.metadata) ? msg.metadata : {};
+  if (metadata.is_visually_hidden_from_conversation) return null;
+
+  const content = isObject(msg.content) ? msg.content : {};
+  const text = Array.isArray(content.parts)
+    ? content.parts.filter((p): p is string => typeof p === 'string').join('\n\n')
+    : typeof content.text === 'string'
+      ? content.text
+      : '';
+  if (!text.trim()) return null;
+
+  return {
+    role,
+    content: text,
+    ts: toMillis(msg.create_time),
+    ...(role === 'assistant' ? { modelId: importedModelId('chatgpt', metadata.model_slug) } : {}),
+  };
+}
+
+export function parseChatGPTExport(data: unknown[]): ImportResult {
+  const threads: ChatThread[] = [];
+  const issues: ImportIssue[] = [];
+  data.forEach((conv, i) => {
+    const title = isObject(conv) && typeof conv.title === 'string' ? conv.title : '';
+    const item = title || `Conversation ${i + 1}`;
+    if (!isObject(conv) || !isObject(conv.mapping)) {
+      issues.push({ item, reason: 'No message tree (mapping) found' });
+      return;
+    }
+    const messages = activePath(conv.mapping, conv.current_node)
+      .map(nodeMessage)
+      .filter((m): m is ChatMessage => m !== null);
+    if (messages.length === 0) {
+      issues.push({ item, reason: 'No text messages' });
+      return;
+    }
+    threads.push(buildThread(title, toMillis(conv.create_time), messages));
+  });
+  return { source: 'chatgpt', threads, issues };
+}
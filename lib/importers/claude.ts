@@ -0,0 +1,71 @@
+import type { Attachment, ChatMessage, ChatThread } from '@/lib/types';
+import { safeUUID } from '@/lib/uuid';
+import {
+  buildThread,
+  contentText,
+  importedModelId,
+  isObject,
+  toMillis,
+  type ImportIssue,
+  type ImportResult,
+} from './common';
+
+// Claude "Export data" conversations.json: an array of conversations with a flat
+// `chat_messages` list. Files the user attached come with their extracted text, which is kept
+// as a text attachment so follow-ups still see it.
+
+function attachments(raw: unknown): Attachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((a): Attachment[] => {
+    if (!isObject(a) || typeof a.extracted_content !== 'string' || !a.extracted_content) return [];
+    return [
+      {
+        id: safeUUID(),
+        name: typeof a.file_name === 'string' && a.file_name ? a.file_name : 'attachment.txt',
+        mime: 'text/plain',
+        size: typeof a.file_size === 'number' ? a.file_size : a.extracted_content.length,
+        text: a.extracted_content,
+      },
+    ];
+  });
+}
+
+function chatMessage(raw: unknown, modelId: string): ChatMessage | null {
+  if (!isObject(raw)) return null;
+  const role = raw.sender === 'human' ? 'user' : raw.sender === 'assistant' ? 'assistant' : null;
+  if (!role) return null;
+  const text =
+    typeof raw.text === 'string' && raw.text.trim() ? raw.text : contentText(raw.content);
+  const files = role === 'user' ? attachments(raw.attachments) : [];
+  if (!text.trim() && files.length === 0) return null;
+  return {
+    role,
+    content: text,
+    ts: toMillis(raw.created_at),
+    ...(role === 'assistant' ? { modelId } : {}),
+    ...(files.length ? { attachments: files } : {}),
+  };
+}
+
+export function parseClaudeExport(data: unknown[]): ImportResult {
+  const threads: ChatThread[] = [];
+  const issues: ImportIssue[] = [];
+  data.forEach((conv, i) => {
+    const title = isObject(conv) && typeof conv.name === 'string' ? conv.name : '';
+    const item = title || `Conversation ${i + 1}`;
+    if (!isObject(conv) || !Array.isArray(conv.chat_messages)) {
+      issues.push({ item, reason: 'No chat_messages list found' });
+      return;
+    }
+    const modelId = importedModelId('claude', conv.model);
+    const messages = conv.chat_messages
+      .map((m) => chatMessage(m, modelId))
+      .filter((m): m is ChatMessage => m !== null);
+    if (messages.length === 0) {
+      issues.push({ item, reason: 'No text messages' });
+      return;
+    }
+    threads.push(buildThread(title, toMillis(conv.created_at), messages));
+  });
+  return { source: 'claude', threads, issues };
+}
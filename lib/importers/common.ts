@@ -0,0 +1,88 @@
+import type { ChatMessage, ChatThread } from '@/lib/types';
+import { linkPath } from '@/lib/branches';
+import { safeUUID } from '@/lib/uuid';
+
+export type ImportSource = 'chatgpt' | 'claude' | 'openai';
+
+// Something in the file that was not imported, shown in the preview
+export type ImportIssue = { item: string; reason: string };
+
+export type ImportResult = {
+  source: ImportSource | null; // null when the file matched no known format
+  threads: ChatThread[];
+  issues: ImportIssue[];
+};
+
+export const SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  openai: 'OpenAI messages',
+};
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Imported answers were not produced by a model in our catalog; tag them with where they came
+// from, plus the model name when the export records one (e.g. "imported:chatgpt:gpt-4o")
+export function importedModelId(source: ImportSource, model?: unknown): string {
+  return typeof model === 'string' && model.trim()
+    ? `imported:${source}:${model.trim()}`
+    : `imported:${source}`;
+}
+
+// First line of the first prompt, for exports without a title
+export function titleFrom(messages: ChatMessage[]): string {
+  const first =
+    messages
+      .find((m) => m.role === 'user')
+      ?.content.trim()
+      .split('\n')[0] ?? '';
+  if (!first) return 'Imported chat';
+  return first.length > 60 ? `${first.slice(0, 57)}...` : first;
+}
+
+// Seconds (ChatGPT), milliseconds or ISO strings -> milliseconds
+export function toMillis(v: unknown): number | undefined {
+  if (typeof v === 'number' && Number.isFinite(v) && v > 0) {
+    return v < 1e11 ? Math.round(v * 1000) : Math.round(v);
+  }
+  if (typeof v === 'string') {
+    const ms = Date.parse(v);
+    return Number.isNaN(ms) ? undefined : ms;
+  }
+  return undefined;
+}
+
+// Text of an OpenAI-style content field: a string or an array of { type: 'text', text } parts
+export function contentText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map((p) =>
+      typeof p === 'string' ? p : isObject(p) && typeof p.text === 'string' ? p.text : '',
+    )
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// A linear conversation as a home-page thread with linked message ids. Timestamps are made
+// strictly increasing (missing ones included) because stored messages are ordered by them.
+export function buildThread(
+  title: string,
+  createdAt: number | undefined,
+  messages: ChatMessage[],
+): ChatThread {
+  const start = createdAt ?? messages.find((m) => m.ts)?.ts ?? Date.now();
+  let last = 0;
+  const timed = messages.map((m, i) => {
+    last = Math.max(m.ts ?? start + i, last + 1);
+    return { ...m, ts: last };
+  });
+  return {
+    id: safeUUID(),
+    title: title.trim() || titleFrom(messages),
+    createdAt: start,
+    pageType: 'home',
+    messages: linkPath(timed),
+  };
+}
@@ -0,0 +1,45 @@
+// Importers for conversations exported from other chat tools. Each turns a file into
+// ChatThreads for preview; lib/importers/persist.ts stores the ones the user keeps.
+import { isObject, type ImportResult } from './common';
+import { parseChatGPTExport } from './chatgpt';
+import { parseClaudeExport } from './claude';
+import { parseOpenAIConversations, parseOpenAIJsonl } from './openai';
+
+export { parseChatGPTExport } from './chatgpt';
+export { parseClaudeExport } from './claude';
+export { parseOpenAIConversations, parseOpenAIJsonl } from './openai';
+export { SOURCE_LABELS, importedModelId } from './common';
+export type { ImportIssue, ImportResult, ImportSource } from './common';
+
+// Recognize the export by its shape and parse it
+export function parseConversationImport(text: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Several JSON values, one per line
+    const jsonl = parseOpenAIJsonl(text);
+    if (jsonl.threads.length > 0) return jsonl;
+    return {
+      source: null,
+      threads: [],
+      issues: [{ item: 'File', reason: 'Not valid JSON or JSONL' }],
+    };
+  }
+
+  const items = Array.isArray(data) ? data : [data];
+  const has = (key: string) => items.some((c) => isObject(c) && key in c);
+  if (has('mapping')) return parseChatGPTExport(items);
+  if (has('chat_messages')) return parseClaudeExport(items);
+  if (has('messages')) return parseOpenAIConversations(items);
+  return {
+    source: null,
+    threads: [],
+    issues: [
+      {
+        item: 'File',
+        reason: 'Not a ChatGPT or Claude conversations.json, or OpenAI messages JSONL',
+      },
+    ],
+  };
+}
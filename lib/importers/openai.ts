@@ -0,0 +1,59 @@
+import type { ChatMessage } from '@/lib/types';
+import {
+  buildThread,
+  contentText,
+  importedModelId,
+  isObject,
+  toMillis,
+  type ImportResult,
+} from './common';
+
+// OpenAI-format conversations: one `{ "messages": [{ role, content }] }` object per line (the
+// fine-tuning / batch JSONL layout), or a JSON array of such objects. Optional `title`, `model`
+// and `created` fields are used when present. System and tool messages are dropped.
+
+function toMessages(raw: unknown[], modelId: string): ChatMessage[] {
+  return raw.flatMap((m): ChatMessage[] => {
+    if (!isObject(m) || (m.role !== 'user' && m.role !== 'assistant')) return [];
+    const text = contentText(m.content);
+    if (!text.trim()) return [];
+    return [{ role: m.role, content: text, ...(m.role === 'assistant' ? { modelId } : {}) }];
+  });
+}
+
+function parseConversation(value: unknown, item: string, out: ImportResult) {
+  if (!isObject(value) || !Array.isArray(value.messages)) {
+    out.issues.push({ item, reason: 'No messages array' });
+    return;
+  }
+  const messages = toMessages(value.messages, importedModelId('openai', value.model));
+  if (messages.length === 0) {
+    out.issues.push({ item, reason: 'No user or assistant messages' });
+    return;
+  }
+  const title = typeof value.title === 'string' ? value.title : '';
+  out.threads.push(buildThread(title, toMillis(value.created), messages));
+}
+
+export function parseOpenAIConversations(data: unknown[]): ImportResult {
+  const out: ImportResult = { source: 'openai', threads: [], issues: [] };
+  data.forEach((value, i) => parseConversation(value, `Conversation ${i + 1}`, out));
+  return out;
+}
+
+export function parseOpenAIJsonl(text: string): ImportResult {
+  const out: ImportResult = { source: 'openai', threads: [], issues: [] };
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    const item = `Line ${i + 1}`;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      out.issues.push({ item, reason: 'Not valid JSON' });
+      return;
+    }
+    parseConversation(value, item, out);
+  });
+  return out;
+}
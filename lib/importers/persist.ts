@@ -0,0 +1,41 @@
+import type { ChatThread } from '@/lib/types';
+import { addMessage, createThread, deleteThread } from '@/lib/db';
+import { THREADS_STORAGE_KEY } from '@/lib/backup';
+import { readStoredValue, writeStoredValue } from '@/lib/useLocalStorage';
+import type { ImportIssue } from './common';
+
+// Store imported threads: in the database for signed-in users, otherwise in this browser.
+// Local storage is written outside its hook, so the page must be reloaded afterwards.
+export async function saveImportedThreads(
+  threads: ChatThread[],
+  userId?: string,
+): Promise<{ saved: number; failed: ImportIssue[] }> {
+  const failed: ImportIssue[] = [];
+  let saved = threads;
+  if (userId) {
+    saved = [];
+    for (const thread of threads) {
+      let chatId: string | undefined;
+      try {
+        const created = await createThread({ userId, title: thread.title, pageType: 'home' });
+        chatId = created.id;
+        for (const message of thread.messages) {
+          await addMessage({ userId, chatId, message });
+        }
+        saved.push({ ...thread, id: chatId });
+      } catch (e) {
+        // Don't leave a half-imported chat behind
+        if (chatId) await deleteThread(userId, chatId).catch(() => {});
+        failed.push({
+          item: thread.title,
+          reason: e instanceof Error ? e.message : 'Could not be saved',
+        });
+      }
+    }
+  }
+  if (saved.length) {
+    const existing = readStoredValue<ChatThread[]>(THREADS_STORAGE_KEY, []);
+    writeStoredValue(THREADS_STORAGE_KEY, [...saved, ...existing]);
+  }
+  return { saved: saved.length, failed };
+}
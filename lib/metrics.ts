@@ -0,0 +1,61 @@
+import { estimateCostUsd } from './models';
+import { estimateTokens } from './utils';
+import type { AiModel, AnswerMetrics, ChatMessage, TokenUsage } from './types';
+
+// Combine timings and provider usage into the metrics stored on an answer.
+// When the provider reports no usage, token counts fall back to the chars/4 estimate.
+export function buildAnswerMetrics(args: {
+  model: Pick<AiModel, 'provider' | 'model'>;
+  startedAt: number;
+  firstTokenAt?: number;
+  endedAt: number;
+  usage?: TokenUsage;
+  promptMessages: ChatMessage[];
+  completion: string;
+}): AnswerMetrics {
+  const { usage } = args;
+  const reportedPrompt = usage?.promptTokens;
+  const reportedCompletion = usage?.completionTokens;
+  const promptTokens =
+    reportedPrompt ??
+    args.promptMessages.reduce((sum, msg) => sum + estimateTokens(String(msg.content || '')), 0);
+  const completionTokens = reportedCompletion ?? estimateTokens(args.completion);
+
+  return {
+    ttftMs: args.firstTokenAt !== undefined ? args.firstTokenAt - args.startedAt : undefined,
+    latencyMs: args.endedAt - args.startedAt,
+    promptTokens,
+    completionTokens,
+    costUsd: estimateCostUsd(args.model, promptTokens, completionTokens),
+    estimated: reportedPrompt === undefined || reportedCompletion === undefined,
+  };
+}
+
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} s`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return 'free';
+  if (usd < 0.0001) return '<$0.0001';
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(3)}`;
+}
+
+// Model ids of the fastest and cheapest answers in one turn. Needs at least two answers with
+// metrics to compare, and no "cheapest" badge when every priced answer costs the same.
+export function rankTurnMetrics(answers: ChatMessage[]): { fastest?: string; cheapest?: string } {
+  const measured = answers.filter((a) => a.modelId && a.metrics?.latencyMs !== undefined);
+  if (measured.length < 2) return {};
+  const fastest = measured.reduce((best, a) =>
+    a.metrics!.latencyMs! < best.metrics!.latencyMs! ? a : best,
+  ).modelId;
+
+  const priced = measured.filter((a) => a.metrics?.costUsd !== undefined);
+  const costs = priced.map((a) => a.metrics!.costUsd!);
+  const cheapest =
+    priced.length >= 2 && Math.min(...costs) !== Math.max(...costs)
+      ? priced.reduce((best, a) => (a.metrics!.costUsd! < best.metrics!.costUsd! ? a : best))
+          .modelId
+      : undefined;
+  return { fastest, cheapest };
+}
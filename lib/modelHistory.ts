@@ -0,0 +1,26 @@
+import type { ChatMessage } from './types';
+
+// Build the context sent to one model in a multi-model thread.
+//
+// By default each model only sees the prompts it was asked and its own answers. With
+// `includeOtherAnswers` the other models' answers stay in (the pre-isolation behaviour), but
+// follow-ups sent to a single other model are still left out.
+export function historyForModel(
+  messages: ChatMessage[],
+  modelId: string,
+  opts: { includeOtherAnswers?: boolean } = {},
+): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  let skipTurn = false;
+  for (const m of messages) {
+    if (m.role === 'user') {
+      skipTurn = !!m.targetModelId && m.targetModelId !== modelId;
+      if (!skipTurn) out.push(m);
+      continue;
+    }
+    if (skipTurn) continue;
+    if (m.role === 'assistant' && m.modelId !== modelId && !opts.includeOtherAnswers) continue;
+    out.push(m);
+  }
+  return out;
+}
@@ -7,6 +7,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Pro',
     provider: 'gemini',
     model: 'gemini-2.5-pro',
+    contextWindow: 1_048_576,
     good: true,
   },
   {
@@ -14,12 +15,14 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Flash',
     provider: 'gemini',
     model: 'gemini-2.5-flash',
+    contextWindow: 1_048_576,
   },
   {
     id: 'deepcoder-14b-preview',
     label: 'DeepCoder 14B Preview',
     provider: 'openrouter',
     model: 'agentica-org/deepcoder-14b-preview:free',
+    contextWindow: 96_000,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -27,6 +30,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'DeepSeek R1',
     provider: 'openrouter',
     model: 'deepseek/deepseek-r1:free',
+    contextWindow: 163_840,
     good: true,
     // OpenRouter models require API key (BYOK)
   },
@@ -35,6 +39,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'DeepSeek Chat v3 0324',
     provider: 'openrouter',
     model: 'deepseek/deepseek-chat-v3-0324:free',
+    contextWindow: 163_840,
     good: true,
     // OpenRouter models require API key (BYOK)
   },
@@ -43,6 +48,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Llama 3.3 70B Instruct',
     provider: 'openrouter',
     model: 'meta-llama/llama-3.3-70b-instruct:free',
+    contextWindow: 131_072,
     good: true,
     // OpenRouter models require API key (BYOK)
   },
@@ -52,6 +58,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Mistral Small 24B Instruct 2501',
     provider: 'openrouter',
     model: 'mistralai/mistral-small-24b-instruct-2501:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -59,6 +66,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Qwen 2.5 72B Instruct (free)',
     provider: 'openrouter',
     model: 'qwen/qwen-2.5-72b-instruct:free',
+    contextWindow: 32_768,
     good: true,
     // OpenRouter models require API key (BYOK)
   },
@@ -67,6 +75,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Moonshot Kimi K2 (free)',
     provider: 'openrouter',
     model: 'moonshotai/kimi-k2:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -74,6 +83,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Reka Flash 3',
     provider: 'openrouter',
     model: 'reka/reka-flash-3:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -81,6 +91,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GLM 4.5 Air (free)',
     provider: 'openrouter',
     model: 'z-ai/glm-4.5-air:free',
+    contextWindow: 131_072,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -88,12 +99,14 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GLM 4.5 Air (paid)',
     provider: 'openrouter',
     model: 'z-ai/glm-4.5-air',
+    contextWindow: 131_072,
   },
   {
     id: 'hunyuan-a13b-instruct',
     label: 'Tencent Hunyuan A13B Instruct',
     provider: 'openrouter',
     model: 'tencent/hunyuan-a13b-instruct:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -101,6 +114,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Google Gemma 3n e2B IT',
     provider: 'openrouter',
     model: 'google/gemma-3n-e2b-it:free',
+    contextWindow: 8_192,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -108,6 +122,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Google Gemma 3 27B IT',
     provider: 'openrouter',
     model: 'google/gemma-3-27b-it:free',
+    contextWindow: 96_000,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -115,6 +130,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Dolphin 3.0 Mistral 24B',
     provider: 'openrouter',
     model: 'cognitivecomputations/dolphin3.0-mistral-24b:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -122,6 +138,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Google Gemma 2 9B IT',
     provider: 'openrouter',
     model: 'google/gemma-2-9b-it:free',
+    contextWindow: 8_192,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -129,6 +146,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Shisa v2 Llama 3.3 70B',
     provider: 'openrouter',
     model: 'shisa-ai/shisa-v2-llama3.3-70b:free',
+    contextWindow: 32_768,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -136,6 +154,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'DeepSeek R1T Chimera',
     provider: 'openrouter',
     model: 'tngtech/deepseek-r1t-chimera:free',
+    contextWindow: 163_840,
     // OpenRouter models require API key (BYOK)
   },
   {
@@ -143,6 +162,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Microsoft MAI DS-R1',
     provider: 'openrouter',
     model: 'microsoft/mai-ds-r1:free',
+    contextWindow: 163_840,
     // OpenRouter models require API key (BYOK)
   },
   // Newly requested models
@@ -151,12 +171,14 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Baidu ERNIE 4.5 21B A3B',
     provider: 'openrouter',
     model: 'baidu/ernie-4.5-21b-a3b',
+    contextWindow: 120_000,
   },
   {
     id: 'openai-gpt-oss-20b',
     label: 'OpenAI GPT-OSS 20B',
     provider: 'openrouter',
     model: 'openai/gpt-oss-20b',
+    contextWindow: 131_072,
     tags: ['health', 'new'],
     category: 'text',
   },
@@ -165,6 +187,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'OpenAI GPT-OSS 120B',
     provider: 'openrouter',
     model: 'openai/gpt-oss-120b',
+    contextWindow: 131_072,
     good: true,
     tags: ['finance', 'tech', 'new'],
     category: 'text',
@@ -174,6 +197,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'OpenAI GPT-5 Mini',
     provider: 'openrouter',
     model: 'openai/gpt-5-mini',
+    contextWindow: 400_000,
     good: true,
     tags: ['new', 'finance', 'coding'],
     category: 'text',
@@ -183,6 +207,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'OpenAI Codex Mini',
     provider: 'openrouter',
     model: 'openai/codex-mini',
+    contextWindow: 200_000,
     tags: ['new', 'coding'],
     category: 'text',
   },
@@ -191,6 +216,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'OpenAI GPT-5 Nano',
     provider: 'openrouter',
     model: 'openai/gpt-5-nano',
+    contextWindow: 400_000,
     good: true,
     tags: ['new', 'multimodal', 'vision'],
     category: 'image',
@@ -201,12 +227,14 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'xAI Grok 3 Mini',
     provider: 'openrouter',
     model: 'x-ai/grok-3-mini',
+    contextWindow: 131_072,
   },
   {
     id: 'xai-grok-beta',
     label: 'xAI Grok Beta',
     provider: 'openrouter',
     model: 'x-ai/grok-beta',
+    contextWindow: 131_072,
     good: true,
     tags: ['new', 'coding'],
     category: 'text',
@@ -216,6 +244,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Nous Hermes 4 70B',
     provider: 'openrouter',
     model: 'nousresearch/hermes-4-70b',
+    contextWindow: 131_072,
     category: 'text',
   },
   {
@@ -223,6 +252,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Flash Image Preview (free)',
     provider: 'openrouter',
     model: 'google/gemini-2.5-flash-image-preview:free',
+    contextWindow: 32_768,
     good: true,
     category: 'image',
     // OpenRouter models require API key (BYOK)
@@ -243,6 +273,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Flash Lite',
     provider: 'gemini',
     model: 'gemini-2.5-flash',
+    contextWindow: 1_048_576,
     free: true,
     category: 'text',
   },
@@ -474,6 +505,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-5 High',
     provider: 'unstable',
     model: 'gpt-5-high',
+    contextWindow: 400_000,
     good: true,
     category: 'text',
   },
@@ -482,6 +514,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-5 Chat',
     provider: 'unstable',
     model: 'gpt-5-chat',
+    contextWindow: 128_000,
     good: true,
     category: 'text',
   },
@@ -491,6 +524,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-5 Mini High',
     provider: 'unstable',
     model: 'gpt-5-mini-high',
+    contextWindow: 400_000,
     category: 'text',
   },
   {
@@ -498,6 +532,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-5 Nano High',
     provider: 'unstable',
     model: 'gpt-5-nano-high',
+    contextWindow: 400_000,
     category: 'text',
   },
   {
@@ -505,6 +540,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-4o',
     provider: 'unstable',
     model: 'gpt-4o',
+    contextWindow: 128_000,
     good: true,
     category: 'text',
   },
@@ -513,6 +549,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-4.1',
     provider: 'unstable',
     model: 'gpt-4.1',
+    contextWindow: 1_047_576,
     category: 'text',
   },
   {
@@ -520,6 +557,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'GPT-4.1 Mini',
     provider: 'unstable',
     model: 'gpt-4.1-mini',
+    contextWindow: 1_047_576,
     category: 'text',
   },
   {
@@ -527,6 +565,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'O3',
     provider: 'unstable',
     model: 'o3',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -535,6 +574,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'O3 Mini',
     provider: 'unstable',
     model: 'o3-mini',
+    contextWindow: 200_000,
     category: 'text',
   },
 
@@ -543,6 +583,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'O4 Mini',
     provider: 'unstable',
     model: 'o4-mini',
+    contextWindow: 200_000,
     category: 'text',
   },
 
@@ -552,6 +593,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Pro',
     provider: 'unstable',
     model: 'gemini-2.5-pro',
+    contextWindow: 1_048_576,
     good: true,
     category: 'text',
   },
@@ -560,6 +602,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Gemini 2.5 Flash',
     provider: 'unstable',
     model: 'gemini-2.5-flash',
+    contextWindow: 1_048_576,
     category: 'text',
   },
 
@@ -569,6 +612,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Claude Opus 4.1',
     provider: 'unstable',
     model: 'claude-opus-4-1',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -577,6 +621,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Claude Opus 4.1 Thinking',
     provider: 'unstable',
     model: 'claude-opus-4-1-thinking',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -586,6 +631,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Claude Opus 4',
     provider: 'unstable',
     model: 'claude-opus-4',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -595,6 +641,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Claude Sonnet 4',
     provider: 'unstable',
     model: 'claude-sonnet-4',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -603,6 +650,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Claude Sonnet 4 Thinking',
     provider: 'unstable',
     model: 'claude-sonnet-4-thinking',
+    contextWindow: 200_000,
     good: true,
     category: 'text',
   },
@@ -613,6 +661,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Grok 4',
     provider: 'unstable',
     model: 'grok-4',
+    contextWindow: 256_000,
     good: true,
     category: 'text',
   },
@@ -622,6 +671,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Grok 3 Mini High',
     provider: 'unstable',
     model: 'grok-3-mini-high',
+    contextWindow: 131_072,
     category: 'text',
   },
 
@@ -631,6 +681,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Mistral Large 2.1',
     provider: 'mistral',
     model: 'mistral-large-latest',
+    contextWindow: 131_072,
     good: true,
     category: 'text',
   },
@@ -639,6 +690,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Mistral Medium 3.1',
     provider: 'mistral',
     model: 'mistral-medium-latest',
+    contextWindow: 131_072,
     good: true,
     category: 'text',
   },
@@ -647,6 +699,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Mistral Small 3.2',
     provider: 'mistral',
     model: 'mistral-small-latest',
+    contextWindow: 131_072,
     category: 'text',
   },
   {
@@ -654,6 +707,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Magistral Medium 1.1 Reasoning',
     provider: 'mistral',
     model: 'magistral-medium-latest',
+    contextWindow: 40_000,
     good: true,
     category: 'text',
   },
@@ -662,6 +716,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Magistral Small 1.1 Reasoning',
     provider: 'mistral',
     model: 'magistral-small-latest',
+    contextWindow: 40_000,
     category: 'text',
   },
 
@@ -671,6 +726,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Codestral 2508 Coding',
     provider: 'mistral',
     model: 'codestral-latest',
+    contextWindow: 256_000,
     good: true,
     category: 'text',
   },
@@ -679,6 +735,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Devstral Medium Enterprise Coding',
     provider: 'mistral',
     model: 'devstral-medium-latest',
+    contextWindow: 131_072,
     category: 'text',
   },
   {
@@ -686,6 +743,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Devstral Small Open Source Coding',
     provider: 'mistral',
     model: 'devstral-small-latest',
+    contextWindow: 131_072,
     free: true,
     category: 'text',
   },
@@ -696,6 +754,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Pixtral Large Vision',
     provider: 'mistral',
     model: 'pixtral-large-latest',
+    contextWindow: 131_072,
     good: true,
     category: 'image',
   },
@@ -704,6 +763,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Pixtral 12B Open Vision',
     provider: 'mistral',
     model: 'pixtral-12b',
+    contextWindow: 131_072,
     free: true,
     category: 'image',
   },
@@ -714,6 +774,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Ministral 8B Edge',
     provider: 'mistral',
     model: 'ministral-8b-latest',
+    contextWindow: 131_072,
     category: 'text',
   },
   {
@@ -721,6 +782,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Ministral 3B Efficient Edge',
     provider: 'mistral',
     model: 'ministral-3b-latest',
+    contextWindow: 131_072,
     category: 'text',
   },
 
@@ -730,6 +792,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Voxtral Small Audio Input',
     provider: 'mistral',
     model: 'voxtral-small-latest',
+    contextWindow: 32_768,
     free: true,
     category: 'audio',
   },
@@ -738,6 +801,7 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Voxtral Mini Audio Input',
     provider: 'mistral',
     model: 'voxtral-mini-latest',
+    contextWindow: 32_768,
     free: true,
     category: 'audio',
   },
@@ -748,7 +812,90 @@ export const MODEL_CATALOG: AiModel[] = [
     label: 'Mistral Nemo 12B Multilingual',
     provider: 'mistral',
     model: 'open-mistral-nemo',
+    contextWindow: 131_072,
     free: true,
     category: 'text',
   },
 ];
+
+// Reference list prices in USD per 1M tokens, keyed by provider model slug (AiModel.model).
+// Used only for the per-answer cost estimate; the actual bill depends on the key and plan used.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  // OpenRouter (paid variants)
+  'z-ai/glm-4.5-air': { input: 0.2, output: 1.1 },
+  'baidu/ernie-4.5-21b-a3b': { input: 0.07, output: 0.28 },
+  'openai/gpt-oss-20b': { input: 0.04, output: 0.15 },
+  'openai/gpt-oss-120b': { input: 0.09, output: 0.45 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2 },
+  'openai/codex-mini': { input: 1.5, output: 6 },
+  'openai/gpt-5-nano': { input: 0.05, output: 0.4 },
+  'x-ai/grok-3-mini': { input: 0.3, output: 0.5 },
+  'x-ai/grok-beta': { input: 5, output: 15 },
+  'nousresearch/hermes-4-70b': { input: 0.13, output: 0.4 },
+  // Quran.lat (upstream list prices)
+  'gpt-5-high': { input: 1.25, output: 10 },
+  'gpt-5-chat': { input: 1.25, output: 10 },
+  'gpt-5-mini-high': { input: 0.25, output: 2 },
+  'gpt-5-nano-high': { input: 0.05, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  o3: { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-opus-4-1-thinking': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-sonnet-4-thinking': { input: 3, output: 15 },
+  'grok-4': { input: 3, output: 15 },
+  'grok-3-mini-high': { input: 0.3, output: 0.5 },
+  // Mistral
+  'mistral-large-latest': { input: 2, output: 6 },
+  'mistral-medium-latest': { input: 0.4, output: 2 },
+  'mistral-small-latest': { input: 0.1, output: 0.3 },
+  'magistral-medium-latest': { input: 2, output: 5 },
+  'magistral-small-latest': { input: 0.5, output: 1.5 },
+  'codestral-latest': { input: 0.3, output: 0.9 },
+  'devstral-medium-latest': { input: 0.4, output: 2 },
+  'devstral-small-latest': { input: 0.1, output: 0.3 },
+  'pixtral-large-latest': { input: 2, output: 6 },
+  'pixtral-12b': { input: 0.15, output: 0.15 },
+  'ministral-8b-latest': { input: 0.1, output: 0.1 },
+  'ministral-3b-latest': { input: 0.04, output: 0.04 },
+  'voxtral-small-latest': { input: 0.1, output: 0.3 },
+  'voxtral-mini-latest': { input: 0.04, output: 0.04 },
+  'open-mistral-nemo': { input: 0.15, output: 0.15 },
+};
+
+// Estimated cost of one answer; 0 for free pools and local models, undefined when unknown
+export function estimateCostUsd(
+  model: Pick<AiModel, 'provider' | 'model'>,
+  promptTokens = 0,
+  completionTokens = 0,
+): number | undefined {
+  const price = MODEL_PRICING[model.model];
+  if (price) return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  if (model.provider === 'open-provider' || model.provider === 'ollama') return 0;
+  if (model.model.endsWith(':free')) return 0;
+  return undefined;
+}
+
+// Context window assumed for models without `contextWindow` (custom and local models).
+// Ollama's is its default num_ctx; the others are conservative for their catalogs.
+export const PROVIDER_CONTEXT_WINDOW: Record<AiModel['provider'], number> = {
+  gemini: 1_048_576,
+  openrouter: 32_768,
+  'open-provider': 32_768,
+  unstable: 32_768,
+  mistral: 32_768,
+  ollama: 4_096,
+  'openai-compatible': 8_192,
+};
+
+export function contextWindowFor(model: Pick<AiModel, 'provider' | 'contextWindow'>): number {
+  return model.contextWindow ?? PROVIDER_CONTEXT_WINDOW[model.provider] ?? 8_192;
+}
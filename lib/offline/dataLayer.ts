@@ -1,7 +1,9 @@
 // Offline-first data layer with automatic synchronization
 import { offlineManager } from './manager';
 import { fetchThreads } from '@/lib/db/threads';
+import { reconcileConversation } from './merge';
 import type { ChatThread } from '@/lib/types';
+import type { ConflictResolution, SyncResult } from './types';
 
 export interface OfflineDataLayer {
   loadThreads: (userId: string, forceRefresh?: boolean) => Promise<ChatThread[]>;
@@ -9,6 +11,7 @@ export interface OfflineDataLayer {
   syncWithServer: (userId: string) => Promise<void>;
   isDataStale: (userId: string) => Promise<boolean>;
   getLastSyncTime: () => Promise<Date | null>;
+  resolveConflict: (userId: string, threadId: string, choice: ConflictResolution) => Promise<SyncResult>;
 }
 
 class OfflineDataLayerImpl implements OfflineDataLayer {
@@ -20,14 +23,22 @@ class OfflineDataLayerImpl implements OfflineDataLayer {
       if (offlineManager.isOnline() && (forceRefresh || await this.isDataStale(userId))) {
         // Online and data is stale: fetch from server and cache
         const serverThreads = await fetchThreads(userId);
-        
-        // Cache all threads locally
+        const threads: ChatThread[] = [];
+
+        // Cache all threads locally, merging in changes that haven't been synced yet
         for (const thread of serverThreads) {
-          await offlineManager.cacheConversation(thread);
+          const cached = await offlineManager.getCachedRecord(thread.id);
+          const next = reconcileConversation(cached ?? null, thread);
+          if (next.syncStatus === 'synced') {
+            await offlineManager.cacheConversation(thread);
+          } else {
+            await offlineManager.saveConversationState(next);
+          }
+          threads.push(next.thread);
         }
         
         this.lastSyncTimes.set(userId, new Date());
-        return serverThreads;
+        return threads;
       } else {
         // Offline or data is fresh: use cached data
         const cachedThreads = await offlineManager.getCachedConversations();
@@ -126,10 +137,9 @@ class OfflineDataLayerImpl implements OfflineDataLayer {
     }
   }
 
-  // Method to handle conflict resolution
+  // Re-check cached threads against the server. Changes on one side merge automatically;
+  // threads changed on both sides are flagged as conflicts for resolveConflict.
   async resolveConflicts(userId: string): Promise<void> {
-    // This would implement conflict resolution logic
-    // For now, we'll use a simple "server wins" strategy
     try {
       if (offlineManager.isOnline()) {
         await this.loadThreads(userId, true);
@@ -139,6 +149,19 @@ class OfflineDataLayerImpl implements OfflineDataLayer {
     }
   }
 
+  // Apply the user's choice for a conflicted thread: keep local, keep remote, or merge both
+  async resolveConflict(
+    userId: string,
+    threadId: string,
+    choice: ConflictResolution
+  ): Promise<SyncResult> {
+    const result = await offlineManager.resolveConflict(userId, threadId, choice);
+    if (result.success && offlineManager.isOnline()) {
+      await offlineManager.syncQueuedActions();
+    }
+    return result;
+  }
+
   // Method to clear all cached data
   async clearCache(): Promise<void> {
     await offlineManager.clearOfflineData();
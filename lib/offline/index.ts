@@ -2,16 +2,26 @@
 export { offlineManager } from './manager';
 export { offlineStorage } from './storage';
 export { offlineDataLayer } from './dataLayer';
+export { mergeThreads, reconcileConversation, resolveThreadConflict } from './merge';
 export { offlineChatActions } from './chatActionsOffline';
-export { useOffline } from './useOffline';
+export { useOffline, useGenerationRunner } from './useOffline';
+export { QUEUED_CONTENT } from './pendingGenerations';
+export { backoffDelay, classifySyncError } from './retry';
 export type {
   OfflineAction,
   OfflineQueueItem,
   CachedConversation,
   OfflineStorage,
   SyncResult,
-  OfflineStatus
+  OfflineStatus,
+  ConflictReason,
+  ConflictResolution,
+  ThreadConflict,
+  PendingGeneration,
+  SyncErrorKind
 } from './types';
 
 // Re-export components
-export { OfflineIndicator } from '../../components/offline/OfflineIndicator';
\ No newline at end of file
+export { OfflineIndicator } from '../../components/offline/OfflineIndicator';
+export { ConflictResolver } from '../../components/offline/ConflictResolver';
+export { SyncIssuesPanel } from '../../components/offline/SyncIssuesPanel';
\ No newline at end of file
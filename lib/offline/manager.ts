@@ -2,8 +2,22 @@
 import { offlineStorage } from './storage';
 import { safeUUID } from '@/lib/uuid';
 import type { ChatThread, ChatMessage } from '@/lib/types';
-import type { OfflineAction, OfflineQueueItem, CachedConversation, OfflineStatus, SyncResult } from './types';
-import { addMessage, createThread, deleteThread, updateThreadTitle, fetchThreads } from '@/lib/db';
+import type {
+  OfflineAction,
+  OfflineQueueItem,
+  CachedConversation,
+  OfflineStatus,
+  SyncResult,
+  ConflictResolution,
+  PendingGeneration
+} from './types';
+import { addMessage, createThread, deleteThread, deleteMessages, updateThreadTitle } from '@/lib/db';
+import { resolveThreadConflict } from './merge';
+import { hasQueuedDependency, isAlreadyApplied, nextRetryState, toSyncResult } from './retry';
+
+// Runs a queued prompt against its models. Resolves false when the prompt can't be handled
+// here (e.g. its thread isn't open on this page), leaving it queued for another runner.
+export type GenerationRunner = (generation: PendingGeneration, userId?: string) => Promise<boolean>;
 
 class OfflineManager {
   private isOnlineState = typeof navigator !== 'undefined' ? navigator.onLine : true;
@@ -11,6 +25,9 @@ class OfflineManager {
   private listeners: Set<(status: OfflineStatus) => void> = new Set();
   private syncInterval: NodeJS.Timeout | null = null;
   private initialized = false;
+  private generationRunner: GenerationRunner | null = null;
+  private replayInProgress = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Only initialize in browser environment
@@ -46,12 +63,16 @@ class OfflineManager {
     this.isOnlineState = true;
     this.notifyListeners();
     this.startPeriodicSync();
-    // Trigger immediate sync when coming back online
-    this.syncQueuedActions();
+    // Trigger immediate sync when coming back online, then answer prompts typed while offline
+    this.syncQueuedActions().then(() => this.replayPendingGenerations());
   }
 
   private handleOffline(): void {
     this.isOnlineState = false;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
     this.notifyListeners();
     this.stopPeriodicSync();
   }
@@ -90,13 +111,21 @@ class OfflineManager {
 
   async getStatus(): Promise<OfflineStatus> {
     const queuedActions = await offlineStorage.getQueuedActions();
-    const pendingActions = queuedActions.filter(action => action.status === 'pending');
+    const pendingActions = queuedActions.filter(
+      action => action.status === 'pending' && action.type !== 'GENERATE_ANSWERS'
+    );
+    const pendingGenerations = queuedActions.filter(
+      action => action.status === 'pending' && action.type === 'GENERATE_ANSWERS'
+    );
+    const deadLetters = queuedActions.filter(action => action.status === 'failed');
     const conversations = await offlineStorage.getAllConversations();
     const hasConflicts = conversations.some(conv => conv.syncStatus === 'conflict');
 
     return {
       isOnline: this.isOnlineState,
       queuedActionsCount: pendingActions.length,
+      pendingGenerationsCount: pendingGenerations.length,
+      deadLetterCount: deadLetters.length,
       syncInProgress: this.syncInProgress,
       hasConflicts
     };
@@ -127,12 +156,77 @@ class OfflineManager {
       id: thread.id,
       thread,
       lastModified: Date.now(),
-      syncStatus: 'synced'
+      syncStatus: 'synced',
+      base: thread
     };
 
     await offlineStorage.storeConversation(cachedConversation);
   }
 
+  async getCachedRecord(id: string): Promise<CachedConversation | null> {
+    return offlineStorage.getConversation(id);
+  }
+
+  // Store a reconciled cache entry (see reconcileConversation) and refresh the conflict status
+  async saveConversationState(conversation: CachedConversation): Promise<void> {
+    await offlineStorage.storeConversation(conversation);
+    this.notifyListeners();
+  }
+
+  async getConflicts(): Promise<CachedConversation[]> {
+    const conversations = await offlineStorage.getAllConversations();
+    return conversations.filter(conv => conv.syncStatus === 'conflict' && conv.conflict);
+  }
+
+  async resolveConflict(
+    userId: string,
+    threadId: string,
+    choice: ConflictResolution
+  ): Promise<SyncResult> {
+    const cached = await offlineStorage.getConversation(threadId);
+    if (!cached || cached.syncStatus !== 'conflict') {
+      return { success: false, error: 'No conflict recorded for this thread' };
+    }
+
+    const outcome = resolveThreadConflict(cached, choice);
+    if (outcome.dropQueuedActions) {
+      // Keeping the server copy discards local changes that haven't been pushed yet
+      const queued = await offlineStorage.getQueuedActions();
+      for (const action of queued) {
+        if (action.threadId === threadId && action.status !== 'completed') {
+          await offlineStorage.removeFromQueue(action.id);
+        }
+      }
+    }
+    await offlineStorage.storeConversation(outcome.conversation);
+
+    if (outcome.deleteMessageIds.length > 0) {
+      await this.queueAction({
+        type: 'DELETE_MESSAGES',
+        payload: { chatId: threadId, messageIds: outcome.deleteMessageIds },
+        timestamp: Date.now(),
+        retryCount: 0,
+        userId,
+        threadId,
+        maxRetries: 3
+      });
+    }
+    if (outcome.title) {
+      await this.queueAction({
+        type: 'UPDATE_TITLE',
+        payload: { chatId: threadId, title: outcome.title },
+        timestamp: Date.now(),
+        retryCount: 0,
+        userId,
+        threadId,
+        maxRetries: 3
+      });
+    }
+
+    this.notifyListeners();
+    return { success: true, conflictResolution: choice };
+  }
+
   async getCachedConversation(id: string): Promise<ChatThread | null> {
     const cached = await offlineStorage.getConversation(id);
     return cached ? cached.thread : null;
@@ -153,37 +247,111 @@ class OfflineManager {
 
     try {
       const queuedActions = await offlineStorage.getQueuedActions();
+      const now = Date.now();
+      // Queued prompts need a model runner and are replayed separately; failed items are
+      // dead-lettered and only run again when the user retries them
       const pendingActions = queuedActions
-        .filter(action => action.status === 'pending' || action.status === 'failed')
+        .filter(action => action.type !== 'GENERATE_ANSWERS' && action.status === 'pending')
         .sort((a, b) => a.timestamp - b.timestamp);
+      // Each thread's actions run in order: one waiting for a retry holds back the later ones,
+      // so e.g. a message is never sent before its thread is created
+      const heldThreads = new Set<string>();
+      const hold = (action: OfflineQueueItem) => {
+        if (action.threadId) heldThreads.add(action.threadId);
+      };
 
       for (const action of pendingActions) {
+        if (action.threadId && heldThreads.has(action.threadId)) continue;
+        if ((action.nextAttemptAt ?? 0) > now) {
+          hold(action);
+          continue;
+        }
         try {
-          await this.executeAction(action);
+          await this.executeAction(action).catch(error => {
+            if (!isAlreadyApplied(action, error)) throw error;
+          });
           action.status = 'completed';
           await offlineStorage.updateQueueItem(action);
           // Remove completed actions from queue
           await offlineStorage.removeFromQueue(action.id);
         } catch (error) {
-          action.retryCount++;
-          action.lastAttempt = Date.now();
-          action.error = error instanceof Error ? error.message : 'Unknown error';
-
-          if (action.retryCount >= action.maxRetries) {
-            action.status = 'failed';
-          } else {
-            action.status = 'pending';
-          }
-
-          await offlineStorage.updateQueueItem(action);
+          await this.recordFailure(action, error, hasQueuedDependency(action, queuedActions));
+          if (action.status === 'pending') hold(action);
         }
       }
     } finally {
       this.syncInProgress = false;
       this.notifyListeners();
+      this.scheduleRetry();
+    }
+  }
+
+  private async recordFailure(
+    action: OfflineQueueItem,
+    error: unknown,
+    dependencyQueued = false
+  ): Promise<void> {
+    const result = toSyncResult(error, { dependencyQueued });
+    const next = nextRetryState(action, result);
+    action.retryCount = next.retryCount;
+    action.status = next.status;
+    action.nextAttemptAt = next.nextAttemptAt;
+    action.lastAttempt = Date.now();
+    action.error = result.error;
+    action.errorKind = result.errorKind;
+    await offlineStorage.updateQueueItem(action);
+  }
+
+  // Wake up for the earliest backed-off retry instead of waiting for the periodic sync
+  private async scheduleRetry(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.isOnlineState) return;
+
+    const queuedActions = await offlineStorage.getQueuedActions();
+    const waits = queuedActions
+      .filter(action => action.status === 'pending' && action.nextAttemptAt)
+      .map(action => action.nextAttemptAt! - Date.now())
+      .filter(wait => wait > 0);
+    if (waits.length === 0) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.syncQueuedActions().then(() => this.replayPendingGenerations());
+    }, Math.min(...waits));
+  }
+
+  // Actions that failed permanently or ran out of retries
+  async getDeadLetters(): Promise<OfflineQueueItem[]> {
+    const queuedActions = await offlineStorage.getQueuedActions();
+    return queuedActions.filter(action => action.status === 'failed');
+  }
+
+  async retryDeadLetter(id: string): Promise<void> {
+    const action = (await this.getDeadLetters()).find(item => item.id === id);
+    if (!action) return;
+
+    action.status = 'pending';
+    action.retryCount = 0;
+    action.nextAttemptAt = undefined;
+    action.error = undefined;
+    action.errorKind = undefined;
+    await offlineStorage.updateQueueItem(action);
+    this.notifyListeners();
+
+    if (this.isOnlineState) {
+      await this.syncQueuedActions();
+      await this.replayPendingGenerations();
     }
   }
 
+  async discardDeadLetter(id: string): Promise<void> {
+    await offlineStorage.removeFromQueue(id);
+    this.notifyListeners();
+  }
+
   private async executeAction(action: OfflineQueueItem): Promise<void> {
     if (!action.userId) {
       throw new Error('User ID required for sync action');
@@ -200,6 +368,7 @@ class OfflineManager {
 
       case 'CREATE_THREAD':
         await createThread({
+          id: action.threadId,
           userId: action.userId,
           title: action.payload.title,
           projectId: action.payload.projectId,
@@ -220,6 +389,10 @@ class OfflineManager {
         await deleteThread(action.userId, action.payload.chatId);
         break;
 
+      case 'DELETE_MESSAGES':
+        await deleteMessages(action.userId, action.payload.chatId, action.payload.messageIds);
+        break;
+
       case 'UPDATE_THREAD':
         // Handle thread updates - this might involve multiple operations
         if (action.payload.messages) {
@@ -238,6 +411,64 @@ class OfflineManager {
     }
   }
 
+  // Queue a prompt typed while offline so its models answer it after reconnecting
+  async queueGeneration(userId: string | undefined, generation: PendingGeneration): Promise<string> {
+    return this.queueAction({
+      type: 'GENERATE_ANSWERS',
+      payload: generation,
+      timestamp: Date.now(),
+      retryCount: 0,
+      userId,
+      threadId: generation.threadId,
+      maxRetries: 3
+    });
+  }
+
+  async getPendingGenerations(): Promise<OfflineQueueItem[]> {
+    const queuedActions = await offlineStorage.getQueuedActions();
+    return queuedActions.filter(
+      action => action.type === 'GENERATE_ANSWERS' && action.status === 'pending'
+    );
+  }
+
+  // Pages register a runner while mounted; queued prompts are replayed right away if online
+  setGenerationRunner(runner: GenerationRunner): () => void {
+    this.generationRunner = runner;
+    if (this.isOnlineState) {
+      setTimeout(() => this.replayPendingGenerations(), 0);
+    }
+    return () => {
+      if (this.generationRunner === runner) this.generationRunner = null;
+    };
+  }
+
+  async replayPendingGenerations(): Promise<void> {
+    const runner = this.generationRunner;
+    if (!runner || this.replayInProgress || !this.isOnlineState) {
+      return;
+    }
+
+    this.replayInProgress = true;
+    try {
+      const now = Date.now();
+      const pending = (await this.getPendingGenerations())
+        .filter(item => (item.nextAttemptAt ?? 0) <= now)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      for (const item of pending) {
+        try {
+          const handled = await runner(item.payload as PendingGeneration, item.userId);
+          if (handled) await offlineStorage.removeFromQueue(item.id);
+        } catch (error) {
+          await this.recordFailure(item, error);
+        }
+      }
+    } finally {
+      this.replayInProgress = false;
+      this.notifyListeners();
+      this.scheduleRetry();
+    }
+  }
+
   async sendMessageOffline(
     userId: string,
     chatId: string,
@@ -248,7 +479,10 @@ class OfflineManager {
     if (cachedConversation) {
       cachedConversation.thread.messages.push(message);
       cachedConversation.lastModified = Date.now();
-      cachedConversation.syncStatus = 'pending';
+      // An unresolved conflict stays flagged until the user picks a version
+      if (cachedConversation.syncStatus !== 'conflict') {
+        cachedConversation.syncStatus = 'pending';
+      }
       await offlineStorage.storeConversation(cachedConversation);
     }
 
@@ -321,7 +555,9 @@ class OfflineManager {
     if (cachedConversation) {
       cachedConversation.thread.title = title;
       cachedConversation.lastModified = Date.now();
-      cachedConversation.syncStatus = 'pending';
+      if (cachedConversation.syncStatus !== 'conflict') {
+        cachedConversation.syncStatus = 'pending';
+      }
       await offlineStorage.storeConversation(cachedConversation);
     }
 
@@ -0,0 +1,196 @@
+// Three-way merge of a cached thread against the server copy
+import type { ChatMessage, ChatThread } from '@/lib/types';
+import type { CachedConversation, ConflictReason, ConflictResolution } from './types';
+
+export interface MergeResult {
+  thread: ChatThread;
+  conflicts: ConflictReason[];
+}
+
+// Messages written by this app carry client-generated ids; older rows fall back to role/time/model
+export function messageKey(message: ChatMessage): string {
+  return message.id ?? `${message.role}:${message.ts ?? ''}:${message.modelId ?? ''}`;
+}
+
+const byKey = (messages: ChatMessage[]) => new Map(messages.map((m) => [messageKey(m), m]));
+
+// Turn each prompt follows: its parent link, or the prompt before it for rows saved without one
+function parentTurns(messages: ChatMessage[]): Map<ChatMessage, string | null> {
+  const parents = new Map<ChatMessage, string | null>();
+  let previous: string | null = null;
+  for (const m of messages) {
+    if (m.role !== 'user') continue;
+    parents.set(m, m.parentId !== undefined ? m.parentId : previous);
+    previous = messageKey(m);
+  }
+  return parents;
+}
+
+/**
+ * Merge `local` and `remote`, which both descend from `base`.
+ *
+ * Changes made on only one side are applied automatically: new messages, removed messages,
+ * a renamed title. Appends on both sides are interleaved by timestamp. Conflicts are reported
+ * when both sides added a prompt after the same turn, renamed the thread differently, or
+ * changed the same message. The returned thread is still a usable merge in that case (local
+ * title and edits winning), which is what the "merge" resolution keeps.
+ */
+export function mergeThreads(base: ChatThread, local: ChatThread, remote: ChatThread): MergeResult {
+  const conflicts: ConflictReason[] = [];
+  const baseMap = byKey(base.messages);
+  const localMap = byKey(local.messages);
+  const remoteMap = byKey(remote.messages);
+
+  const localChangedTitle = local.title !== base.title;
+  const remoteChangedTitle = remote.title !== base.title;
+  if (localChangedTitle && remoteChangedTitle && local.title !== remote.title) {
+    conflicts.push('title');
+  }
+  const title = localChangedTitle ? local.title : remote.title;
+
+  // Messages from base that survive: removed on either side means removed
+  const kept: ChatMessage[] = [];
+  let editConflict = false;
+  for (const [key, original] of baseMap) {
+    const mine = localMap.get(key);
+    const theirs = remoteMap.get(key);
+    if (!mine || !theirs) continue;
+    const mineChanged = mine.content !== original.content;
+    const theirsChanged = theirs.content !== original.content;
+    if (mineChanged && theirsChanged && mine.content !== theirs.content) editConflict = true;
+    kept.push(mineChanged ? mine : theirs);
+  }
+  if (editConflict) conflicts.push('edit');
+
+  // Messages the server already has from our own earlier pushes are not remote additions
+  const remoteAdded = remote.messages.filter((m) => !baseMap.has(messageKey(m)));
+  const localAdded = local.messages.filter(
+    (m) => !baseMap.has(messageKey(m)) && !remoteMap.has(messageKey(m)),
+  );
+  const remoteOnly = remoteAdded.filter((m) => !localMap.has(messageKey(m)));
+  let appended = [...remoteAdded, ...localAdded];
+  if (remoteOnly.length > 0 && localAdded.length > 0) {
+    // Appends only overlap when both sides continued from the same turn (e.g. an answer that
+    // arrived on another device is not a conflict with a prompt typed here)
+    const remoteParents = parentTurns(remote.messages);
+    const localParents = parentTurns(local.messages);
+    const remoteForks = new Set(
+      remoteOnly.filter((m) => m.role === 'user').map((m) => remoteParents.get(m)),
+    );
+    if (localAdded.some((m) => m.role === 'user' && remoteForks.has(localParents.get(m)))) {
+      conflicts.push('messages');
+    }
+    appended = appended
+      .map((m, i) => ({ m, i }))
+      .sort((a, b) => (a.m.ts ?? 0) - (b.m.ts ?? 0) || a.i - b.i)
+      .map(({ m }) => m);
+  }
+
+  return {
+    thread: { ...remote, title, messages: [...kept, ...appended] },
+    conflicts,
+  };
+}
+
+function sameContent(a: ChatThread, b: ChatThread): boolean {
+  if (a.title !== b.title || a.messages.length !== b.messages.length) return false;
+  return a.messages.every(
+    (m, i) => messageKey(m) === messageKey(b.messages[i]) && m.content === b.messages[i].content,
+  );
+}
+
+// Legacy cache entries have no base; the messages both sides share are the best ancestor we have
+function approximateBase(local: ChatThread, remote: ChatThread): ChatThread {
+  const localKeys = new Set(local.messages.map(messageKey));
+  return { ...remote, messages: remote.messages.filter((m) => localKeys.has(messageKey(m))) };
+}
+
+/**
+ * Decide what the cache should hold after fetching `remote` from the server.
+ *
+ * Synced entries simply take the server copy. Entries with unsynced local changes are merged
+ * three ways against the last synced copy; if the server hasn't moved since then (same
+ * `updatedAt`) the local copy is kept as is.
+ */
+export function reconcileConversation(
+  cached: CachedConversation | null,
+  remote: ChatThread,
+  now = Date.now(),
+): CachedConversation {
+  if (!cached || cached.syncStatus === 'synced') {
+    return { id: remote.id, thread: remote, base: remote, lastModified: now, syncStatus: 'synced' };
+  }
+
+  const base = cached.base ?? approximateBase(cached.thread, remote);
+  if (
+    cached.syncStatus === 'pending' &&
+    cached.base?.updatedAt !== undefined &&
+    cached.base.updatedAt === remote.updatedAt
+  ) {
+    return cached;
+  }
+
+  const { thread, conflicts } = mergeThreads(base, cached.thread, remote);
+  if (conflicts.length > 0) {
+    return {
+      ...cached,
+      base,
+      syncStatus: 'conflict',
+      conflict: { remote, reasons: conflicts, detectedAt: now },
+    };
+  }
+  if (sameContent(thread, remote)) {
+    return { id: remote.id, thread: remote, base: remote, lastModified: now, syncStatus: 'synced' };
+  }
+  return {
+    id: remote.id,
+    thread,
+    base: remote,
+    lastModified: now,
+    syncStatus: 'pending',
+  };
+}
+
+export interface ConflictOutcome {
+  conversation: CachedConversation;
+  // Server-side follow-ups needed for the chosen version to stick
+  deleteMessageIds: string[];
+  title?: string;
+  dropQueuedActions: boolean;
+}
+
+// Apply the user's choice for a conflicted thread
+export function resolveThreadConflict(
+  cached: CachedConversation,
+  choice: ConflictResolution,
+  now = Date.now(),
+): ConflictOutcome {
+  const remote = cached.conflict?.remote ?? cached.base ?? cached.thread;
+  const base = cached.base ?? approximateBase(cached.thread, remote);
+
+  if (choice === 'remote') {
+    return {
+      conversation: {
+        id: cached.id,
+        thread: remote,
+        base: remote,
+        lastModified: now,
+        syncStatus: 'synced',
+      },
+      deleteMessageIds: [],
+      dropQueuedActions: true,
+    };
+  }
+
+  const thread =
+    choice === 'local' ? cached.thread : mergeThreads(base, cached.thread, remote).thread;
+  const keys = new Set(thread.messages.map(messageKey));
+  return {
+    conversation: { id: cached.id, thread, base: remote, lastModified: now, syncStatus: 'pending' },
+    deleteMessageIds: remote.messages
+      .filter((m) => m.id && !keys.has(messageKey(m)))
+      .map((m) => m.id as string),
+    title: thread.title !== remote.title ? thread.title : undefined,
+    dropQueuedActions: false,
+  };
+}
@@ -0,0 +1,39 @@
+// Helpers for prompts typed while offline (see offlineManager.queueGeneration)
+import type { ChatMessage } from '@/lib/types';
+import type { PendingGeneration } from './types';
+
+// Placeholder answer shown until the browser reconnects and the model is asked
+export const QUEUED_CONTENT = 'Queued…';
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// One "queued" placeholder per model; timestamps are spread so each answer is addressable
+export function queuedPlaceholders(
+  modelIds: string[],
+  now = Date.now(),
+): { answers: PendingGeneration['answers']; placeholders: ChatMessage[] } {
+  const answers = modelIds.map((modelId, i) => ({ modelId, ts: now + 1 + i }));
+  return {
+    answers,
+    placeholders: answers.map(({ modelId, ts }) => ({
+      role: 'assistant',
+      content: QUEUED_CONTENT,
+      modelId,
+      ts,
+    })),
+  };
+}
+
+// Conversation up to and including the queued prompt, or null if the prompt isn't on this path
+export function historyUpToPrompt(
+  messages: ChatMessage[],
+  prompt: ChatMessage,
+): ChatMessage[] | null {
+  const idx = messages.findIndex((m) =>
+    prompt.id ? m.id === prompt.id : m.role === 'user' && m.ts === prompt.ts,
+  );
+  if (idx < 0) return null;
+  return messages.slice(0, idx + 1).filter((m) => m.content !== QUEUED_CONTENT);
+}
@@ -0,0 +1,136 @@
+// Retry policy for the offline sync queue
+import type { OfflineQueueItem, SyncErrorKind, SyncResult } from './types';
+
+export const BASE_RETRY_DELAY_MS = 2000;
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Delay before retry number `retryCount` (1-based): exponential growth capped at
+ * MAX_RETRY_DELAY_MS, with "equal jitter" so a batch of items that failed together
+ * doesn't hit the server again in lockstep.
+ */
+export function backoffDelay(
+  retryCount: number,
+  { baseMs = BASE_RETRY_DELAY_MS, maxMs = MAX_RETRY_DELAY_MS, random = Math.random } = {},
+): number {
+  const exp = Math.min(maxMs, baseMs * 2 ** Math.max(0, retryCount - 1));
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+// Postgres/PostgREST codes that will fail the same way on every retry
+const PERMANENT_DB_CODES = new Set([
+  '22P02', // invalid input syntax
+  '23502', // not null violation
+  '23503', // foreign key violation
+  '23505', // unique violation (already written)
+  '42501', // row level security / insufficient privilege
+  'PGRST116', // no rows for a single-row request
+  'PGRST204', // unknown column
+]);
+
+type ErrorLike = {
+  message?: string;
+  code?: string | number;
+  status?: number;
+  retryAfter?: number | string;
+  headers?: { get?: (name: string) => string | null };
+};
+
+function statusOf(err: ErrorLike): number | undefined {
+  if (typeof err.status === 'number') return err.status;
+  if (typeof err.code === 'number') return err.code;
+  return undefined;
+}
+
+/**
+ * Permanent errors go straight to the dead-letter list; transient ones (network failures,
+ * timeouts, rate limits, 5xx) are retried with backoff. Unknown errors count as transient.
+ */
+export function classifySyncError(error: unknown): SyncErrorKind {
+  if (!error || typeof error !== 'object') return 'transient';
+  const err = error as ErrorLike;
+  if (typeof err.code === 'string' && PERMANENT_DB_CODES.has(err.code)) return 'permanent';
+  const status = statusOf(err);
+  if (status !== undefined && status >= 400 && status < 500) {
+    return status === 408 || status === 429 ? 'transient' : 'permanent';
+  }
+  if (
+    err.message === 'User ID required for sync action' ||
+    /^Unknown action type/.test(err.message ?? '')
+  ) {
+    return 'permanent';
+  }
+  return 'transient';
+}
+
+// Retry-After hint in milliseconds, from an explicit field or a response header (seconds)
+export function retryAfterFrom(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const err = error as ErrorLike;
+  const raw = err.retryAfter ?? err.headers?.get?.('retry-after') ?? undefined;
+  if (raw === undefined || raw === null) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(String(raw));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function codeOf(error: unknown): string | number | undefined {
+  return error && typeof error === 'object' ? (error as ErrorLike).code : undefined;
+}
+
+/**
+ * A message insert that hits a unique violation was already written, e.g. by an earlier
+ * attempt whose response was lost; the queue item is done rather than failed.
+ */
+export function isAlreadyApplied(action: Pick<OfflineQueueItem, 'type'>, error: unknown): boolean {
+  return action.type === 'SEND_MESSAGE' && codeOf(error) === '23505';
+}
+
+/**
+ * Whether an earlier action for the same thread is still queued. A foreign key violation is
+ * then waiting on that action (e.g. the thread isn't created yet) and is retried instead of
+ * dead-lettered.
+ */
+export function hasQueuedDependency(action: OfflineQueueItem, queue: OfflineQueueItem[]): boolean {
+  return (
+    !!action.threadId &&
+    queue.some(
+      (other) =>
+        other.id !== action.id &&
+        other.threadId === action.threadId &&
+        other.type !== 'GENERATE_ANSWERS' &&
+        other.status !== 'completed' &&
+        other.timestamp <= action.timestamp,
+    )
+  );
+}
+
+export function toSyncResult(
+  error: unknown,
+  { dependencyQueued = false }: { dependencyQueued?: boolean } = {},
+): SyncResult {
+  return {
+    success: false,
+    error:
+      error instanceof Error ? error.message : (error as ErrorLike)?.message || 'Unknown error',
+    errorKind:
+      dependencyQueued && codeOf(error) === '23503' ? 'transient' : classifySyncError(error),
+    retryAfter: retryAfterFrom(error),
+  };
+}
+
+// Next state of a queue item after a failed attempt
+export function nextRetryState(
+  item: { retryCount: number; maxRetries: number },
+  result: SyncResult,
+  now = Date.now(),
+  random = Math.random,
+): { retryCount: number; status: 'pending' | 'failed'; nextAttemptAt?: number } {
+  const retryCount = item.retryCount + 1;
+  if (result.errorKind === 'permanent' || retryCount >= item.maxRetries) {
+    return { retryCount, status: 'failed' };
+  }
+  const delay = result.retryAfter ?? backoffDelay(retryCount, { random });
+  return { retryCount, status: 'pending', nextAttemptAt: now + delay };
+}
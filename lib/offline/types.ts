@@ -2,7 +2,14 @@
 
 export interface OfflineAction {
   id: string;
-  type: 'SEND_MESSAGE' | 'UPDATE_THREAD' | 'DELETE_THREAD' | 'CREATE_THREAD' | 'UPDATE_TITLE';
+  type:
+    | 'SEND_MESSAGE'
+    | 'UPDATE_THREAD'
+    | 'DELETE_THREAD'
+    | 'CREATE_THREAD'
+    | 'UPDATE_TITLE'
+    | 'DELETE_MESSAGES'
+    | 'GENERATE_ANSWERS';
   payload: any;
   timestamp: number;
   retryCount: number;
@@ -14,14 +21,43 @@ export interface OfflineAction {
 export interface OfflineQueueItem extends OfflineAction {
   status: 'pending' | 'syncing' | 'completed' | 'failed';
   error?: string;
+  errorKind?: SyncErrorKind;
   lastAttempt?: number;
+  // Earliest time the next retry may run (exponential backoff or the server's retryAfter)
+  nextAttemptAt?: number;
 }
 
+// Permanent errors are dead-lettered right away; transient ones are retried with backoff
+export type SyncErrorKind = 'permanent' | 'transient';
+
 export interface CachedConversation {
   id: string;
   thread: ChatThread;
   lastModified: number;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  // Server copy as of the last successful sync; the common ancestor for three-way merges
+  base?: ChatThread;
+  conflict?: ThreadConflict;
+}
+
+// What both sides changed since `base` in a way that can't be merged automatically
+export type ConflictReason = 'title' | 'messages' | 'edit';
+
+export type ConflictResolution = 'local' | 'remote' | 'merge';
+
+export interface ThreadConflict {
+  remote: ChatThread;
+  reasons: ConflictReason[];
+  detectedAt: number;
+}
+
+// Payload of a GENERATE_ANSWERS action: a prompt typed while offline, sent to its models
+// once the browser reconnects. Attachments travel on `prompt`.
+export interface PendingGeneration {
+  threadId: string;
+  prompt: ChatMessage;
+  // One entry per model, with the timestamp of the "queued" placeholder its answer replaces
+  answers: { modelId: string; ts: number }[];
 }
 
 export interface OfflineStorage {
@@ -33,16 +69,21 @@ export interface OfflineStorage {
 export interface SyncResult {
   success: boolean;
   error?: string;
+  errorKind?: SyncErrorKind;
+  // Milliseconds to wait before retrying, when the server asked for it
   retryAfter?: number;
-  conflictResolution?: 'local' | 'remote' | 'merge';
+  conflictResolution?: ConflictResolution;
 }
 
 export interface OfflineStatus {
   isOnline: boolean;
   queuedActionsCount: number;
+  pendingGenerationsCount: number;
+  // Actions that failed permanently or ran out of retries and need the user's attention
+  deadLetterCount: number;
   lastSyncTime?: Date;
   syncInProgress: boolean;
   hasConflicts: boolean;
 }
 
-import type { ChatThread } from '@/lib/types';
\ No newline at end of file
+import type { ChatMessage, ChatThread } from '@/lib/types';
\ No newline at end of file
@@ -1,8 +1,16 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { offlineManager } from './manager';
-import type { OfflineStatus } from './types';
+import type { GenerationRunner } from './manager';
+import { offlineDataLayer } from './dataLayer';
+import type {
+  CachedConversation,
+  ConflictResolution,
+  OfflineQueueItem,
+  OfflineStatus,
+  SyncResult
+} from './types';
 import type { ChatThread, ChatMessage } from '@/lib/types';
 
 export interface UseOfflineReturn {
@@ -23,6 +31,11 @@ export interface UseOfflineReturn {
   syncNow: () => Promise<void>;
   clearOfflineData: () => Promise<void>;
   getStorageUsage: () => Promise<{ used: number; quota: number; percentage: number }>;
+  getConflicts: () => Promise<CachedConversation[]>;
+  resolveConflict: (userId: string, threadId: string, choice: ConflictResolution) => Promise<SyncResult>;
+  getDeadLetters: () => Promise<OfflineQueueItem[]>;
+  retryDeadLetter: (id: string) => Promise<void>;
+  discardDeadLetter: (id: string) => Promise<void>;
 }
 
 /**
@@ -30,8 +43,9 @@ export interface UseOfflineReturn {
  *
  * Returns the current offline `status` (keeps it updated by subscribing to the manager) and a set
  * of actions that delegate to `offlineManager` for sending messages, creating/updating/deleting
- * threads, reading cached conversations, forcing a sync, clearing offline data, and checking
- * storage usage.
+ * threads, reading cached conversations, forcing a sync, clearing offline data, checking storage
+ * usage, listing and resolving threads that changed both here and on the server, and retrying or
+ * discarding actions that could not be synced.
  *
  * The returned `isOnline` mirrors `status.isOnline`. `syncNow()` will only trigger a sync when
  * the client is online and a sync is not already in progress. All action methods return the
@@ -41,6 +55,8 @@ export function useOffline(): UseOfflineReturn {
   const [status, setStatus] = useState<OfflineStatus>({
     isOnline: navigator.onLine,
     queuedActionsCount: 0,
+    pendingGenerationsCount: 0,
+    deadLetterCount: 0,
     syncInProgress: false,
     hasConflicts: false
   });
@@ -112,6 +128,30 @@ export function useOffline(): UseOfflineReturn {
     return offlineManager.getStorageUsage();
   }, []);
 
+  const getConflicts = useCallback(async (): Promise<CachedConversation[]> => {
+    return offlineManager.getConflicts();
+  }, []);
+
+  const resolveConflict = useCallback(async (
+    userId: string,
+    threadId: string,
+    choice: ConflictResolution
+  ): Promise<SyncResult> => {
+    return offlineDataLayer.resolveConflict(userId, threadId, choice);
+  }, []);
+
+  const getDeadLetters = useCallback(async (): Promise<OfflineQueueItem[]> => {
+    return offlineManager.getDeadLetters();
+  }, []);
+
+  const retryDeadLetter = useCallback(async (id: string): Promise<void> => {
+    await offlineManager.retryDeadLetter(id);
+  }, []);
+
+  const discardDeadLetter = useCallback(async (id: string): Promise<void> => {
+    await offlineManager.discardDeadLetter(id);
+  }, []);
+
   return {
     status,
     isOnline: status.isOnline,
@@ -123,6 +163,26 @@ export function useOffline(): UseOfflineReturn {
     getCachedConversation,
     syncNow,
     clearOfflineData,
-    getStorageUsage
+    getStorageUsage,
+    getConflicts,
+    resolveConflict,
+    getDeadLetters,
+    retryDeadLetter,
+    discardDeadLetter
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Registers the page's model runner with the offline manager, so prompts queued while offline
+ * are answered when the browser reconnects. The latest runner is always used without
+ * re-registering on every render.
+ */
+export function useGenerationRunner(runner: GenerationRunner): void {
+  const runnerRef = useRef(runner);
+  runnerRef.current = runner;
+
+  useEffect(
+    () => offlineManager.setGenerationRunner((generation, userId) => runnerRef.current(generation, userId)),
+    []
+  );
+}
@@ -0,0 +1,144 @@
+import type { CustomModel } from './customModels';
+
+// Models installed on the user's Ollama instance, as listed by /api/ollama/models
+export type OllamaModelInfo = {
+  name: string; // e.g. "llama3.2:latest"; also the custom model id and slug
+  size: number; // bytes on disk
+  modifiedAt?: string;
+  family?: string;
+  parameterSize?: string; // e.g. "3.2B"
+  quantization?: string; // e.g. "Q4_K_M"
+};
+
+// One line of Ollama's streamed /api/pull response
+export type OllamaPullProgress = {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+};
+
+type OllamaTag = {
+  name?: unknown;
+  model?: unknown;
+  size?: unknown;
+  modified_at?: unknown;
+  details?: { family?: unknown; parameter_size?: unknown; quantization_level?: unknown };
+};
+
+const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+
+// Ollama's /api/tags response -> installed models, sorted by name
+export function parseOllamaTags(data: unknown): OllamaModelInfo[] {
+  const list = (data as { models?: unknown })?.models;
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((m: OllamaTag): OllamaModelInfo | null => {
+      const name = str(m?.name) ?? str(m?.model);
+      if (!name) return null;
+      return {
+        name,
+        size: typeof m.size === 'number' ? m.size : 0,
+        modifiedAt: str(m.modified_at),
+        family: str(m.details?.family),
+        parameterSize: str(m.details?.parameter_size),
+        quantization: str(m.details?.quantization_level),
+      };
+    })
+    .filter((m): m is OllamaModelInfo => m !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// An installed model as a selectable custom model; the id matches models added by slug
+export function toOllamaModel(info: OllamaModelInfo): CustomModel {
+  return {
+    id: info.name,
+    label: info.name.replace(/:latest$/, ''),
+    provider: 'ollama',
+    model: info.name,
+    category: 'text',
+    tags: [info.parameterSize, info.quantization].filter((t): t is string => !!t),
+    custom: true,
+  };
+}
+
+// Download percentage of the layer being pulled, when Ollama reports sizes
+export function pullPercent(p: OllamaPullProgress): number | undefined {
+  if (!p.total || p.completed === undefined) return undefined;
+  return Math.min(100, Math.round((p.completed / p.total) * 100));
+}
+
+async function errorOf(res: Response): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error || `Ollama request failed (${res.status})`;
+}
+
+export async function listOllamaModels(
+  baseUrl?: string,
+  signal?: AbortSignal,
+): Promise<OllamaModelInfo[]> {
+  const res = await fetch('/api/ollama/models', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ baseUrl }),
+    signal,
+  });
+  if (!res.ok) throw new Error(await errorOf(res));
+  const data = await res.json();
+  return Array.isArray(data?.models) ? data.models : [];
+}
+
+export async function deleteOllamaModel(name: string, baseUrl?: string): Promise<void> {
+  const res = await fetch('/api/ollama/models', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ baseUrl, name }),
+  });
+  if (!res.ok) throw new Error(await errorOf(res));
+}
+
+/**
+ * Download `name` into the Ollama instance, reporting each progress line. Resolves once Ollama
+ * reports success; rejects with Ollama's error message otherwise.
+ */
+export async function pullOllamaModel(
+  name: string,
+  onProgress: (p: OllamaPullProgress) => void,
+  opts: { baseUrl?: string; signal?: AbortSignal } = {},
+): Promise<void> {
+  const res = await fetch('/api/ollama/pull', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ baseUrl: opts.baseUrl, name }),
+    signal: opts.signal,
+  });
+  if (!res.ok || !res.body) throw new Error(await errorOf(res));
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let last: OllamaPullProgress | undefined;
+  const handle = (line: string) => {
+    if (!line.trim()) return;
+    let p: OllamaPullProgress;
+    try {
+      p = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (p.error) throw new Error(p.error);
+    last = p;
+    onProgress(p);
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handle);
+  }
+  handle(buffer);
+  if (last?.status !== 'success') throw new Error(`Pulling ${name} did not finish.`);
+}
@@ -1,7 +1,14 @@
+import type { GenerationParams } from './types';
+import type { EmbedderId } from './rag/embeddings';
+
 export interface Project {
   id: string;
   name: string;
   systemPrompt: string;
+  // Sampling overrides for every model used in this project (see lib/generationParams.ts)
+  generationParams?: GenerationParams;
+  // How the project's documents are embedded for retrieval (see lib/rag); defaults to 'local'
+  embedder?: EmbedderId;
   createdAt: number;
   updatedAt: number;
   isActive?: boolean;
@@ -40,7 +47,9 @@ export function createProject(name: string, systemPrompt: string = ''): Project
 
 export function updateProject(
   project: Project,
-  updates: Partial<Pick<Project, 'name' | 'systemPrompt' | 'isActive'>>,
+  updates: Partial<
+    Pick<Project, 'name' | 'systemPrompt' | 'isActive' | 'generationParams' | 'embedder'>
+  >,
 ): Project {
   return {
     ...project,
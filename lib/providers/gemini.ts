@@ -0,0 +1,35 @@
+import { callGemini, streamGemini } from '@/lib/client';
+import { toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+async function call({ model, keys, messages, imageDataUrl, params, signal }: ProviderRequest) {
+  const res = await callGemini({
+    apiKey: keys.gemini || undefined,
+    model: model.model,
+    messages,
+    imageDataUrl,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'gemini');
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  capabilities: { streaming: true, images: true, documents: true, validation: false },
+  call,
+  async stream(req, handlers) {
+    const { model, keys, messages, imageDataUrl, params, signal } = req;
+    await streamGemini(
+      {
+        apiKey: keys.gemini || undefined,
+        model: model.model,
+        messages,
+        imageDataUrl,
+        params,
+        signal,
+      },
+      handlers,
+    );
+  },
+};
@@ -0,0 +1,39 @@
+import type { ProviderAdapter, ProviderId } from './types';
+import { geminiAdapter } from './gemini';
+import { openRouterAdapter } from './openrouter';
+import { openProviderAdapter } from './openProvider';
+import { unstableAdapter } from './unstable';
+import { mistralAdapter } from './mistral';
+import { ollamaAdapter } from './ollama';
+import { openAICompatibleAdapter } from './openaiCompatible';
+
+// Registry of provider adapters keyed by AiModel['provider'].
+// Adding a provider means writing one adapter file and registering it here.
+export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
+  gemini: geminiAdapter,
+  openrouter: openRouterAdapter,
+  'open-provider': openProviderAdapter,
+  unstable: unstableAdapter,
+  mistral: mistralAdapter,
+  ollama: ollamaAdapter,
+  'openai-compatible': openAICompatibleAdapter,
+};
+
+export function getProviderAdapter(provider: ProviderId): ProviderAdapter {
+  // Unknown providers (e.g. stale custom models in localStorage) fall back to OpenRouter,
+  // which is what the old if/else chain in chatActions did.
+  return PROVIDER_ADAPTERS[provider] ?? openRouterAdapter;
+}
+
+export { toProviderResult } from './result';
+export type {
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderId,
+  ProviderRequest,
+  ProviderResult,
+  ProviderStreamHandlers,
+  ProviderValidateRequest,
+  ProviderValidateResult,
+  UsedKeyType,
+} from './types';
@@ -0,0 +1,35 @@
+import { callMistral, streamMistral } from '@/lib/client';
+import { toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+async function call({ model, keys, messages, imageDataUrl, params, signal }: ProviderRequest) {
+  const res = await callMistral({
+    apiKey: keys['mistral'] || undefined,
+    model: model.model,
+    messages,
+    imageDataUrl,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'mistral');
+}
+
+export const mistralAdapter: ProviderAdapter = {
+  id: 'mistral',
+  capabilities: { streaming: true, images: false, documents: true, validation: false },
+  call,
+  async stream(req, handlers) {
+    const { model, keys, messages, imageDataUrl, params, signal } = req;
+    await streamMistral(
+      {
+        apiKey: keys['mistral'] || undefined,
+        model: model.model,
+        messages,
+        imageDataUrl,
+        params,
+        signal,
+      },
+      handlers,
+    );
+  },
+};
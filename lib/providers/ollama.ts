@@ -0,0 +1,30 @@
+import { callOllama, streamOllama, validateOllamaModel } from '@/lib/client';
+import { toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+async function call({ model, keys, messages, params, signal }: ProviderRequest) {
+  const res = await callOllama({
+    baseUrl: keys['ollama'] || undefined,
+    model: model.model,
+    messages,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'ollama');
+}
+
+export const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  capabilities: { streaming: true, images: false, documents: true, validation: true },
+  call,
+  async stream(req, handlers) {
+    const { model, keys, messages, params, signal } = req;
+    await streamOllama(
+      { baseUrl: keys['ollama'] || undefined, model: model.model, messages, params, signal },
+      handlers,
+    );
+  },
+  async validate({ slug, keys }) {
+    return validateOllamaModel({ slug, baseUrl: keys['ollama'] || undefined });
+  },
+};
@@ -0,0 +1,46 @@
+import { callOpenProvider, streamOpenProvider } from '@/lib/client';
+import { streamFromCall, toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+async function call({
+  model,
+  keys,
+  messages,
+  imageDataUrl,
+  voice,
+  params,
+  signal,
+}: ProviderRequest) {
+  const res = await callOpenProvider({
+    apiKey: keys['open-provider'] || undefined,
+    model: model.model,
+    messages,
+    imageDataUrl,
+    voice,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'open-provider');
+}
+
+export const openProviderAdapter: ProviderAdapter = {
+  id: 'open-provider',
+  capabilities: { streaming: true, images: false, documents: true, validation: false },
+  call,
+  async stream(req, handlers) {
+    // Image and audio models return a single markdown/audio payload, not a token stream
+    if (req.model.category && req.model.category !== 'text') {
+      return streamFromCall(call, req, handlers, 'open-provider');
+    }
+    await streamOpenProvider(
+      {
+        apiKey: req.keys['open-provider'] || undefined,
+        model: req.model.model,
+        messages: req.messages,
+        params: req.params,
+        signal: req.signal,
+      },
+      handlers,
+    );
+  },
+};
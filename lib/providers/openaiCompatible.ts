@@ -0,0 +1,44 @@
+import { callOpenAICompatible, streamOpenAICompatible } from '@/lib/client';
+import { endpointConnection } from '@/lib/customEndpoints';
+import { streamFromCall, toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest, ProviderResult } from './types';
+
+// The endpoint was deleted (or never saved) while a model of it is still selected
+const MISSING_ENDPOINT = 'This endpoint is no longer configured. Add it again in Custom Models.';
+
+async function call({
+  model,
+  endpoint,
+  messages,
+  params,
+  signal,
+}: ProviderRequest): Promise<ProviderResult> {
+  if (!endpoint) {
+    return { text: MISSING_ENDPOINT, error: MISSING_ENDPOINT, provider: 'openai-compatible' };
+  }
+  const res = await callOpenAICompatible({
+    ...endpointConnection(endpoint),
+    model: model.model,
+    messages,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'openai-compatible');
+}
+
+export const openAICompatibleAdapter: ProviderAdapter = {
+  id: 'openai-compatible',
+  capabilities: { streaming: true, images: false, documents: true, validation: false },
+  call,
+  async stream(req, handlers) {
+    // Without an endpoint, call() reports the missing configuration
+    if (!req.endpoint) {
+      return streamFromCall(call, req, handlers, 'openai-compatible');
+    }
+    const { model, endpoint, messages, params, signal } = req;
+    await streamOpenAICompatible(
+      { ...endpointConnection(endpoint), model: model.model, messages, params, signal },
+      handlers,
+    );
+  },
+};
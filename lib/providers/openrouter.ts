@@ -0,0 +1,78 @@
+import { callOpenRouter, streamOpenRouter, validateOpenRouterModel } from '@/lib/client';
+import { toProviderResult } from './result';
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+async function call({
+  model,
+  keys,
+  messages,
+  imageDataUrl,
+  images,
+  params,
+  signal,
+}: ProviderRequest) {
+  const res = await callOpenRouter({
+    apiKey: keys.openrouter || undefined,
+    model: model.model,
+    messages,
+    imageDataUrl,
+    images,
+    params,
+    signal,
+  });
+  return toProviderResult(res, 'openrouter');
+}
+
+export const openRouterAdapter: ProviderAdapter = {
+  id: 'openrouter',
+  capabilities: { streaming: true, images: true, documents: true, validation: true },
+  call,
+  async stream(req, handlers) {
+    const emitFull = async () => {
+      const res = await call(req);
+      handlers.onMeta?.({ provider: res.provider, usedKeyType: res.usedKeyType });
+      if (res.text) handlers.onToken(res.text);
+      if (res.usage) handlers.onUsage?.(res.usage);
+    };
+
+    let gotAny = false;
+    let failed = false;
+    await streamOpenRouter(
+      {
+        apiKey: req.keys.openrouter || undefined,
+        model: req.model.model,
+        messages: req.messages,
+        imageDataUrl: req.imageDataUrl,
+        images: req.images,
+        params: req.params,
+        signal: req.signal,
+      },
+      {
+        onToken: (delta) => {
+          gotAny = true;
+          handlers.onToken(delta);
+        },
+        onMeta: handlers.onMeta,
+        onUsage: handlers.onUsage,
+        onError: (err) => {
+          failed = true;
+          handlers.onError?.(err);
+        },
+        onDone: () => {},
+      },
+    );
+
+    // Some free-pool models close the stream without emitting anything; retry once without streaming
+    if (!gotAny && !failed && !req.signal?.aborted) {
+      try {
+        await emitFull();
+      } catch {
+        // keep the empty answer
+      }
+    }
+    handlers.onDone?.();
+  },
+  async validate({ slug, keys }) {
+    return validateOpenRouterModel({ slug, apiKey: keys.openrouter || undefined });
+  },
+};
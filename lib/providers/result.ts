@@ -0,0 +1,60 @@
+import type { TokenUsage } from '@/lib/types';
+import type { ProviderRequest, ProviderResult, ProviderStreamHandlers, UsedKeyType } from './types';
+
+// open-provider reports 'shared-primary' / 'shared-backup' / 'default'; fold those into 'shared'
+function toUsedKeyType(v: unknown): UsedKeyType | undefined {
+  if (typeof v !== 'string' || !v) return undefined;
+  if (v === 'user' || v === 'none') return v;
+  return 'shared';
+}
+
+function toUsage(v: unknown): TokenUsage | undefined {
+  if (!v || typeof v !== 'object') return undefined;
+  const u = v as Record<string, unknown>;
+  const n = (x: unknown) => (typeof x === 'number' && Number.isFinite(x) ? x : undefined);
+  const usage = { promptTokens: n(u.promptTokens), completionTokens: n(u.completionTokens) };
+  return usage.promptTokens === undefined && usage.completionTokens === undefined
+    ? undefined
+    : usage;
+}
+
+// Coerce the loosely-typed JSON returned by our API routes into a ProviderResult.
+// Routes reply with { text } on success and { error } (sometimes both) on failure.
+export function toProviderResult(res: unknown, fallbackProvider?: string): ProviderResult {
+  if (!res || typeof res !== 'object') return { text: '', provider: fallbackProvider };
+  const r = res as Record<string, unknown>;
+  const text = typeof r.text === 'string' ? r.text : '';
+  const error = typeof r.error === 'string' ? r.error : undefined;
+  return {
+    text: (text || error || '').trim(),
+    error,
+    code: typeof r.code === 'number' ? r.code : undefined,
+    provider: typeof r.provider === 'string' ? r.provider : fallbackProvider,
+    usedKeyType: toUsedKeyType(r.usedKeyType),
+    tokens:
+      r.tokens && typeof r.tokens === 'object' ? (r.tokens as ProviderResult['tokens']) : undefined,
+    usage: toUsage(r.usage),
+  };
+}
+
+// Serve a stream() request through the non-streaming call(), emitting the whole answer as one token.
+// Used for requests the provider's stream route cannot handle (image/audio models, missing configuration).
+export async function streamFromCall(
+  call: (req: ProviderRequest) => Promise<ProviderResult>,
+  req: ProviderRequest,
+  handlers: ProviderStreamHandlers,
+  provider: string,
+) {
+  try {
+    const res = await call(req);
+    handlers.onMeta?.({ provider: res.provider, usedKeyType: res.usedKeyType });
+    if (res.text) handlers.onToken(res.text);
+    if (res.usage) handlers.onUsage?.(res.usage);
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === 'AbortError')) {
+      const e = err as Error | undefined;
+      handlers.onError?.({ error: e?.message || 'Request failed', provider });
+    }
+  }
+  handlers.onDone?.();
+}
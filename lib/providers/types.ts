@@ -0,0 +1,77 @@
+import type { AiModel, ApiKeys, ChatMessage, GenerationParams, TokenUsage } from '@/lib/types';
+import type { CustomEndpoint } from '@/lib/customEndpoints';
+
+export type ProviderId = AiModel['provider'];
+
+export type UsedKeyType = 'user' | 'shared' | 'none';
+
+// What a provider can do; lets callers decide on UI and transport without provider checks
+export interface ProviderCapabilities {
+  streaming: boolean; // emits tokens as they arrive
+  images: boolean; // accepts image attachments
+  documents: boolean; // reads non-image attachments as text (see lib/server/documents.ts)
+  validation: boolean; // can check whether a model id exists upstream
+}
+
+export interface ProviderRequest {
+  model: AiModel;
+  keys: ApiKeys;
+  messages: ChatMessage[];
+  imageDataUrl?: string;
+  // Image attachments of the latest prompt; `imageDataUrl` is the first of them for routes
+  // that take a single image
+  images?: string[];
+  voice?: string;
+  params?: GenerationParams;
+  // Connection details for 'openai-compatible' models (looked up from model.endpointId)
+  endpoint?: CustomEndpoint;
+  signal?: AbortSignal;
+}
+
+// Normalized non-streaming response from any provider route
+export interface ProviderResult {
+  text: string;
+  error?: string;
+  code?: number;
+  provider?: string;
+  usedKeyType?: UsedKeyType;
+  tokens?: ChatMessage['tokens'];
+  usage?: TokenUsage; // provider-reported token counts, when available
+}
+
+export interface ProviderStreamHandlers {
+  onToken: (chunk: string) => void;
+  onMeta?: (meta: { provider?: string; usedKeyType?: UsedKeyType }) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  onError?: (err: {
+    error?: string;
+    code?: number;
+    provider?: string;
+    usedKeyType?: UsedKeyType;
+  }) => void;
+  onDone?: () => void;
+}
+
+export interface ProviderValidateRequest {
+  slug: string;
+  keys: ApiKeys;
+}
+
+export interface ProviderValidateResult {
+  ok: boolean;
+  exists?: boolean;
+  error?: string;
+  details?: string;
+  status?: number;
+  availableModels?: string[];
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  capabilities: ProviderCapabilities;
+  call(req: ProviderRequest): Promise<ProviderResult>;
+  // Only present when capabilities.streaming is true
+  stream?(req: ProviderRequest, handlers: ProviderStreamHandlers): Promise<void>;
+  // Only present when capabilities.validation is true
+  validate?(req: ProviderValidateRequest): Promise<ProviderValidateResult>;
+}
@@ -0,0 +1,19 @@
+import { callUnstable } from '@/lib/client';
+import { toProviderResult } from './result';
+import type { ProviderAdapter } from './types';
+
+export const unstableAdapter: ProviderAdapter = {
+  id: 'unstable',
+  capabilities: { streaming: false, images: false, documents: true, validation: false },
+  async call({ model, keys, messages, imageDataUrl, params, signal }) {
+    const res = await callUnstable({
+      apiKey: keys['unstable'] || undefined,
+      model: model.model,
+      messages,
+      imageDataUrl,
+      params,
+      signal,
+    });
+    return toProviderResult(res, 'unstable');
+  },
+};
@@ -0,0 +1,53 @@
+// Split extracted document text into overlapping passages for retrieval.
+// PDF text carries "--- Page N ---" markers (see clipPages in lib/documents.ts); chunks never span
+// two pages so every passage can be cited by the page it came from.
+
+export const CHUNK_CHARS = 1200;
+export const CHUNK_OVERLAP = 200;
+
+export type TextChunk = { page?: number; text: string };
+
+const PAGE_MARKER = /^--- Page (\d+) ---$/gm;
+
+function splitPages(text: string): TextChunk[] {
+  const markers = [...text.matchAll(PAGE_MARKER)];
+  if (markers.length === 0) return [{ text }];
+  return markers.map((m, i) => ({
+    page: Number(m[1]),
+    text: text.slice(m.index! + m[0].length, markers[i + 1]?.index ?? text.length),
+  }));
+}
+
+// Where to end a window: the last paragraph, sentence or word break before `max`
+function breakPoint(text: string, max: number): number {
+  if (text.length <= max) return text.length;
+  const window = text.slice(0, max);
+  const min = Math.floor(max / 2);
+  for (const sep of ['\n\n', '\n', '. ', ' ']) {
+    const at = window.lastIndexOf(sep);
+    if (at >= min) return at + sep.length;
+  }
+  return max;
+}
+
+export function chunkText(
+  text: string,
+  size: number = CHUNK_CHARS,
+  overlap: number = CHUNK_OVERLAP,
+): TextChunk[] {
+  const out: TextChunk[] = [];
+  for (const { page, text: pageText } of splitPages(text)) {
+    let rest = pageText.trim();
+    while (rest) {
+      const end = breakPoint(rest, size);
+      const piece = rest.slice(0, end).trim();
+      if (piece) out.push(page === undefined ? { text: piece } : { page, text: piece });
+      if (end >= rest.length) break;
+      // Step back by the overlap, but always move forward
+      const next = Math.max(end - overlap, Math.ceil(end / 2));
+      const space = rest.indexOf(' ', next);
+      rest = rest.slice(space > 0 && space < end ? space + 1 : next).trim();
+    }
+  }
+  return out;
+}
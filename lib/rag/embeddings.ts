@@ -0,0 +1,123 @@
+import type { ApiKeys } from '@/lib/types';
+
+// Embedding functions for project documents. Vectors from different embedders are not
+// comparable, so every stored document records the embedder that produced its vectors and
+// queries are embedded with the same one.
+
+export type EmbedderId = 'local' | 'gemini' | 'mistral';
+
+export const EMBEDDER_OPTIONS: Array<{ id: EmbedderId; label: string }> = [
+  { id: 'local', label: 'On this device' },
+  { id: 'gemini', label: 'Gemini (text-embedding-004)' },
+  { id: 'mistral', label: 'Mistral (mistral-embed)' },
+];
+
+export interface Embedder {
+  id: EmbedderId;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+  // Chunks scoring below this are not relevant enough to inject
+  minScore: number;
+}
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have in is it its of on or that the this to was ' +
+    'were will with what which who how why when where do does did can you your i we they'
+  ).split(' '),
+);
+
+export function tokenizeForEmbedding(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length > 1 && !STOP_WORDS.has(t),
+  );
+}
+
+// 32-bit FNV-1a
+function hash(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Hashed bag of words and word pairs, L2-normalized. No model or network needed; good enough to
+ * find passages that share the prompt's vocabulary.
+ */
+export function localEmbedding(text: string): number[] {
+  const vec = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const words = tokenizeForEmbedding(text);
+  const add = (feature: string, weight: number) => {
+    const h = hash(feature);
+    // The top bit picks a sign so colliding features tend to cancel out
+    vec[h % LOCAL_DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+  };
+  words.forEach((w, i) => {
+    add(w, 1);
+    if (i > 0) add(`${words[i - 1]} ${w}`, 0.5);
+  });
+  return normalize(vec);
+}
+
+export function normalize(vec: number[]): number[] {
+  const norm = Math.sqrt(vec.reduce((sum, x) => sum + x * x, 0));
+  return norm ? vec.map((x) => x / norm) : vec;
+}
+
+export function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+const localEmbedder: Embedder = {
+  id: 'local',
+  minScore: 0.12,
+  async embed(texts) {
+    return texts.map(localEmbedding);
+  },
+};
+
+// Provider embeddings go through /api/embeddings so shared server keys can be used
+const BATCH_SIZE = 32;
+
+function providerEmbedder(id: Exclude<EmbedderId, 'local'>, apiKey?: string): Embedder {
+  return {
+    id,
+    minScore: 0.3,
+    async embed(texts, signal) {
+      const out: number[][] = [];
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const res = await fetch('/api/embeddings', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ provider: id, apiKey, texts: texts.slice(i, i + BATCH_SIZE) }),
+          signal,
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(data.vectors)) {
+          throw new Error(data.error || `Embedding request failed (${res.status})`);
+        }
+        out.push(...(data.vectors as number[][]));
+      }
+      return out;
+    },
+  };
+}
+
+export function getEmbedder(id: EmbedderId | undefined, keys: ApiKeys): Embedder {
+  if (id === 'gemini') return providerEmbedder('gemini', keys.gemini || undefined);
+  if (id === 'mistral') return providerEmbedder('mistral', keys.mistral || undefined);
+  return localEmbedder;
+}
@@ -0,0 +1,117 @@
+// Project document library: files added to a project are chunked, embedded and kept in
+// IndexedDB; each prompt in that project retrieves the closest chunks and the models see them
+// next to the project system prompt, numbered so answers can cite them.
+import type { ApiKeys, Citation } from '@/lib/types';
+import { MAX_DOCUMENT_BYTES, MAX_LIBRARY_CHARS } from '@/lib/documents';
+import { readFileText } from '@/lib/attachments';
+import { safeUUID } from '@/lib/uuid';
+import { chunkText } from './chunking';
+import { getEmbedder, type EmbedderId } from './embeddings';
+import { TOP_K, rankChunks, toCitations } from './retrieval';
+import { projectDocuments, type DocumentChunk, type ProjectDocument } from './store';
+
+export { projectDocuments } from './store';
+export type { ProjectDocument, DocumentChunk } from './store';
+export { EMBEDDER_OPTIONS, type EmbedderId } from './embeddings';
+export { citedSources, citationLabel, retrievalContext } from './retrieval';
+
+export async function ingestDocument({
+  projectId,
+  file,
+  embedder: embedderId,
+  keys,
+  signal,
+}: {
+  projectId: string;
+  file: File;
+  embedder?: EmbedderId;
+  keys: ApiKeys;
+  signal?: AbortSignal;
+}): Promise<ProjectDocument> {
+  if (file.size > MAX_DOCUMENT_BYTES) throw new Error(`${file.name} is larger than 10 MB.`);
+  const read = await readFileText(file, MAX_LIBRARY_CHARS);
+  if (!read) throw new Error(`Could not read text from ${file.name}.`);
+  const pieces = chunkText(read.text);
+  if (pieces.length === 0) throw new Error(`${file.name} has no extractable text.`);
+
+  const embedder = getEmbedder(embedderId, keys);
+  const vectors = await embedder.embed(
+    pieces.map((p) => p.text),
+    signal,
+  );
+  const doc: ProjectDocument = {
+    id: safeUUID(),
+    projectId,
+    name: file.name,
+    mime: file.type,
+    size: file.size,
+    ...(read.pages ? { pages: read.pages.total } : {}),
+    ...(read.truncated ? { truncated: true } : {}),
+    chunkCount: pieces.length,
+    embedder: embedder.id,
+    createdAt: Date.now(),
+  };
+  const chunks: DocumentChunk[] = pieces.map((p, index) => ({
+    id: `${doc.id}:${index}`,
+    documentId: doc.id,
+    projectId,
+    index,
+    ...(p.page !== undefined ? { page: p.page } : {}),
+    text: p.text,
+    vector: vectors[index],
+  }));
+  await projectDocuments.addDocument(doc, chunks);
+  return doc;
+}
+
+/**
+ * Excerpts of the project's documents most relevant to `query`, numbered from 1. Documents
+ * embedded by different embedders are searched separately and merged by score.
+ * Resolves to [] when the project has no documents or retrieval fails.
+ */
+export async function retrieveCitations({
+  projectId,
+  query,
+  keys,
+  k = TOP_K,
+}: {
+  projectId: string;
+  query: string;
+  keys: ApiKeys;
+  k?: number;
+}): Promise<Citation[]> {
+  if (!query.trim()) return [];
+  try {
+    const docs = await projectDocuments.listDocuments(projectId);
+    if (docs.length === 0) return [];
+    const chunks = await projectDocuments.getChunks(projectId);
+    const byEmbedder = new Map<EmbedderId, DocumentChunk[]>();
+    const embedderOf = new Map(docs.map((d) => [d.id, d.embedder]));
+    for (const chunk of chunks) {
+      const id = embedderOf.get(chunk.documentId);
+      if (id) byEmbedder.set(id, [...(byEmbedder.get(id) ?? []), chunk]);
+    }
+
+    const ranked = (
+      await Promise.all(
+        [...byEmbedder].map(async ([id, group]) => {
+          const embedder = getEmbedder(id, keys);
+          try {
+            const [vector] = await embedder.embed([query]);
+            return rankChunks(vector, group, k, embedder.minScore);
+          } catch (e) {
+            console.warn(`Document retrieval with ${id} embeddings failed:`, e);
+            return [];
+          }
+        }),
+      )
+    )
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+    return toCitations(ranked, new Map(docs.map((d) => [d.id, d.name])));
+  } catch (e) {
+    console.warn('Document retrieval failed:', e);
+    return [];
+  }
+}
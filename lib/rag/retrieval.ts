@@ -0,0 +1,54 @@
+import type { Citation } from '@/lib/types';
+import { cosine } from './embeddings';
+import type { DocumentChunk } from './store';
+
+export const TOP_K = 5;
+
+export type RankedChunk = { chunk: DocumentChunk; score: number };
+
+// The `k` chunks closest to the query, best first, skipping ones below `minScore`
+export function rankChunks(
+  query: number[],
+  chunks: DocumentChunk[],
+  k: number = TOP_K,
+  minScore = 0,
+): RankedChunk[] {
+  return chunks
+    .map((chunk) => ({ chunk, score: cosine(query, chunk.vector) }))
+    .filter((r) => r.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index)
+    .slice(0, k);
+}
+
+export function toCitations(ranked: RankedChunk[], names: Map<string, string>): Citation[] {
+  return ranked.map(({ chunk }, i) => ({
+    n: i + 1,
+    documentId: chunk.documentId,
+    name: names.get(chunk.documentId) ?? 'Document',
+    ...(chunk.page !== undefined ? { page: chunk.page } : {}),
+    excerpt: chunk.text,
+  }));
+}
+
+export function citationLabel(c: Pick<Citation, 'name' | 'page'>): string {
+  return c.page !== undefined ? `${c.name}, page ${c.page}` : c.name;
+}
+
+// Text added next to the project system prompt
+export function retrievalContext(citations: Citation[]): string {
+  if (citations.length === 0) return '';
+  const sources = citations.map((c) => `[${c.n}] ${citationLabel(c)}\n${c.excerpt}`).join('\n\n');
+  return (
+    "Excerpts from the project's documents that may help with the user's latest message. " +
+    'Use them when relevant and cite them inline by number, e.g. [1] or [2][3]. ' +
+    'Do not cite excerpts you did not use.\n\n' +
+    sources
+  );
+}
+
+// Citations an answer refers to by number; all of them when the answer cites none
+export function citedSources(text: string, citations: Citation[]): Citation[] {
+  const cited = new Set([...text.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])));
+  const used = citations.filter((c) => cited.has(c.n));
+  return used.length ? used : citations;
+}
@@ -0,0 +1,134 @@
+// IndexedDB storage for project documents and their embedded chunks. Kept in its own database
+// so the offline cache (lib/offline/storage.ts) can be cleared or upgraded independently.
+import type { EmbedderId } from './embeddings';
+
+const DB_NAME = 'OpenFiestaDocuments';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const CHUNKS_STORE = 'chunks';
+
+export interface ProjectDocument {
+  id: string;
+  projectId: string;
+  name: string;
+  mime: string;
+  size: number; // bytes of the original file
+  pages?: number; // PDF page count
+  truncated?: boolean; // only part of the text could be read
+  chunkCount: number;
+  embedder: EmbedderId;
+  createdAt: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  projectId: string;
+  index: number; // position within the document
+  page?: number;
+  text: string;
+  vector: number[];
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class ProjectDocumentStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.db) return this.db;
+    if (typeof window === 'undefined' || !window.indexedDB) {
+      console.warn('IndexedDB not available, project documents disabled');
+      return Promise.resolve(null);
+    }
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => {
+        this.db = null;
+        reject(request.error);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          const documents = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          documents.createIndex('projectId', 'projectId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+          const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
+          chunks.createIndex('projectId', 'projectId', { unique: false });
+          chunks.createIndex('documentId', 'documentId', { unique: false });
+        }
+      };
+    });
+    return this.db;
+  }
+
+  async listDocuments(projectId: string): Promise<ProjectDocument[]> {
+    const db = await this.open();
+    if (!db) return [];
+    const tx = db.transaction([DOCUMENTS_STORE], 'readonly');
+    const docs = await requestResult<ProjectDocument[]>(
+      tx.objectStore(DOCUMENTS_STORE).index('projectId').getAll(projectId),
+    );
+    return docs.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getChunks(projectId: string): Promise<DocumentChunk[]> {
+    const db = await this.open();
+    if (!db) return [];
+    const tx = db.transaction([CHUNKS_STORE], 'readonly');
+    return requestResult<DocumentChunk[]>(
+      tx.objectStore(CHUNKS_STORE).index('projectId').getAll(projectId),
+    );
+  }
+
+  // Stores a document and its chunks in one transaction, so a failed upload leaves nothing behind
+  async addDocument(doc: ProjectDocument, chunks: DocumentChunk[]): Promise<void> {
+    const db = await this.open();
+    if (!db) throw new Error('Project documents need IndexedDB, which is not available here');
+    const tx = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(DOCUMENTS_STORE).put(doc);
+    const store = tx.objectStore(CHUNKS_STORE);
+    for (const chunk of chunks) store.put(chunk);
+    await transactionDone(tx);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const tx = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(DOCUMENTS_STORE).delete(documentId);
+    const chunks = tx.objectStore(CHUNKS_STORE);
+    const keys = await requestResult(chunks.index('documentId').getAllKeys(documentId));
+    for (const key of keys) chunks.delete(key);
+    await transactionDone(tx);
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const tx = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], 'readwrite');
+    for (const name of [DOCUMENTS_STORE, CHUNKS_STORE]) {
+      const store = tx.objectStore(name);
+      const keys = await requestResult(store.index('projectId').getAllKeys(projectId));
+      for (const key of keys) store.delete(key);
+    }
+    await transactionDone(tx);
+  }
+}
+
+export const projectDocuments = new ProjectDocumentStore();
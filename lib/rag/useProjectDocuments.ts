@@ -0,0 +1,67 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiKeys } from '@/lib/types';
+import type { EmbedderId } from './embeddings';
+import { ingestDocument, projectDocuments, type ProjectDocument } from './index';
+
+// Documents of one project, plus adding (chunk + embed + store) and removing them
+export function useProjectDocuments(
+  projectId: string | null | undefined,
+  opts: { embedder?: EmbedderId; keys: ApiKeys },
+) {
+  const [documents, setDocuments] = useState<ProjectDocument[]>([]);
+  const [adding, setAdding] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { embedder, keys } = opts;
+
+  const refresh = useCallback(async () => {
+    if (!projectId) {
+      setDocuments([]);
+      return;
+    }
+    try {
+      setDocuments(await projectDocuments.listDocuments(projectId));
+    } catch (e) {
+      console.warn('Failed to load project documents:', e);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addFiles = useCallback(
+    async (files: File[]) => {
+      if (!projectId || files.length === 0) return;
+      setError(null);
+      const failures: string[] = [];
+      for (const file of files) {
+        setAdding((prev) => [...prev, file.name]);
+        try {
+          await ingestDocument({ projectId, file, embedder, keys });
+        } catch (e) {
+          failures.push(e instanceof Error ? e.message : `Could not add ${file.name}.`);
+        } finally {
+          setAdding((prev) => prev.filter((n) => n !== file.name));
+        }
+      }
+      if (failures.length) setError(failures.join(' '));
+      await refresh();
+    },
+    [projectId, embedder, keys, refresh],
+  );
+
+  const remove = useCallback(
+    async (documentId: string) => {
+      try {
+        await projectDocuments.deleteDocument(documentId);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Could not remove the document.');
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  return { documents, adding, error, addFiles, remove };
+}
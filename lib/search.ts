@@ -0,0 +1,241 @@
+import type { ChatMessage, ChatThread } from './types';
+
+// Full-text search over message content. The local index is an inverted index built from
+// threads held in memory and in the offline cache; Supabase search returns the same hit shape.
+
+export type MessageSearchFilters = {
+  modelId?: string;
+  provider?: string;
+  projectId?: string;
+  // Inclusive bounds in ms since epoch
+  from?: number;
+  to?: number;
+};
+
+export type MessageSearchHit = {
+  threadId: string;
+  threadTitle: string;
+  pageType?: 'home' | 'compare';
+  projectId?: string;
+  messageId?: string;
+  role: ChatMessage['role'];
+  modelId?: string;
+  provider?: string;
+  ts?: number;
+  content: string;
+};
+
+export type SnippetPart = { text: string; match: boolean };
+
+export type MessageSearchResult = MessageSearchHit & { snippet: SnippetPart[]; score: number };
+
+export type SearchIndex = {
+  docs: MessageSearchHit[];
+  // term -> indexes into `docs`
+  terms: Map<string, number[]>;
+};
+
+const TOKEN_RE = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_RE) ?? []).filter((t) => t.length > 1 || /\d/.test(t));
+}
+
+export function buildSearchIndex(threads: ChatThread[]): SearchIndex {
+  const docs: MessageSearchHit[] = [];
+  const terms = new Map<string, number[]>();
+  for (const thread of threads) {
+    for (const msg of thread.messages ?? []) {
+      if (msg.role !== 'user' && msg.role !== 'assistant') continue;
+      const content = String(msg.content ?? '');
+      if (!content.trim()) continue;
+      const doc = docs.length;
+      docs.push({
+        threadId: thread.id,
+        threadTitle: thread.title,
+        pageType: thread.pageType,
+        projectId: thread.projectId,
+        messageId: msg.id,
+        role: msg.role,
+        modelId: msg.modelId,
+        provider: msg.provider,
+        ts: msg.ts,
+        content,
+      });
+      for (const term of new Set(tokenize(content))) {
+        const postings = terms.get(term);
+        if (postings) postings.push(doc);
+        else terms.set(term, [doc]);
+      }
+    }
+  }
+  return { docs, terms };
+}
+
+export function matchesFilters(hit: MessageSearchHit, filters: MessageSearchFilters): boolean {
+  if (filters.modelId && hit.modelId !== filters.modelId) return false;
+  if (filters.provider && hit.provider !== filters.provider) return false;
+  if (filters.projectId && hit.projectId !== filters.projectId) return false;
+  if (filters.from !== undefined && (hit.ts === undefined || hit.ts < filters.from)) return false;
+  if (filters.to !== undefined && (hit.ts === undefined || hit.ts > filters.to)) return false;
+  return true;
+}
+
+// Postings for a query term; the last term also matches as a prefix so results show while typing
+function postingsFor(index: SearchIndex, term: string, prefix: boolean): Set<number> {
+  const out = new Set(index.terms.get(term) ?? []);
+  if (prefix) {
+    for (const [key, postings] of index.terms) {
+      if (key.length > term.length && key.startsWith(term)) postings.forEach((d) => out.add(d));
+    }
+  }
+  return out;
+}
+
+// Every query term must match (AND). Newer messages rank higher among equal scores.
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  filters: MessageSearchFilters = {},
+  limit = 50,
+): MessageSearchResult[] {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+
+  let candidates: Set<number> | null = null;
+  queryTerms.forEach((term, i) => {
+    const postings = postingsFor(index, term, i === queryTerms.length - 1);
+    candidates = candidates ? new Set([...candidates].filter((d) => postings.has(d))) : postings;
+  });
+
+  return rankHits(
+    [...(candidates ?? new Set<number>())]
+      .map((d) => index.docs[d])
+      .filter((h) => matchesFilters(h, filters)),
+    query,
+  ).slice(0, limit);
+}
+
+// Score hits by how often the query terms occur, attach snippets and sort best first
+export function rankHits(hits: MessageSearchHit[], query: string): MessageSearchResult[] {
+  const queryTerms = tokenize(query);
+  return hits
+    .map((hit) => {
+      const tokens = tokenize(hit.content);
+      const score = queryTerms.reduce(
+        (acc, term) => acc + tokens.filter((t) => t.startsWith(term)).length,
+        0,
+      );
+      return { ...hit, score, snippet: buildSnippet(hit.content, queryTerms) };
+    })
+    .sort((a, b) => b.score - a.score || (b.ts ?? 0) - (a.ts ?? 0));
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A window of text around the first match, split into plain and highlighted parts.
+ * Terms match at word starts, so "run" highlights "running" but not "rerun".
+ */
+export function buildSnippet(content: string, terms: string[], radius = 60): SnippetPart[] {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) return [{ text: text.slice(0, radius * 2), match: false }];
+  const re = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`,
+    'giu',
+  );
+  const first = re.exec(text);
+  const start = first ? Math.max(0, first.index - radius) : 0;
+  const end = Math.min(text.length, (first ? first.index + first[0].length : 0) + radius * 2);
+  const window = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  let last = 0;
+  re.lastIndex = 0;
+  for (let m = re.exec(window); m; m = re.exec(window)) {
+    if (m.index > last) parts.push({ text: window.slice(last, m.index), match: false });
+    parts.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+// Turn (0-based user prompt index) containing the hit, for jumping to it in the chat view
+export function turnIndexOf(
+  messages: ChatMessage[],
+  hit: Pick<MessageSearchHit, 'messageId' | 'ts' | 'role' | 'modelId'>,
+): number {
+  let turn = -1;
+  for (const m of messages) {
+    if (m.role === 'user') turn += 1;
+    const same = hit.messageId
+      ? m.id === hit.messageId
+      : m.ts === hit.ts && m.role === hit.role && m.modelId === hit.modelId;
+    if (same) return Math.max(0, turn);
+  }
+  return -1;
+}
+
+// Distinct models and providers in the index, for the filter dropdowns
+export function searchFacets(index: SearchIndex): { modelIds: string[]; providers: string[] } {
+  const modelIds = new Set<string>();
+  const providers = new Set<string>();
+  for (const doc of index.docs) {
+    if (doc.modelId) modelIds.add(doc.modelId);
+    if (doc.provider) providers.add(doc.provider);
+  }
+  return { modelIds: [...modelIds].sort(), providers: [...providers].sort() };
+}
+
+export type SearchFocusTarget = Pick<
+  MessageSearchHit,
+  'threadId' | 'messageId' | 'ts' | 'role' | 'modelId'
+> & {
+  threadTitle?: string;
+};
+
+// Placeholder for a hit's thread that isn't loaded yet; its messages are fetched once it is active
+export function threadStubFromHit(
+  hit: SearchFocusTarget & Pick<MessageSearchHit, 'pageType' | 'projectId'>,
+): ChatThread {
+  return {
+    id: hit.threadId,
+    title: hit.threadTitle || 'New Chat',
+    messages: [],
+    createdAt: hit.ts ?? Date.now(),
+    projectId: hit.projectId,
+    pageType: hit.pageType,
+    messagesLoaded: false,
+  };
+}
+
+// Link that opens a hit on another page (search results for compare chats open /compare, etc.)
+export function searchResultHref(path: string, hit: SearchFocusTarget): string {
+  const params = new URLSearchParams({ thread: hit.threadId, role: hit.role });
+  if (hit.messageId) params.set('message', hit.messageId);
+  if (hit.ts !== undefined) params.set('ts', String(hit.ts));
+  if (hit.modelId) params.set('model', hit.modelId);
+  if (hit.threadTitle) params.set('title', hit.threadTitle);
+  return `${path}?${params.toString()}`;
+}
+
+export function parseSearchResultParams(search: string): SearchFocusTarget | null {
+  const params = new URLSearchParams(search);
+  const threadId = params.get('thread');
+  if (!threadId) return null;
+  const role = params.get('role');
+  const ts = Number(params.get('ts'));
+  return {
+    threadId,
+    role: role === 'user' || role === 'assistant' ? role : 'user',
+    messageId: params.get('message') || undefined,
+    ts: params.has('ts') && Number.isFinite(ts) ? ts : undefined,
+    modelId: params.get('model') || undefined,
+    threadTitle: params.get('title') || undefined,
+  };
+}
@@ -0,0 +1,161 @@
+import type { Readable } from 'node:stream';
+import {
+  MAX_DOCUMENT_BYTES,
+  MAX_DOCUMENT_CHARS,
+  MAX_DOCUMENT_PAGES,
+  DOCX_MIME,
+  clipPages,
+  clipText,
+  documentBlock,
+  documentType,
+  htmlToText,
+  isPlainTextDocument,
+  type ClippedDocument,
+  type DocumentType,
+} from '@/lib/documents';
+
+// Text extraction for attached documents, used by /api/attachments and by every provider route
+// that receives a document as `imageDataUrl`. Node runtime only (pdf-parse and mammoth need Buffer).
+
+type PdfTextItem = { str: string; transform: number[] };
+type PdfPage = { getTextContent: () => Promise<{ items: PdfTextItem[] }> };
+type PdfParseFn = (
+  data: Buffer | Uint8Array | ArrayBuffer | Readable,
+  options?: { max?: number; pagerender?: (page: PdfPage) => Promise<string> },
+) => Promise<{ text: string; numpages: number }>;
+type Mammoth = { extractRawText: (arg: { buffer: Buffer }) => Promise<{ value: string }> };
+
+// Lazy require to avoid bundling when not used
+let pdfParse: PdfParseFn | null = null;
+let mammoth: Mammoth | null = null;
+
+export function decodeDataUrl(dataUrl: string): { mime: string; buf: Buffer | null } {
+  const [meta, base64] = String(dataUrl).split(',');
+  const mime = /data:(.*?);base64/.exec(meta || '')?.[1] || '';
+  if (!base64) return { mime, buf: null };
+  try {
+    return { mime, buf: Buffer.from(base64, 'base64') };
+  } catch {
+    return { mime, buf: null };
+  }
+}
+
+// If MIME is missing/unknown, detect PDF and DOCX by magic bytes
+export function detectMime(mime: string, buf: Buffer | null): string {
+  if ((mime && !/application\/octet-stream/i.test(mime)) || !buf || buf.length < 4) return mime;
+  if (buf.slice(0, 5).toString('ascii').startsWith('%PDF-')) return 'application/pdf';
+  // 'PK' ZIP header, likely DOCX
+  if (buf[0] === 0x50 && buf[1] === 0x4b) return DOCX_MIME;
+  return mime;
+}
+
+// Same line-joining as pdf-parse's default renderer, but one string per page
+function renderPage(page: PdfPage): Promise<string> {
+  return page.getTextContent().then(({ items }) => {
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of items) {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+      lastY = item.transform[5];
+    }
+    return text;
+  });
+}
+
+async function pdfPages(buf: Buffer): Promise<{ pages: string[]; total: number }> {
+  if (!pdfParse) {
+    type PdfParseModule = { default?: PdfParseFn } | PdfParseFn;
+    const mod = (await import('pdf-parse')) as PdfParseModule;
+    pdfParse = typeof mod === 'function' ? mod : (mod.default as PdfParseFn);
+  }
+  const pages: string[] = [];
+  // pdf-parse renders pages one after another, so push order is page order
+  const out = await pdfParse(buf, {
+    max: MAX_DOCUMENT_PAGES,
+    pagerender: (page) =>
+      renderPage(page).then((text) => {
+        pages.push(text);
+        return text;
+      }),
+  });
+  return { pages, total: out?.numpages || pages.length };
+}
+
+async function docxText(buf: Buffer): Promise<string> {
+  if (!mammoth) {
+    const mod = (await import('mammoth')) as {
+      default?: Mammoth;
+      extractRawText?: Mammoth['extractRawText'];
+    };
+    mammoth = mod.default ?? { extractRawText: mod.extractRawText! };
+  }
+  const out = await mammoth.extractRawText({ buffer: buf });
+  return out?.value || '';
+}
+
+export type ExtractedDocument = ClippedDocument & { type: DocumentType };
+
+/**
+ * A document's text, clipped to `maxChars`. PDFs are read page by page and keep whole pages.
+ * Returns null for types we can't read (including images); throws when a file can't be parsed.
+ * Callers enforce MAX_DOCUMENT_BYTES before decoding large uploads.
+ */
+export async function extractDocumentText(
+  mime: string,
+  buf: Buffer,
+  opts: { name?: string; maxChars?: number } = {},
+): Promise<ExtractedDocument | null> {
+  const type = documentType(mime, opts.name);
+  if (!type) return null;
+  const maxChars = opts.maxChars ?? MAX_DOCUMENT_CHARS;
+  if (type === 'pdf') {
+    const { pages, total } = await pdfPages(buf);
+    return { type, ...clipPages(pages, maxChars, total) };
+  }
+  if (type === 'docx') return { type, ...clipText(await docxText(buf), maxChars) };
+  if (type === 'html') return { type, ...clipText(htmlToText(buf.toString('utf8')), maxChars) };
+  if (isPlainTextDocument(type)) return { type, ...clipText(buf.toString('utf8'), maxChars) };
+  return null;
+}
+
+// The prompt text for a document data URL: its contents, or a note saying why they are missing
+export async function documentPromptBlock(dataUrl: string, name?: string): Promise<string> {
+  const { mime, buf } = decodeDataUrl(dataUrl);
+  const detected = detectMime(mime, buf);
+  const label = name || detected || 'unknown file';
+  if (!buf || buf.length === 0) return documentBlock({ name: label });
+  if (buf.length > MAX_DOCUMENT_BYTES) {
+    return `[Attached file: ${label} is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB and was not read.]`;
+  }
+  try {
+    const out = await extractDocumentText(detected, buf, { name });
+    if (!out)
+      return `[Attached file: ${label}. This file type (${detected || 'unknown'}) can't be read as text.]`;
+    return documentBlock({ name: label, ...out });
+  } catch {
+    return documentBlock({ name: label });
+  }
+}
+
+type PromptMessage = { role?: unknown; content?: unknown };
+
+/**
+ * Split a route's `imageDataUrl` into what the provider can take natively: image data URLs are
+ * returned untouched, while documents are extracted and appended to the last user message.
+ */
+export async function withDocumentAttachment<M extends PromptMessage>(
+  messages: M[],
+  dataUrl: unknown,
+): Promise<{ messages: M[]; imageDataUrl?: string }> {
+  if (typeof dataUrl !== 'string' || !dataUrl) return { messages };
+  const { mime } = decodeDataUrl(dataUrl);
+  if (/^image\//i.test(mime)) return { messages, imageDataUrl: dataUrl };
+  const lastUser = messages.map((m) => m?.role).lastIndexOf('user');
+  if (lastUser < 0) return { messages };
+  const block = await documentPromptBlock(dataUrl);
+  return {
+    messages: messages.map((m, i) =>
+      i === lastUser ? { ...m, content: `${String(m.content ?? '')}\n\n${block}` } : m,
+    ),
+  };
+}
@@ -0,0 +1,162 @@
+import { geminiGenerationConfig } from './generationParams';
+import { idleTimeout, relayUpstream, sseErrorResponse } from './sse';
+import { geminiUsage } from './usage';
+
+type InMsg = { role?: unknown; content?: unknown };
+type GeminiPart = { text?: string; inline_data?: { mime_type: string; data: string } };
+type GeminiContent = { role: 'user' | 'model' | 'system'; parts: GeminiPart[] };
+
+const GEMINI_MODELS = new Set(['gemini-2.5-flash', 'gemini-2.5-pro']);
+
+// Convert OpenAI-style messages into a Gemini request body (contents + systemInstruction), for
+// both the /api/gemini* call and stream routes. System messages move to systemInstruction and
+// only image attachments are sent inline; other types get a short note.
+// Gemini requires at least one user message, so an empty conversation gets a stand-in.
+export function toGeminiBody(messages: unknown, imageDataUrl?: unknown) {
+  const toRole = (r: unknown): 'user' | 'model' | 'system' => {
+    const role = typeof r === 'string' ? r : '';
+    if (role === 'assistant') return 'model';
+    if (role === 'user' || role === 'system') return role;
+    return 'user';
+  };
+
+  let contents: GeminiContent[] = (Array.isArray(messages) ? (messages as InMsg[]) : []).map(
+    (m) => ({
+      role: toRole(m.role),
+      parts: [{ text: typeof m?.content === 'string' ? m.content : String(m?.content ?? '') }],
+    }),
+  );
+
+  const systemParts: GeminiPart[] = [];
+  contents = contents.filter((c) => {
+    if (c.role !== 'system') return true;
+    for (const p of c.parts) {
+      if (typeof p?.text === 'string' && p.text.trim()) systemParts.push({ text: p.text });
+    }
+    return false;
+  });
+
+  if (imageDataUrl && contents.length > 0) {
+    for (let i = contents.length - 1; i >= 0; i--) {
+      if (contents[i].role !== 'user') continue;
+      try {
+        const [meta, base64] = String(imageDataUrl).split(',');
+        const mt = /data:(.*?);base64/.exec(meta || '')?.[1] || '';
+        if (/^image\//i.test(mt)) {
+          contents[i].parts.push({ inline_data: { mime_type: mt || 'image/png', data: base64 } });
+        } else {
+          contents[i].parts.push({
+            text: `(Attachment omitted: ${mt || 'unknown type'} unsupported by Gemini)`,
+          });
+        }
+      } catch {}
+      break;
+    }
+  }
+
+  return {
+    contents:
+      contents.length > 0
+        ? contents
+        : [{ role: 'user', parts: [{ text: 'Please respond to the instruction.' }] }],
+    ...(systemParts.length > 0 ? { systemInstruction: { parts: systemParts } } : {}),
+  };
+}
+
+// POST handler for /api/gemini/stream and /api/gemini-pro/stream.
+// `forcedModel` pins the model for the dedicated Pro endpoint.
+export function createGeminiStreamHandler(forcedModel?: string) {
+  return async function POST(req: Request) {
+    const meta = { provider: 'gemini' as const, usedKeyType: 'none' };
+    try {
+      const { messages, model, apiKey: apiKeyFromBody, imageDataUrl, params } = await req.json();
+      const apiKey = apiKeyFromBody || process.env.GEMINI_API_KEY;
+      meta.usedKeyType = apiKeyFromBody ? 'user' : process.env.GEMINI_API_KEY ? 'shared' : 'none';
+      if (!apiKey) return sseErrorResponse({ ...meta, error: 'Missing Gemini API key', code: 400 });
+
+      const requested = typeof model === 'string' ? model : 'gemini-2.5-flash';
+      const geminiModel =
+        forcedModel || (GEMINI_MODELS.has(requested) ? requested : 'gemini-2.5-flash');
+
+      const timeoutMs = 120000;
+      const aborter = new AbortController();
+      const idle = idleTimeout(aborter, timeoutMs);
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(geminiModel)}:streamGenerateContent?alt=sse`;
+      let upstream: Response;
+      try {
+        upstream = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-goog-api-key': apiKey },
+          body: JSON.stringify({
+            ...toGeminiBody(messages, imageDataUrl),
+            generationConfig: {
+              response_mime_type: 'text/plain',
+              ...geminiGenerationConfig(params, { maxTokens: 2048, temperature: 0.7 }),
+            },
+          }),
+          signal: aborter.signal,
+        });
+      } catch (e) {
+        idle.clear();
+        throw e;
+      }
+
+      if (!upstream.ok || !upstream.body) {
+        idle.clear();
+        const errText = await upstream.text().catch(() => '');
+        if (upstream.status === 429) {
+          return sseErrorResponse({
+            ...meta,
+            code: 429,
+            error:
+              meta.usedKeyType === 'user'
+                ? 'Your Gemini API key hit a rate limit. Please retry after a moment or upgrade your plan/limits.'
+                : 'This model hit a shared rate limit. Add your own Gemini API key for FREE in Settings for higher limits and reliability.',
+          });
+        }
+        return sseErrorResponse({
+          ...meta,
+          error: errText || 'Upstream error',
+          code: upstream.status || 500,
+        });
+      }
+
+      return relayUpstream(upstream.body, {
+        format: 'sse',
+        meta,
+        timeoutMs,
+        aborter,
+        idle,
+        parse: (json) => {
+          const d = json as {
+            candidates?: Array<{
+              content?: { parts?: Array<{ text?: unknown }> };
+              finishReason?: unknown;
+            }>;
+            promptFeedback?: { blockReason?: unknown };
+          };
+          const cand = d?.candidates?.[0];
+          const delta = (cand?.content?.parts ?? [])
+            .map((p) => (typeof p?.text === 'string' ? p.text : ''))
+            .join('');
+          const blockReason = d?.promptFeedback?.blockReason;
+          const blocked = String(cand?.finishReason ?? '')
+            .toLowerCase()
+            .includes('safety');
+          if (!delta && (blocked || blockReason)) {
+            return {
+              error: {
+                message: `Gemini blocked the content due to safety settings${blockReason ? ` (reason: ${blockReason})` : ''}. Try rephrasing your prompt.`,
+              },
+            };
+          }
+          // usageMetadata is cumulative; the client keeps the last one
+          return { delta, usage: geminiUsage(d) };
+        },
+      });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      return sseErrorResponse({ ...meta, error: message, code: 500 });
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { normalizeGenerationParams } from '@/lib/generationParams';
+import type { GenerationParams } from '@/lib/types';
+
+// Per-route defaults fill in whatever the user left unset
+function merge(raw: unknown, fallback: GenerationParams): GenerationParams {
+  return { ...fallback, ...normalizeGenerationParams(raw) };
+}
+
+// OpenAI-compatible body fields (OpenRouter, Mistral, Quran.lat, Pollinations)
+export function openAISamplingParams(raw: unknown, fallback: GenerationParams = {}) {
+  const p = merge(raw, fallback);
+  return {
+    ...(p.temperature !== undefined ? { temperature: p.temperature } : {}),
+    ...(p.maxTokens !== undefined ? { max_tokens: p.maxTokens } : {}),
+    ...(p.topP !== undefined ? { top_p: p.topP } : {}),
+    ...(p.stop?.length ? { stop: p.stop } : {}),
+  };
+}
+
+// Gemini generationConfig fields
+export function geminiGenerationConfig(raw: unknown, fallback: GenerationParams = {}) {
+  const p = merge(raw, fallback);
+  return {
+    ...(p.temperature !== undefined ? { temperature: p.temperature } : {}),
+    ...(p.maxTokens !== undefined ? { maxOutputTokens: p.maxTokens } : {}),
+    ...(p.topP !== undefined ? { topP: p.topP } : {}),
+    ...(p.stop?.length ? { stopSequences: p.stop } : {}),
+  };
+}
+
+// Ollama /api/chat `options`
+export function ollamaOptions(raw: unknown, fallback: GenerationParams = {}) {
+  const p = merge(raw, fallback);
+  return {
+    ...(p.temperature !== undefined ? { temperature: p.temperature } : {}),
+    ...(p.maxTokens !== undefined ? { num_predict: p.maxTokens } : {}),
+    ...(p.topP !== undefined ? { top_p: p.topP } : {}),
+    ...(p.stop?.length ? { stop: p.stop } : {}),
+  };
+}
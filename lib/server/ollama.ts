@@ -0,0 +1,8 @@
+// Ollama base URL from the request body (user settings), the environment, or localhost
+export function ollamaBaseUrl(baseUrl: unknown): string {
+  const url =
+    typeof baseUrl === 'string' && baseUrl.trim()
+      ? baseUrl.trim()
+      : process.env.OLLAMA_URL || 'http://localhost:11434';
+  return url.replace(/\/+$/, '');
+}
@@ -0,0 +1,141 @@
+// Request plumbing for user-configured OpenAI-compatible endpoints (see lib/customEndpoints.ts)
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+// Headers callers may not override; the proxy sets or owns these
+const RESERVED_HEADERS = new Set([
+  'host',
+  'connection',
+  'content-length',
+  'content-type',
+  'transfer-encoding',
+  'accept-encoding',
+]);
+
+export type EndpointTarget = { baseUrl: string; apiKey?: string; headers?: Record<string, string> };
+
+// Validated target from a request body, or an error message
+export function endpointTarget(body: {
+  baseUrl?: unknown;
+  apiKey?: unknown;
+  headers?: unknown;
+}): EndpointTarget | { error: string } {
+  if (typeof body.baseUrl !== 'string' || !body.baseUrl.trim()) {
+    return { error: 'Missing endpoint base URL' };
+  }
+  let url: URL;
+  try {
+    url = new URL(body.baseUrl.trim());
+  } catch {
+    return { error: 'Invalid endpoint base URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'Endpoint base URL must start with http:// or https://' };
+  }
+  const headers: Record<string, string> = {};
+  if (body.headers && typeof body.headers === 'object' && !Array.isArray(body.headers)) {
+    for (const [k, v] of Object.entries(body.headers as Record<string, unknown>)) {
+      if (
+        typeof v === 'string' &&
+        /^[A-Za-z0-9-]+$/.test(k) &&
+        !RESERVED_HEADERS.has(k.toLowerCase())
+      ) {
+        headers[k] = v;
+      }
+    }
+  }
+  return {
+    baseUrl: url
+      .toString()
+      .replace(/\/+$/, '')
+      .replace(/\/chat\/completions$/, ''),
+    apiKey: typeof body.apiKey === 'string' && body.apiKey.trim() ? body.apiKey.trim() : undefined,
+    headers,
+  };
+}
+
+// The proxy fetches whatever URL a visitor sends, so it is off until the server allows it:
+// OPENAI_COMPATIBLE_ENDPOINTS is `*` for any host, or a comma-separated list of hosts
+// (`gpu-box`, `localhost:8000`)
+export function isEndpointAllowed(
+  url: URL,
+  setting = process.env.OPENAI_COMPATIBLE_ENDPOINTS,
+): boolean {
+  const allowed = (setting ?? '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return (
+    allowed.includes('*') ||
+    allowed.includes(url.host.toLowerCase()) ||
+    allowed.includes(url.hostname.toLowerCase())
+  );
+}
+
+// Link-local addresses (169.254.0.0/16, fe80::/10) and the EC2 IPv6 metadata address; cloud
+// metadata services live there, so they are never proxied to, even when `*` is allowed
+export function isLinkLocalAddress(address: string): boolean {
+  const v4 = address.replace(/^::ffff:/i, '');
+  if (isIP(v4) === 4) return v4.startsWith('169.254.');
+  if (isIP(address) !== 6) return false;
+  return /^fe[89ab][0-9a-f]:/i.test(address) || address.toLowerCase() === 'fd00:ec2::254';
+}
+
+export type ProxyTargetError = { error: string; status: number };
+
+/**
+ * Validated target the proxy may call, or an error with its HTTP status. Host names are
+ * resolved so a name pointing at a link-local address is refused as well. Callers fetch with
+ * `redirect: 'error'`, so an allowed host can't bounce the request elsewhere, and pass on only
+ * the upstream status, never its error body.
+ */
+export async function proxyTarget(body: {
+  baseUrl?: unknown;
+  apiKey?: unknown;
+  headers?: unknown;
+}): Promise<EndpointTarget | ProxyTargetError> {
+  const target = endpointTarget(body);
+  if ('error' in target) return { error: target.error, status: 400 };
+  const url = new URL(target.baseUrl);
+  if (!isEndpointAllowed(url)) {
+    return {
+      error: 'Custom endpoints are disabled on this server (see OPENAI_COMPATIBLE_ENDPOINTS)',
+      status: 403,
+    };
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return { error: 'Cannot reach endpoint', status: 502 };
+  }
+  if (addresses.some(isLinkLocalAddress)) {
+    return { error: 'Endpoint address is not allowed', status: 403 };
+  }
+  return target;
+}
+
+export function endpointHeaders(target: EndpointTarget, accept?: string): HeadersInit {
+  return {
+    ...target.headers,
+    'Content-Type': 'application/json',
+    ...(accept ? { Accept: accept } : {}),
+    ...(target.apiKey ? { Authorization: `Bearer ${target.apiKey}` } : {}),
+  };
+}
+
+type OutMsg = { role: 'user' | 'assistant' | 'system'; content: string };
+
+// Plain-text chat messages; anything else in the history is dropped
+export function chatMessages(messages: unknown): OutMsg[] {
+  return (Array.isArray(messages) ? messages : [])
+    .filter((m): m is { role?: unknown; content?: unknown } => typeof m === 'object' && m !== null)
+    .map((m): OutMsg | null => {
+      const role =
+        m.role === 'user' || m.role === 'assistant' || m.role === 'system' ? m.role : 'user';
+      const content = typeof m.content === 'string' ? m.content : '';
+      return content ? { role, content } : null;
+    })
+    .filter((m): m is OutMsg => m !== null);
+}
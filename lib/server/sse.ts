@@ -0,0 +1,203 @@
+import type { TokenUsage } from '@/lib/types';
+import { openAIUsage } from './usage';
+
+// Server-side helpers shared by the /api/*/stream routes.
+// Every stream speaks the same wire format that streamSSE() in lib/client.ts consumes:
+//   data: { provider, usedKeyType }       meta, sent first
+//   data: { delta: "..." }                 one or more text chunks
+//   data: { usage: { promptTokens, completionTokens } }   optional, when upstream reports it
+//   data: { error, code, provider, ... }   optional failure
+//   data: [DONE]
+
+export const SSE_HEADERS: HeadersInit = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+export type StreamMeta = { provider: string; usedKeyType?: string };
+
+export type StreamErrorPayload = StreamMeta & { error: string; code?: number };
+
+// What a provider-specific parser pulls out of one upstream event
+export type UpstreamEvent = {
+  delta?: string;
+  usage?: TokenUsage;
+  error?: { message: string; code?: number };
+  done?: boolean;
+};
+
+export function sseEncode(obj: unknown) {
+  return `data: ${JSON.stringify(obj)}\n\n`;
+}
+
+// A complete stream carrying a single error event, for failures before upstream starts
+export function sseErrorResponse(payload: StreamErrorPayload): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(sseEncode(payload)));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200, headers: SSE_HEADERS });
+}
+
+export type IdleTimeout = { touch: () => void; clear: () => void };
+
+// Aborts `aborter` once `ms` pass without a touch(), so a long answer that keeps streaming is
+// not cut off while a stalled upstream still is
+export function idleTimeout(aborter: AbortController, ms: number): IdleTimeout {
+  let id = setTimeout(() => aborter.abort(), ms);
+  return {
+    touch() {
+      clearTimeout(id);
+      id = setTimeout(() => aborter.abort(), ms);
+    },
+    clear() {
+      clearTimeout(id);
+    },
+  };
+}
+
+// Relay an upstream body as our SSE format. `format` selects how upstream frames are split:
+// 'sse' for `data: {...}\n\n` (OpenAI-compatible, Gemini alt=sse), 'ndjson' for one JSON per line (Ollama).
+export function relayUpstream(
+  upstream: ReadableStream<Uint8Array>,
+  opts: {
+    format: 'sse' | 'ndjson';
+    meta: StreamMeta;
+    parse: (json: unknown) => UpstreamEvent;
+    timeoutMs?: number;
+    aborter?: AbortController;
+    // Restarted on every upstream chunk and cleared when the stream ends
+    idle?: IdleTimeout;
+  },
+): Response {
+  const reader = upstream.getReader();
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const finish = () => {
+        if (closed) return;
+        closed = true;
+        opts.idle?.clear();
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      };
+
+      // Returns true when the upstream signalled completion
+      const handle = (raw: string): boolean => {
+        let payload = raw.trim();
+        if (!payload) return false;
+        if (opts.format === 'sse') {
+          if (!payload.startsWith('data:')) return false;
+          payload = payload.slice(5).trim();
+          if (payload === '[DONE]') return true;
+        }
+        try {
+          const event = opts.parse(JSON.parse(payload));
+          if (event.delta) controller.enqueue(encoder.encode(sseEncode({ delta: event.delta })));
+          if (event.usage) controller.enqueue(encoder.encode(sseEncode({ usage: event.usage })));
+          if (event.error) {
+            controller.enqueue(
+              encoder.encode(
+                sseEncode({ ...opts.meta, error: event.error.message, code: event.error.code }),
+              ),
+            );
+          }
+          return !!event.done;
+        } catch {
+          // ignore parse errors for individual events
+          return false;
+        }
+      };
+
+      controller.enqueue(encoder.encode(sseEncode(opts.meta)));
+
+      const push = async (): Promise<void> => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            if (buffer) handle(buffer);
+            finish();
+            return;
+          }
+          opts.idle?.touch();
+          // Normalize CRLF framing (Gemini alt=sse uses \r\n\r\n)
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+          const parts = buffer.split(opts.format === 'sse' ? '\n\n' : '\n');
+          buffer = parts.pop() || '';
+          for (const part of parts) {
+            if (handle(part)) {
+              finish();
+              return;
+            }
+          }
+          return push();
+        } catch (err) {
+          if (closed) return;
+          const aborted = (err as Error)?.name === 'AbortError';
+          controller.enqueue(
+            encoder.encode(
+              sseEncode({
+                ...opts.meta,
+                error: aborted
+                  ? `No data from the provider for ${opts.timeoutMs}ms`
+                  : 'Stream error',
+                code: aborted ? 408 : 500,
+              }),
+            ),
+          );
+          finish();
+        }
+      };
+      push();
+    },
+    cancel() {
+      closed = true;
+      try {
+        reader.cancel();
+      } catch {}
+      opts.aborter?.abort();
+      opts.idle?.clear();
+    },
+  });
+
+  return new Response(stream, { status: 200, headers: SSE_HEADERS });
+}
+
+// Pull text out of an OpenAI-compatible chat.completion.chunk
+export function parseOpenAIChunk(json: unknown): UpstreamEvent {
+  const j = json as {
+    choices?: Array<{ delta?: { content?: unknown } }>;
+    usage?: unknown;
+    error?: { message?: unknown; code?: unknown };
+  };
+  const content = j?.choices?.[0]?.delta?.content;
+  let delta = '';
+  if (typeof content === 'string') {
+    delta = content;
+  } else if (Array.isArray(content)) {
+    delta = content
+      .map((c) => {
+        if (typeof c === 'string') return c;
+        const obj = c as { text?: unknown } | null;
+        return typeof obj?.text === 'string' ? obj.text : '';
+      })
+      .join('');
+  }
+  const error = j?.error
+    ? {
+        message: typeof j.error.message === 'string' ? j.error.message : 'error',
+        code: typeof j.error.code === 'number' ? j.error.code : undefined,
+      }
+    : undefined;
+  return { delta, error, usage: openAIUsage(j) };
+}
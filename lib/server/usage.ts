@@ -0,0 +1,34 @@
+import type { TokenUsage } from '@/lib/types';
+
+const count = (v: unknown) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : undefined;
+
+function toUsage(promptTokens: unknown, completionTokens: unknown): TokenUsage | undefined {
+  const usage = { promptTokens: count(promptTokens), completionTokens: count(completionTokens) };
+  return usage.promptTokens === undefined && usage.completionTokens === undefined
+    ? undefined
+    : usage;
+}
+
+// OpenAI-compatible `usage` (OpenRouter, Mistral, Quran.lat, Pollinations)
+export function openAIUsage(data: unknown): TokenUsage | undefined {
+  const u = (data as { usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } } | null)
+    ?.usage;
+  return u ? toUsage(u.prompt_tokens, u.completion_tokens) : undefined;
+}
+
+// Gemini `usageMetadata`
+export function geminiUsage(data: unknown): TokenUsage | undefined {
+  const u = (
+    data as {
+      usageMetadata?: { promptTokenCount?: unknown; candidatesTokenCount?: unknown };
+    } | null
+  )?.usageMetadata;
+  return u ? toUsage(u.promptTokenCount, u.candidatesTokenCount) : undefined;
+}
+
+// Ollama reports counts on the final (done) message
+export function ollamaUsage(data: unknown): TokenUsage | undefined {
+  const d = data as { prompt_eval_count?: unknown; eval_count?: unknown } | null;
+  return d ? toUsage(d.prompt_eval_count, d.eval_count) : undefined;
+}
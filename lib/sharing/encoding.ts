@@ -131,4 +131,145 @@ export function estimateUrlLength(data: SharedChatData, baseUrl: string = ''): n
  */
 export function isUrlTooLong(data: SharedChatData, baseUrl: string = '', maxLength: number = 8000): boolean {
   return estimateUrlLength(data, baseUrl) > maxLength;
-}
\ No newline at end of file
+}
+
+// Share format v2: deflate-compressed JSON, optionally AES-GCM encrypted. The prefix tells it
+// apart from version 1 links, which are plain base64 JSON (always starting with "ey").
+// Encrypted links carry the key in the URL fragment (#k=...), which browsers never send to
+// the server or in the Referer header.
+export const SHARE_V2_PREFIX = 'v2.';
+export const SHARE_V2_ENCRYPTED_PREFIX = 'v2e.';
+const AES_IV_BYTES = 12;
+
+/**
+ * Whether this browser can create and open v2 links
+ */
+export function isShareV2Supported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+export function isEncryptedSharePayload(encoded: string): boolean {
+  return encoded.startsWith(SHARE_V2_ENCRYPTED_PREFIX);
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+function base64UrlToBytes(encoded: string): Uint8Array<ArrayBuffer> {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = transform.writable.getWriter();
+  writer.write(bytes).then(() => writer.close()).catch(() => {}); // errors surface on read
+  const reader = transform.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Encodes shared chat data as a v2 payload. With `encrypt`, also returns the base64url key
+ * that goes in the link's fragment.
+ */
+export async function encodeShareDataV2(
+  data: SharedChatData,
+  options: { encrypt?: boolean } = {}
+): Promise<{ encoded: string; key?: string }> {
+  const compressed = await pipeBytes(
+    new TextEncoder().encode(JSON.stringify(data)),
+    new CompressionStream('deflate')
+  );
+  if (!options.encrypt) {
+    return { encoded: SHARE_V2_PREFIX + bytesToBase64Url(compressed) };
+  }
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+  const payload = new Uint8Array(iv.length + cipher.length);
+  payload.set(iv);
+  payload.set(cipher, iv.length);
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return {
+    encoded: SHARE_V2_ENCRYPTED_PREFIX + bytesToBase64Url(payload),
+    key: bytesToBase64Url(rawKey),
+  };
+}
+
+/**
+ * Decodes a share link payload of any version. Encrypted v2 payloads need the key from the
+ * link's fragment; a missing or wrong key decodes to null like any other corrupt link.
+ */
+export async function decodeSharePayload(
+  encoded: string,
+  key?: string
+): Promise<SharedChatData | null> {
+  const encrypted = isEncryptedSharePayload(encoded);
+  if (!encrypted && !encoded.startsWith(SHARE_V2_PREFIX)) {
+    return decodeShareData(encoded);
+  }
+
+  try {
+    let compressed = base64UrlToBytes(
+      encoded.slice(encrypted ? SHARE_V2_ENCRYPTED_PREFIX.length : SHARE_V2_PREFIX.length)
+    );
+    if (encrypted) {
+      if (!key) return null;
+      const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        base64UrlToBytes(key),
+        { name: 'AES-GCM' },
+        false,
+        ['decrypt']
+      );
+      compressed = new Uint8Array(
+        await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: compressed.subarray(0, AES_IV_BYTES) },
+          cryptoKey,
+          compressed.subarray(AES_IV_BYTES)
+        )
+      );
+    }
+    const json = new TextDecoder().decode(
+      await pipeBytes(compressed, new DecompressionStream('deflate'))
+    );
+    const data: unknown = JSON.parse(json);
+    return isValidSharedChatData(data) ? data : null;
+  } catch (error) {
+    console.warn('Failed to decode share data:', error);
+    return null;
+  }
+}
+
+/**
+ * Reads the decryption key from a share link's fragment ("#k=...")
+ */
+export function shareKeyFromFragment(hash: string): string | undefined {
+  return new URLSearchParams(hash.replace(/^#/, '')).get('k') || undefined;
+}
@@ -24,9 +24,23 @@ export {
   encodeShareData, 
   decodeShareData, 
   estimateUrlLength, 
-  isUrlTooLong 
+  isUrlTooLong,
+  encodeShareDataV2,
+  decodeSharePayload,
+  isEncryptedSharePayload,
+  isShareV2Supported,
+  shareKeyFromFragment
 } from './encoding';
 
 // Export main service
 export { ShareService } from './shareService';
-export type { ShareServiceConfig } from './shareService';
\ No newline at end of file
+export type { ShareServiceConfig, ShareLinkOptions } from './shareService';
+
+export {
+  SHARE_EXPIRY_OPTIONS,
+  SHARE_LOOKUP_ERRORS,
+  generateShareId,
+  isStoredShareId,
+  shareExpiry,
+} from './storedShares';
+export type { SharedChatLookup, StoredShareOptions } from './storedShares';
\ No newline at end of file
@@ -1,19 +1,34 @@
 import type { ChatThread } from '@/lib/types';
 import type { SharedChatData, ShareResult } from './types';
-import { truncateMessages, validateMessagesForSharing } from './truncation';
+import {
+  DEFAULT_TRUNCATION_CONFIG,
+  MAX_COMPRESSED_SHARE_MESSAGES,
+  truncateMessages,
+  validateMessagesForSharing,
+} from './truncation';
 import { sanitizeMessages, sanitizeThreadForSharing, validateSanitizedData } from './sanitization';
-import { encodeShareData, isUrlTooLong } from './encoding';
+import { encodeShareData, encodeShareDataV2, isShareV2Supported, isUrlTooLong } from './encoding';
+import {
+  MAX_STORED_SHARE_MESSAGES,
+  shareExpiry,
+  type StoredShareOptions,
+} from './storedShares';
+import { createSharedLink } from '@/lib/db/shares';
 
 export interface ShareServiceConfig {
   baseUrl?: string;
   maxUrlLength?: number;
 }
 
+export interface ShareLinkOptions {
+  encrypt?: boolean; // AES-GCM encrypt the payload, key in the URL fragment
+}
+
 /**
  * Main service for creating shareable URLs from chat threads
  */
 export class ShareService {
-  private config: ShareServiceConfig;
+  private config: Required<ShareServiceConfig>;
 
   constructor(config: ShareServiceConfig = {}) {
     this.config = {
@@ -23,9 +38,14 @@ export class ShareService {
   }
 
   /**
-   * Generates a shareable URL for a chat thread
+   * Generates a shareable URL for a chat thread. Uses the compressed v2 format when the
+   * browser supports it, otherwise the version 1 format.
    */
-  async generateShareableUrl(thread: ChatThread, projectName?: string): Promise<ShareResult> {
+  async generateShareableUrl(
+    thread: ChatThread,
+    projectName?: string,
+    options: ShareLinkOptions = {}
+  ): Promise<ShareResult> {
     const startTime = Date.now();
     const shareId = Math.random().toString(36).substring(7);
 
@@ -46,6 +66,24 @@ export class ShareService {
         };
       }
 
+      if (options.encrypt && (typeof crypto === 'undefined' || !crypto.subtle)) {
+        return {
+          success: false,
+          error: 'Encrypted links need a secure (HTTPS) connection'
+        };
+      }
+
+      if (isShareV2Supported()) {
+        return await this.generateV2Url(thread, projectName, !!options.encrypt);
+      }
+
+      if (options.encrypt) {
+        return {
+          success: false,
+          error: 'This browser cannot create encrypted links'
+        };
+      }
+
       // Process the thread for sharing with progressive truncation
       let sharedData = this.processThreadForSharing(thread, projectName);
 
@@ -114,12 +152,92 @@ export class ShareService {
     }
   }
 
+  /**
+   * Compressed (and optionally encrypted) link. Starts from far more messages than the
+   * version 1 format fits, dropping the oldest turns until the URL is short enough.
+   */
+  private async generateV2Url(
+    thread: ChatThread,
+    projectName: string | undefined,
+    encrypt: boolean
+  ): Promise<ShareResult> {
+    let sharedData = this.processThreadForSharing(thread, projectName, MAX_COMPRESSED_SHARE_MESSAGES);
+
+    for (let attempt = 0; attempt < 12; attempt++) {
+      if (!validateSanitizedData(sharedData)) {
+        return { success: false, error: 'Data sanitization failed' };
+      }
+      const { encoded, key } = await encodeShareDataV2(sharedData, { encrypt });
+      const url = `${this.config.baseUrl}/shared/${encoded}${key ? `#k=${key}` : ''}`;
+      if (url.length <= this.config.maxUrlLength) {
+        return { success: true, url };
+      }
+      if (sharedData.messages.length <= 5) break;
+      const maxMessages = Math.max(5, Math.floor(sharedData.messages.length * 0.8));
+      sharedData = this.processThreadForSharing(thread, projectName, maxMessages);
+    }
+
+    return {
+      success: false,
+      error: 'Conversation too large to share. Try sharing a shorter conversation.'
+    };
+  }
+
+  /**
+   * Stores a sanitized snapshot in Supabase and returns a short /shared/<id> link that can
+   * expire, require a password and be revoked by its owner
+   */
+  async createStoredShare(
+    thread: ChatThread,
+    userId: string,
+    options: StoredShareOptions = {},
+    projectName?: string
+  ): Promise<ShareResult> {
+    if (!thread || !thread.messages || thread.messages.length === 0) {
+      return { success: false, error: 'Cannot share empty conversation' };
+    }
+    if (!validateMessagesForSharing(thread.messages)) {
+      return { success: false, error: 'Invalid message format' };
+    }
+
+    const snapshot = this.processThreadForSharing(thread, projectName, MAX_STORED_SHARE_MESSAGES);
+    if (!validateSanitizedData(snapshot)) {
+      return { success: false, error: 'Data sanitization failed' };
+    }
+
+    const password = options.password?.trim();
+    try {
+      const link = await createSharedLink({
+        userId,
+        chatId: thread.id,
+        snapshot,
+        expiresAt: shareExpiry(options.expiresInDays),
+        password: password || undefined,
+      });
+      return { success: true, id: link.id, url: this.storedShareUrl(link.id) };
+    } catch (error) {
+      console.error('Failed to store share:', error);
+      return { success: false, error: 'Could not save the share link. Please try again.' };
+    }
+  }
+
+  storedShareUrl(id: string): string {
+    return `${this.config.baseUrl}/shared/${id}`;
+  }
+
   /**
    * Processes a chat thread for sharing (truncation + sanitization)
    */
-  processThreadForSharing(thread: ChatThread, projectName?: string): SharedChatData {
+  processThreadForSharing(
+    thread: ChatThread,
+    projectName?: string,
+    maxMessages = DEFAULT_TRUNCATION_CONFIG.maxMessages
+  ): SharedChatData {
     // Apply truncation logic
-    const truncationResult = truncateMessages(thread.messages);
+    const truncationResult = truncateMessages(thread.messages, {
+      ...DEFAULT_TRUNCATION_CONFIG,
+      maxMessages,
+    });
     
     // Sanitize the messages
     const sanitizedMessages = sanitizeMessages(truncationResult.messages);
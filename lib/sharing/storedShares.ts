@@ -0,0 +1,84 @@
+import type { SharedChatData } from './types';
+
+// Server-stored share links: a sanitized snapshot saved in Supabase (lib/db/shares.ts) and
+// opened at /shared/<id>. Legacy links carry the whole conversation in the path instead.
+
+export const SHARE_ID_LENGTH = 10;
+const SHARE_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const SHARE_ID_PATTERN = new RegExp(`^[A-Za-z0-9]{${SHARE_ID_LENGTH}}$`);
+
+// Stored shares keep more of the conversation than a URL can hold
+export const MAX_STORED_SHARE_MESSAGES = 500;
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: 0 },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+] as const;
+
+export interface StoredShareOptions {
+  expiresInDays?: number; // 0 or unset: never expires
+  password?: string;
+}
+
+// What a viewer gets back for a short id (see get_shared_chat in the README schema)
+export type SharedChatLookup =
+  | { status: 'ok'; chat: SharedChatData }
+  | {
+      status:
+        | 'not_found'
+        | 'revoked'
+        | 'expired'
+        | 'password_required'
+        | 'wrong_password'
+        | 'locked';
+    };
+
+export const SHARE_LOOKUP_ERRORS: Record<Exclude<SharedChatLookup['status'], 'ok'>, string> = {
+  not_found: 'Share link not found',
+  revoked: 'Share link revoked',
+  expired: 'Share link expired',
+  password_required: 'Password required',
+  wrong_password: 'Wrong password',
+  locked: 'Too many wrong passwords. Try again in a few minutes.',
+};
+
+// Largest multiple of the alphabet size a byte can hold; higher bytes would favor the first
+// characters, so they are skipped
+const UNBIASED_BYTE_LIMIT = 256 - (256 % SHARE_ID_ALPHABET.length);
+
+/**
+ * Random short id; 62^10 values, so collisions are left to the primary key to reject
+ */
+export function generateShareId(): string {
+  let id = '';
+  while (id.length < SHARE_ID_LENGTH) {
+    const bytes = crypto.getRandomValues(new Uint8Array(SHARE_ID_LENGTH));
+    for (const b of bytes) {
+      if (b < UNBIASED_BYTE_LIMIT && id.length < SHARE_ID_LENGTH) {
+        id += SHARE_ID_ALPHABET[b % SHARE_ID_ALPHABET.length];
+      }
+    }
+  }
+  return id;
+}
+
+/**
+ * Whether a /shared/<param> path segment is a short id rather than legacy encoded data.
+ * Encoded conversations are far longer than a short id.
+ */
+export function isStoredShareId(param: string): boolean {
+  return SHARE_ID_PATTERN.test(param);
+}
+
+export function shareExpiry(days: number | undefined, now = Date.now()): string | null {
+  return days && days > 0 ? new Date(now + days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+export function isSharedChatLookup(value: unknown): value is SharedChatLookup {
+  if (!value || typeof value !== 'object') return false;
+  const { status, chat } = value as { status?: unknown; chat?: unknown };
+  if (status === 'ok') return !!chat && typeof chat === 'object';
+  return typeof status === 'string' && status in SHARE_LOOKUP_ERRORS;
+}
@@ -7,6 +7,10 @@ export const DEFAULT_TRUNCATION_CONFIG: TruncationConfig = {
   includeMetadata: true,
 };
 
+// Starting point for compressed (v2) links, which fit far more than plain base64;
+// the URL length limit trims it further
+export const MAX_COMPRESSED_SHARE_MESSAGES = 400;
+
 /**
  * Truncates messages to the last N messages while preserving complete conversation turns
  */
@@ -30,5 +30,6 @@ export interface TruncationResult {
 export interface ShareResult {
   success: boolean;
   url?: string;
+  id?: string; // short id of a server-stored share
   error?: string;
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import type { AiModel, ChatMessage, SynthesisMode } from './types';
+import { QUEUED_CONTENT } from './offline/pendingGenerations';
+
+// modelId of the judge answer stored in a turn. It never matches a real model column.
+export const SYNTHESIS_MODEL_ID = 'synthesis';
+
+// Placeholder text shown before an answer has any content of its own
+const PENDING_CONTENT = ['Thinking…', 'Typing…', QUEUED_CONTENT];
+
+export function isSynthesisAnswer(msg: ChatMessage): boolean {
+  return msg.role === 'assistant' && msg.modelId === SYNTHESIS_MODEL_ID;
+}
+
+// An answer is done once runModel has finished it. Placeholders without the streaming flag
+// (queued offline, or added by the page before the request starts) are not done either.
+export function isAnswerDone(msg: ChatMessage): boolean {
+  return !msg.streaming && !PENDING_CONTENT.includes(String(msg.content || '').trim());
+}
+
+// Every model answer of a turn is done; the turn's synthesis answer is not counted
+export function turnAnswersDone(answers: ChatMessage[]): boolean {
+  return answers.filter((a) => a.role === 'assistant' && !isSynthesisAnswer(a)).every(isAnswerDone);
+}
+
+// Judge models must produce text
+export function canJudge(model: AiModel): boolean {
+  return !model.category || model.category === 'text';
+}
+
+// Answers in a turn worth judging: finished, non-empty model answers (not a previous synthesis)
+export function synthesisCandidates(answers: ChatMessage[]): ChatMessage[] {
+  return answers.filter(
+    (a) =>
+      a.role === 'assistant' &&
+      !!a.modelId &&
+      !isSynthesisAnswer(a) &&
+      !!String(a.content || '').trim() &&
+      isAnswerDone(a),
+  );
+}
+
+const INSTRUCTIONS: Record<SynthesisMode, string> = {
+  merge:
+    'Write the single best answer to the question by merging the strongest parts of the answers below. ' +
+    'Fix mistakes you find, drop anything redundant or wrong, and do not mention the individual answers or models.',
+  critique:
+    'Rank the answers below from best to worst. For each answer give its rank, the model name, ' +
+    'and a short justification covering correctness, completeness and clarity. Finish with a one-line verdict.',
+};
+
+// Single user message sent to the judge model
+export function buildSynthesisPrompt({
+  prompt,
+  answers,
+  mode,
+}: {
+  prompt: string;
+  answers: { label: string; content: string }[];
+  mode: SynthesisMode;
+}): string {
+  const blocks = answers.map(
+    (a, i) => `### Answer ${i + 1} (${a.label})\n${String(a.content).trim()}`,
+  );
+  return [
+    'You are judging answers that several AI models gave to the same question.',
+    INSTRUCTIONS[mode],
+    `## Question\n${prompt.trim()}`,
+    `## Answers\n\n${blocks.join('\n\n')}`,
+  ].join('\n\n');
+}
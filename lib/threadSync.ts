@@ -0,0 +1,59 @@
+import type { ChatThread } from './types';
+
+// Client-side bookkeeping for threads loaded page by page from the database.
+// Summaries arrive with `messagesLoaded: false`; messages are fetched when a thread is opened.
+
+// Add a further page of summaries, skipping threads already in the list
+export function appendThreadPage(existing: ChatThread[], page: ChatThread[]): ChatThread[] {
+  const ids = new Set(existing.map((t) => t.id));
+  return [...existing, ...page.filter((t) => !ids.has(t.id))];
+}
+
+// Merge summaries that changed since the last refresh. Changed threads move to the top.
+// Loaded threads that changed elsewhere are marked unloaded so they are re-fetched when
+// opened; the active thread keeps its local messages because it may be mid-generation.
+export function mergeThreadSummaries(
+  existing: ChatThread[],
+  incoming: ChatThread[],
+  activeId: string | null,
+): ChatThread[] {
+  if (incoming.length === 0) return existing;
+  const byId = new Map(existing.map((t) => [t.id, t]));
+  const merged = incoming.map((summary) => {
+    const local = byId.get(summary.id);
+    if (!local) return summary;
+    const summaryFields = {
+      title: summary.title,
+      updatedAt: summary.updatedAt,
+      messageCount: summary.messageCount,
+      projectId: summary.projectId,
+    };
+    if (local.id === activeId || local.messagesLoaded === false) {
+      return { ...local, ...summaryFields };
+    }
+    return { ...local, ...summaryFields, messages: [], branches: undefined, messagesLoaded: false };
+  });
+  const incomingIds = new Set(incoming.map((t) => t.id));
+  return [...merged, ...existing.filter((t) => !incomingIds.has(t.id))];
+}
+
+// Fill in a thread's fetched messages. Anything sent before the fetch finished stays after them.
+export function withLoadedMessages(
+  thread: ChatThread,
+  loaded: Pick<ChatThread, 'messages' | 'branches'>,
+): ChatThread {
+  const loadedIds = new Set(loaded.messages.map((m) => m.id).filter(Boolean));
+  const pending = thread.messages.filter((m) => !m.id || !loadedIds.has(m.id));
+  return {
+    ...thread,
+    messages: [...loaded.messages, ...pending],
+    branches: loaded.branches,
+    messagesLoaded: true,
+  };
+}
+
+// ISO timestamp of the most recent activity we know about, for incremental refresh
+export function latestUpdate(threads: ChatThread[]): string | null {
+  const max = threads.reduce((acc, t) => Math.max(acc, t.updatedAt ?? 0), 0);
+  return max > 0 ? new Date(max).toISOString() : null;
+}
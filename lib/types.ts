@@ -3,6 +3,10 @@ export type ChatMessage = {
   content: string;
   modelId?: string; // which model produced this assistant message
   ts?: number;
+  // Conversation tree links (see lib/branches.ts). Older threads may not have them.
+  id?: string;
+  parentId?: string | null; // user: previous turn's prompt; assistant: its prompt
+  targetModelId?: string; // user: follow-up sent to this model only
   // Optional metadata for provider responses
   code?: number; // HTTP-like status from backend (e.g., 503)
   provider?: string; // e.g., 'openrouter', 'gemini'
@@ -19,17 +23,96 @@ export type ChatMessage = {
       tokens: number;
     }>;
   };
+  // Timing, usage and cost captured for assistant answers
+  metrics?: AnswerMetrics;
+  // Set on judge-model answers (modelId 'synthesis') that merge or critique a turn
+  synthesis?: SynthesisInfo;
+  // Files sent with a user prompt; kept in history so follow-ups still see them
+  attachments?: Attachment[];
+  // Project document excerpts the answer was given, numbered as the model cites them ([1], [2])
+  citations?: Citation[];
+  // How much of the model's context window the prompt took (see lib/contextBudget.ts)
+  context?: ContextUsage;
+  // Assistant answer still being generated in this tab; never saved
+  streaming?: boolean;
+};
+
+// A file attached to a prompt (see lib/attachments.ts)
+export type Attachment = {
+  id: string;
+  name: string;
+  mime: string;
+  size: number; // bytes of the original file
+  text?: string; // extracted text for documents and text files
+  truncated?: boolean; // `text` was cut to the size limit
+  pages?: { included: number; total: number }; // only the first pages of a PDF were read
+  dataUrl?: string; // images only, downscaled for sending to vision models
+  thumbnail?: string; // small image data URL for chips
+};
+
+// A project document excerpt retrieved for a prompt (see lib/rag)
+export type Citation = {
+  n: number; // number the model cites it by
+  documentId: string;
+  name: string; // document file name
+  page?: number; // PDF page the excerpt starts on
+  excerpt: string;
+};
+
+export type SynthesisMode = 'merge' | 'critique';
+
+export type SynthesisInfo = {
+  judgeModelId: string; // model that wrote the synthesis
+  mode: SynthesisMode;
+};
+
+// Token counts as reported by the provider's `usage` fields
+export type TokenUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+};
+
+export type AnswerMetrics = TokenUsage & {
+  ttftMs?: number; // time to first token (streaming providers only)
+  latencyMs?: number; // request start to last token
+  costUsd?: number; // from MODEL_PRICING; undefined when the model has no known price
+  estimated?: boolean; // token counts estimated from text length, not reported by the provider
+};
+
+// Prompt size of one answer against the model's context window
+export type ContextUsage = {
+  promptTokens: number; // estimated tokens sent, after trimming
+  contextWindow: number; // tokens the model accepts (prompt + completion)
+  summarizedTurns: number; // older turns replaced by a short summary to fit
 };
 
 export type AiModel = {
   id: string; // unique key in UI
   label: string; // display name
-  provider: 'gemini' | 'openrouter' | 'open-provider' | 'unstable' | 'mistral' | 'ollama';
+  provider:
+    | 'gemini'
+    | 'openrouter'
+    | 'open-provider'
+    | 'unstable'
+    | 'mistral'
+    | 'ollama'
+    | 'openai-compatible';
   model: string; // provider-specific model id
+  endpointId?: string; // openai-compatible models: the CustomEndpoint serving them
   free?: boolean;
   good?: boolean; // highlight as recommended
   category?: 'text' | 'image' | 'audio'; // model capability category
   tags?: string[]; // tags for categorization (e.g., 'finance', 'tech', 'health', 'new')
+  contextWindow?: number; // tokens (prompt + completion); unset uses the provider default
+};
+
+// Sampling parameters sent with every generation request. Unset fields fall back to
+// each route's own defaults, so an empty object behaves exactly like before.
+export type GenerationParams = {
+  temperature?: number; // 0..2
+  maxTokens?: number; // upper bound on completion tokens
+  topP?: number; // 0..1
+  stop?: string[]; // up to 4 stop sequences
 };
 
 export type ApiKeys = {
@@ -51,6 +134,12 @@ export type ChatThread = {
   projectId?: string;
   // Track which page type this thread was created on
   pageType?: 'home' | 'compare';
+  // Messages on branches other than the active one; `messages` is always the active path
+  branches?: ChatMessage[];
+  // Set for threads loaded as summaries from the database (see fetchThreadSummaries)
+  updatedAt?: number;
+  messageCount?: number;
+  messagesLoaded?: boolean; // false until the thread's messages have been fetched
 };
 
 export type Contributor = {
@@ -0,0 +1,28 @@
+'use client';
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from '@/lib/useLocalStorage';
+import {
+  computeEloRatings,
+  upsertVote,
+  type BlindVote,
+  type BlindVoteStore,
+} from '@/lib/blindVotes';
+
+export const BLIND_VOTES_STORAGE_KEY = 'ai-fiesta:blind-votes';
+
+// Votes are kept in localStorage rather than on the thread so reloading threads from
+// Supabase does not drop them.
+export function useBlindVotes() {
+  const [store, setStore] = useLocalStorage<BlindVoteStore>(BLIND_VOTES_STORAGE_KEY, {});
+
+  const castVote = useCallback(
+    (vote: BlindVote) => setStore((prev) => upsertVote(prev || {}, vote)),
+    [setStore],
+  );
+
+  const clearVotes = useCallback(() => setStore({}), [setStore]);
+
+  const leaderboard = useMemo(() => computeEloRatings(Object.values(store || {}).flat()), [store]);
+
+  return { votesByThread: store || {}, castVote, clearVotes, leaderboard };
+}
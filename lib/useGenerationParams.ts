@@ -0,0 +1,14 @@
+'use client';
+import { useLocalStorage } from '@/lib/useLocalStorage';
+import { EMPTY_GENERATION_PARAMS_STORE } from '@/lib/generationParams';
+import type { GenerationParamsStore } from '@/lib/generationParams';
+
+const STORAGE_KEY = 'ai-fiesta:generation-params';
+
+export function useGenerationParams() {
+  const [store, setStore] = useLocalStorage<GenerationParamsStore>(
+    STORAGE_KEY,
+    EMPTY_GENERATION_PARAMS_STORE,
+  );
+  return [store, setStore] as const;
+}
@@ -3,7 +3,30 @@ import CryptoJS from 'crypto-js';
 
 const secretKey = process.env.NEXT_PUBLIC_ENCRYPTION_KEY || 'default-secret-key';
 
-export function useLocalStorage<T>(key: string, initial: T) {
+// Read a value written by useLocalStorage outside of React (e.g. for backups). Hook instances
+// are not notified, so callers that write should reload the page afterwards.
+export function readStoredValue<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return fallback;
+    try {
+      const decrypted = JSON.parse(CryptoJS.AES.decrypt(raw, secretKey).toString(CryptoJS.enc.Utf8));
+      if (decrypted === '') throw new Error('Decryption failed');
+      return decrypted;
+    } catch {
+      return JSON.parse(raw);
+    }
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStoredValue<T>(key: string, value: T): void {
+  window.localStorage.setItem(key, CryptoJS.AES.encrypt(JSON.stringify(value), secretKey).toString());
+}
+
+// `persist` maps the value to what is written, e.g. to leave out bulky fields
+export function useLocalStorage<T>(key: string, initial: T, persist?: (value: T) => unknown) {
   const [value, setValue] = useState<T>(initial);
   const [isHydrated, setIsHydrated] = useState(false);
 
@@ -40,13 +63,14 @@ export function useLocalStorage<T>(key: string, initial: T) {
     if (isHydrated) {
       try {
         // Encrypt the data before storing it
-        const encryptedData = CryptoJS.AES.encrypt(JSON.stringify(value), secretKey).toString();
+        const stored = persist ? persist(value) : value;
+        const encryptedData = CryptoJS.AES.encrypt(JSON.stringify(stored), secretKey).toString();
         window.localStorage.setItem(key, encryptedData);
       } catch (error) {
         console.warn(`Failed to save to localStorage item "${key}":`, error);
       }
     }
-  }, [key, value, isHydrated]);
+  }, [key, value, isHydrated, persist]);
 
   return [value, setValue] as const;
 }
@@ -0,0 +1,185 @@
+'use client';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { ChatThread } from '@/lib/types';
+import { searchMessages } from '@/lib/db';
+import { offlineManager } from '@/lib/offline/manager';
+import { isOffline } from '@/lib/offline/pendingGenerations';
+import {
+  buildSearchIndex,
+  parseSearchResultParams,
+  rankHits,
+  searchFacets,
+  searchIndex,
+  threadStubFromHit,
+  turnIndexOf,
+  type MessageSearchFilters,
+  type MessageSearchHit,
+  type MessageSearchResult,
+  type SearchFocusTarget,
+} from '@/lib/search';
+
+type Options = {
+  userId?: string;
+  // Threads already in memory; merged with the offline cache for local search
+  threads: ChatThread[];
+  query: string;
+  filters?: MessageSearchFilters;
+  minLength?: number;
+  debounceMs?: number;
+};
+
+// Threads with loaded messages win over cached copies of the same thread
+function mergeForIndex(threads: ChatThread[], cached: ChatThread[]): ChatThread[] {
+  const byId = new Map<string, ChatThread>();
+  for (const t of cached) byId.set(t.id, t);
+  for (const t of threads) {
+    if (t.messagesLoaded !== false && (t.messages?.length ?? 0) > 0) byId.set(t.id, t);
+    else if (!byId.has(t.id)) byId.set(t.id, t);
+  }
+  return [...byId.values()];
+}
+
+// Searches message content in Supabase when online and signed in, and falls back to an
+// inverted index over in-memory and offline-cached threads otherwise (or if the query fails).
+export function useMessageSearch({
+  userId,
+  threads,
+  query,
+  filters = {},
+  minLength = 2,
+  debounceMs = 250,
+}: Options) {
+  const [cached, setCached] = useState<ChatThread[]>([]);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [source, setSource] = useState<'server' | 'local'>('local');
+  const [loading, setLoading] = useState(false);
+  const active = query.trim().length >= minLength;
+  const { modelId, provider, projectId, from, to } = filters;
+
+  // Offline cache is read once per search session
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    offlineManager
+      .getCachedConversations()
+      .then((list) => {
+        if (!cancelled) setCached(list);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [active]);
+
+  const index = useMemo(() => buildSearchIndex(mergeForIndex(threads, cached)), [threads, cached]);
+  const facets = useMemo(() => searchFacets(index), [index]);
+  // Read through a ref so streaming updates to `threads` don't re-run a server search
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  useEffect(() => {
+    if (!active) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const f: MessageSearchFilters = { modelId, provider, projectId, from, to };
+    const searchLocally = () => {
+      setSource('local');
+      setResults(searchIndex(indexRef.current, query, f));
+    };
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      if (userId && !isOffline()) {
+        try {
+          const hits = await searchMessages(userId, query, f);
+          if (cancelled) return;
+          setSource('server');
+          setResults(rankHits(hits, query));
+        } catch (e) {
+          console.warn('Message search failed, using local index:', e);
+          if (!cancelled) searchLocally();
+        }
+      } else {
+        searchLocally();
+      }
+      if (!cancelled) setLoading(false);
+    }, debounceMs);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [active, query, userId, modelId, provider, projectId, from, to, debounceMs]);
+
+  return { active, results, source, loading, facets };
+}
+
+type FocusOptions = {
+  threads: ChatThread[];
+  setThreads: Dispatch<SetStateAction<ChatThread[]>>;
+  activeId: string | null;
+  setActiveId: (id: string | null) => void;
+  pageType: 'home' | 'compare';
+};
+
+type PendingFocus = { target: SearchFocusTarget & Partial<MessageSearchHit>; at: number };
+
+// Give up on a result whose thread never loads, so it doesn't keep taking over the selection
+const FOCUS_TIMEOUT_MS = 10_000;
+
+// Opens a search result: makes its thread active (adding a placeholder if it isn't loaded yet)
+// and, once the messages are in, reports the turn to scroll to. Results linked from another
+// page arrive as ?thread=…&message=… (see searchResultHref).
+export function useSearchResultFocus({
+  threads,
+  setThreads,
+  activeId,
+  setActiveId,
+  pageType,
+}: FocusOptions) {
+  const [pending, setPending] = useState<PendingFocus | null>(null);
+  const [focusTurn, setFocusTurn] = useState<{ index: number; key: number } | null>(null);
+
+  const openResult = useCallback((hit: SearchFocusTarget & Partial<MessageSearchHit>) => {
+    setPending({ target: hit, at: Date.now() });
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const target = parseSearchResultParams(window.location.search);
+    if (!target) return;
+    setPending({ target, at: Date.now() });
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // Thread pages and cached state can replace `threads` while the result is opening,
+  // so the placeholder and selection are re-applied until the messages have loaded
+  useEffect(() => {
+    if (!pending) return;
+    if (Date.now() - pending.at > FOCUS_TIMEOUT_MS) {
+      setPending(null);
+      return;
+    }
+    const { target } = pending;
+    const thread = threads.find((t) => t.id === target.threadId);
+    if (!thread) {
+      setThreads((prev) =>
+        prev.some((t) => t.id === target.threadId)
+          ? prev
+          : [threadStubFromHit({ pageType, ...target }), ...prev],
+      );
+      return;
+    }
+    if (activeId !== target.threadId) {
+      setActiveId(target.threadId);
+      return;
+    }
+    if (thread.messagesLoaded === false) return;
+    setFocusTurn({ index: turnIndexOf(thread.messages, target), key: Date.now() });
+    setPending(null);
+  }, [pending, threads, activeId, setThreads, setActiveId, pageType]);
+
+  return { openResult, focusTurn };
+}
@@ -0,0 +1,90 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  deleteOllamaModel,
+  listOllamaModels,
+  pullOllamaModel,
+  type OllamaModelInfo,
+  type OllamaPullProgress,
+} from './ollama';
+
+export type OllamaPull = { name: string; progress?: OllamaPullProgress };
+
+// Installed models of the Ollama instance at `baseUrl`, plus pulling and deleting them.
+// Nothing is fetched until a base URL is set in Settings.
+export function useOllamaModels(baseUrl: string | undefined) {
+  const [models, setModels] = useState<OllamaModelInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pulling, setPulling] = useState<OllamaPull | null>(null);
+  const pullController = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!baseUrl) {
+      setModels([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      setModels(await listOllamaModels(baseUrl));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not list Ollama models.');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Abort a running download when the component using it unmounts
+  useEffect(() => () => pullController.current?.abort(), []);
+
+  const pull = useCallback(
+    async (name: string): Promise<boolean> => {
+      const model = name.trim();
+      if (!model || pullController.current) return false;
+      const controller = new AbortController();
+      pullController.current = controller;
+      setError(null);
+      setPulling({ name: model });
+      try {
+        await pullOllamaModel(model, (progress) => setPulling({ name: model, progress }), {
+          baseUrl,
+          signal: controller.signal,
+        });
+        await refresh();
+        return true;
+      } catch (e) {
+        if (!controller.signal.aborted) {
+          setError(e instanceof Error ? e.message : `Could not pull ${model}.`);
+        }
+        return false;
+      } finally {
+        pullController.current = null;
+        setPulling(null);
+      }
+    },
+    [baseUrl, refresh],
+  );
+
+  const cancelPull = useCallback(() => pullController.current?.abort(), []);
+
+  const remove = useCallback(
+    async (name: string): Promise<boolean> => {
+      try {
+        await deleteOllamaModel(name, baseUrl);
+        setModels((prev) => prev.filter((m) => m.name !== name));
+        return true;
+      } catch (e) {
+        setError(e instanceof Error ? e.message : `Could not delete ${name}.`);
+        return false;
+      }
+    },
+    [baseUrl],
+  );
+
+  return { models, loading, error, pulling, refresh, pull, cancelPull, remove };
+}
@@ -1,8 +1,9 @@
 'use client';
 import { useState, useEffect } from 'react';
 import { Project } from '@/lib/projects';
+import { projectDocuments } from '@/lib/rag';
 
-const STORAGE_KEY = 'ai-fiesta:projects';
+export const PROJECTS_STORAGE_KEY = 'ai-fiesta:projects';
 const ACTIVE_PROJECT_KEY = 'ai-fiesta:active-project';
 
 export function useProjects() {
@@ -13,7 +14,7 @@ export function useProjects() {
   // Load projects from localStorage on mount
   useEffect(() => {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY);
+      const saved = localStorage.getItem(PROJECTS_STORAGE_KEY);
       const activeId = localStorage.getItem(ACTIVE_PROJECT_KEY);
 
       if (saved) {
@@ -35,7 +36,7 @@ export function useProjects() {
   useEffect(() => {
     if (isLoaded) {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+        localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
       } catch (error) {
         console.warn('Failed to save projects to localStorage:', error);
       }
@@ -67,6 +68,9 @@ export function useProjects() {
 
   const deleteProject = (id: string) => {
     setProjects((prev) => prev.filter((p) => p.id !== id));
+    projectDocuments
+      .deleteProject(id)
+      .catch((error) => console.warn('Failed to delete project documents:', error));
     // If deleting the active project, clear active selection
     if (activeProjectId === id) {
       setActiveProjectId(null);
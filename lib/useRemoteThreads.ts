@@ -0,0 +1,138 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { ChatThread } from '@/lib/types';
+import {
+  fetchThreadMessages,
+  fetchThreadSummaries,
+  fetchThreadsUpdatedSince,
+  type ThreadSummaryFilter,
+} from '@/lib/db';
+import {
+  appendThreadPage,
+  latestUpdate,
+  mergeThreadSummaries,
+  withLoadedMessages,
+} from '@/lib/threadSync';
+
+type Options = {
+  userId?: string;
+  // false skips the database entirely (e.g. guest mode)
+  enabled?: boolean;
+  filter: ThreadSummaryFilter;
+  threads: ChatThread[];
+  setThreads: Dispatch<SetStateAction<ChatThread[]>>;
+  activeId: string | null;
+  setActiveId: Dispatch<SetStateAction<string | null>>;
+  pageSize?: number;
+};
+
+// Loads thread summaries page by page, fetches a thread's messages when it becomes active,
+// and pulls threads changed elsewhere whenever the window regains focus.
+export function useRemoteThreads({
+  userId,
+  enabled = true,
+  filter,
+  threads,
+  setThreads,
+  activeId,
+  setActiveId,
+  pageSize = 50,
+}: Options) {
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingIds = useRef(new Set<string>());
+  const latest = useRef({ threads, activeId });
+  latest.current = { threads, activeId };
+  const { pageType, projectId } = filter;
+
+  // First page; resets whenever the user or the filter changes
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    const load = async () => {
+      if (!userId) {
+        setThreads([]);
+        setActiveId(null);
+        setCursor(null);
+        return;
+      }
+      try {
+        const page = await fetchThreadSummaries(userId, { pageType, projectId, limit: pageSize });
+        if (cancelled) return;
+        setThreads(page.threads);
+        setCursor(page.nextCursor);
+        setActiveId((prev) =>
+          prev && page.threads.some((t) => t.id === prev) ? prev : page.threads[0]?.id || null,
+        );
+      } catch (e) {
+        console.warn('Failed to load threads from Supabase:', e);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, enabled, pageType, projectId, pageSize, setThreads, setActiveId]);
+
+  // Fetch messages for the active thread the first time it is opened
+  useEffect(() => {
+    if (!enabled || !userId || !activeId) return;
+    const active = threads.find((t) => t.id === activeId);
+    if (!active || active.messagesLoaded !== false || loadingIds.current.has(activeId)) return;
+    loadingIds.current.add(activeId);
+    fetchThreadMessages(userId, activeId)
+      .then((loaded) =>
+        setThreads((prev) =>
+          prev.map((t) => (t.id === activeId ? withLoadedMessages(t, loaded) : t)),
+        ),
+      )
+      .catch((e) => console.warn('Failed to load thread messages:', e))
+      .finally(() => loadingIds.current.delete(activeId));
+  }, [enabled, userId, activeId, threads, setThreads]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || !userId || !cursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchThreadSummaries(userId, {
+        pageType,
+        projectId,
+        limit: pageSize,
+        cursor,
+      });
+      setThreads((prev) => appendThreadPage(prev, page.threads));
+      setCursor(page.nextCursor);
+    } catch (e) {
+      console.warn('Failed to load more threads:', e);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [enabled, userId, cursor, loadingMore, pageType, projectId, pageSize, setThreads]);
+
+  const refresh = useCallback(async () => {
+    if (!enabled || !userId) return;
+    const since = latestUpdate(latest.current.threads);
+    if (!since) return;
+    try {
+      const changed = await fetchThreadsUpdatedSince(userId, since, { pageType, projectId });
+      setThreads((prev) => mergeThreadSummaries(prev, changed, latest.current.activeId));
+    } catch (e) {
+      console.warn('Failed to refresh threads:', e);
+    }
+  }, [enabled, userId, pageType, projectId, setThreads]);
+
+  useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+    window.addEventListener('focus', refresh);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.removeEventListener('focus', refresh);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [refresh]);
+
+  return { hasMore: !!cursor, loadMore, loadingMore, refresh };
+}
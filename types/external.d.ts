@@ -3,8 +3,17 @@ declare module 'pdf-parse' {
   type Input = Buffer | Uint8Array | ArrayBuffer | Readable;
   interface PdfParseResult {
     text: string;
+    numpages: number;
   }
-  const pdfParse: (data: Input) => Promise<PdfParseResult>;
+  interface PdfParseOptions {
+    // Stop after this many pages (0 = all)
+    max?: number;
+    // Called for each page in order; its return value is appended to `text`
+    pagerender?: (page: {
+      getTextContent: () => Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+    }) => Promise<string>;
+  }
+  const pdfParse: (data: Input, options?: PdfParseOptions) => Promise<PdfParseResult>;
   export default pdfParse;
 }
 